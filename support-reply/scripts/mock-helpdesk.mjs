@@ -0,0 +1,65 @@
+// Local stand-in for a helpdesk API that records internal notes posted by the webhook route.
+//
+// Usage:
+//   node scripts/mock-helpdesk.mjs [--port 4010]
+//
+// Set an integration's outbound URL to http://localhost:4010, then list received notes with
+//   curl http://localhost:4010/notes
+import { createServer } from 'node:http';
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 4010;
+
+// Note endpoints of each adapter: generic, Zendesk, Freshdesk
+const ROUTES = [
+  { method: 'POST', pattern: /^\/tickets\/([\w-]+)\/notes$/, provider: 'generic' },
+  { method: 'PUT', pattern: /^\/api\/v2\/tickets\/([\w-]+)\.json$/, provider: 'zendesk' },
+  { method: 'POST', pattern: /^\/api\/v2\/tickets\/([\w-]+)\/notes$/, provider: 'freshdesk' },
+];
+
+const notes = [];
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url, `http://localhost:${port}`).pathname;
+
+  if (req.method === 'GET' && path === '/notes') {
+    return send(res, 200, { notes });
+  }
+
+  const route = ROUTES.find(({ method, pattern }) => method === req.method && pattern.test(path));
+  if (!route) {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+
+  let body;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return send(res, 400, { error: 'Invalid JSON' });
+  }
+
+  const note = {
+    provider: route.provider,
+    ticketId: path.match(route.pattern)[1],
+    authorization: req.headers.authorization || null,
+    body,
+    receivedAt: new Date().toISOString(),
+  };
+  notes.push(note);
+  console.log(`${note.provider} note on ticket ${note.ticketId}:\n${JSON.stringify(body, null, 2)}`);
+
+  send(res, route.method === 'PUT' ? 200 : 201, { ok: true });
+});
+
+server.listen(port, () => {
+  console.log(`Mock helpdesk listening on http://localhost:${port}`);
+});
@@ -0,0 +1,95 @@
+// Local stand-in for the Stripe meter events API, for checking overage reporting.
+//
+// Usage:
+//   node scripts/mock-stripe.mjs [--port 12111] [--fail-first 2]
+//
+// Run the app with STRIPE_API_BASE=http://localhost:12111 and any STRIPE_SECRET_KEY, trigger
+// POST /api/usage/report, then list what was received with
+//   curl http://localhost:12111/meter-events
+// --fail-first N answers the first N meter event requests with a 500 to exercise retries.
+// Like Stripe, an event whose identifier (or Idempotency-Key) was already seen is not counted again.
+import { createServer } from 'node:http';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? Number(args[index + 1]) : fallback;
+};
+const port = option('--port', 12111);
+let failuresLeft = option('--fail-first', 0);
+
+const events = [];
+const seen = new Map();
+let duplicates = 0;
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Total value per customer, as the meter would aggregate it
+function totals() {
+  const byCustomer = {};
+  for (const event of events) {
+    const customer = event.payload.stripe_customer_id;
+    byCustomer[customer] = (byCustomer[customer] || 0) + Number(event.payload.value);
+  }
+  return byCustomer;
+}
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url, `http://localhost:${port}`).pathname;
+
+  if (req.method === 'GET' && path === '/meter-events') {
+    return send(res, 200, { events, totals: totals(), duplicates });
+  }
+
+  if (req.method !== 'POST' || path !== '/v1/billing/meter_events') {
+    return send(res, 404, { error: { type: 'invalid_request_error', message: `Unrecognized request URL (${req.method}: ${path})` } });
+  }
+
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log('Failing meter event request on purpose');
+    return send(res, 500, { error: { type: 'api_error', message: 'Simulated failure' } });
+  }
+
+  // Form-encoded like the real API: payload[stripe_customer_id]=...&payload[value]=...
+  const form = new URLSearchParams(raw);
+  const payload = {};
+  for (const [key, value] of form) {
+    const match = key.match(/^payload\[(.+)\]$/);
+    if (match) payload[match[1]] = value;
+  }
+
+  const event = {
+    object: 'billing.meter_event',
+    event_name: form.get('event_name'),
+    identifier: form.get('identifier') || crypto.randomUUID(),
+    timestamp: Number(form.get('timestamp')) || Math.floor(Date.now() / 1000),
+    payload,
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+  };
+
+  const key = req.headers['idempotency-key'] || event.identifier;
+  if (seen.has(key) || seen.has(event.identifier)) {
+    duplicates++;
+    console.log(`Duplicate meter event ${event.identifier} ignored`);
+    return send(res, 200, seen.get(key) || seen.get(event.identifier));
+  }
+
+  seen.set(key, event);
+  seen.set(event.identifier, event);
+  events.push(event);
+  console.log(`Meter event ${event.event_name}: ${payload.value} for ${payload.stripe_customer_id} (${event.identifier})`);
+
+  send(res, 200, event);
+});
+
+server.listen(port, () => {
+  console.log(`Mock Stripe listening on http://localhost:${port}`);
+});
@@ -0,0 +1,55 @@
+// Signs a helpdesk ticket fixture the way each provider does and posts it to the webhook route.
+//
+// Usage:
+//   HELPDESK_SECRET=whs_... INTEGRATION_ID=<uuid> \
+//     node scripts/send-helpdesk-fixture.mjs zendesk [--fresh] [--url http://localhost:3000/api/integrations/helpdesk]
+//
+// Fixtures: generic, zendesk, freshdesk. --fresh changes the ticket text so it is not
+// treated as a retry; without it, re-sending exercises duplicate handling.
+import { readFile } from 'node:fs/promises';
+import { createHmac, randomUUID } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const name = args.find((arg) => !arg.startsWith('--'));
+const urlIndex = args.indexOf('--url');
+const url = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000/api/integrations/helpdesk';
+const secret = process.env.HELPDESK_SECRET;
+const integrationId = process.env.INTEGRATION_ID;
+
+if (!name || !secret || !integrationId) {
+  console.error('Usage: HELPDESK_SECRET=... INTEGRATION_ID=... node scripts/send-helpdesk-fixture.mjs <generic|zendesk|freshdesk> [--fresh] [--url <url>]');
+  process.exit(1);
+}
+
+const fixture = JSON.parse(await readFile(new URL(`./fixtures/helpdesk/${name}.json`, import.meta.url), 'utf8'));
+
+if (args.includes('--fresh')) {
+  const nonce = ` (ref ${randomUUID().slice(0, 8)})`;
+  if (fixture.ticket) fixture.ticket.subject += nonce;
+  if (fixture.freshdesk_webhook) fixture.freshdesk_webhook.ticket_subject += nonce;
+}
+
+const payload = JSON.stringify(fixture);
+const headers = { 'Content-Type': 'application/json' };
+
+switch (name) {
+  case 'generic': {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers['X-Timestamp'] = timestamp;
+    headers['X-Signature'] = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')}`;
+    break;
+  }
+  case 'zendesk': {
+    const timestamp = new Date().toISOString();
+    headers['X-Zendesk-Webhook-Signature-Timestamp'] = timestamp;
+    headers['X-Zendesk-Webhook-Signature'] = createHmac('sha256', secret).update(`${timestamp}${payload}`).digest('base64');
+    break;
+  }
+  default:
+    // Freshdesk sends the secret as a custom header
+    headers['X-Webhook-Secret'] = secret;
+}
+
+const response = await fetch(`${url}?integration=${integrationId}`, { method: 'POST', headers, body: payload });
+
+console.log(`${name} -> ${response.status}`, await response.text());
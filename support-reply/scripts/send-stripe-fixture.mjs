@@ -0,0 +1,42 @@
+// Signs a Stripe event fixture with STRIPE_WEBHOOK_SECRET and posts it to the webhook route.
+//
+// Usage:
+//   STRIPE_WEBHOOK_SECRET=whsec_... FIXTURE_USER_ID=<uuid> \
+//     node scripts/send-stripe-fixture.mjs checkout.session.completed [--fresh] [--url http://localhost:3000/api/stripe-webhook]
+//
+// --fresh gives the event a new ID; without it, re-sending exercises duplicate handling.
+import { readFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import Stripe from 'stripe';
+
+const args = process.argv.slice(2);
+const name = args.find((arg) => !arg.startsWith('--'));
+const urlIndex = args.indexOf('--url');
+const url = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000/api/stripe-webhook';
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!name || !secret) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=... node scripts/send-stripe-fixture.mjs <event-type> [--fresh] [--url <url>]');
+  process.exit(1);
+}
+
+const raw = await readFile(new URL(`./fixtures/stripe/${name}.json`, import.meta.url), 'utf8');
+const event = JSON.parse(raw.replaceAll('__USER_ID__', process.env.FIXTURE_USER_ID || ''));
+
+if (args.includes('--fresh')) {
+  event.id = `evt_fixture_${randomUUID().replaceAll('-', '')}`;
+}
+
+const payload = JSON.stringify(event);
+const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'stripe-signature': signature,
+  },
+  body: payload,
+});
+
+console.log(`${event.type} (${event.id}) -> ${response.status}`, await response.text());
@@ -0,0 +1,333 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { User } from '@supabase/supabase-js';
+import { createClientComponentClient } from '@/lib/supabase';
+import { isEntitlementCurrent, isPromoProCurrent } from '@/lib/billing';
+import { isPlanId, PLANS, resolvePlan } from '@/lib/plans';
+import UsageMeter, { MonthlyUsage } from '@/components/UsageMeter';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+interface ProfileBilling {
+  pro: boolean;
+  plan: string | null;
+  stripe_customer_id: string | null;
+  subscription_status: string | null;
+  cancel_at: string | null;
+  current_period_end: string | null;
+  pro_until: string | null;
+  bonus_generations: number | null;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+// Billing status in one line, from the same columns as the Pro badge on the home page
+function describeBilling(profile: ProfileBilling | null): string {
+  if (!profile) return 'Free plan';
+  if (isEntitlementCurrent(profile.pro, profile.cancel_at)) {
+    if (profile.cancel_at) return `Cancelled · active until ${formatDate(profile.cancel_at)}`;
+    if (profile.subscription_status === 'past_due') return 'Payment past due · update your card in billing';
+    return profile.current_period_end ? `Renews on ${formatDate(profile.current_period_end)}` : 'Active subscription';
+  }
+  if (isPromoProCurrent(profile.pro_until)) return `Pro from a promo code · until ${formatDate(profile.pro_until!)}`;
+  return 'Free plan';
+}
+
+// Plan, usage and billing status, sign-in details, data export and account deletion
+export default function AccountPage() {
+  const supabase = createClientComponentClient();
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [profile, setProfile] = useState<ProfileBilling | null>(null);
+  const [planName, setPlanName] = useState<string>(PLANS.free.name);
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [confirmDeleteEmail, setConfirmDeleteEmail] = useState('');
+  const [busyAction, setBusyAction] = useState<'billing' | 'name' | 'email' | 'password' | 'delete' | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      setUser(user);
+      setEmail(user?.email || '');
+      setDisplayName(user?.user_metadata?.full_name || user?.user_metadata?.name || '');
+
+      if (user) {
+        const { data } = await supabase
+          .from('profiles')
+          .select('pro, plan, stripe_customer_id, subscription_status, cancel_at, current_period_end, pro_until, bonus_generations')
+          .eq('user_id', user.id)
+          .maybeSingle();
+        const billing = data as ProfileBilling | null;
+        setProfile(billing);
+
+        // The effective plan, which for team members comes from the workspace
+        const response = await fetch('/api/usage', { credentials: 'include' });
+        const usage: MonthlyUsage | null = response.ok ? await response.json() : null;
+        if (usage && isPlanId(usage.plan)) {
+          setPlanName(PLANS[usage.plan].name);
+        } else if (billing) {
+          const subscribed = isEntitlementCurrent(billing.pro, billing.cancel_at);
+          setPlanName(resolvePlan(subscribed || isPromoProCurrent(billing.pro_until), subscribed ? billing.plan : null).name);
+        }
+      }
+
+      setIsLoading(false);
+    };
+
+    load();
+  }, [supabase]);
+
+  const run = async (action: NonNullable<typeof busyAction>, task: () => Promise<void>) => {
+    setBusyAction(action);
+    setNotice(null);
+    setError(null);
+
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleManageBilling = () => run('billing', async () => {
+    const response = await fetch('/api/billing-portal', { method: 'POST', credentials: 'include' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.message || 'Failed to open billing portal');
+    window.location.href = data.url;
+  });
+
+  // Fills {{agent_name}} in drafts
+  const handleChangeName = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    run('name', async () => {
+      const { error } = await supabase.auth.updateUser({ data: { full_name: displayName.trim() } });
+      if (error) throw error;
+      setNotice('Your display name has been updated.');
+    });
+  };
+
+  // Supabase emails a confirmation link to the new address; the change applies once it is opened
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextEmail = email.trim();
+    if (!nextEmail || nextEmail.toLowerCase() === user?.email?.toLowerCase()) return;
+
+    run('email', async () => {
+      const { error } = await supabase.auth.updateUser(
+        { email: nextEmail },
+        { emailRedirectTo: `${window.location.origin}/auth/callback?next=/account` }
+      );
+      if (error) throw error;
+      setNotice(`Check ${nextEmail} for a link to confirm the change.`);
+    });
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    run('password', async () => {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      setPassword('');
+      setConfirmPassword('');
+      setNotice('Your password has been updated.');
+    });
+  };
+
+  const handleDelete = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Delete your account? Your subscription is cancelled and all your data is removed. This cannot be undone.')) return;
+
+    run('delete', async () => {
+      const response = await fetch('/api/account', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ confirmEmail: confirmDeleteEmail }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete account');
+
+      await supabase.auth.signOut();
+      window.location.href = '/';
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+  const buttonClass = 'bg-orange-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Account</h1>
+          <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6">
+            <p className="text-green-800 text-sm">{notice}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center text-gray-600 text-sm py-6">
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-orange-600 border-t-transparent mr-2"></div>
+            Loading...
+          </div>
+        ) : !user ? (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-600">
+            Sign in to manage your account.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Plan and usage</h2>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-gray-900 font-medium">{planName}</p>
+                  <p className="text-sm text-gray-600">{describeBilling(profile)}</p>
+                  {Boolean(profile?.bonus_generations) && (
+                    <p className="text-sm text-gray-600">{Math.floor(profile!.bonus_generations!)} bonus generations left</p>
+                  )}
+                </div>
+                {profile?.stripe_customer_id && (
+                  <button onClick={handleManageBilling} disabled={busyAction !== null} className={buttonClass}>
+                    {busyAction === 'billing' ? 'Opening...' : 'Manage billing'}
+                  </button>
+                )}
+              </div>
+              <UsageMeter />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Display name</h2>
+              <p className="text-sm text-gray-600 mb-4">Signs your replies where a draft says {'{{agent_name}}'}.</p>
+              <form onSubmit={handleChangeName} className="flex gap-2">
+                <input
+                  type="text"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  aria-label="Display name"
+                  maxLength={100}
+                  className={inputClass}
+                />
+                <button type="submit" disabled={busyAction !== null} className={`${buttonClass} whitespace-nowrap`}>
+                  {busyAction === 'name' ? 'Saving...' : 'Save name'}
+                </button>
+              </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Email</h2>
+              <form onSubmit={handleChangeEmail} className="flex gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  aria-label="Email"
+                  className={inputClass}
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={busyAction !== null || email.trim().toLowerCase() === user.email?.toLowerCase()}
+                  className={`${buttonClass} whitespace-nowrap`}
+                >
+                  {busyAction === 'email' ? 'Sending...' : 'Change email'}
+                </button>
+              </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Password</h2>
+              <form onSubmit={handleChangePassword} className="space-y-3">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="New password"
+                  autoComplete="new-password"
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Confirm new password"
+                  autoComplete="new-password"
+                  className={inputClass}
+                  required
+                />
+                <button type="submit" disabled={busyAction !== null} className={buttonClass}>
+                  {busyAction === 'password' ? 'Saving...' : 'Update password'}
+                </button>
+              </form>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Your data</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Download everything stored about you as JSON: profile, quota history, saved replies, history, voices, knowledge base and integrations.
+              </p>
+              <a href="/api/account/export" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+                ⬇ Download my data
+              </a>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-8 border border-red-200">
+              <h2 className="text-lg font-semibold text-red-700 mb-2">Delete account</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Cancels your subscription immediately and permanently deletes your account and all its data.
+                This month&apos;s usage and redeemed promo codes stay tied to a hash of your email, so signing up again doesn&apos;t reset them.
+                Type <span className="font-medium">{user.email}</span> to confirm.
+              </p>
+              <form onSubmit={handleDelete} className="flex gap-2">
+                <input
+                  type="email"
+                  value={confirmDeleteEmail}
+                  onChange={(e) => setConfirmDeleteEmail(e.target.value)}
+                  aria-label="Confirm email"
+                  className={inputClass}
+                />
+                <button
+                  type="submit"
+                  disabled={busyAction !== null || confirmDeleteEmail.trim().toLowerCase() !== user.email?.toLowerCase()}
+                  className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                >
+                  {busyAction === 'delete' ? 'Deleting...' : 'Delete account'}
+                </button>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { ApiKey } from '@/lib/api-keys';
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<ApiKey[] | null>(null);
+  const [name, setName] = useState('');
+  // The full key is only returned on creation
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/api-keys', { credentials: 'include' });
+      if (response.status === 401) {
+        setError('Sign in to manage API keys.');
+        return;
+      }
+      const data = await readJson<{ keys: ApiKey[] }>(response);
+      setKeys(data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await readJson<{ key: string }>(await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name }),
+      }));
+      setCreatedKey(data.key);
+      setName('');
+    });
+  };
+
+  const revokeKey = (key: ApiKey) => {
+    if (!confirm(`Revoke ${key.name}? Requests using it will be rejected immediately.`)) return;
+
+    run(async () => {
+      await readJson(await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE', credentials: 'include' }));
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">API Keys</h1>
+          <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {createdKey && (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl p-4 mb-6 text-sm">
+            <p className="text-gray-700 mb-3">Copy your new key now. It won&apos;t be shown again.</p>
+            <div className="flex gap-2 mb-2">
+              <input readOnly value={createdKey} className="flex-1 px-2 py-1 border border-gray-200 rounded bg-white text-xs font-mono" />
+              <button
+                onClick={() => navigator.clipboard.writeText(createdKey)}
+                className="px-3 py-1 text-xs font-medium text-orange-600 hover:text-orange-700"
+              >
+                Copy
+              </button>
+            </div>
+            <button onClick={() => setCreatedKey(null)} className="text-xs text-gray-500 hover:text-gray-700">
+              Done
+            </button>
+          </div>
+        )}
+
+        {keys && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <h2 className="font-semibold text-gray-900 mb-1">Your keys</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Send <code className="text-xs bg-gray-100 px-1 rounded">Authorization: Bearer &lt;key&gt;</code> to{' '}
+                <code className="text-xs bg-gray-100 px-1 rounded">/api/v1</code>. Usage counts against your daily quota.{' '}
+                <a href="/api/v1/openapi.json" className="text-orange-600 hover:text-orange-700 underline">OpenAPI document</a>
+              </p>
+              {keys.length === 0 ? (
+                <p className="text-sm text-gray-500">No API keys yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {keys.map((key) => (
+                    <li key={key.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                      <div>
+                        <p className={key.revoked_at ? 'text-gray-400 line-through' : 'font-medium text-gray-900'}>{key.name}</p>
+                        <p className="text-xs text-gray-500">
+                          <span className="font-mono">{key.prefix}…</span>
+                          {' · created '}{new Date(key.created_at).toLocaleDateString()}
+                          {' · '}{key.last_used_at ? `last used ${new Date(key.last_used_at).toLocaleString()}` : 'never used'}
+                        </p>
+                      </div>
+                      {key.revoked_at ? (
+                        <span className="text-xs text-gray-500">Revoked {new Date(key.revoked_at).toLocaleDateString()}</span>
+                      ) : (
+                        <button onClick={() => revokeKey(key)} className="text-xs text-gray-500 hover:text-red-600">
+                          Revoke
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <h2 className="font-semibold text-gray-900 mb-4">Create a key</h2>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Internal triage bot"
+                  maxLength={60}
+                  className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!name.trim()}
+                  className="px-4 py-2 bg-orange-500 text-white text-sm rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+                >
+                  Create
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { exportAccountData } from '@/lib/account-data';
+
+// GET /api/account/export downloads everything stored about the signed-in user as JSON
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const data = await exportAccountData(createServiceRoleClient(), user);
+    console.log(`[${requestId}] Account data exported for ${user.id}`);
+
+    return new Response(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="support-reply-account.json"',
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Account export failed: ${message}`);
+    return NextResponse.json(
+      { error: 'ACCOUNT_ERROR', message: 'Failed to export account data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { createStripeClient } from '@/lib/stripe';
+import { AccountDeletionError, accountDeletionErrorStatus, deleteAccount } from '@/lib/account-data';
+
+interface DeleteAccountResponse {
+  deleted: true;
+}
+
+interface DeleteAccountError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | AccountDeletionError['code'] | 'ACCOUNT_ERROR';
+  message?: string;
+}
+
+// DELETE /api/account { confirmEmail } - cancel the user's subscription and delete
+// everything stored about them. The email must be typed back as confirmation.
+export async function DELETE(request: NextRequest): Promise<NextResponse<DeleteAccountResponse | DeleteAccountError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as DeleteAccountError, { status: 401 });
+    }
+
+    const { confirmEmail } = (await request.json()) ?? {};
+    if (
+      typeof confirmEmail !== 'string' ||
+      !user.email ||
+      confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()
+    ) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Type your account email to confirm' } as DeleteAccountError,
+        { status: 400 }
+      );
+    }
+
+    const result = await deleteAccount(createServiceRoleClient(), createStripeClient(), user);
+
+    console.log(
+      `[${requestId}] Account ${user.id} deleted (audit ${result.auditId}, ` +
+      `${result.canceledSubscriptions.length} subscription(s) cancelled)`
+    );
+    return NextResponse.json({ deleted: true });
+
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Invalid JSON body' } as DeleteAccountError,
+        { status: 400 }
+      );
+    }
+    if (error instanceof AccountDeletionError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message } as DeleteAccountError,
+        { status: accountDeletionErrorStatus(error) }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Account deletion failed: ${message}`);
+    return NextResponse.json(
+      { error: 'ACCOUNT_ERROR', message: 'Failed to delete account' } as DeleteAccountError,
+      { status: 500 }
+    );
+  }
+}
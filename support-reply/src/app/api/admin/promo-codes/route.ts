@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { hasBearerSecret } from '@/lib/api-keys';
+import {
+  listPromoCodeBatches,
+  mintPromoCodes,
+  parsePromoCodeBatch,
+  PromoCodeBatch,
+  PromoCodeValidationError,
+  PromoGrantType,
+} from '@/lib/promo-codes';
+
+interface PromoCodeBatchListResponse {
+  batches: PromoCodeBatch[];
+}
+
+interface PromoCodesMintedResponse {
+  batch: string;
+  grantType: PromoGrantType;
+  grantValue: number;
+  expiresAt: string | null;
+  maxRedemptions: number | null;
+  // Shown once; only their hashes are stored
+  codes: string[];
+}
+
+interface PromoCodesError {
+  error: 'UNAUTHORIZED' | 'CONFIG_ERROR' | 'INVALID_INPUT' | 'PROMO_CODES_ERROR';
+  message?: string;
+}
+
+// Admin endpoints, called with Authorization: Bearer $ADMIN_API_SECRET
+function checkAdmin(request: NextRequest, requestId: string): NextResponse<PromoCodesError> | null {
+  const secret = process.env.ADMIN_API_SECRET;
+  if (!secret) {
+    console.error(`[${requestId}] Missing ADMIN_API_SECRET`);
+    return NextResponse.json(
+      { error: 'CONFIG_ERROR', message: 'Server configuration incomplete' } as PromoCodesError,
+      { status: 500 }
+    );
+  }
+  if (!hasBearerSecret(request, secret)) {
+    return NextResponse.json({ error: 'UNAUTHORIZED' } as PromoCodesError, { status: 401 });
+  }
+  return null;
+}
+
+// GET /api/admin/promo-codes - batches with code and redemption counts
+export async function GET(request: NextRequest): Promise<NextResponse<PromoCodeBatchListResponse | PromoCodesError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  const denied = checkAdmin(request, requestId);
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ batches: await listPromoCodeBatches(createServiceRoleClient()) });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Promo code list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'PROMO_CODES_ERROR', message: 'Failed to load promo codes' } as PromoCodesError,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/promo-codes { batch, grantType, grantValue, count?, expiresAt?, maxRedemptions?, code? }
+export async function POST(request: NextRequest): Promise<NextResponse<PromoCodesMintedResponse | PromoCodesError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  const denied = checkAdmin(request, requestId);
+  if (denied) return denied;
+
+  try {
+    const input = parsePromoCodeBatch(await request.json());
+    const codes = await mintPromoCodes(createServiceRoleClient(), input);
+
+    console.log(`[${requestId}] Minted ${codes.length} promo codes in batch "${input.batch}" (${input.grantValue} ${input.grantType})`);
+    return NextResponse.json(
+      {
+        batch: input.batch,
+        grantType: input.grantType,
+        grantValue: input.grantValue,
+        expiresAt: input.expiresAt,
+        maxRedemptions: input.maxRedemptions,
+        codes,
+      },
+      { status: 201 }
+    );
+
+  } catch (error: unknown) {
+    if (error instanceof PromoCodeValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof PromoCodeValidationError ? error.message : 'Invalid JSON body' } as PromoCodesError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Promo code minting failed: ${message}`);
+    return NextResponse.json(
+      { error: 'PROMO_CODES_ERROR', message: 'Failed to mint promo codes' } as PromoCodesError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient } from '@/lib/supabase-server';
+import { clearAnonSession, readAnonSession } from '@/lib/anon-session';
+import { buildQuotaInfo, mergeAnonUsage, QuotaInfo, resolveUserQuotaAccount } from '@/lib/account';
+import { AnonMergeStatus, getQuotaStore } from '@/lib/quota';
+import { importSavedReplies, normalizeSavedReplies, SavedReplyValidationError } from '@/lib/saved-replies';
+
+interface MergeResponse {
+  // Null when the request carried no valid anonymous session cookie
+  status: AnonMergeStatus | null;
+  // Generations carried over to today's usage
+  carried: number;
+  imported: number;
+  skipped: number;
+  quota: QuotaInfo;
+}
+
+interface MergeError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'MERGE_ERROR';
+  message?: string;
+}
+
+// POST /api/anon-session/merge { replies? } - called right after sign-in or sign-up.
+// Carries today's anonymous usage over to the account, imports the browser's
+// anonymous saved replies and drops the anon_session cookie. The session comes only
+// from the signed cookie, and a session merges into a single account once; a repeated
+// request for an already merged session imports nothing again.
+export async function POST(request: NextRequest): Promise<NextResponse<MergeResponse | MergeError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as MergeError, { status: 401 });
+    }
+
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : {};
+    if (body?.replies !== undefined && !Array.isArray(body.replies)) {
+      throw new SavedReplyValidationError('replies must be an array');
+    }
+    const { replies, skipped } = normalizeSavedReplies(body?.replies ?? []);
+
+    // Also creates the profile on first use
+    const account = await resolveUserQuotaAccount(supabase, user, requestId);
+
+    const sessionId = await readAnonSession();
+    let status: AnonMergeStatus | null = null;
+    let carried = 0;
+    if (sessionId) {
+      ({ status, carried } = await mergeAnonUsage(account, sessionId));
+      if (status === 'CLAIMED') {
+        console.warn(`[${requestId}] Anonymous session already merged into another account, not carried over to ${user.id}`);
+      }
+    }
+
+    // A repeat of a merge that already happened (e.g. a retry after a lost response)
+    // must not import the same replies twice
+    const imported = status === 'ALREADY_MERGED' || replies.length === 0
+      ? 0
+      : await importSavedReplies(supabase, user.id, replies);
+
+    // Also drops a stale marker cookie left by an expired or invalid session
+    await clearAnonSession();
+
+    console.log(`[${requestId}] Anonymous merge for ${user.id} - session: ${status ?? 'none'}, carried: ${carried}, replies: ${imported}`);
+
+    const used = await getQuotaStore().get(account.subject);
+    return NextResponse.json({ status, carried, imported, skipped, quota: buildQuotaInfo(account, used) });
+
+  } catch (error: unknown) {
+    if (error instanceof SavedReplyValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof SavedReplyValidationError ? error.message : 'Invalid JSON body' } as MergeError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Anonymous merge failed: ${message}`);
+    return NextResponse.json(
+      { error: 'MERGE_ERROR', message: 'Failed to carry over anonymous data' } as MergeError,
+      { status: 500 }
+    );
+  }
+}
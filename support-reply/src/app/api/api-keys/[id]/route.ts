@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { revokeApiKey } from '@/lib/api-keys';
+
+// DELETE /api/api-keys/:id - revoke a key; it stays listed but never authenticates again
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const { data: { user }, error: userError } = await createApiRouteClient(request).auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    if (!(await revokeApiKey(createServiceRoleClient(), user.id, id))) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Revoked API key ${id}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] API key revoke failed: ${message}`);
+    return NextResponse.json(
+      { error: 'API_KEYS_ERROR', message: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { resolveUserQuotaAccount } from '@/lib/account';
+import { ApiKey, ApiKeyValidationError, createApiKey, listApiKeys, normalizeApiKeyName } from '@/lib/api-keys';
+import { assertFeature, PlanRestrictionError } from '@/lib/plans';
+
+interface ApiKeyListResponse {
+  keys: ApiKey[];
+}
+
+interface ApiKeyCreatedResponse {
+  apiKey: ApiKey;
+  // Shown once; only its hash is stored
+  key: string;
+}
+
+interface ApiKeysError {
+  error: 'AUTH_REQUIRED' | 'FORBIDDEN' | 'INVALID_INPUT' | 'API_KEYS_ERROR';
+  message?: string;
+}
+
+// Keys are managed from a browser session only, so a leaked key can't mint more keys
+
+// GET /api/api-keys - the signed-in user's keys, without the secrets
+export async function GET(request: NextRequest): Promise<NextResponse<ApiKeyListResponse | ApiKeysError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as ApiKeysError, { status: 401 });
+    }
+
+    return NextResponse.json({ keys: await listApiKeys(supabase, user.id) });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] API key list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'API_KEYS_ERROR', message: 'Failed to load API keys' } as ApiKeysError,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/api-keys { name }
+export async function POST(request: NextRequest): Promise<NextResponse<ApiKeyCreatedResponse | ApiKeysError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as ApiKeysError, { status: 401 });
+    }
+
+    const name = normalizeApiKeyName(((await request.json()) ?? {}).name);
+
+    // Also creates the profile on first use
+    const account = await resolveUserQuotaAccount(supabase, user, requestId);
+    assertFeature(account.plan, 'api', 'API access');
+
+    const { apiKey, key } = await createApiKey(createServiceRoleClient(), user.id, name);
+
+    console.log(`[${requestId}] Created API key ${apiKey.id} (${apiKey.prefix}...)`);
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof PlanRestrictionError) {
+      return NextResponse.json({ error: 'FORBIDDEN', message: error.message } as ApiKeysError, { status: 403 });
+    }
+
+    if (error instanceof ApiKeyValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof ApiKeyValidationError ? error.message : 'Invalid JSON body' } as ApiKeysError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] API key creation failed: ${message}`);
+    return NextResponse.json(
+      { error: 'API_KEYS_ERROR', message: 'Failed to create API key' } as ApiKeysError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { createStripeClient } from '@/lib/stripe';
+import { getMembership } from '@/lib/workspaces';
+
+interface BillingPortalResponse {
+  url: string;
+}
+
+interface BillingPortalError {
+  error: 'AUTH_REQUIRED' | 'FORBIDDEN' | 'NO_BILLING_ACCOUNT' | 'STRIPE_ERROR' | 'CONFIG_ERROR';
+  message?: string;
+}
+
+// POST /api/billing-portal - a Stripe Billing Portal session for cancelling, changing the card
+// and viewing invoices. Team subscriptions are managed by the workspace owner.
+export async function POST(request: NextRequest): Promise<NextResponse<BillingPortalResponse | BillingPortalError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  const stripe = createStripeClient();
+  if (!stripe || !process.env.NEXT_PUBLIC_BASE_URL) {
+    console.error(`[${requestId}] Missing STRIPE_SECRET_KEY or NEXT_PUBLIC_BASE_URL`);
+    return NextResponse.json(
+      { error: 'CONFIG_ERROR', message: 'Server configuration incomplete' } as BillingPortalError,
+      { status: 500 }
+    );
+  }
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as BillingPortalError, { status: 401 });
+    }
+
+    // The workspace's customer ID isn't readable by members, so it is looked up with the service role
+    let customerId: string | null = null;
+    const membership = await getMembership(supabase, user.id);
+    if (membership?.workspace.stripe_subscription_id) {
+      if (membership.role !== 'owner') {
+        return NextResponse.json(
+          { error: 'FORBIDDEN', message: 'Only the workspace owner can manage team billing' } as BillingPortalError,
+          { status: 403 }
+        );
+      }
+
+      const { data, error } = await createServiceRoleClient()
+        .from('workspaces')
+        .select('stripe_customer_id')
+        .eq('id', membership.workspace.id)
+        .single<{ stripe_customer_id: string | null }>();
+      if (error) {
+        throw new Error(`Failed to read workspace billing: ${error.message}`);
+      }
+      customerId = data.stripe_customer_id;
+    } else {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('stripe_customer_id')
+        .eq('user_id', user.id)
+        .maybeSingle<{ stripe_customer_id: string | null }>();
+      if (error) {
+        throw new Error(`Failed to read profile billing: ${error.message}`);
+      }
+      customerId = data?.stripe_customer_id || null;
+    }
+
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'NO_BILLING_ACCOUNT', message: 'There is no subscription to manage yet' } as BillingPortalError,
+        { status: 404 }
+      );
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${process.env.NEXT_PUBLIC_BASE_URL}/`,
+    });
+
+    console.log(`[${requestId}] Billing portal session created for ${membership?.workspace.stripe_subscription_id ? `workspace ${membership.workspace.id}` : `user_id: ${user.id}`}`);
+    return NextResponse.json({ url: session.url });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Billing portal session failed: ${message}`);
+    return NextResponse.json(
+      { error: 'STRIPE_ERROR', message: 'Failed to open billing portal' } as BillingPortalError,
+      { status: 500 }
+    );
+  }
+}
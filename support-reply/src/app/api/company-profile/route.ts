@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { ensureProfile } from '@/lib/account';
+import { getMembership, requireMembership, WorkspaceError, workspaceErrorStatus, WorkspaceRole } from '@/lib/workspaces';
+import {
+  CompanyProfile,
+  CompanyProfileValidationError,
+  getCompanyProfile,
+  normalizeCompanyProfile,
+  saveCompanyProfile,
+} from '@/lib/company-profile';
+
+interface CompanyProfileResponse {
+  // The profile in effect: the workspace's when it has one, otherwise the user's own
+  profile: CompanyProfile | null;
+  // The caller's workspace role; owners and admins edit the shared profile
+  role: WorkspaceRole | null;
+}
+
+interface CompanyProfileError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'COMPANY_PROFILE_ERROR' | WorkspaceError['code'];
+  message?: string;
+}
+
+// GET /api/company-profile - the company facts drafts may state
+export async function GET(request: NextRequest): Promise<NextResponse<CompanyProfileResponse | CompanyProfileError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as CompanyProfileError, { status: 401 });
+    }
+
+    const membership = await getMembership(supabase, user.id);
+    const profile = await getCompanyProfile(supabase, user.id, membership?.workspace.id || null);
+
+    return NextResponse.json({ profile, role: membership?.role || null });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as CompanyProfileError, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Company profile read failed: ${message}`);
+    return NextResponse.json(
+      { error: 'COMPANY_PROFILE_ERROR', message: 'Failed to load company profile' } as CompanyProfileError,
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/company-profile { company_name, product_name, support_hours, return_policy, escalation_email, links, other_facts, shared? }
+// replaces the profile; `shared: true` saves the workspace's (owners and admins only)
+export async function PUT(request: NextRequest): Promise<NextResponse<CompanyProfileResponse | CompanyProfileError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as CompanyProfileError, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = normalizeCompanyProfile(body);
+
+    let profile: CompanyProfile;
+    let role: WorkspaceRole | null;
+    if (body?.shared === true) {
+      const membership = await requireMembership(supabase, user.id, ['owner', 'admin']);
+      profile = await saveCompanyProfile(createServiceRoleClient(), { workspaceId: membership.workspace.id }, input);
+      role = membership.role;
+    } else {
+      // A personal profile hangs off the profile row
+      await ensureProfile(supabase, user, requestId);
+      profile = await saveCompanyProfile(supabase, { userId: user.id }, input);
+      role = (await getMembership(supabase, user.id))?.role || null;
+    }
+
+    console.log(`[${requestId}] Saved company profile${profile.workspace_id ? ` for workspace ${profile.workspace_id}` : ` for ${user.id}`}`);
+    return NextResponse.json({ profile, role });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as CompanyProfileError, { status: 401 });
+    }
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message } as CompanyProfileError,
+        { status: workspaceErrorStatus(error) }
+      );
+    }
+    if (error instanceof CompanyProfileValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof CompanyProfileValidationError ? error.message : 'Invalid JSON body' } as CompanyProfileError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Company profile save failed: ${message}`);
+    return NextResponse.json(
+      { error: 'COMPANY_PROFILE_ERROR', message: 'Failed to save company profile' } as CompanyProfileError,
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiRouteClient } from '@/lib/supabase-server';
+import { createStripeClient } from '@/lib/stripe';
 import Stripe from 'stripe';
+import { getMembership, listPendingInvites, MAX_SEATS } from '@/lib/workspaces';
+import { getOveragePriceId, getPlanPriceId, isPaidPlan, isPlanId, PLANS } from '@/lib/plans';
 
 interface CheckoutSessionResponse {
   url: string;
 }
 
 interface CheckoutSessionError {
-  error: 'AUTH_REQUIRED' | 'STRIPE_ERROR' | 'CONFIG_ERROR';
+  error: 'AUTH_REQUIRED' | 'FORBIDDEN' | 'INVALID_PLAN' | 'STRIPE_ERROR' | 'CONFIG_ERROR';
   message?: string;
 }
 
-// Validate required environment variables
+// Validate required environment variables; price IDs are checked per plan
 function validateStripeConfig(): { isValid: boolean; missingVars: string[] } {
   const requiredVars = [
     'STRIPE_SECRET_KEY',
-    'STRIPE_PRICE_ID', 
     'NEXT_PUBLIC_BASE_URL'
   ];
   
@@ -34,9 +36,7 @@ function getStripeClient(): Stripe | null {
     return null;
   }
   
-  return new Stripe(process.env.STRIPE_SECRET_KEY!, {
-    apiVersion: '2024-12-18.acacia',
-  });
+  return createStripeClient();
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<CheckoutSessionResponse | CheckoutSessionError>> {
@@ -76,21 +76,84 @@ export async function POST(request: NextRequest): Promise<NextResponse<CheckoutS
       );
     }
 
-    console.log(`[${requestId}] Creating checkout session for user_id: ${user.id}`);
+    // { plan } picks the catalog plan: Pro for individuals, Team for workspaces, monthly by default.
+    // Workspace members upgrade the whole team: one seat per member or pending invite
+    // at least, more when requested ({ seats } in the body)
+    const body = await request.json().catch(() => null);
+    const membership = await getMembership(supabase, user.id);
+
+    const planId = body?.plan ?? (membership ? 'team' : 'pro');
+    if (!isPlanId(planId) || !isPaidPlan(PLANS[planId])) {
+      const paidPlans = Object.values(PLANS).filter(isPaidPlan).map(({ id }) => id);
+      return NextResponse.json(
+        { error: 'INVALID_PLAN', message: `Plan must be one of: ${paidPlans.join(', ')}` } as CheckoutSessionError,
+        { status: 400 }
+      );
+    }
+
+    const plan = PLANS[planId];
+    if (plan.perSeat !== Boolean(membership)) {
+      return NextResponse.json(
+        {
+          error: 'INVALID_PLAN',
+          message: membership ? 'Workspaces subscribe to a Team plan' : 'Team plans need a workspace. Create one first.',
+        } as CheckoutSessionError,
+        { status: 400 }
+      );
+    }
+
+    const priceId = getPlanPriceId(plan);
+    if (!priceId) {
+      console.error(`[${requestId}] No Stripe price configured for plan ${plan.id} (${plan.priceEnv.join(' or ')})`);
+      return NextResponse.json(
+        { error: 'INVALID_PLAN', message: `The ${plan.name} plan is not available` } as CheckoutSessionError,
+        { status: 400 }
+      );
+    }
+
+    let quantity = 1;
+    const metadata: Record<string, string> = { user_id: user.id, plan: plan.id };
+
+    if (membership) {
+      if (membership.role === 'agent') {
+        return NextResponse.json(
+          { error: 'FORBIDDEN', message: 'Ask your workspace owner or an admin to upgrade' } as CheckoutSessionError,
+          { status: 403 }
+        );
+      }
+
+      const pendingInvites = await listPendingInvites(supabase, membership.workspace.id);
+      const requestedSeats = Number.isInteger(body?.seats) ? body.seats : 0;
+      quantity = Math.min(MAX_SEATS, Math.max(requestedSeats, membership.memberCount + pendingInvites.length, 1));
+      metadata.workspace_id = membership.workspace.id;
+      metadata.seats = String(quantity);
+    }
+
+    // Pro includes a monthly allowance; the rest is billed through the metered price
+    const overagePriceId = membership ? null : getOveragePriceId(plan);
+    if (overagePriceId) {
+      metadata.overage = 'true';
+    }
+
+    console.log(`[${requestId}] Creating ${plan.id} checkout session for user_id: ${user.id}${membership ? `, workspace ${membership.workspace.id} with ${quantity} seats` : ''}`);
 
     // Create Stripe Checkout Session
     const session = await stripe.checkout.sessions.create({
       mode: 'subscription',
       line_items: [
         {
-          price: process.env.STRIPE_PRICE_ID!,
-          quantity: 1,
+          price: priceId,
+          quantity,
         },
+        // Metered prices take no quantity; usage arrives from /api/usage/report
+        ...(overagePriceId ? [{ price: overagePriceId }] : []),
       ],
       success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/thank-you`,
       cancel_url: `${process.env.NEXT_PUBLIC_BASE_URL}/`,
-      metadata: {
-        user_id: user.id,
+      metadata,
+      // Copied onto the subscription so the webhook can resolve the user (or workspace) on later events
+      subscription_data: {
+        metadata,
       },
       allow_promotion_codes: true,
     });
@@ -1,233 +1,263 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createApiRouteClient } from '@/lib/supabase-server';
-import { cookies } from 'next/headers';
-import { SignJWT, jwtVerify } from 'jose';
-
-type Tone = 'Friendly' | 'Professional' | 'Concise';
-type Language = 'Auto' | 'English' | 'French' | string;
-
-interface GenerateRequest {
-  message: string;
-  tone: Tone;
-  language?: Language;
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { CompletionRequest, getLLMProvider, LLMError, LLMProvider } from '@/lib/llm';
+import { extractCompletedDrafts, parseTranslations } from '@/lib/drafts';
+import { attributeSources, KnowledgePassage, KnowledgeSnippet } from '@/lib/knowledge';
+import { getHistorySettings, saveGeneration } from '@/lib/history';
+import { createTranslationPrompt, Language } from '@/lib/prompts';
+import {
+  completeDrafts,
+  createGenerationRequest,
+  GENERATION_TIMEOUT_MS,
+  GenerationCaller,
+  GenerationGrounding,
+  GenerationInput,
+  GenerationValidationError,
+  holdQuota,
+  loadGrounding,
+  logTokenUsage,
+  readDrafts,
+  readGenerationInput,
+  resolveGenerationSettings,
+  runCharged,
+  ThreadInfo,
+} from '@/lib/generation';
+import { extractEntities, PlaceholderValues } from '@/lib/placeholders';
+import { assertFeature, hasFeature, isModelAllowed, isModelServed, PlanRestrictionError } from '@/lib/plans';
+import {
+  AccountReservation,
+  buildQuotaErrorResponse,
+  buildQuotaInfo,
+  commitQuota,
+  QuotaAccount,
+  QuotaInfo,
+  releaseQuota,
+  resolveQuotaAccount,
+} from '@/lib/account';
+
+// ISO codes of the customer's detected language (null when unsure) and the reply language
+// (null when left to the model)
+interface LanguageInfo {
+  detected: string | null;
+  used: string | null;
 }
 
 interface GenerateResponse {
   drafts: string[];
-  quota: {
-    limit: number | null;
-    used: number;
-    remaining: number | null;
-    pro: boolean;
-  };
+  quota: QuotaInfo;
+  language: LanguageInfo;
+  // Present when the request carried a thread instead of a single message
+  thread?: ThreadInfo;
+  // English translation of each draft, present when requested for a non-English reply
+  translations?: string[];
+  // Knowledge base passages each draft draws on, present when the user has a knowledge base
+  sources?: KnowledgeSnippet[][];
+  // Present only when the user opted in to generation history
+  historyId?: string;
+  // Prefill values for the drafts' placeholders, present when placeholders were requested
+  entities?: PlaceholderValues;
 }
 
-interface QuotaErrorResponse {
-  error: 'DAILY_LIMIT_REACHED';
-  limit: number;
-  remaining: number;
-  pro: boolean;
-  message: string;
-}
+// Saves finished drafts to the user's history; never throws so history can't fail a generation
+type HistoryRecorder = (drafts: string[]) => Promise<string | undefined>;
 
-// Anonymous quota tracking with signed cookies
-const ANON_QUOTA_LIMIT = 5;
-const FREE_QUOTA_LIMIT = 20;
-const PRO_SAFETY_CAP = 1000;
+// Translates finished drafts into English; never throws, undefined on failure
+type DraftTranslator = (drafts: string[]) => Promise<string[] | undefined>;
 
-// Get JWT secret for signing cookies
-function getJWTSecret(): Uint8Array {
-  const secret = process.env.JWT_SECRET || 'fallback-secret-key-for-development';
-  return new TextEncoder().encode(secret);
+// Work done once the drafts are final, shared by the JSON and streaming paths
+interface GenerationFinish {
+  language: LanguageInfo;
+  thread?: ThreadInfo;
+  recordHistory: HistoryRecorder | null;
+  translate: DraftTranslator | null;
+  entities?: PlaceholderValues;
 }
 
-// Create or get anonymous session cookie
-async function getOrCreateAnonSession(): Promise<string> {
-  const cookieStore = await cookies();
-  const anonCookie = cookieStore.get('anon_session');
-  
-  if (anonCookie?.value) {
-    try {
-      const { payload } = await jwtVerify(anonCookie.value, getJWTSecret());
-      return payload.sessionId as string;
-    } catch (e) {
-      // Invalid cookie, create new session
-    }
-  }
-  
-  // Create new anonymous session
-  const sessionId = crypto.randomUUID();
-  const token = await new SignJWT({ sessionId })
-    .setProtectedHeader({ alg: 'HS256' })
-    .setExpirationTime('30d')
-    .sign(getJWTSecret());
-  
-  cookieStore.set('anon_session', token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 30 * 24 * 60 * 60, // 30 days
-    path: '/'
-  });
-  
-  return sessionId;
-}
+// Server-sent events emitted in streaming mode:
+// `draft` for each completed draft, then `done` with the final drafts and quota, or `error`
+type GenerateStreamEvent =
+  | { event: 'draft'; data: { index: number; text: string; sources?: KnowledgeSnippet[] } }
+  | { event: 'done'; data: GenerateResponse }
+  | { event: 'error'; data: { error: string } };
 
-// Check anonymous quota using in-memory tracking
-const anonQuotaMap = new Map<string, { day: string; count: number }>();
-
-async function checkAnonQuota(sessionId: string): Promise<{ allowed: boolean; used: number }> {
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  const key = `${sessionId}:${today}`;
-  
-  const current = anonQuotaMap.get(key) || { day: today, count: 0 };
-  
-  if (current.count >= ANON_QUOTA_LIMIT) {
-    return { allowed: false, used: current.count };
-  }
-  
-  // Increment count
-  current.count++;
-  anonQuotaMap.set(key, current);
-  
-  return { allowed: true, used: current.count };
-}
+const TRANSLATION_MAX_TOKENS = 600;
 
-// Check signed-in user quota
-async function checkUserQuota(supabase: any, userId: string, isPro: boolean): Promise<{ allowed: boolean; used: number }> {
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  
-  if (isPro) {
-    // Pro users have unlimited access (with safety cap)
-    const { data: quotaData } = await supabase
-      .from('daily_quota')
-      .select('count')
-      .eq('user_id', userId)
-      .eq('day', today)
-      .single();
-    
-    const currentCount = quotaData?.count || 0;
-    
-    if (currentCount >= PRO_SAFETY_CAP) {
-      return { allowed: false, used: currentCount };
-    }
-    
-    // Increment count for Pro users (for tracking)
-    await supabase
-      .from('daily_quota')
-      .upsert({
-        user_id: userId,
-        day: today,
-        count: currentCount + 1
-      });
-    
-    return { allowed: true, used: currentCount + 1 };
-  } else {
-    // Free users: enforce 20/day limit
-    const { data: quotaData } = await supabase
-      .from('daily_quota')
-      .select('count')
-      .eq('user_id', userId)
-      .eq('day', today)
-      .single();
-    
-    const currentCount = quotaData?.count || 0;
-    
-    if (currentCount >= FREE_QUOTA_LIMIT) {
-      return { allowed: false, used: currentCount };
-    }
-    
-    // Atomic upsert + increment
-    const { data: updatedData, error } = await supabase
-      .from('daily_quota')
-      .upsert({
-        user_id: userId,
-        day: today,
-        count: currentCount + 1
-      }, {
-        onConflict: 'user_id,day'
-      })
-      .select('count')
-      .single();
-    
-    if (error) {
-      console.error('Error updating daily quota:', error);
-      return { allowed: false, used: currentCount };
-    }
-    
-    return { allowed: true, used: updatedData.count };
-  }
+interface GenerateInput extends GenerationInput {
+  translate: boolean;
+  // Model override; must be allowed by the caller's plan
+  model?: string;
 }
 
-// Input validation and sanitization
-function validateAndSanitizeInput(data: any): { message: string; tone: Tone; language: Language } {
-  // Validate message
-  if (!data.message || typeof data.message !== 'string') {
-    throw new Error('Message is required and must be a string');
-  }
+const MAX_MODEL_LENGTH = 100;
 
-  let message = data.message.trim();
-  
-  // Strip HTML tags
-  message = message.replace(/<[^>]*>/g, '');
-  
-  // Check minimum length
-  if (message.length < 10) {
-    throw new Error('Message must be at least 10 characters long');
-  }
-  
-  // Truncate if too long
-  if (message.length > 2500) {
-    message = message.substring(0, 2500);
-  }
+function validateAndSanitizeInput(data: Record<string, unknown>): GenerateInput {
+  const input = readGenerationInput(data);
 
-  // Validate tone
-  const validTones: Tone[] = ['Friendly', 'Professional', 'Concise'];
-  if (!data.tone || !validTones.includes(data.tone)) {
-    throw new Error('Tone must be one of: Friendly, Professional, Concise');
+  const { model } = data;
+  if (model !== undefined && (typeof model !== 'string' || !model || model.length > MAX_MODEL_LENGTH)) {
+    throw new GenerationValidationError(`Model must be a model name of at most ${MAX_MODEL_LENGTH} characters`);
   }
 
-  // Validate language (optional)
-  const language = data.language || 'Auto';
+  return { ...input, translate: data.translate === true, model };
+}
+
+async function translateToEnglish(
+  requestId: string,
+  provider: LLMProvider,
+  language: Language,
+  drafts: string[]
+): Promise<string[] | undefined> {
+  try {
+    const completion = await provider.complete({
+      messages: [
+        { role: 'system', content: createTranslationPrompt(language) },
+        { role: 'user', content: JSON.stringify({ drafts }) },
+      ],
+      temperature: 0,
+      maxTokens: TRANSLATION_MAX_TOKENS,
+      timeoutMs: GENERATION_TIMEOUT_MS,
+    });
 
-  return { message, tone: data.tone, language };
+    const translations = parseTranslations(completion.content, drafts.length);
+    if (!translations) {
+      console.warn(`[${requestId}] Translation response could not be parsed`);
+    }
+    return translations || undefined;
+  } catch (error: unknown) {
+    console.error(`[${requestId}] Translation failed:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
 }
 
-// Create system prompt with guardrails
-function createSystemPrompt(tone: Tone, language: Language): string {
-  const languageInstruction = language === 'Auto' ? '' : ` Respond in ${language}.`;
-  
-  return `You are a customer support AI assistant. Generate exactly 3 different reply drafts for customer messages.
-
-CRITICAL REQUIREMENTS:
-- Each draft must be under 150 words
-- Use a ${tone.toLowerCase()} tone
-- Do NOT invent company policies or procedures
-- If information is missing, ask ONE concise clarifying question
-- For abusive messages, respond politely and de-escalate
-- Return ONLY valid JSON in this exact format: {"drafts": ["draft1", "draft2", "draft3"]}${languageInstruction}
-
-Generate 3 distinct approaches to the same customer message.`;
+function encodeStreamEvent({ event, data }: GenerateStreamEvent): Uint8Array {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
-// Fallback JSON parsing
-function parseFallbackResponse(text: string): string[] {
-  // Try to extract JSON first
-  const jsonMatch = text.match(/\{[\s\S]*"drafts"[\s\S]*\}/);
-  if (jsonMatch) {
-    try {
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (parsed.drafts && Array.isArray(parsed.drafts)) {
-        return parsed.drafts.slice(0, 3).map((draft: any) => String(draft).trim()).filter(Boolean);
+// Stream drafts as server-sent events; the quota reservation is committed once
+// generation succeeds and released if it fails or the client disconnects first
+function streamDrafts(
+  requestId: string,
+  startTime: number,
+  provider: LLMProvider,
+  completionRequest: CompletionRequest,
+  reservation: AccountReservation,
+  account: QuotaAccount,
+  passages: KnowledgePassage[],
+  { language, thread, recordHistory, translate, entities }: GenerationFinish,
+  signal: AbortSignal
+): Response {
+  // Aborted when the response stream is cancelled, so the upstream call stops at once
+  const upstream = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // A cancelled stream throws on enqueue and close; nothing more reaches the client then
+      let closed = false;
+      const send = (event: GenerateStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encodeStreamEvent(event));
+        } catch {
+          closed = true;
+        }
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled
+        }
+      };
+      const disconnected = () => signal.aborted || upstream.signal.aborted;
+
+      let content = '';
+      let sent = 0;
+      // Once committed the user has been charged for drafts that exist, whatever happens next
+      let committed = false;
+
+      try {
+        const chunks = provider.stream({ ...completionRequest, signal: AbortSignal.any([signal, upstream.signal]) });
+        for await (const chunk of chunks) {
+          if (disconnected()) break;
+
+          content += chunk.delta;
+          logTokenUsage(requestId, `${provider.name}/${provider.model}`, chunk.usage);
+
+          const completed = extractCompletedDrafts(content, account.plan.maxDrafts);
+          while (sent < completed.length) {
+            const text = completed[sent];
+            const sources = passages.length > 0 ? attributeSources([text], passages)[0] : undefined;
+            send({ event: 'draft', data: { index: sent, text, sources } });
+            sent++;
+          }
+        }
+
+        if (disconnected()) {
+          throw new Error('Client disconnected');
+        }
+        if (!content.trim()) {
+          throw new LLMError('EMPTY_RESPONSE', `No content in ${provider.name} stream`);
+        }
+
+        const drafts = readDrafts(requestId, content, account.plan.maxDrafts);
+        const used = await commitQuota(reservation);
+        committed = true;
+        const historyId = recordHistory ? await recordHistory(drafts) : undefined;
+        const translations = translate ? await translate(drafts) : undefined;
+
+        const duration = Date.now() - startTime;
+        console.log(`[${requestId}] Success - streamed ${drafts.length} drafts in ${duration}ms`);
+
+        send({
+          event: 'done',
+          data: {
+            drafts,
+            quota: buildQuotaInfo(account, used),
+            language,
+            thread,
+            translations,
+            sources: passages.length > 0 ? attributeSources(drafts, passages) : undefined,
+            historyId,
+            entities,
+          },
+        });
+      } catch (error: unknown) {
+        const duration = Date.now() - startTime;
+        const isTimeout = error instanceof LLMError && error.code === 'TIMEOUT';
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (disconnected()) {
+          console.log(`[${requestId}] Client disconnected after ${duration}ms${committed ? '' : ', releasing quota reservation'}`);
+        } else {
+          console.error(`[${requestId}] Stream failed after ${duration}ms: ${message}`);
+        }
+        if (!committed) {
+          await releaseQuota(reservation).catch((releaseError) => {
+            console.error(`[${requestId}] Failed to release quota reservation:`, releaseError);
+          });
+        }
+        send({
+          event: 'error',
+          data: { error: isTimeout ? 'Request timeout - please try again' : 'Failed to generate replies' },
+        });
       }
-    } catch (e) {
-      // Fall through to text splitting
-    }
-  }
 
-  // Fallback: split by double newlines
-  const blocks = text.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
-  return blocks.slice(0, 3);
+      close();
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -235,177 +265,162 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
-    // Check environment variables
-    const apiKey = process.env.OPENAI_API_KEY;
-    const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-
-    if (!apiKey) {
-      console.error(`[${requestId}] Missing OPENAI_API_KEY`);
-      return NextResponse.json(
-        { 
-          error: 'Missing server configuration',
-          code: 'MISSING_API_KEY',
-          message: 'Please set OPENAI_API_KEY in your .env.local file'
-        },
-        { status: 500 }
-      );
+    // Resolve the configured LLM provider
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider();
+    } catch (error: unknown) {
+      if (error instanceof LLMError) {
+        console.error(`[${requestId}] LLM provider misconfigured: ${error.message}`);
+        return NextResponse.json(
+          { 
+            error: 'Missing server configuration',
+            code: error.code,
+            message: error.message
+          },
+          { status: 500 }
+        );
+      }
+      throw error;
     }
 
     // Parse and validate request
-    const body = await request.json();
-    const { message, tone, language } = validateAndSanitizeInput(body);
+    const body = (await request.json()) ?? {};
+    const { message, latestMessage, thread, context, tone, language: requestedLanguage, translate, model } = validateAndSanitizeInput(body);
+    const wantsStream = body.stream === true || (request.headers.get('accept') || '').includes('text/event-stream');
 
-    console.log(`[${requestId}] Processing request - tone: ${tone}, language: ${language}, message length: ${message.length}`);
-
-    // Initialize Supabase client
-    const supabase = createApiRouteClient(request);
+    // Session cookies or a Bearer API key; API key callers get a service-role client scoped below
+    const caller = await resolveRequestCaller(request);
+    const { supabase } = caller;
     
     // Check authentication and quota
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    
-    console.log(`[${requestId}] Auth check - user: ${user ? user.email : 'anonymous'}`);
-    
-    let quotaResult: { allowed: boolean; used: number };
-    let isPro = false;
-    let limit: number | null = null;
-    
-    if (user) {
-      // Signed-in user: check profile and quota
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('pro')
-        .eq('user_id', user.id)
-        .single();
-      
-      if (profileError && profileError.code === 'PGRST116') {
-        // Profile doesn't exist, create it
-        const { error: insertError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: user.id,
-            email: user.email,
-            pro: false,
-            created_at: new Date().toISOString()
-          });
-        
-        if (insertError) {
-          console.error(`[${requestId}] Error creating profile:`, insertError);
+    const account = await resolveQuotaAccount(caller, requestId);
+    const { user, plan } = account;
+    const generation: GenerationCaller = { supabase, account, serviceRole: caller.viaApiKey, requestId };
+
+    // Plan restrictions are checked before any quota is held
+    if (model && !isModelServed(model, provider)) {
+      throw new GenerationValidationError(`Model ${model} is not served by the configured ${provider.name} provider`);
+    }
+    if (model && !isModelAllowed(plan, model, provider.model)) {
+      throw new PlanRestrictionError(`Model ${model} is not available on the ${plan.name} plan`);
+    }
+    if (translate) {
+      assertFeature(plan, 'translation', 'Translation');
+    }
+
+    const settings = await resolveGenerationSettings(generation, { tone, language: requestedLanguage, latestMessage });
+    const { voice, language } = settings;
+    const languageInfo: LanguageInfo = { detected: settings.detected?.code || null, used: language?.code || null };
+
+    console.log(`[${requestId}] Processing request - tone: ${tone}, language: ${requestedLanguage} (detected: ${languageInfo.detected}, used: ${languageInfo.used}), message length: ${message.length}, thread turns: ${thread ? thread.turns : 0}, stream: ${wantsStream}`);
+
+    // Opt-in history: nothing is stored unless the signed-in user turned it on
+    let recordHistory: HistoryRecorder | null = null;
+    if (user && hasFeature(plan, 'history')) {
+      try {
+        const history = await getHistorySettings(supabase, user.id);
+        if (history.enabled) {
+          recordHistory = async (drafts) => {
+            try {
+              return await saveGeneration(supabase, user.id, { message, tone: voice.name, language: language?.name || 'Auto', drafts }, history.retentionDays);
+            } catch (error: unknown) {
+              console.error(`[${requestId}] Failed to save history:`, error instanceof Error ? error.message : error);
+              return undefined;
+            }
+          };
         }
-        isPro = false;
-        limit = FREE_QUOTA_LIMIT;
-      } else if (profile) {
-        isPro = profile.pro || false;
-        limit = isPro ? null : FREE_QUOTA_LIMIT;
-      } else {
-        isPro = false;
-        limit = FREE_QUOTA_LIMIT;
+      } catch (error: unknown) {
+        console.error(`[${requestId}] History settings unavailable:`, error instanceof Error ? error.message : error);
       }
-      
-      quotaResult = await checkUserQuota(supabase, user.id, isPro);
-      console.log(`[${requestId}] User quota - used: ${quotaResult.used}/${limit}, allowed: ${quotaResult.allowed}`);
-    } else {
-      // Anonymous user: check anonymous quota
-      const sessionId = await getOrCreateAnonSession();
-      quotaResult = await checkAnonQuota(sessionId);
-      limit = ANON_QUOTA_LIMIT;
-      console.log(`[${requestId}] Anonymous quota - used: ${quotaResult.used}/${limit}, allowed: ${quotaResult.allowed}`);
-    }
-    
-    // Check if quota exceeded
-    if (!quotaResult.allowed) {
-      const errorResponse: QuotaErrorResponse = {
-        error: 'DAILY_LIMIT_REACHED',
-        limit: limit!,
-        remaining: 0,
-        pro: isPro,
-        message: 'Daily limit reached. Sign in or upgrade for higher limits.'
-      };
-      
-      console.log(`[${requestId}] Quota exceeded - ${quotaResult.used}/${limit}`);
-      return NextResponse.json(errorResponse, { status: 429 });
     }
 
-    // Create OpenAI request
-    const systemPrompt = createSystemPrompt(tone, language);
-    
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: message }
-        ],
-        temperature: 0.5,
-        max_tokens: 400,
-      }),
-      signal: AbortSignal.timeout(15000), // 15 second timeout
-    });
+    // English translations for the agent; skipped when the reply is already in English
+    const translateDrafts: DraftTranslator | null = translate && language?.code !== 'en'
+      ? (drafts) => translateToEnglish(requestId, provider, language, drafts)
+      : null;
 
-    if (!openaiResponse.ok) {
-      const errorText = await openaiResponse.text();
-      console.error(`[${requestId}] OpenAI API error: ${openaiResponse.status} - ${errorText}`);
-      return NextResponse.json(
-        { error: 'Failed to generate replies' },
-        { status: 500 }
-      );
-    }
+    // Order ID and customer name found in the message, to prefill the drafts' placeholders
+    const entities = context.placeholders
+      ? extractEntities({ message, latestMessage, customerName: context.customerName })
+      : undefined;
 
-    const openaiData = await openaiResponse.json();
-    const content = openaiData.choices?.[0]?.message?.content;
+    // Drafts are grounded in the signed-in user's knowledge base and company facts
+    const createCompletionRequest = (grounding: GenerationGrounding): CompletionRequest => ({
+      ...createGenerationRequest(settings, grounding, message, context, plan.maxDrafts),
+      model,
+    });
 
-    if (!content) {
-      console.error(`[${requestId}] No content in OpenAI response`);
-      return NextResponse.json(
-        { error: 'No content generated' },
-        { status: 500 }
+    if (wantsStream) {
+      // The stream settles the reservation itself
+      const reservation = await holdQuota(generation);
+      if (!reservation.allowed) {
+        return NextResponse.json(buildQuotaErrorResponse(account, reservation), { status: 429 });
+      }
+
+      const grounding = await loadGrounding(generation, latestMessage);
+      return streamDrafts(
+        requestId,
+        startTime,
+        provider,
+        createCompletionRequest(grounding),
+        reservation,
+        account,
+        grounding.passages,
+        { language: languageInfo, thread, recordHistory, translate: translateDrafts, entities },
+        request.signal
       );
     }
 
-    // Parse response
-    let drafts: string[];
-    try {
-      const parsed = JSON.parse(content);
-      if (parsed.drafts && Array.isArray(parsed.drafts)) {
-        drafts = parsed.drafts.slice(0, 3).map((draft: any) => String(draft).trim()).filter(Boolean);
-      } else {
-        throw new Error('Invalid JSON structure');
-      }
-    } catch (e) {
-      console.warn(`[${requestId}] JSON parse failed, using fallback parsing`);
-      drafts = parseFallbackResponse(content);
+    // Drafts are charged once they are ready; a failed generation releases the held slot
+    const charged = await runCharged(generation, async () => {
+      const grounding = await loadGrounding(generation, latestMessage);
+      const drafts = await completeDrafts(requestId, provider, createCompletionRequest(grounding), plan.maxDrafts);
+      return { drafts, passages: grounding.passages };
+    });
+    if (!charged.allowed) {
+      return NextResponse.json(buildQuotaErrorResponse(account, charged.reservation), { status: 429 });
     }
+    const { result: { drafts, passages }, used } = charged;
 
-    // Ensure we have at least 3 drafts
-    while (drafts.length < 3) {
-      drafts.push(`Thank you for your message. I'm here to help and will get back to you shortly.`);
-    }
+    const historyId = recordHistory ? await recordHistory(drafts) : undefined;
+    const translations = translateDrafts ? await translateDrafts(drafts) : undefined;
 
     const duration = Date.now() - startTime;
     console.log(`[${requestId}] Success - generated ${drafts.length} drafts in ${duration}ms`);
 
-    // Calculate remaining quota
-    const remaining = limit ? Math.max(0, limit - quotaResult.used) : null;
-
     const response: GenerateResponse = { 
-      drafts: drafts.slice(0, 3),
-      quota: {
-        limit,
-        used: quotaResult.used,
-        remaining,
-        pro: isPro
-      }
+      drafts,
+      quota: buildQuotaInfo(account, used),
+      language: languageInfo,
+      thread,
+      translations,
+      sources: passages.length > 0 ? attributeSources(drafts, passages) : undefined,
+      historyId,
+      entities
     };
     return NextResponse.json(response);
 
   } catch (error: any) {
     const duration = Date.now() - startTime;
-    
-    if (error.name === 'AbortError') {
+
+    if (error instanceof ApiKeyAuthError) {
+      console.warn(`[${requestId}] Rejected API key`);
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof PlanRestrictionError) {
+      console.warn(`[${requestId}] Plan restriction: ${error.message}`);
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error.name === 'AbortError' || (error instanceof LLMError && error.code === 'TIMEOUT')) {
       console.error(`[${requestId}] Request timeout after ${duration}ms`);
       return NextResponse.json(
         { error: 'Request timeout - please try again' },
@@ -413,10 +428,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (error.message.includes('Message must be') || error.message.includes('Tone must be')) {
+    if (error instanceof LLMError) {
+      console.error(`[${requestId}] Provider error after ${duration}ms: ${error.message}`);
+      return NextResponse.json(
+        { error: error.code === 'EMPTY_RESPONSE' ? 'No content generated' : 'Failed to generate replies' },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof GenerationValidationError || error instanceof SyntaxError) {
       console.warn(`[${requestId}] Validation error: ${error.message}`);
       return NextResponse.json(
-        { error: error.message },
+        { error: error instanceof SyntaxError ? 'Invalid JSON body' : error.message },
         { status: 400 }
       );
     }
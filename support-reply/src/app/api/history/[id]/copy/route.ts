@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { recordCopiedDraft } from '@/lib/history';
+
+const MAX_COPIED_TEXT_LENGTH = 4000;
+
+// POST /api/history/[id]/copy { index, text } records which draft the agent copied
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const index = body?.index;
+    if (!Number.isInteger(index) || index < 0 || typeof body?.text !== 'string') {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Body must be { index, text }' },
+        { status: 400 }
+      );
+    }
+
+    const recorded = await recordCopiedDraft(supabase, user.id, id, {
+      index,
+      text: body.text.slice(0, MAX_COPIED_TEXT_LENGTH),
+    });
+    if (!recorded) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message }, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Recording copied draft failed: ${message}`);
+    return NextResponse.json(
+      { error: 'HISTORY_ERROR', message: 'Failed to record copied draft' },
+      { status: 500 }
+    );
+  }
+}
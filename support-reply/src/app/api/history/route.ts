@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { deleteAllHistory, HistoryEntry, listHistory } from '@/lib/history';
+
+interface HistoryListResponse {
+  entries: HistoryEntry[];
+}
+
+interface HistoryError {
+  error: 'AUTH_REQUIRED' | 'HISTORY_ERROR';
+  message?: string;
+}
+
+// GET /api/history?q=refund&tone=Friendly&language=Auto&days=7&copied=1&offset=0
+export async function GET(request: NextRequest): Promise<NextResponse<HistoryListResponse | HistoryError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as HistoryError, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Number(searchParams.get('days'));
+
+    const entries = await listHistory(supabase, user.id, {
+      query: searchParams.get('q') || undefined,
+      tone: searchParams.get('tone') || undefined,
+      language: searchParams.get('language') || undefined,
+      since: days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+      copiedOnly: searchParams.get('copied') === '1',
+      offset: Math.max(0, Number(searchParams.get('offset')) || 0),
+    });
+
+    return NextResponse.json({ entries });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as HistoryError, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] History list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'HISTORY_ERROR', message: 'Failed to load history' } as HistoryError,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/history removes every stored generation for the user
+export async function DELETE(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const deleted = await deleteAllHistory(supabase, user.id);
+
+    console.log(`[${requestId}] Deleted all history (${deleted} entries)`);
+    return NextResponse.json({ deleted });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message }, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] History delete failed: ${message}`);
+    return NextResponse.json(
+      { error: 'HISTORY_ERROR', message: 'Failed to delete history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { ensureProfile } from '@/lib/account';
+import {
+  getHistorySettings,
+  HistorySettings,
+  isValidRetentionDays,
+  RETENTION_DAY_OPTIONS,
+  updateHistorySettings,
+} from '@/lib/history';
+
+interface HistorySettingsError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'HISTORY_ERROR';
+  message?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<HistorySettings | HistorySettingsError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as HistorySettingsError, { status: 401 });
+    }
+
+    return NextResponse.json(await getHistorySettings(supabase, user.id));
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as HistorySettingsError, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] History settings read failed: ${message}`);
+    return NextResponse.json(
+      { error: 'HISTORY_ERROR', message: 'Failed to load history settings' } as HistorySettingsError,
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/history/settings { enabled?, retentionDays? }
+export async function PUT(request: NextRequest): Promise<NextResponse<HistorySettings | HistorySettingsError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as HistorySettingsError, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const update: Partial<HistorySettings> = {};
+
+    if (body?.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') {
+        return NextResponse.json(
+          { error: 'INVALID_INPUT', message: 'enabled must be a boolean' } as HistorySettingsError,
+          { status: 400 }
+        );
+      }
+      update.enabled = body.enabled;
+    }
+
+    if (body?.retentionDays !== undefined) {
+      if (!isValidRetentionDays(body.retentionDays)) {
+        return NextResponse.json(
+          { error: 'INVALID_INPUT', message: `retentionDays must be one of: ${RETENTION_DAY_OPTIONS.join(', ')}` } as HistorySettingsError,
+          { status: 400 }
+        );
+      }
+      update.retentionDays = body.retentionDays;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Nothing to update' } as HistorySettingsError,
+        { status: 400 }
+      );
+    }
+
+    await ensureProfile(supabase, user, requestId);
+    const settings = await updateHistorySettings(supabase, user.id, update);
+
+    console.log(`[${requestId}] History settings updated - enabled: ${settings.enabled}, retention: ${settings.retentionDays}d`);
+    return NextResponse.json(settings);
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as HistorySettingsError, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] History settings update failed: ${message}`);
+    return NextResponse.json(
+      { error: 'HISTORY_ERROR', message: 'Failed to update history settings' } as HistorySettingsError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { resolveVoiceProfile, TONE_ERROR } from '@/lib/voice-profiles';
+import {
+  deleteIntegration,
+  generateWebhookSecret,
+  HelpdeskValidationError,
+  normalizeIntegrationInput,
+  updateIntegration,
+} from '@/lib/helpdesk';
+
+// PATCH /api/integrations/:id { name?, tone?, language?, outbound_url?, outbound_auth?, enabled?, rotate_secret? }
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const body = (await request.json()) ?? {};
+    const changes = await normalizeIntegrationInput(body, true);
+    if (changes.provider) {
+      throw new HelpdeskValidationError('Provider cannot be changed; create a new integration instead');
+    }
+
+    if (changes.tone && !(await resolveVoiceProfile(supabase, user.id, changes.tone))) {
+      throw new HelpdeskValidationError(TONE_ERROR);
+    }
+
+    // A rotated secret is returned once, like on creation; the old one stops working immediately
+    const secret = body.rotate_secret === true ? generateWebhookSecret() : undefined;
+
+    const integration = await updateIntegration(createServiceRoleClient(), user.id, id, {
+      ...changes,
+      ...(secret ? { webhook_secret: secret } : {}),
+    });
+    if (!integration) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Updated integration ${id}${secret ? ' (secret rotated)' : ''}`);
+    return NextResponse.json(secret ? { integration, secret } : { integration });
+
+  } catch (error: unknown) {
+    if (error instanceof HelpdeskValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof HelpdeskValidationError ? error.message : 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Integration update failed: ${message}`);
+    return NextResponse.json(
+      { error: 'INTEGRATIONS_ERROR', message: 'Failed to update integration' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const { data: { user }, error: userError } = await createApiRouteClient(request).auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    if (!(await deleteIntegration(createServiceRoleClient(), user.id, id))) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Deleted integration ${id}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Integration delete failed: ${message}`);
+    return NextResponse.json(
+      { error: 'INTEGRATIONS_ERROR', message: 'Failed to delete integration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { getLLMProvider, LLMError, LLMProvider } from '@/lib/llm';
+import { PromptContext, sanitizeMessage } from '@/lib/prompts';
+import { completeDrafts, createGenerationRequest, GenerationCaller, loadGrounding, resolveGenerationSettings, runCharged } from '@/lib/generation';
+import { formatThread, latestCustomerTurn, sanitizeThread, ThreadValidationError, truncateThread } from '@/lib/thread';
+import {
+  claimDelivery,
+  formatDraftNote,
+  getHelpdeskAdapter,
+  getIntegrationSecrets,
+  hashDeliveryBody,
+  HelpdeskIntegrationSecrets,
+  HelpdeskPayloadError,
+  HelpdeskTicket,
+  postInternalNote,
+  releaseDelivery,
+  verifySharedSecret,
+} from '@/lib/helpdesk';
+import { buildQuotaErrorResponse, buildQuotaInfo, QuotaErrorResponse, QuotaInfo, resolveUserQuotaAccount } from '@/lib/account';
+
+interface HelpdeskWebhookResponse {
+  received: true;
+  duplicate?: boolean;
+  ticketId?: string;
+  drafts?: string[];
+  // Whether the drafts were posted back as an internal note; skipped when no outbound URL is set
+  note?: 'posted' | 'failed' | 'skipped';
+  quota?: QuotaInfo;
+}
+
+interface HelpdeskWebhookError {
+  error: 'INVALID_REQUEST' | 'NOT_FOUND' | 'INVALID_SIGNATURE' | 'INVALID_PAYLOAD' | 'CONFIG_ERROR' | 'TIMEOUT' | 'PROCESSING_FAILED';
+  message?: string;
+}
+
+// Turn a ticket into the text sent to the model, as /api/generate does for messages and threads
+function prepareTicketInput(ticket: HelpdeskTicket): { message: string; latestMessage: string; context: PromptContext } {
+  const details = { customerName: ticket.requesterName, subject: ticket.subject };
+
+  if (ticket.thread) {
+    const { turns, omitted } = truncateThread(sanitizeThread(ticket.thread));
+    return { message: formatThread(turns, omitted), latestMessage: latestCustomerTurn(turns), context: { ...details, thread: true } };
+  }
+
+  const message = sanitizeMessage(ticket.message);
+  return { message, latestMessage: message, context: details };
+}
+
+// Inbound ticket webhook: generate drafts with the integration owner's voice and quota,
+// then post them back to the helpdesk as an internal note
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<HelpdeskWebhookResponse | HelpdeskWebhookError | QuotaErrorResponse>> {
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
+
+  const integrationId = request.nextUrl.searchParams.get('integration') || request.headers.get('x-integration-id');
+  if (!integrationId) {
+    return NextResponse.json(
+      { error: 'INVALID_REQUEST', message: 'Pass the integration ID as ?integration= or X-Integration-Id' } as HelpdeskWebhookError,
+      { status: 400 }
+    );
+  }
+
+  // Signatures cover the exact raw body
+  const rawBody = await request.text();
+
+  let supabase: ReturnType<typeof createServiceRoleClient>;
+  let integration: HelpdeskIntegrationSecrets | null;
+  try {
+    supabase = createServiceRoleClient();
+    integration = await getIntegrationSecrets(supabase, integrationId);
+  } catch (error: unknown) {
+    console.error(`[${requestId}] Integration lookup failed:`, error instanceof Error ? error.message : error);
+    return NextResponse.json({ error: 'PROCESSING_FAILED' } as HelpdeskWebhookError, { status: 500 });
+  }
+
+  if (!integration || !integration.enabled) {
+    console.warn(`[${requestId}] Unknown or disabled helpdesk integration ${integrationId}`);
+    return NextResponse.json({ error: 'NOT_FOUND' } as HelpdeskWebhookError, { status: 404 });
+  }
+
+  const adapter = getHelpdeskAdapter(integration.provider);
+  const headers = Object.fromEntries(request.headers);
+  const verified = adapter.verifySignature(headers, rawBody, integration.webhook_secret)
+    ?? verifySharedSecret(headers, integration.webhook_secret);
+  if (!verified) {
+    console.warn(`[${requestId}] Rejected ${integration.provider} webhook for integration ${integration.id}: bad signature`);
+    return NextResponse.json({ error: 'INVALID_SIGNATURE' } as HelpdeskWebhookError, { status: 401 });
+  }
+
+  let ticket: HelpdeskTicket;
+  let input: ReturnType<typeof prepareTicketInput>;
+  try {
+    ticket = adapter.parseTicket(JSON.parse(rawBody));
+    input = prepareTicketInput(ticket);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[${requestId}] Invalid ${integration.provider} payload: ${message}`);
+    return NextResponse.json(
+      {
+        error: 'INVALID_PAYLOAD',
+        message: error instanceof HelpdeskPayloadError || error instanceof ThreadValidationError || message.includes('Message must be')
+          ? message
+          : 'Invalid JSON body',
+      } as HelpdeskWebhookError,
+      { status: 400 }
+    );
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (error: unknown) {
+    console.error(`[${requestId}] LLM provider misconfigured:`, error instanceof Error ? error.message : error);
+    return NextResponse.json({ error: 'CONFIG_ERROR' } as HelpdeskWebhookError, { status: 500 });
+  }
+
+  // Claim the delivery first so helpdesk retries don't generate (and charge) twice
+  const bodyHash = hashDeliveryBody(rawBody);
+  try {
+    if (!(await claimDelivery(supabase, integration.id, bodyHash, ticket.id))) {
+      console.log(`[${requestId}] Duplicate delivery for ticket ${ticket.id}, skipping`);
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+  } catch (error: unknown) {
+    console.error(`[${requestId}] Failed to claim delivery:`, error instanceof Error ? error.message : error);
+    return NextResponse.json({ error: 'PROCESSING_FAILED' } as HelpdeskWebhookError, { status: 500 });
+  }
+
+  try {
+    const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(integration.user_id);
+    if (userError || !user) {
+      throw new Error(`Integration owner ${integration.user_id} not found`);
+    }
+
+    const account = await resolveUserQuotaAccount(supabase, user, requestId);
+    const generation: GenerationCaller = { supabase, account, serviceRole: true, requestId };
+
+    const { message, latestMessage, context } = input;
+    // A shared voice only applies while the owner is still in its workspace
+    const settings = await resolveGenerationSettings(
+      generation,
+      { tone: integration.tone, language: integration.language, latestMessage },
+      { fallbackVoice: true }
+    );
+
+    const charged = await runCharged(generation, async () => {
+      const grounding = await loadGrounding(generation, latestMessage);
+      const completionRequest = createGenerationRequest(settings, grounding, message, context, account.plan.maxDrafts);
+      return completeDrafts(requestId, provider, completionRequest, account.plan.maxDrafts);
+    });
+    if (!charged.allowed) {
+      // Let the helpdesk retry once the quota resets
+      await releaseDelivery(supabase, integration.id, bodyHash);
+      return NextResponse.json(buildQuotaErrorResponse(account, charged.reservation), { status: 429 });
+    }
+    const { result: drafts, used } = charged;
+
+    // Drafts are charged and returned even when the helpdesk rejects the note
+    let note: HelpdeskWebhookResponse['note'] = 'skipped';
+    if (integration.outbound_url) {
+      try {
+        await postInternalNote(
+          adapter,
+          { url: integration.outbound_url, authorization: integration.outbound_auth },
+          ticket.id,
+          formatDraftNote(drafts, settings.voice.name)
+        );
+        note = 'posted';
+      } catch (error: unknown) {
+        console.error(`[${requestId}] Failed to post note to ticket ${ticket.id}:`, error instanceof Error ? error.message : error);
+        note = 'failed';
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[${requestId}] ${integration.provider} ticket ${ticket.id} - ${drafts.length} drafts, note ${note}, ${duration}ms`);
+
+    return NextResponse.json({ received: true, ticketId: ticket.id, drafts, note, quota: buildQuotaInfo(account, used) });
+
+  } catch (error: unknown) {
+    const duration = Date.now() - startTime;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Helpdesk delivery failed after ${duration}ms: ${message}`);
+
+    await releaseDelivery(supabase, integration.id, bodyHash);
+
+    const isTimeout = error instanceof LLMError && error.code === 'TIMEOUT';
+    return NextResponse.json(
+      { error: isTimeout ? 'TIMEOUT' : 'PROCESSING_FAILED' } as HelpdeskWebhookError,
+      { status: isTimeout ? 504 : 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { ensureProfile } from '@/lib/account';
+import { resolveVoiceProfile, TONE_ERROR } from '@/lib/voice-profiles';
+import {
+  buildWebhookUrl,
+  createIntegration,
+  HelpdeskIntegration,
+  HelpdeskIntegrationInput,
+  HelpdeskValidationError,
+  listIntegrations,
+  normalizeIntegrationInput,
+} from '@/lib/helpdesk';
+
+interface IntegrationListResponse {
+  integrations: (HelpdeskIntegration & { webhookUrl: string })[];
+}
+
+interface IntegrationCreatedResponse {
+  integration: HelpdeskIntegration;
+  webhookUrl: string;
+  // Shown once; used as the shared secret and the HMAC key
+  secret: string;
+}
+
+interface IntegrationsError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'INTEGRATIONS_ERROR';
+  message?: string;
+}
+
+// GET /api/integrations - the signed-in user's helpdesk integrations, without secrets
+export async function GET(request: NextRequest): Promise<NextResponse<IntegrationListResponse | IntegrationsError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { data: { user }, error: userError } = await createApiRouteClient(request).auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as IntegrationsError, { status: 401 });
+    }
+
+    const integrations = await listIntegrations(createServiceRoleClient(), user.id);
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    return NextResponse.json({
+      integrations: integrations.map((integration) => ({ ...integration, webhookUrl: buildWebhookUrl(baseUrl, integration.id) })),
+    });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Integration list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'INTEGRATIONS_ERROR', message: 'Failed to load integrations' } as IntegrationsError,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/integrations { name, provider, tone?, language?, outbound_url?, outbound_auth?, enabled? }
+export async function POST(request: NextRequest): Promise<NextResponse<IntegrationCreatedResponse | IntegrationsError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as IntegrationsError, { status: 401 });
+    }
+
+    const input = await normalizeIntegrationInput((await request.json()) ?? {}, false) as HelpdeskIntegrationInput;
+
+    // The tone must be one the owner can use now; the webhook reads it with the service role
+    if (!(await resolveVoiceProfile(supabase, user.id, input.tone))) {
+      throw new HelpdeskValidationError(TONE_ERROR);
+    }
+
+    await ensureProfile(supabase, user, requestId);
+    const { integration, secret } = await createIntegration(createServiceRoleClient(), user.id, input);
+
+    console.log(`[${requestId}] Created ${integration.provider} integration ${integration.id}`);
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    return NextResponse.json({ integration, webhookUrl: buildWebhookUrl(baseUrl, integration.id), secret }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof HelpdeskValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof HelpdeskValidationError ? error.message : 'Invalid JSON body' } as IntegrationsError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Integration creation failed: ${message}`);
+    return NextResponse.json(
+      { error: 'INTEGRATIONS_ERROR', message: 'Failed to create integration' } as IntegrationsError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { deleteDocument } from '@/lib/knowledge';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const deleted = await deleteDocument(supabase, user.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Deleted document ${id}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message }, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Knowledge delete failed: ${message}`);
+    return NextResponse.json(
+      { error: 'KNOWLEDGE_ERROR', message: 'Failed to delete document' },
+      { status: 500 }
+    );
+  }
+}
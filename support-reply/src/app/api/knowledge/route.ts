@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import {
+  extractDocumentText,
+  isSupportedFile,
+  KnowledgeDocument,
+  listDocuments,
+  MAX_UPLOAD_BYTES,
+  saveDocument,
+  SUPPORTED_EXTENSIONS,
+} from '@/lib/knowledge';
+
+interface KnowledgeListResponse {
+  documents: KnowledgeDocument[];
+}
+
+interface KnowledgeUploadResponse {
+  document: KnowledgeDocument;
+}
+
+interface KnowledgeError {
+  error: 'AUTH_REQUIRED' | 'INVALID_FILE' | 'KNOWLEDGE_ERROR';
+  message?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<KnowledgeListResponse | KnowledgeError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as KnowledgeError, { status: 401 });
+    }
+
+    const documents = await listDocuments(supabase, user.id);
+    return NextResponse.json({ documents });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as KnowledgeError, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Knowledge list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'KNOWLEDGE_ERROR', message: 'Failed to load knowledge base' } as KnowledgeError,
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<KnowledgeUploadResponse | KnowledgeError>> {
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as KnowledgeError, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'INVALID_FILE', message: 'Attach a file in the "file" field' } as KnowledgeError,
+        { status: 400 }
+      );
+    }
+
+    if (!isSupportedFile(file.name)) {
+      return NextResponse.json(
+        { error: 'INVALID_FILE', message: `Upload one of: ${SUPPORTED_EXTENSIONS.join(', ')}` } as KnowledgeError,
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: 'INVALID_FILE', message: 'File must be 2 MB or smaller' } as KnowledgeError,
+        { status: 400 }
+      );
+    }
+
+    let text: string;
+    try {
+      text = await extractDocumentText(file.name, await file.arrayBuffer());
+    } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as KnowledgeError, { status: 401 });
+    }
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[${requestId}] Could not read upload: ${message}`);
+      return NextResponse.json(
+        { error: 'INVALID_FILE', message: 'Could not read text from this file' } as KnowledgeError,
+        { status: 400 }
+      );
+    }
+
+    const titleFromForm = formData.get('title');
+    const title = (typeof titleFromForm === 'string' && titleFromForm.trim()) || file.name;
+
+    const document = await saveDocument(supabase, user.id, {
+      title: title.slice(0, 200),
+      mimeType: file.type || 'text/plain',
+      sizeBytes: file.size,
+      text,
+    });
+
+    const duration = Date.now() - startTime;
+    console.log(`[${requestId}] Indexed document ${document.id} (${document.chunk_count} chunks) in ${duration}ms`);
+
+    return NextResponse.json({ document });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Knowledge upload failed: ${message}`);
+    return NextResponse.json(
+      { error: 'KNOWLEDGE_ERROR', message: message === 'Document contains no readable text' ? message : 'Failed to index document' } as KnowledgeError,
+      { status: 500 }
+    );
+  }
+}
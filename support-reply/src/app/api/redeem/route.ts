@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { ensureProfile } from '@/lib/account';
+import {
+  normalizePromoCode,
+  PromoCodeValidationError,
+  PromoGrantType,
+  redeemPromoCode,
+  RedemptionStatus,
+  REDEMPTION_WINDOW_SECONDS,
+} from '@/lib/promo-codes';
+
+interface RedeemResponse {
+  redeemed: true;
+  grantType: PromoGrantType;
+  grantValue: number;
+  // Set for Pro days: when the granted Pro ends
+  proUntil: string | null;
+  // Set for generations: the new bonus balance
+  bonusGenerations: number | null;
+}
+
+interface RedeemError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | Exclude<RedemptionStatus, 'REDEEMED'> | 'REDEEM_ERROR';
+  message?: string;
+}
+
+const REDEMPTION_ERRORS: Record<Exclude<RedemptionStatus, 'REDEEMED'>, { status: number; message: string }> = {
+  RATE_LIMITED: {
+    status: 429,
+    message: `Too many invalid codes. Try again in ${REDEMPTION_WINDOW_SECONDS / 60} minutes.`,
+  },
+  INVALID_CODE: { status: 404, message: 'That code is not valid' },
+  EXPIRED: { status: 410, message: 'That code has expired' },
+  EXHAUSTED: { status: 410, message: 'That code has been fully redeemed' },
+  ALREADY_REDEEMED: { status: 409, message: 'You have already redeemed this code' },
+};
+
+// POST /api/redeem { code } - redeem a promo code for the signed-in user. Too many
+// failed attempts lock the user out for a while (see MAX_FAILED_REDEMPTIONS).
+export async function POST(request: NextRequest): Promise<NextResponse<RedeemResponse | RedeemError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'AUTH_REQUIRED', message: 'Sign in to redeem a code' } as RedeemError,
+        { status: 401 }
+      );
+    }
+
+    const code = normalizePromoCode(((await request.json()) ?? {}).code);
+
+    // Redemptions and attempts reference the profile
+    await ensureProfile(supabase, user, requestId);
+
+    const result = await redeemPromoCode(createServiceRoleClient(), user.id, code);
+    if (result.status !== 'REDEEMED') {
+      console.log(`[${requestId}] Promo code redemption refused for ${user.id}: ${result.status}`);
+      const { status, message } = REDEMPTION_ERRORS[result.status];
+      return NextResponse.json({ error: result.status, message } as RedeemError, { status });
+    }
+
+    console.log(`[${requestId}] Promo code redeemed by ${user.id}: ${result.grantValue} ${result.grantType}`);
+    return NextResponse.json({
+      redeemed: true,
+      grantType: result.grantType!,
+      grantValue: result.grantValue!,
+      proUntil: result.grantType === 'pro_days' ? result.proUntil : null,
+      bonusGenerations: result.grantType === 'generations' ? result.bonusGenerations : null,
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof PromoCodeValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof PromoCodeValidationError ? error.message : 'Invalid JSON body' } as RedeemError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Promo code redemption failed: ${message}`);
+    return NextResponse.json(
+      { error: 'REDEEM_ERROR', message: 'Failed to redeem code' } as RedeemError,
+      { status: 500 }
+    );
+  }
+}
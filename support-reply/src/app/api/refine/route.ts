@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { getLLMProvider, LLMError, LLMProvider } from '@/lib/llm';
+import { parseRefinedDraft } from '@/lib/drafts';
+import {
+  GenerationCaller,
+  GenerationInput,
+  GenerationValidationError,
+  loadGrounding,
+  logCompletionUsage,
+  readGenerationInput,
+  resolveGenerationSettings,
+  runCharged,
+} from '@/lib/generation';
+import { createRefinePrompt, MAX_REFINE_INSTRUCTIONS_LENGTH, REFINE_OPERATIONS, RefineOperation } from '@/lib/prompts';
+import { PlanRestrictionError } from '@/lib/plans';
+import { buildQuotaErrorResponse, buildQuotaInfo, QuotaInfo, resolveQuotaAccount } from '@/lib/account';
+
+interface RefineRequest extends GenerationInput {
+  draft: string;
+  operation: RefineOperation;
+  instructions?: string;
+}
+
+interface RefineResponse {
+  draft: string;
+  quota: QuotaInfo;
+}
+
+// A refinement is a single short completion, so it costs a fraction of a generation
+const DEFAULT_REFINE_QUOTA_COST = 0.25;
+
+// REFINE_QUOTA_COST must be in (0, 1]; quota reservations reject other costs
+function readRefineQuotaCost(): number {
+  const configured = process.env.REFINE_QUOTA_COST;
+  if (configured === undefined || configured.trim() === '') return DEFAULT_REFINE_QUOTA_COST;
+
+  const cost = Number(configured);
+  if (!Number.isFinite(cost) || cost <= 0 || cost > 1) {
+    console.warn(`REFINE_QUOTA_COST must be a number greater than 0 and at most 1, using ${DEFAULT_REFINE_QUOTA_COST}`);
+    return DEFAULT_REFINE_QUOTA_COST;
+  }
+  return cost;
+}
+
+const REFINE_QUOTA_COST = readRefineQuotaCost();
+
+const REFINE_TEMPERATURE = 0.4;
+const REFINE_MAX_TOKENS = 250;
+const REFINE_TIMEOUT_MS = 15000;
+
+const MAX_DRAFT_LENGTH = 2000;
+
+function validateRefineInput(data: Record<string, unknown>): RefineRequest {
+  if (typeof data.draft !== 'string' || !data.draft.trim()) {
+    throw new GenerationValidationError('Draft is required and must be a string');
+  }
+  const draft = data.draft.trim().replace(/<[^>]*>/g, '').substring(0, MAX_DRAFT_LENGTH);
+
+  const input = readGenerationInput(data);
+
+  const operation = data.operation as RefineOperation;
+  if (!REFINE_OPERATIONS.includes(operation)) {
+    throw new GenerationValidationError(`Operation must be one of: ${REFINE_OPERATIONS.join(', ')}`);
+  }
+
+  let instructions: string | undefined;
+  if (operation === 'custom') {
+    instructions = typeof data.instructions === 'string'
+      ? data.instructions.trim().replace(/<[^>]*>/g, '')
+      : '';
+    if (!instructions) {
+      throw new GenerationValidationError('Instructions are required for custom refinements');
+    }
+    if (instructions.length > MAX_REFINE_INSTRUCTIONS_LENGTH) {
+      throw new GenerationValidationError(`Instructions must be at most ${MAX_REFINE_INSTRUCTIONS_LENGTH} characters`);
+    }
+  }
+
+  return { ...input, draft, operation, instructions };
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
+
+  try {
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider();
+    } catch (error: unknown) {
+      if (error instanceof LLMError) {
+        console.error(`[${requestId}] LLM provider misconfigured: ${error.message}`);
+        return NextResponse.json(
+          {
+            error: 'Missing server configuration',
+            code: error.code,
+            message: error.message
+          },
+          { status: 500 }
+        );
+      }
+      throw error;
+    }
+
+    const { draft, message, latestMessage, context, operation, tone, language, instructions } = validateRefineInput((await request.json()) ?? {});
+
+    console.log(`[${requestId}] Refine request - operation: ${operation}, tone: ${tone}, draft length: ${draft.length}`);
+
+    const caller = await resolveRequestCaller(request);
+    const account = await resolveQuotaAccount(caller, requestId);
+    const generation: GenerationCaller = { supabase: caller.supabase, account, serviceRole: caller.viaApiKey, requestId };
+
+    // Auto keeps the revision in the customer's language
+    const { voice, language: replyLanguage } = await resolveGenerationSettings(generation, { tone, language, latestMessage });
+
+    const charged = await runCharged(generation, async () => {
+      // Refinements stay grounded in the same knowledge base and company facts as the original drafts
+      const { passages, company } = await loadGrounding(generation, latestMessage);
+
+      const completion = await provider.complete({
+        messages: [
+          { role: 'system', content: createRefinePrompt(operation, voice, replyLanguage, instructions, passages, { ...context, company }) },
+          { role: 'user', content: `${context.thread ? 'CONVERSATION' : 'CUSTOMER MESSAGE'}:\n${message}\n\nCURRENT DRAFT:\n${draft}` }
+        ],
+        temperature: REFINE_TEMPERATURE,
+        maxTokens: REFINE_MAX_TOKENS,
+        timeoutMs: REFINE_TIMEOUT_MS,
+      });
+      logCompletionUsage(requestId, completion);
+
+      const { draft: refined, usedFallback } = parseRefinedDraft(completion.content);
+      if (usedFallback) {
+        console.warn(`[${requestId}] JSON parse failed, using raw completion as the draft`);
+      }
+      if (!refined) {
+        throw new LLMError('EMPTY_RESPONSE', `No content in ${provider.name} response`);
+      }
+      return refined;
+    }, REFINE_QUOTA_COST);
+
+    if (!charged.allowed) {
+      return NextResponse.json(buildQuotaErrorResponse(account, charged.reservation), { status: 429 });
+    }
+    const { result: refined, used } = charged;
+
+    const duration = Date.now() - startTime;
+    console.log(`[${requestId}] Success - refined draft (${operation}) in ${duration}ms`);
+
+    const response: RefineResponse = { draft: refined, quota: buildQuotaInfo(account, used) };
+    return NextResponse.json(response);
+
+  } catch (error: unknown) {
+    const duration = Date.now() - startTime;
+
+    if (error instanceof ApiKeyAuthError) {
+      console.warn(`[${requestId}] Rejected API key`);
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof PlanRestrictionError) {
+      console.warn(`[${requestId}] Plan restriction: ${error.message}`);
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof GenerationValidationError || error instanceof SyntaxError) {
+      console.warn(`[${requestId}] Validation error: ${error.message}`);
+      return NextResponse.json(
+        { error: error instanceof SyntaxError ? 'Invalid JSON body' : error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LLMError && error.code === 'TIMEOUT') {
+      console.error(`[${requestId}] Request timeout after ${duration}ms`);
+      return NextResponse.json(
+        { error: 'Request timeout - please try again' },
+        { status: 408 }
+      );
+    }
+
+    if (error instanceof LLMError) {
+      console.error(`[${requestId}] Provider error after ${duration}ms: ${error.message}`);
+      return NextResponse.json(
+        { error: error.code === 'EMPTY_RESPONSE' ? 'No content generated' : 'Failed to refine draft' },
+        { status: 500 }
+      );
+    }
+
+    console.error(`[${requestId}] Unexpected error after ${duration}ms:`, error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import {
+  deleteSavedReply,
+  normalizeSavedReplyUpdate,
+  SavedReplyValidationError,
+  updateSavedReply,
+} from '@/lib/saved-replies';
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const update = normalizeSavedReplyUpdate(await request.json());
+    const reply = await updateSavedReply(supabase, user.id, id, update);
+    if (!reply) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Updated saved reply ${id}`);
+    return NextResponse.json({ reply });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message }, { status: 401 });
+    }
+    if (error instanceof SavedReplyValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof SavedReplyValidationError ? error.message : 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Saved reply update failed: ${message}`);
+    return NextResponse.json(
+      { error: 'SAVED_REPLIES_ERROR', message: 'Failed to update saved reply' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const deleted = await deleteSavedReply(supabase, user.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Deleted saved reply ${id}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message }, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Saved reply delete failed: ${message}`);
+    return NextResponse.json(
+      { error: 'SAVED_REPLIES_ERROR', message: 'Failed to delete saved reply' },
+      { status: 500 }
+    );
+  }
+}
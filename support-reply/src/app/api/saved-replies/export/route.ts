@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { listSavedReplies, serializeSavedReplies } from '@/lib/saved-replies';
+
+const MAX_EXPORTED_REPLIES = 5000;
+
+// GET /api/saved-replies/export?format=csv|json downloads the whole library
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const format = new URL(request.url).searchParams.get('format') === 'csv' ? 'csv' : 'json';
+    const replies = await listSavedReplies(supabase, user.id, { limit: MAX_EXPORTED_REPLIES });
+
+    return new Response(serializeSavedReplies(replies, format), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="saved-replies.${format}"`,
+      },
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message }, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Saved replies export failed: ${message}`);
+    return NextResponse.json(
+      { error: 'SAVED_REPLIES_ERROR', message: 'Failed to export saved replies' },
+      { status: 500 }
+    );
+  }
+}
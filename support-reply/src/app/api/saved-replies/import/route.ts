@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { ensureProfile } from '@/lib/account';
+import {
+  detectFormat,
+  importSavedReplies,
+  normalizeSavedReplies,
+  parseSavedReplies,
+  SavedReplyInput,
+  SavedReplyValidationError,
+} from '@/lib/saved-replies';
+
+const MAX_IMPORT_BYTES = 1024 * 1024;
+
+interface ImportResponse {
+  imported: number;
+  skipped: number;
+}
+
+interface ImportError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'SAVED_REPLIES_ERROR';
+  message?: string;
+}
+
+// Accepts a CSV/JSON upload in the "file" field, or a JSON body { replies: [...] }
+// (used to move an anonymous browser library into the account on sign-in)
+async function readReplies(request: NextRequest): Promise<{ replies: SavedReplyInput[]; skipped: number }> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      throw new SavedReplyValidationError('Attach a CSV or JSON file in the "file" field');
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      throw new SavedReplyValidationError('File must be 1 MB or smaller');
+    }
+
+    const text = await file.text();
+    return parseSavedReplies(text, detectFormat(file.name, text));
+  }
+
+  const body = await request.json();
+  if (!Array.isArray(body?.replies)) {
+    throw new SavedReplyValidationError('Body must be { "replies": [...] }');
+  }
+  return normalizeSavedReplies(body.replies);
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<ImportResponse | ImportError>> {
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as ImportError, { status: 401 });
+    }
+
+    const { replies, skipped } = await readReplies(request);
+
+    await ensureProfile(supabase, user, requestId);
+    const imported = await importSavedReplies(supabase, user.id, replies);
+
+    const duration = Date.now() - startTime;
+    console.log(`[${requestId}] Imported ${imported} saved replies (${skipped} skipped) in ${duration}ms`);
+
+    return NextResponse.json({ imported, skipped });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as ImportError, { status: 401 });
+    }
+    if (error instanceof SavedReplyValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof SavedReplyValidationError ? error.message : 'Invalid JSON body' } as ImportError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Saved replies import failed: ${message}`);
+    return NextResponse.json(
+      { error: 'SAVED_REPLIES_ERROR', message: 'Failed to import saved replies' } as ImportError,
+      { status: 500 }
+    );
+  }
+}
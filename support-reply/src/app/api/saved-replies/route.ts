@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { ensureProfile } from '@/lib/account';
+import {
+  createSavedReply,
+  listSavedReplies,
+  normalizeSavedReply,
+  SavedReply,
+  SavedReplyValidationError,
+} from '@/lib/saved-replies';
+
+interface SavedReplyListResponse {
+  replies: SavedReply[];
+}
+
+interface SavedReplyResponse {
+  reply: SavedReply;
+}
+
+interface SavedRepliesError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'SAVED_REPLIES_ERROR';
+  message?: string;
+}
+
+// GET /api/saved-replies?q=refund&tag=billing
+export async function GET(request: NextRequest): Promise<NextResponse<SavedReplyListResponse | SavedRepliesError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as SavedRepliesError, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const replies = await listSavedReplies(supabase, user.id, {
+      query: searchParams.get('q') || undefined,
+      tag: searchParams.get('tag') || undefined,
+    });
+
+    return NextResponse.json({ replies });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as SavedRepliesError, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Saved replies list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'SAVED_REPLIES_ERROR', message: 'Failed to load saved replies' } as SavedRepliesError,
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<SavedReplyResponse | SavedRepliesError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user } = await resolveRequestCaller(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as SavedRepliesError, { status: 401 });
+    }
+
+    const input = normalizeSavedReply(await request.json());
+
+    // Saved replies hang off the profile row
+    await ensureProfile(supabase, user, requestId);
+    const reply = await createSavedReply(supabase, user.id, input);
+
+    console.log(`[${requestId}] Saved reply ${reply.id}`);
+    return NextResponse.json({ reply });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as SavedRepliesError, { status: 401 });
+    }
+    if (error instanceof SavedReplyValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof SavedReplyValidationError ? error.message : 'Invalid JSON body' } as SavedRepliesError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Save reply failed: ${message}`);
+    return NextResponse.json(
+      { error: 'SAVED_REPLIES_ERROR', message: 'Failed to save reply' } as SavedRepliesError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { getCancelAt, getCurrentPeriodEnd, getStripeId, hasSubscriptionPrice, isEntitledStatus } from '@/lib/stripe';
+import { findPlanByPriceId, getOveragePriceId, isPlanId, PlanId, PLANS } from '@/lib/plans';
+
+interface WebhookResponse {
+  received: true;
+  duplicate?: boolean;
+}
+
+interface WebhookError {
+  error: 'CONFIG_ERROR' | 'INVALID_SIGNATURE' | 'PROCESSING_FAILED';
+  message?: string;
+}
+
+interface EntitlementUpdate {
+  pro: boolean;
+  subscription_status: string;
+  stripe_customer_id?: string | null;
+  stripe_subscription_id?: string | null;
+  cancel_at?: string | null;
+  current_period_end?: string | null;
+  plan?: PlanId;
+  // Profiles only: the subscription carries the metered overage price
+  overage_billing?: boolean;
+}
+
+interface EntitlementTarget {
+  customerId?: string | null;
+  // Only touch rows whose stored subscription is this one (or unset), so a late event
+  // about an old subscription can't downgrade a customer who has since subscribed again
+  onlySubscriptionId?: string;
+}
+
+function forSubscription<T extends { or(filters: string): T }>(query: T, subscriptionId?: string): T {
+  return subscriptionId
+    ? query.or(`stripe_subscription_id.is.null,stripe_subscription_id.eq.${subscriptionId}`)
+    : query;
+}
+
+// Locate the profile by user_id when Stripe metadata carries it, otherwise by stored customer ID
+async function updateProfileEntitlement(
+  supabase: SupabaseClient,
+  target: EntitlementTarget & { userId?: string | null },
+  update: EntitlementUpdate
+): Promise<boolean> {
+  const query = forSubscription(supabase.from('profiles').update(update), target.onlySubscriptionId);
+
+  let filtered;
+  if (target.userId) {
+    filtered = query.eq('user_id', target.userId);
+  } else if (target.customerId) {
+    filtered = query.eq('stripe_customer_id', target.customerId);
+  } else {
+    return false;
+  }
+
+  const { data, error } = await filtered.select('user_id');
+
+  if (error) {
+    throw new Error(`Failed to update profile: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// Team subscriptions carry workspace_id metadata; seats follow the subscription quantity
+async function updateWorkspaceEntitlement(
+  supabase: SupabaseClient,
+  target: EntitlementTarget & { workspaceId?: string | null },
+  update: EntitlementUpdate & { seats?: number }
+): Promise<boolean> {
+  const query = forSubscription(supabase.from('workspaces').update(update), target.onlySubscriptionId);
+
+  let filtered;
+  if (target.workspaceId) {
+    filtered = query.eq('id', target.workspaceId);
+  } else if (target.customerId) {
+    filtered = query.eq('stripe_customer_id', target.customerId);
+  } else {
+    return false;
+  }
+
+  const { data, error } = await filtered.select('id');
+
+  if (error) {
+    throw new Error(`Failed to update workspace: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// Catalog plan of a subscription: by its price, so portal plan switches are picked up,
+// falling back to the plan recorded at checkout
+function getSubscriptionPlan(subscription: Stripe.Subscription, perSeat: boolean): PlanId | undefined {
+  const plan = findPlanByPriceId(subscription.items.data[0]?.price?.id, perSeat);
+  if (plan) return plan.id;
+  return isPlanId(subscription.metadata?.plan) ? subscription.metadata.plan : undefined;
+}
+
+// Delayed payment methods (bank debits) complete checkout unpaid; Pro is granted once
+// checkout.session.async_payment_succeeded reports the money arrived
+function isCheckoutPaid(session: Stripe.Checkout.Session): boolean {
+  return session.payment_status === 'paid' || session.payment_status === 'no_payment_required';
+}
+
+async function handleCheckoutCompleted(supabase: SupabaseClient, session: Stripe.Checkout.Session) {
+  const plan = isPlanId(session.metadata?.plan) ? session.metadata.plan : undefined;
+  const update = {
+    pro: true,
+    subscription_status: 'active',
+    stripe_customer_id: getStripeId(session.customer),
+    stripe_subscription_id: getStripeId(session.subscription),
+    // A new subscription replaces any cancelled one; its period arrives with the subscription events
+    cancel_at: null,
+    current_period_end: null,
+    ...(plan ? { plan } : {}),
+  };
+
+  const workspaceId = session.metadata?.workspace_id;
+  if (workspaceId) {
+    const seats = Number(session.metadata?.seats);
+    return updateWorkspaceEntitlement(supabase, { workspaceId }, {
+      ...update,
+      ...(Number.isInteger(seats) && seats > 0 ? { seats } : {}),
+    });
+  }
+
+  const userId = session.metadata?.user_id;
+  if (!userId) {
+    throw new Error(`Checkout session ${session.id} has no user_id metadata`);
+  }
+
+  return updateProfileEntitlement(supabase, { userId }, { ...update, overage_billing: session.metadata?.overage === 'true' });
+}
+
+// Cancelling in the billing portal keeps the subscription active with cancel_at set, so Pro
+// lasts until the period ends; customer.subscription.deleted arrives then with status canceled
+async function handleSubscriptionChanged(supabase: SupabaseClient, subscription: Stripe.Subscription) {
+  const customerId = getStripeId(subscription.customer);
+  const entitled = isEntitledStatus(subscription.status);
+  const update = {
+    pro: entitled,
+    subscription_status: subscription.status,
+    stripe_customer_id: customerId,
+    stripe_subscription_id: subscription.id,
+    cancel_at: getCancelAt(subscription),
+    current_period_end: getCurrentPeriodEnd(subscription),
+  };
+  const onlySubscriptionId = entitled ? undefined : subscription.id;
+
+  const workspaceId = subscription.metadata?.workspace_id;
+  const seats = subscription.items.data[0]?.quantity;
+  const teamPlan = getSubscriptionPlan(subscription, true);
+  const workspaceUpdate = { ...update, ...(seats ? { seats } : {}), ...(teamPlan ? { plan: teamPlan } : {}) };
+
+  if (workspaceId) {
+    return updateWorkspaceEntitlement(supabase, { workspaceId, onlySubscriptionId }, workspaceUpdate);
+  }
+
+  const plan = getSubscriptionPlan(subscription, false);
+  const overageBilling = hasSubscriptionPrice(subscription, getOveragePriceId(PLANS[plan || 'pro']));
+  const matched = await updateProfileEntitlement(
+    supabase,
+    { userId: subscription.metadata?.user_id, customerId, onlySubscriptionId },
+    { ...update, ...(plan ? { plan } : {}), overage_billing: overageBilling }
+  );
+
+  return matched || updateWorkspaceEntitlement(supabase, { customerId, onlySubscriptionId }, workspaceUpdate);
+}
+
+async function handlePaymentFailed(supabase: SupabaseClient, invoice: Stripe.Invoice) {
+  const customerId = getStripeId(invoice.customer);
+  const update = {
+    pro: false,
+    subscription_status: 'past_due',
+  };
+
+  const matched = await updateProfileEntitlement(supabase, { customerId }, update);
+  return matched || updateWorkspaceEntitlement(supabase, { customerId }, update);
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<WebhookResponse | WebhookError>> {
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
+
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    console.error(`[${requestId}] Missing STRIPE_WEBHOOK_SECRET`);
+    return NextResponse.json(
+      { error: 'CONFIG_ERROR', message: 'Server configuration incomplete' } as WebhookError,
+      { status: 500 }
+    );
+  }
+
+  // Signature verification needs the exact raw body Stripe signed
+  const payload = await request.text();
+  const signature = request.headers.get('stripe-signature');
+
+  let event: Stripe.Event;
+  try {
+    if (!signature) {
+      throw new Error('Missing stripe-signature header');
+    }
+    event = Stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[${requestId}] Rejected webhook: ${message}`);
+    return NextResponse.json(
+      { error: 'INVALID_SIGNATURE' } as WebhookError,
+      { status: 400 }
+    );
+  }
+
+  const supabase = createServiceRoleClient();
+
+  // Claim the event ID first so Stripe retries and replays are processed only once
+  const { error: claimError } = await supabase
+    .from('stripe_events')
+    .insert({ id: event.id, type: event.type });
+
+  if (claimError) {
+    if (claimError.code === '23505') {
+      console.log(`[${requestId}] Duplicate event ${event.id} (${event.type}), skipping`);
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+    console.error(`[${requestId}] Failed to record event ${event.id}:`, claimError);
+    return NextResponse.json(
+      { error: 'PROCESSING_FAILED' } as WebhookError,
+      { status: 500 }
+    );
+  }
+
+  try {
+    let matched: boolean | null = null;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        if (!isCheckoutPaid(event.data.object)) {
+          console.log(`[${requestId}] Checkout session ${event.data.object.id} is ${event.data.object.payment_status}, waiting for payment`);
+          break;
+        }
+        matched = await handleCheckoutCompleted(supabase, event.data.object);
+        break;
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        matched = await handleSubscriptionChanged(supabase, event.data.object);
+        break;
+      case 'invoice.payment_failed':
+        matched = await handlePaymentFailed(supabase, event.data.object);
+        break;
+      default:
+        console.log(`[${requestId}] Ignoring unhandled event type ${event.type}`);
+    }
+
+    if (matched === false) {
+      console.warn(`[${requestId}] No profile or workspace matched ${event.type} (${event.id})`);
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[${requestId}] Processed ${event.type} (${event.id}) in ${duration}ms`);
+
+    return NextResponse.json({ received: true });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Failed to process ${event.type} (${event.id}): ${message}`);
+
+    // Release the claim so Stripe's retry gets another chance
+    await supabase.from('stripe_events').delete().eq('id', event.id);
+
+    return NextResponse.json(
+      { error: 'PROCESSING_FAILED' } as WebhookError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { hasBearerSecret } from '@/lib/api-keys';
+import { createStripeClient } from '@/lib/stripe';
+import { reportOverageUsage, UsageReportSummary } from '@/lib/usage';
+
+interface UsageReportResponse {
+  months: UsageReportSummary[];
+}
+
+interface UsageReportError {
+  error: 'UNAUTHORIZED' | 'CONFIG_ERROR' | 'PROCESSING_FAILED';
+  message?: string;
+}
+
+// POST /api/usage/report - send Pro overage to the Stripe meter. Run on a schedule
+// (hourly is plenty) with Authorization: Bearer $CRON_SECRET; repeated and retried
+// runs never double-bill. GET is accepted for schedulers that only send GET.
+export async function POST(request: NextRequest): Promise<NextResponse<UsageReportResponse | UsageReportError>> {
+  const requestId = Math.random().toString(36).substring(7);
+  const startTime = Date.now();
+
+  const secret = process.env.CRON_SECRET;
+  const stripe = createStripeClient();
+  if (!secret || !stripe) {
+    console.error(`[${requestId}] Missing CRON_SECRET or STRIPE_SECRET_KEY`);
+    return NextResponse.json(
+      { error: 'CONFIG_ERROR', message: 'Server configuration incomplete' } as UsageReportError,
+      { status: 500 }
+    );
+  }
+
+  if (!hasBearerSecret(request, secret)) {
+    return NextResponse.json({ error: 'UNAUTHORIZED' } as UsageReportError, { status: 401 });
+  }
+
+  try {
+    const months = await reportOverageUsage(createServiceRoleClient(), stripe);
+
+    const duration = Date.now() - startTime;
+    for (const { month, customers, reported, unchanged, failed } of months) {
+      console.log(`[${requestId}] Overage ${month} - customers: ${customers}, reported: ${reported}, unchanged: ${unchanged}, failed: ${failed}`);
+    }
+    console.log(`[${requestId}] Usage report finished in ${duration}ms`);
+
+    return NextResponse.json({ months });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Usage report failed: ${message}`);
+    return NextResponse.json(
+      { error: 'PROCESSING_FAILED', message: 'Failed to report usage' } as UsageReportError,
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = POST;
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { resolveQuotaAccount } from '@/lib/account';
+import { getOveragePriceId, PlanId, PlanRestrictionError } from '@/lib/plans';
+import { getQuotaMonthStart, getQuotaStore } from '@/lib/quota';
+import { computeOverage, projectMonthlyUsage } from '@/lib/usage';
+
+interface UsageResponse {
+  plan: PlanId;
+  // First day of the calendar month (UTC)
+  month: string;
+  // Null when the quota store has no total for the month
+  used: number | null;
+  monthlyLimit: number | null;
+  // Generations included before overage is billed; null without overage billing
+  included: number | null;
+  overage: number;
+  // Month total and overage at the current pace
+  projected: number | null;
+  projectedOverage: number;
+}
+
+interface UsageError {
+  error: 'AUTH_REQUIRED' | 'FORBIDDEN' | 'USAGE_ERROR';
+  message?: string;
+}
+
+// GET /api/usage - this month's usage for the signed-in user's quota, with projected overage
+export async function GET(request: NextRequest): Promise<NextResponse<UsageResponse | UsageError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const caller = await resolveRequestCaller(request);
+    const { supabase, user } = caller;
+    if (!user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as UsageError, { status: 401 });
+    }
+
+    const account = await resolveQuotaAccount(caller, requestId);
+    const month = getQuotaMonthStart(account.subject.day);
+    const used = await getQuotaStore().getUsageSince(account.subject, month);
+
+    // Overage applies to the user's own metered subscription, never to a workspace plan
+    let included: number | null = null;
+    if (account.plan.overage && !account.workspaceId && getOveragePriceId(account.plan)) {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('overage_billing')
+        .eq('user_id', user.id)
+        .maybeSingle<{ overage_billing: boolean }>();
+      if (error) {
+        throw new Error(`Failed to read profile billing: ${error.message}`);
+      }
+      included = profile?.overage_billing ? account.plan.overage.included : null;
+    }
+
+    const projected = used === null ? null : projectMonthlyUsage(used);
+
+    return NextResponse.json({
+      plan: account.plan.id,
+      month,
+      used,
+      monthlyLimit: account.monthlyLimit,
+      included,
+      overage: used !== null && included !== null ? computeOverage(used, included) : 0,
+      projected,
+      projectedOverage: projected !== null && included !== null ? computeOverage(projected, included) : 0,
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED', message: error.message } as UsageError, { status: 401 });
+    }
+    if (error instanceof PlanRestrictionError) {
+      return NextResponse.json({ error: 'FORBIDDEN', message: error.message } as UsageError, { status: 403 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Usage lookup failed: ${message}`);
+    return NextResponse.json(
+      { error: 'USAGE_ERROR', message: 'Failed to load usage' } as UsageError,
+      { status: 500 }
+    );
+  }
+}
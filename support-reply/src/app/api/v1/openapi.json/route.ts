@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET /api/v1/openapi.json - public, so API clients can be generated without a key
+export async function GET(request: NextRequest) {
+  const serverUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+  return NextResponse.json(buildOpenApiDocument(serverUrl));
+}
@@ -0,0 +1,2 @@
+// Versioned alias of /api/refine; Bearer API keys and sessions are handled there
+export { POST } from '@/app/api/refine/route';
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyAuthError, resolveRequestCaller } from '@/lib/api-keys';
+import { listVoiceProfiles } from '@/lib/voice-profiles';
+import { getMembership } from '@/lib/workspaces';
+
+// GET /api/v1/voices - voices usable as `tone`: built-ins, plus the caller's own and workspace voices
+export async function GET(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { supabase, user, viaApiKey } = await resolveRequestCaller(request);
+
+    // API key callers use the service-role client, so scope the listing to the owner
+    const workspaceId = user && viaApiKey ? (await getMembership(supabase, user.id))?.workspace.id ?? null : undefined;
+
+    return NextResponse.json({ voices: await listVoiceProfiles(supabase, user?.id || null, workspaceId) });
+
+  } catch (error: unknown) {
+    if (error instanceof ApiKeyAuthError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Voice list failed: ${message}`);
+    return NextResponse.json({ error: 'Failed to load voices' }, { status: 500 });
+  }
+}
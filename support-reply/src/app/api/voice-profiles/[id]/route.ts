@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { canManageMembers, getMembership } from '@/lib/workspaces';
+import {
+  deleteVoiceProfile,
+  findDefaultVoice,
+  normalizeVoiceProfileUpdate,
+  updateVoiceProfile,
+  VoiceProfileOwner,
+  VoiceProfileValidationError,
+} from '@/lib/voice-profiles';
+
+// Try the user's own voices first, then the workspace's when they may edit it
+async function ownersFor(supabase: SupabaseClient, userId: string): Promise<[SupabaseClient, VoiceProfileOwner][]> {
+  const owners: [SupabaseClient, VoiceProfileOwner][] = [[supabase, { userId }]];
+
+  const membership = await getMembership(supabase, userId);
+  if (membership && canManageMembers(membership.role)) {
+    owners.push([createServiceRoleClient(), { workspaceId: membership.workspace.id }]);
+  }
+  return owners;
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    if (findDefaultVoice(id)) {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'Built-in voices cannot be changed' }, { status: 400 });
+    }
+
+    const update = normalizeVoiceProfileUpdate(await request.json());
+
+    for (const [client, owner] of await ownersFor(supabase, user.id)) {
+      const profile = await updateVoiceProfile(client, owner, id, update);
+      if (profile) {
+        console.log(`[${requestId}] Updated voice profile ${id}`);
+        return NextResponse.json({ profile });
+      }
+    }
+
+    return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+
+  } catch (error: unknown) {
+    if (error instanceof VoiceProfileValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof VoiceProfileValidationError ? error.message : 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Voice profile update failed: ${message}`);
+    return NextResponse.json(
+      { error: 'VOICE_PROFILES_ERROR', message: 'Failed to update voice profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    if (findDefaultVoice(id)) {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'Built-in voices cannot be changed' }, { status: 400 });
+    }
+
+    for (const [client, owner] of await ownersFor(supabase, user.id)) {
+      if (await deleteVoiceProfile(client, owner, id)) {
+        console.log(`[${requestId}] Deleted voice profile ${id}`);
+        return NextResponse.json({ success: true });
+      }
+    }
+
+    return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Voice profile delete failed: ${message}`);
+    return NextResponse.json(
+      { error: 'VOICE_PROFILES_ERROR', message: 'Failed to delete voice profile' },
+      { status: 500 }
+    );
+  }
+}
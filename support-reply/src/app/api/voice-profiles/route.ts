@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { ensureProfile } from '@/lib/account';
+import { requireMembership, WorkspaceError, workspaceErrorStatus } from '@/lib/workspaces';
+import {
+  createVoiceProfile,
+  listVoiceProfiles,
+  normalizeVoiceProfile,
+  VoiceProfile,
+  VoiceProfileValidationError,
+} from '@/lib/voice-profiles';
+
+interface VoiceProfileListResponse {
+  profiles: VoiceProfile[];
+}
+
+interface VoiceProfileResponse {
+  profile: VoiceProfile;
+}
+
+interface VoiceProfilesError {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'VOICE_PROFILES_ERROR' | WorkspaceError['code'];
+  message?: string;
+}
+
+// GET /api/voice-profiles - built-in voices for everyone, plus personal and workspace voices when signed in
+export async function GET(request: NextRequest): Promise<NextResponse<VoiceProfileListResponse | VoiceProfilesError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    return NextResponse.json({ profiles: await listVoiceProfiles(supabase, user?.id || null) });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Voice profile list failed: ${message}`);
+    return NextResponse.json(
+      { error: 'VOICE_PROFILES_ERROR', message: 'Failed to load voice profiles' } as VoiceProfilesError,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/voice-profiles { name, description, examples, formality, emoji_policy, sign_off, banned_phrases, shared? }
+// `shared: true` creates the voice for the whole workspace (owners and admins only)
+export async function POST(request: NextRequest): Promise<NextResponse<VoiceProfileResponse | VoiceProfilesError>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as VoiceProfilesError, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = normalizeVoiceProfile(body);
+
+    let profile: VoiceProfile;
+    if (body?.shared === true) {
+      const { workspace } = await requireMembership(supabase, user.id, ['owner', 'admin']);
+      profile = await createVoiceProfile(createServiceRoleClient(), { workspaceId: workspace.id }, input);
+    } else {
+      // Personal voices hang off the profile row
+      await ensureProfile(supabase, user, requestId);
+      profile = await createVoiceProfile(supabase, { userId: user.id }, input);
+    }
+
+    console.log(`[${requestId}] Created voice profile ${profile.id}${profile.workspace_id ? ` for workspace ${profile.workspace_id}` : ''}`);
+    return NextResponse.json({ profile }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json(
+        { error: error.code, message: error.message } as VoiceProfilesError,
+        { status: workspaceErrorStatus(error) }
+      );
+    }
+    if (error instanceof VoiceProfileValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: error instanceof VoiceProfileValidationError ? error.message : 'Invalid JSON body' } as VoiceProfilesError,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Voice profile creation failed: ${message}`);
+    return NextResponse.json(
+      { error: 'VOICE_PROFILES_ERROR', message: 'Failed to create voice profile' } as VoiceProfilesError,
+      { status: 500 }
+    );
+  }
+}
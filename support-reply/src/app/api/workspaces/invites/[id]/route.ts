@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { requireMembership, revokeInvite, WorkspaceError, workspaceErrorStatus } from '@/lib/workspaces';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { id } = await params;
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const { workspace } = await requireMembership(supabase, user.id, ['owner', 'admin']);
+    const revoked = await revokeInvite(createServiceRoleClient(), workspace.id, id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Workspace ${workspace.id}: revoked invite ${id}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.code, message: error.message }, { status: workspaceErrorStatus(error) });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Invite revoke failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
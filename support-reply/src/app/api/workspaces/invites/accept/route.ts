@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { ensureProfile } from '@/lib/account';
+import { acceptInvite, WorkspaceError, workspaceErrorStatus } from '@/lib/workspaces';
+
+// POST /api/workspaces/invites/accept { token }
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (typeof body?.token !== 'string' || !body.token) {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'token is required' }, { status: 400 });
+    }
+
+    await ensureProfile(supabase, user, requestId);
+    const { workspace, role } = await acceptInvite(createServiceRoleClient(), user, body.token);
+
+    console.log(`[${requestId}] user_id: ${user.id} joined workspace ${workspace.id} as ${role}`);
+    return NextResponse.json({ workspace, role });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.code, message: error.message }, { status: workspaceErrorStatus(error) });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Invite accept failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to accept invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { createInvite, requireMembership, WorkspaceError, workspaceErrorStatus, WorkspaceRole } from '@/lib/workspaces';
+
+// POST /api/workspaces/invites { email, role } - owners and admins.
+// Addresses without an account get a Supabase Auth invite email that lands on the
+// accept page; for everyone else the returned link is shared by hand.
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (typeof body?.email !== 'string') {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'email is required' }, { status: 400 });
+    }
+
+    const { workspace } = await requireMembership(supabase, user.id, ['owner', 'admin']);
+    const admin = createServiceRoleClient();
+    const { invite, token } = await createInvite(
+      admin,
+      workspace.id,
+      user.id,
+      body.email,
+      (body.role || 'agent') as WorkspaceRole
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const inviteUrl = `${baseUrl}/workspace/join?token=${encodeURIComponent(token)}`;
+
+    const { error: emailError } = await admin.auth.admin.inviteUserByEmail(invite.email, { redirectTo: inviteUrl });
+    if (emailError) {
+      console.log(`[${requestId}] Invite email not sent to ${invite.email}: ${emailError.message}`);
+    }
+
+    console.log(`[${requestId}] Workspace ${workspace.id}: invited ${invite.email} as ${invite.role}`);
+    return NextResponse.json({ invite, inviteUrl, emailSent: !emailError }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.code, message: error.message }, { status: workspaceErrorStatus(error) });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Invite creation failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
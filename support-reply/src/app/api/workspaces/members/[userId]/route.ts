@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import {
+  changeMemberRole,
+  listMembers,
+  removeMember,
+  requireMembership,
+  WorkspaceError,
+  workspaceErrorStatus,
+  WorkspaceRole,
+} from '@/lib/workspaces';
+
+// PATCH /api/workspaces/members/:userId { role } - owner only
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ userId: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { userId } = await params;
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { workspace } = await requireMembership(supabase, user.id, ['owner']);
+
+    const changed = await changeMemberRole(createServiceRoleClient(), workspace.id, userId, body?.role as WorkspaceRole);
+    if (!changed) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Workspace ${workspace.id}: ${userId} is now ${body.role}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.code, message: error.message }, { status: workspaceErrorStatus(error) });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'INVALID_INPUT', message: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Member role change failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to change member role' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspaces/members/:userId - remove a member, or leave when it is the caller.
+// Admins can remove agents; the owner can remove anyone but cannot leave.
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ userId: string }> }) {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const { userId } = await params;
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' }, { status: 401 });
+    }
+
+    const { workspace, role } = await requireMembership(supabase, user.id);
+
+    if (userId === user.id) {
+      if (role === 'owner') {
+        throw new WorkspaceError('FORBIDDEN', 'The owner cannot leave the workspace');
+      }
+    } else {
+      if (role === 'agent') {
+        throw new WorkspaceError('FORBIDDEN', 'Only owners and admins can remove members');
+      }
+      if (role === 'admin') {
+        const target = (await listMembers(supabase, workspace.id)).find((member) => member.user_id === userId);
+        if (target && target.role !== 'agent') {
+          throw new WorkspaceError('FORBIDDEN', 'Admins can only remove agents');
+        }
+      }
+    }
+
+    const removed = await removeMember(createServiceRoleClient(), workspace.id, userId);
+    if (!removed) {
+      return NextResponse.json({ error: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    console.log(`[${requestId}] Workspace ${workspace.id}: removed ${userId}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.code, message: error.message }, { status: workspaceErrorStatus(error) });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Member removal failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
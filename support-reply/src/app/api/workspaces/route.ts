@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { ensureProfile } from '@/lib/account';
+import { createStripeClient } from '@/lib/stripe';
+import {
+  canManageMembers,
+  createWorkspace,
+  getMembership,
+  listMembers,
+  listPendingInvites,
+  MAX_SEATS,
+  requireMembership,
+  updateWorkspace,
+  Workspace,
+  WorkspaceError,
+  workspaceErrorStatus,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '@/lib/workspaces';
+
+interface WorkspaceResponse {
+  workspace: Workspace | null;
+  role?: WorkspaceRole;
+  members?: WorkspaceMember[];
+  // Pending invites are only listed for owners and admins
+  invites?: WorkspaceInvite[];
+}
+
+interface WorkspaceErrorResponse {
+  error: 'AUTH_REQUIRED' | 'INVALID_INPUT' | 'STRIPE_ERROR' | 'WORKSPACE_ERROR' | WorkspaceError['code'];
+  message?: string;
+}
+
+function workspaceErrorResponse(error: WorkspaceError) {
+  return NextResponse.json(
+    { error: error.code, message: error.message } as WorkspaceErrorResponse,
+    { status: workspaceErrorStatus(error) }
+  );
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<WorkspaceResponse | WorkspaceErrorResponse>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as WorkspaceErrorResponse, { status: 401 });
+    }
+
+    const membership = await getMembership(supabase, user.id);
+    if (!membership) {
+      return NextResponse.json({ workspace: null });
+    }
+
+    const { workspace, role } = membership;
+    const members = await listMembers(supabase, workspace.id);
+    const invites = canManageMembers(role) ? await listPendingInvites(supabase, workspace.id) : undefined;
+
+    return NextResponse.json({ workspace, role, members, invites });
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Workspace read failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to load workspace' } as WorkspaceErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces { name } - the caller becomes the owner
+export async function POST(request: NextRequest): Promise<NextResponse<WorkspaceResponse | WorkspaceErrorResponse>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as WorkspaceErrorResponse, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (typeof body?.name !== 'string') {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'name is required' } as WorkspaceErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    await ensureProfile(supabase, user, requestId);
+    const workspace = await createWorkspace(createServiceRoleClient(), user.id, body.name);
+
+    console.log(`[${requestId}] Created workspace ${workspace.id} for user_id: ${user.id}`);
+    return NextResponse.json({ workspace, role: 'owner' }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return workspaceErrorResponse(error);
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Invalid JSON body' } as WorkspaceErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Workspace creation failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to create workspace' } as WorkspaceErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/workspaces { name?, pooledQuota?, seats? } - seats are owner-only
+export async function PATCH(request: NextRequest): Promise<NextResponse<WorkspaceResponse | WorkspaceErrorResponse>> {
+  const requestId = Math.random().toString(36).substring(7);
+
+  try {
+    const supabase = createApiRouteClient(request);
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'AUTH_REQUIRED' } as WorkspaceErrorResponse, { status: 401 });
+    }
+
+    const body = await request.json();
+    const membership = await requireMembership(supabase, user.id, ['owner', 'admin']);
+    const { workspace, memberCount } = membership;
+    const update: { name?: string; pooled_quota?: boolean; seats?: number } = {};
+
+    if (body?.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > 80) {
+        return NextResponse.json(
+          { error: 'INVALID_INPUT', message: 'Workspace name must be 1-80 characters' } as WorkspaceErrorResponse,
+          { status: 400 }
+        );
+      }
+      update.name = name;
+    }
+
+    if (body?.pooledQuota !== undefined) {
+      if (typeof body.pooledQuota !== 'boolean') {
+        return NextResponse.json(
+          { error: 'INVALID_INPUT', message: 'pooledQuota must be a boolean' } as WorkspaceErrorResponse,
+          { status: 400 }
+        );
+      }
+      update.pooled_quota = body.pooledQuota;
+    }
+
+    if (body?.seats !== undefined) {
+      if (membership.role !== 'owner') {
+        throw new WorkspaceError('FORBIDDEN', 'Only the owner can change seats');
+      }
+      if (!Number.isInteger(body.seats) || body.seats < Math.max(1, memberCount) || body.seats > MAX_SEATS) {
+        return NextResponse.json(
+          { error: 'INVALID_INPUT', message: `seats must be between ${Math.max(1, memberCount)} and ${MAX_SEATS}` } as WorkspaceErrorResponse,
+          { status: 400 }
+        );
+      }
+      update.seats = body.seats;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Nothing to update' } as WorkspaceErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    // A paid workspace bills per seat, so the subscription quantity changes first
+    if (update.seats !== undefined && workspace.stripe_subscription_id) {
+      const stripe = createStripeClient();
+      if (!stripe) {
+        return NextResponse.json(
+          { error: 'STRIPE_ERROR', message: 'Billing is not configured' } as WorkspaceErrorResponse,
+          { status: 500 }
+        );
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(workspace.stripe_subscription_id);
+      const item = subscription.items.data[0];
+      await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: item.id, quantity: update.seats }],
+        proration_behavior: 'create_prorations',
+      });
+      console.log(`[${requestId}] Updated subscription ${subscription.id} to ${update.seats} seats`);
+    }
+
+    const updated = await updateWorkspace(createServiceRoleClient(), workspace.id, update);
+
+    console.log(`[${requestId}] Updated workspace ${workspace.id}: ${Object.keys(update).join(', ')}`);
+    return NextResponse.json({ workspace: updated, role: membership.role });
+
+  } catch (error: unknown) {
+    if (error instanceof WorkspaceError) {
+      return workspaceErrorResponse(error);
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'INVALID_INPUT', message: 'Invalid JSON body' } as WorkspaceErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Workspace update failed: ${message}`);
+    return NextResponse.json(
+      { error: 'WORKSPACE_ERROR', message: 'Failed to update workspace' } as WorkspaceErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import { createServerComponentClient } from '@/lib/supabase-server';
+
+const EMAIL_OTP_TYPES: EmailOtpType[] = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email'];
+
+// Only same-origin paths, so the link can't bounce users to another site. The value is
+// resolved the way the redirect will resolve it (URL parsing drops tabs and newlines and
+// reads backslashes as slashes), and anything landing on another origin falls back to /.
+function readNextPath(value: string | null, origin: string): string {
+  if (!value || !value.startsWith('/')) return '/';
+
+  try {
+    const url = new URL(value, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+// GET /auth/callback - landing point for OAuth, magic links, email confirmation and
+// password reset. Exchanges the code (or verifies the email token) on the server and
+// sets the session cookies on the redirect, so API routes see the session on the very
+// next request.
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const requestId = Math.random().toString(36).substring(7);
+  const { searchParams, origin } = request.nextUrl;
+
+  const code = searchParams.get('code');
+  const tokenHash = searchParams.get('token_hash');
+  const type = searchParams.get('type') as EmailOtpType | null;
+  const next = readNextPath(searchParams.get('next'), origin);
+
+  const fail = (message: string) => {
+    const url = new URL('/auth/error', origin);
+    url.searchParams.set('message', message);
+    return NextResponse.redirect(url);
+  };
+
+  // Providers report a denied consent or an expired link as error parameters
+  const providerError = searchParams.get('error_description') || searchParams.get('error');
+  if (providerError) {
+    console.log(`[${requestId}] Auth callback error from provider: ${providerError}`);
+    return fail(providerError);
+  }
+
+  try {
+    const supabase = await createServerComponentClient();
+
+    if (code) {
+      const { error } = await supabase.auth.exchangeCodeForSession(code);
+      if (error) {
+        console.log(`[${requestId}] Code exchange failed: ${error.message}`);
+        return fail('This sign-in link is invalid or has expired. Please try again.');
+      }
+    } else if (tokenHash && type && EMAIL_OTP_TYPES.includes(type)) {
+      const { error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type });
+      if (error) {
+        console.log(`[${requestId}] Email token verification failed: ${error.message}`);
+        return fail('This email link is invalid or has expired. Please request a new one.');
+      }
+    } else {
+      return fail('The sign-in link is missing its code.');
+    }
+
+    // Recovery links always continue to the new password form
+    const destination = type === 'recovery' ? '/reset-password' : next;
+    return NextResponse.redirect(new URL(destination, origin));
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[${requestId}] Auth callback failed: ${message}`);
+    return fail('Sign-in failed. Please try again.');
+  }
+}
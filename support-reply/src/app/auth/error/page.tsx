@@ -0,0 +1,39 @@
+'use client';
+
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+
+function AuthErrorMessage() {
+  const message = useSearchParams().get('message') || 'Sign-in failed. Please try again.';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">Couldn&apos;t sign you in</h1>
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+        <p className="text-red-800 text-sm">{message}</p>
+      </div>
+      <div className="flex justify-center gap-4 text-sm font-medium">
+        <Link href="/reset-password" className="text-gray-600 hover:text-gray-800">
+          Reset password
+        </Link>
+        <Link href="/" className="text-orange-600 hover:text-orange-700">
+          ← Back to Home
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+// Where /auth/callback sends links that failed or expired
+export default function AuthErrorPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white flex items-center justify-center">
+      <div className="max-w-md w-full mx-4">
+        <Suspense fallback={null}>
+          <AuthErrorMessage />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
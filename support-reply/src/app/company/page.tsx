@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  CompanyProfile,
+  CompanyProfileInput,
+  EMPTY_COMPANY_PROFILE,
+  MAX_EMAIL_LENGTH,
+  MAX_LINK_LABEL_LENGTH,
+  MAX_LINK_URL_LENGTH,
+  MAX_LINKS,
+  MAX_NAME_LENGTH,
+  MAX_POLICY_LENGTH,
+  MAX_SUPPORT_HOURS_LENGTH,
+} from '@/lib/company-profile/format';
+import { createSystemPrompt } from '@/lib/prompts';
+import { DEFAULT_VOICE_PROFILES } from '@/lib/voice-profiles/format';
+import type { WorkspaceRole } from '@/lib/workspaces';
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+function toInput(profile: CompanyProfile | null): CompanyProfileInput {
+  if (!profile) return EMPTY_COMPANY_PROFILE;
+  return {
+    company_name: profile.company_name,
+    product_name: profile.product_name,
+    support_hours: profile.support_hours,
+    return_policy: profile.return_policy,
+    escalation_email: profile.escalation_email,
+    links: profile.links,
+    other_facts: profile.other_facts,
+  };
+}
+
+const TEXT_FIELDS: { key: Exclude<keyof CompanyProfileInput, 'links'>; label: string; maxLength: number; placeholder: string; multiline?: boolean }[] = [
+  { key: 'company_name', label: 'Company name', maxLength: MAX_NAME_LENGTH, placeholder: 'Acme Inc.' },
+  { key: 'product_name', label: 'Product name', maxLength: MAX_NAME_LENGTH, placeholder: 'Acme Cloud' },
+  { key: 'support_hours', label: 'Support hours', maxLength: MAX_SUPPORT_HOURS_LENGTH, placeholder: 'Monday-Friday, 9am-6pm CET' },
+  { key: 'escalation_email', label: 'Escalation email', maxLength: MAX_EMAIL_LENGTH, placeholder: 'escalations@acme.com' },
+  {
+    key: 'return_policy',
+    label: 'Return and refund policy',
+    maxLength: MAX_POLICY_LENGTH,
+    placeholder: 'Unused items can be returned within 30 days for a full refund.',
+    multiline: true,
+  },
+  {
+    key: 'other_facts',
+    label: 'Other facts',
+    maxLength: MAX_POLICY_LENGTH,
+    placeholder: 'Orders ship within 2 business days. All plans include a 1-year warranty.',
+    multiline: true,
+  },
+];
+
+// The company facts drafts may state, with a live preview of the system prompt they produce
+export default function CompanyProfilePage() {
+  const [form, setForm] = useState<CompanyProfileInput>(EMPTY_COMPANY_PROFILE);
+  const [saved, setSaved] = useState<CompanyProfile | null>(null);
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/company-profile', { credentials: 'include' });
+        if (response.status === 401) {
+          setError('Sign in to set up your company profile.');
+          return;
+        }
+        const data = await readJson<{ profile: CompanyProfile | null; role: WorkspaceRole | null }>(response);
+        setSaved(data.profile);
+        setRole(data.role);
+        setForm(toInput(data.profile));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load company profile');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  // Owners and admins edit the workspace's profile; agents can't change a shared one
+  const shared = role === 'owner' || role === 'admin';
+  const readOnly = role === 'agent' && Boolean(saved?.workspace_id);
+
+  const preview = useMemo(
+    () => createSystemPrompt(DEFAULT_VOICE_PROFILES[0], null, [], { company: form }),
+    [form]
+  );
+
+  const updateField = (key: keyof CompanyProfileInput, value: string) => {
+    setForm((current) => ({ ...current, [key]: value }));
+  };
+
+  const updateLink = (index: number, key: 'label' | 'url', value: string) => {
+    setForm((current) => ({
+      ...current,
+      links: current.links.map((link, i) => (i === index ? { ...link, [key]: value } : link)),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setNotice(null);
+    setError(null);
+
+    try {
+      const data = await readJson<{ profile: CompanyProfile }>(await fetch('/api/company-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ ...form, shared }),
+      }));
+      setSaved(data.profile);
+      setForm(toInput(data.profile));
+      setNotice(shared ? 'Saved for everyone in your workspace.' : 'Saved. New drafts will use these facts.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save company profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-50';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Company Profile</h1>
+          <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+
+        <p className="text-gray-600 mb-6">
+          Drafts may state these facts and nothing else about your company. Leave a field empty and drafts won&apos;t mention it.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6">
+            <p className="text-green-800 text-sm">{notice}</p>
+          </div>
+        )}
+        {readOnly && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-6">
+            <p className="text-orange-800 text-sm">Your workspace shares this profile. Ask an owner or admin to change it.</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center text-gray-600 text-sm py-6">
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-orange-600 border-t-transparent mr-2"></div>
+            Loading...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <form onSubmit={handleSave} className="bg-white rounded-lg shadow-lg p-8 space-y-4">
+              {TEXT_FIELDS.map(({ key, label, maxLength, placeholder, multiline }) => (
+                <div key={key}>
+                  <label htmlFor={key} className="block text-sm font-medium text-gray-700 mb-1">
+                    {label}
+                  </label>
+                  {multiline ? (
+                    <textarea
+                      id={key}
+                      value={form[key]}
+                      onChange={(e) => updateField(key, e.target.value)}
+                      placeholder={placeholder}
+                      maxLength={maxLength}
+                      rows={3}
+                      disabled={readOnly}
+                      className={inputClass}
+                    />
+                  ) : (
+                    <input
+                      type={key === 'escalation_email' ? 'email' : 'text'}
+                      id={key}
+                      value={form[key]}
+                      onChange={(e) => updateField(key, e.target.value)}
+                      placeholder={placeholder}
+                      maxLength={maxLength}
+                      disabled={readOnly}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              ))}
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Links</span>
+                <div className="space-y-2">
+                  {form.links.map((link, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={link.label}
+                        onChange={(e) => updateLink(index, 'label', e.target.value)}
+                        placeholder="Help center"
+                        aria-label="Link label"
+                        maxLength={MAX_LINK_LABEL_LENGTH}
+                        disabled={readOnly}
+                        className={`${inputClass} w-1/3`}
+                      />
+                      <input
+                        type="url"
+                        value={link.url}
+                        onChange={(e) => updateLink(index, 'url', e.target.value)}
+                        placeholder="https://help.acme.com"
+                        aria-label="Link URL"
+                        maxLength={MAX_LINK_URL_LENGTH}
+                        disabled={readOnly}
+                        className={inputClass}
+                      />
+                      {!readOnly && (
+                        <button
+                          type="button"
+                          onClick={() => setForm((current) => ({ ...current, links: current.links.filter((_, i) => i !== index) }))}
+                          className="text-sm text-red-600 hover:text-red-700 px-2"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {!readOnly && form.links.length < MAX_LINKS && (
+                  <button
+                    type="button"
+                    onClick={() => setForm((current) => ({ ...current, links: [...current.links, { label: '', url: '' }] }))}
+                    className="mt-2 text-sm text-orange-600 hover:text-orange-700 font-medium"
+                  >
+                    + Add link
+                  </button>
+                )}
+              </div>
+
+              {!readOnly && (
+                <div className="flex items-center justify-between pt-2">
+                  <span className="text-xs text-gray-500">
+                    {shared ? 'Shared with everyone in your workspace' : 'Applies to your drafts'}
+                    {saved && ` · last saved ${new Date(saved.updated_at).toLocaleString()}`}
+                  </span>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="bg-orange-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSaving ? 'Saving...' : 'Save profile'}
+                  </button>
+                </div>
+              )}
+            </form>
+
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">System prompt preview</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                What the model is told with the Friendly voice and automatic language. Your knowledge base, voice and the customer&apos;s details are added per request.
+              </p>
+              <pre className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-xs text-gray-800 whitespace-pre-wrap max-h-96 overflow-y-auto">
+                {preview}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RETENTION_DAY_OPTIONS } from '@/lib/history';
+import type { HistoryEntry, HistorySettings } from '@/lib/history';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const TONE_FILTERS = ['Friendly', 'Professional', 'Concise'];
+const DATE_FILTERS = [
+  { label: 'Any time', days: 0 },
+  { label: 'Last 24 hours', days: 1 },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+];
+
+export default function HistoryPage() {
+  const [settings, setSettings] = useState<HistorySettings | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [tone, setTone] = useState('');
+  const [days, setDays] = useState(0);
+  const [copiedOnly, setCopiedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/history/settings', { credentials: 'include' });
+        const data = await response.json();
+
+        if (response.status === 401) {
+          setError('Sign in to use generation history.');
+          setIsLoading(false);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load history settings');
+        }
+        setSettings(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history settings');
+        setIsLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    if (!settings) return;
+
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (query) params.set('q', query);
+        if (tone) params.set('tone', tone);
+        if (days) params.set('days', String(days));
+        if (copiedOnly) params.set('copied', '1');
+
+        const response = await fetch(`/api/history?${params}`, { credentials: 'include' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load history');
+        }
+        setEntries(data.entries || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [settings, query, tone, days, copiedOnly]);
+
+  const updateSettings = async (update: Partial<HistorySettings>) => {
+    try {
+      const response = await fetch('/api/history/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update settings');
+      }
+      setSettings(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/history/${id}`, { method: 'DELETE', credentials: 'include' });
+    if (response.ok) {
+      setEntries((current) => current.filter((entry) => entry.id !== id));
+    }
+  };
+
+  const handleDeleteAll = async () => {
+    if (!confirm('Delete all saved generation history? This cannot be undone.')) return;
+
+    const response = await fetch('/api/history', { method: 'DELETE', credentials: 'include' });
+    if (response.ok) {
+      setEntries([]);
+    } else {
+      setError('Failed to delete history');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Generation History</h1>
+          <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {settings && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-8">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="font-semibold text-gray-900 mb-1">Save my generations</h2>
+                <p className="text-sm text-gray-600">
+                  When on, each generation stores the customer message, tone, language, drafts and which draft you copied.
+                  When off, nothing is stored.
+                </p>
+              </div>
+              <label className="flex items-center cursor-pointer shrink-0">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => updateSettings({ enabled: e.target.checked })}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-gray-200 rounded-full peer-checked:bg-orange-500 relative transition-colors after:content-[''] after:absolute after:top-0.5 after:left-0.5 after:w-5 after:h-5 after:bg-white after:rounded-full after:transition-transform peer-checked:after:translate-x-5"></div>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-100">
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Keep history for
+                <select
+                  value={settings.retentionDays}
+                  onChange={(e) => updateSettings({ retentionDays: Number(e.target.value) })}
+                  className="px-2 py-1 border border-gray-200 rounded-lg bg-white"
+                >
+                  {RETENTION_DAY_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option === 1 ? '1 day' : `${option} days`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleDeleteAll}
+                className="px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors"
+              >
+                Delete all history
+              </button>
+            </div>
+          </div>
+        )}
+
+        {settings && (
+          <div className="flex flex-wrap gap-3 mb-6">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search customer messages..."
+              className="flex-1 min-w-[200px] px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+            <select
+              value={tone}
+              onChange={(e) => setTone(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+            >
+              <option value="">All tones</option>
+              {TONE_FILTERS.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+            >
+              {DATE_FILTERS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={copiedOnly} onChange={(e) => setCopiedOnly(e.target.checked)} />
+              Copied only
+            </label>
+          </div>
+        )}
+
+        {settings && !isLoading && entries.length === 0 && (
+          <p className="text-center text-gray-500 py-12">
+            {settings.enabled ? 'No generations match.' : 'History is off. Turn it on to start saving generations.'}
+          </p>
+        )}
+
+        <div className="space-y-4">
+          {entries.map((entry) => (
+            <div key={entry.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
+              <div className="flex justify-between items-start gap-4">
+                <button
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  className="text-left flex-1"
+                >
+                  <p className="text-gray-900 line-clamp-2">{entry.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(entry.created_at).toLocaleString()} · {entry.tone} · {entry.language}
+                    {entry.copied_index !== null && ` · Copied option ${entry.copied_index + 1}`}
+                  </p>
+                </button>
+                <button onClick={() => handleDelete(entry.id)} className="text-xs text-gray-500 hover:text-red-600">
+                  Delete
+                </button>
+              </div>
+              {expandedId === entry.id && (
+                <div className="mt-4 space-y-3">
+                  {entry.drafts.map((draft, index) => (
+                    <div
+                      key={index}
+                      className={`rounded-lg p-3 text-sm ${
+                        entry.copied_index === index ? 'bg-orange-50 border border-orange-200' : 'bg-gray-50'
+                      }`}
+                    >
+                      <span className="block text-xs font-medium text-gray-500 mb-1">
+                        Option {index + 1}{entry.copied_index === index && ' · copied'}
+                      </span>
+                      <p className="text-gray-800 whitespace-pre-line">
+                        {entry.copied_index === index && entry.copied_text ? entry.copied_text : draft}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
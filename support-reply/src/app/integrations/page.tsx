@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { HELPDESK_PROVIDERS } from '@/lib/helpdesk/types';
+import type { HelpdeskProvider } from '@/lib/helpdesk/types';
+import type { HelpdeskIntegration } from '@/lib/helpdesk/store';
+import { DEFAULT_VOICE_PROFILES } from '@/lib/voice-profiles/format';
+import type { VoiceProfile } from '@/lib/voice-profiles/format';
+import { AUTO_LANGUAGE, SUPPORTED_LANGUAGES } from '@/lib/languages';
+
+type Integration = HelpdeskIntegration & { webhookUrl: string };
+
+const PROVIDER_LABELS: Record<HelpdeskProvider, string> = {
+  generic: 'Generic webhook',
+  zendesk: 'Zendesk',
+  freshdesk: 'Freshdesk',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  provider: 'zendesk' as HelpdeskProvider,
+  tone: 'Friendly',
+  language: AUTO_LANGUAGE,
+  outbound_url: '',
+  outbound_auth: '',
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function IntegrationsPage() {
+  const [integrations, setIntegrations] = useState<Integration[] | null>(null);
+  const [voices, setVoices] = useState<VoiceProfile[]>(DEFAULT_VOICE_PROFILES);
+  const [form, setForm] = useState(EMPTY_FORM);
+  // Secrets are only returned on creation and rotation
+  const [revealed, setRevealed] = useState<{ id: string; webhookUrl: string; secret: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/integrations', { credentials: 'include' });
+      if (response.status === 401) {
+        setError('Sign in to connect a helpdesk.');
+        return;
+      }
+      const data = await readJson<{ integrations: Integration[] }>(response);
+      setIntegrations(data.integrations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load integrations');
+    }
+  };
+
+  useEffect(() => {
+    const loadVoices = async () => {
+      try {
+        const data = await readJson<{ profiles: VoiceProfile[] }>(await fetch('/api/voice-profiles', { credentials: 'include' }));
+        setVoices(data.profiles);
+      } catch (err) {
+        console.error('Failed to load voice profiles:', err);
+      }
+    };
+
+    load();
+    loadVoices();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await readJson<{ integration: Integration; webhookUrl: string; secret: string }>(await fetch('/api/integrations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(form),
+      }));
+      setRevealed({ id: data.integration.id, webhookUrl: data.webhookUrl, secret: data.secret });
+      setForm(EMPTY_FORM);
+    });
+  };
+
+  const updateIntegration = (integration: Integration, changes: Record<string, unknown>) =>
+    run(async () => {
+      const data = await readJson<{ secret?: string }>(await fetch(`/api/integrations/${integration.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(changes),
+      }));
+      if (data.secret) {
+        setRevealed({ id: integration.id, webhookUrl: integration.webhookUrl, secret: data.secret });
+      }
+    });
+
+  const rotateSecret = (integration: Integration) => {
+    if (!confirm('Rotate the secret? The helpdesk will be rejected until you update it there.')) return;
+    updateIntegration(integration, { rotate_secret: true });
+  };
+
+  const removeIntegration = (integration: Integration) => {
+    if (!confirm(`Delete ${integration.name}? Its webhook URL will stop working.`)) return;
+
+    run(async () => {
+      await readJson(await fetch(`/api/integrations/${integration.id}`, { method: 'DELETE', credentials: 'include' }));
+      if (revealed?.id === integration.id) setRevealed(null);
+    });
+  };
+
+  const voiceName = (id: string) => voices.find((voice) => voice.id === id)?.name || id;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Helpdesk Integrations</h1>
+          <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {revealed && (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl p-4 mb-6 text-sm">
+            <p className="text-gray-700 mb-3">
+              Add these to your helpdesk webhook. The secret is shown only once.
+            </p>
+            {[['Webhook URL', revealed.webhookUrl], ['Secret', revealed.secret]].map(([label, value]) => (
+              <div key={label} className="flex items-center gap-2 mb-2">
+                <span className="w-24 text-gray-600">{label}</span>
+                <input readOnly value={value} className="flex-1 px-2 py-1 border border-gray-200 rounded bg-white text-xs font-mono" />
+                <button
+                  onClick={() => navigator.clipboard.writeText(value)}
+                  className="px-3 py-1 text-xs font-medium text-orange-600 hover:text-orange-700"
+                >
+                  Copy
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setRevealed(null)} className="text-xs text-gray-500 hover:text-gray-700">
+              Done
+            </button>
+          </div>
+        )}
+
+        {integrations && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <h2 className="font-semibold text-gray-900 mb-4">Connected helpdesks</h2>
+              {integrations.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No helpdesks yet. New tickets sent to a webhook get drafts in your voice, posted back as internal notes.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {integrations.map((integration) => (
+                    <li key={integration.id} className="py-3 text-sm">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <p className="font-medium text-gray-900">{integration.name}</p>
+                          <p className="text-gray-600">
+                            {PROVIDER_LABELS[integration.provider]} · {voiceName(integration.tone)} · {integration.language}
+                            {' · '}
+                            {integration.outbound_url ? 'posts internal notes' : 'drafts returned only'}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {integration.last_delivery_at
+                              ? `Last ticket ${new Date(integration.last_delivery_at).toLocaleString()}`
+                              : 'No tickets received yet'}
+                          </p>
+                        </div>
+                        <label className="flex items-center cursor-pointer shrink-0">
+                          <input
+                            type="checkbox"
+                            checked={integration.enabled}
+                            onChange={(e) => updateIntegration(integration, { enabled: e.target.checked })}
+                            className="sr-only peer"
+                          />
+                          <div className="w-11 h-6 bg-gray-200 rounded-full peer-checked:bg-orange-500 relative transition-colors after:content-[''] after:absolute after:top-0.5 after:left-0.5 after:w-5 after:h-5 after:bg-white after:rounded-full after:transition-transform peer-checked:after:translate-x-5"></div>
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-2 mt-2">
+                        <input readOnly value={integration.webhookUrl} className="flex-1 px-2 py-1 border border-gray-200 rounded bg-gray-50 text-xs font-mono" />
+                        <button
+                          onClick={() => navigator.clipboard.writeText(integration.webhookUrl)}
+                          className="text-xs text-orange-600 hover:text-orange-700"
+                        >
+                          Copy
+                        </button>
+                        <button onClick={() => rotateSecret(integration)} className="text-xs text-gray-500 hover:text-gray-700">
+                          Rotate secret
+                        </button>
+                        <button onClick={() => removeIntegration(integration)} className="text-xs text-gray-500 hover:text-red-600">
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-3 text-sm">
+              <h2 className="font-semibold text-gray-900">Connect a helpdesk</h2>
+              <div className="flex flex-wrap gap-3">
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Acme Zendesk"
+                  maxLength={60}
+                  className="flex-1 min-w-[200px] px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+                <select
+                  value={form.provider}
+                  onChange={(e) => setForm({ ...form, provider: e.target.value as HelpdeskProvider })}
+                  className="px-3 py-2 border border-gray-200 rounded-lg bg-white"
+                >
+                  {HELPDESK_PROVIDERS.map((provider) => (
+                    <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                <select
+                  value={form.tone}
+                  onChange={(e) => setForm({ ...form, tone: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-200 rounded-lg bg-white"
+                >
+                  {voices.map((voice) => (
+                    <option key={voice.id} value={voice.id}>{voice.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={form.language}
+                  onChange={(e) => setForm({ ...form, language: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-200 rounded-lg bg-white"
+                >
+                  <option value={AUTO_LANGUAGE}>Same as customer</option>
+                  {SUPPORTED_LANGUAGES.map((option) => (
+                    <option key={option.code} value={option.code}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                type="url"
+                value={form.outbound_url}
+                onChange={(e) => setForm({ ...form, outbound_url: e.target.value })}
+                placeholder={form.provider === 'zendesk' ? 'https://acme.zendesk.com' : form.provider === 'freshdesk' ? 'https://acme.freshdesk.com' : 'https://helpdesk.example.com/api'}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <input
+                type="password"
+                value={form.outbound_auth}
+                onChange={(e) => setForm({ ...form, outbound_auth: e.target.value })}
+                placeholder="Authorization header, e.g. Basic dXNlcjp0b2tlbg=="
+                autoComplete="off"
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs text-gray-500">Leave the URL empty to only return drafts in the webhook response.</span>
+                <button
+                  type="submit"
+                  disabled={!form.name.trim()}
+                  className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+                >
+                  Connect
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,200 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import ReplyCard from "../components/ReplyCard";
 import AuthPanel from "../components/AuthPanel";
+import KnowledgeBasePanel from "../components/KnowledgeBasePanel";
+import SavedRepliesSidebar from "../components/SavedRepliesSidebar";
+import VoiceProfilesPanel from "../components/VoiceProfilesPanel";
+import ThreadEditor from "../components/ThreadEditor";
+import EmailInput from "../components/EmailInput";
+import UsageMeter from "../components/UsageMeter";
+import type { DraftSource, QuotaInfo } from "../components/ReplyCard";
 import { createClientComponentClient } from "@/lib/supabase";
+import { createSavedRepliesClient } from "@/lib/saved-replies/client";
+import { hasAnonymousSession, mergeAnonymousSession } from "@/lib/anon-merge";
+import { DEFAULT_VOICE_PROFILES } from "@/lib/voice-profiles/format";
+import type { VoiceProfile } from "@/lib/voice-profiles/format";
+import { AUTO_LANGUAGE, detectLanguage, findLanguage, SUPPORTED_LANGUAGES } from "@/lib/languages";
+import { latestCustomerTurn } from "@/lib/thread";
+import type { ThreadTurn } from "@/lib/thread";
+import { formatEmail, parseEmail } from "@/lib/email";
+import { isEntitlementCurrent, isPromoProCurrent } from "@/lib/billing";
+import { isPlanId, PLANS, resolvePlan } from "@/lib/plans";
+import type { PlanId } from "@/lib/plans";
+import type { PlaceholderValues } from "@/lib/placeholders";
 import type { User } from "@supabase/supabase-js";
 import Image from "next/image";
 import Link from "next/link";
 
-type Tone = "friendly" | "professional" | "concise";
+// Read the /api/generate event stream, reporting each draft as soon as it completes
+async function readDraftStream(
+  response: Response,
+  onDraft: (index: number, text: string, sources?: DraftSource[]) => void
+): Promise<{
+  drafts: string[];
+  quota: QuotaInfo;
+  language?: { detected: string | null; used: string | null };
+  thread?: { turns: number; omitted: number };
+  translations?: string[];
+  sources?: DraftSource[][];
+  historyId?: string;
+  entities?: PlaceholderValues;
+}> {
+  if (!response.body) {
+    throw new Error('Invalid response format');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      const eventName = rawEvent.match(/^event: (.*)$/m)?.[1];
+      const data = rawEvent.match(/^data: (.*)$/m)?.[1];
+      if (!eventName || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (eventName === 'draft') {
+        onDraft(payload.index, payload.text, payload.sources);
+      } else if (eventName === 'done') {
+        return payload;
+      } else if (eventName === 'error') {
+        throw new Error(payload.error || 'Failed to generate replies');
+      }
+    }
+  }
+
+  throw new Error('Connection closed before generation finished');
+}
+
+// Profile columns behind the Pro badge and billing menu; only the server (Stripe webhook,
+// promo code redemption) writes them
+const PROFILE_BILLING_COLUMNS = 'pro, plan, stripe_customer_id, cancel_at, pro_until';
+
+interface ProfileBilling {
+  pro: boolean;
+  plan: string | null;
+  stripe_customer_id: string | null;
+  cancel_at: string | null;
+  pro_until: string | null;
+}
+
+// A cancelled plan stops at cancel_at even if the webhook clearing `pro` is late.
+// Without a subscription, Pro from a promo code ends at pro_until.
+function readProfileBilling(profile: ProfileBilling) {
+  const subscribed = isEntitlementCurrent(profile.pro, profile.cancel_at);
+  const pro = subscribed || isPromoProCurrent(profile.pro_until);
+  return {
+    pro,
+    billing: {
+      hasCustomer: Boolean(profile.stripe_customer_id),
+      cancelAt: subscribed ? profile.cancel_at : null,
+      proUntil: subscribed ? null : pro ? profile.pro_until : null,
+      planName: resolvePlan(pro, subscribed ? profile.plan : null).name,
+    },
+  };
+}
 
 export default function Home() {
   const [message, setMessage] = useState("");
-  const [tone, setTone] = useState<Tone>("friendly");
+  // A single pasted message, a thread of customer/agent turns (oldest first) or a raw email
+  const [inputMode, setInputMode] = useState<"message" | "thread" | "email">("message");
+  const [thread, setThread] = useState<ThreadTurn[]>([]);
+  const [rawEmail, setRawEmail] = useState("");
+  const [omittedTurns, setOmittedTurns] = useState(0);
+  // Voice profile ID; built-in voices use their name
+  const [tone, setTone] = useState("Friendly");
+  const [voices, setVoices] = useState<VoiceProfile[]>(DEFAULT_VOICE_PROFILES);
+  const [isVoicesOpen, setIsVoicesOpen] = useState(false);
+  // 'auto' or an ISO code from the language registry
+  const [language, setLanguage] = useState(AUTO_LANGUAGE);
+  const [showTranslations, setShowTranslations] = useState(false);
+  const [replyLanguage, setReplyLanguage] = useState<{ detected: string | null; used: string | null } | null>(null);
+  const [translations, setTranslations] = useState<string[]>([]);
+  // Order ID and customer name found in the message, prefilled into the drafts' placeholders
+  const [entities, setEntities] = useState<PlaceholderValues>({});
   const [isLoading, setIsLoading] = useState(false);
   const [drafts, setDrafts] = useState<string[]>([]);
+  const [draftSources, setDraftSources] = useState<DraftSource[][]>([]);
+  // Set when the generation was saved to the user's opt-in history
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [isAuthPanelOpen, setIsAuthPanelOpen] = useState(false);
   const [isPro, setIsPro] = useState(false);
-  const [quota, setQuota] = useState<{
-    limit: number | null;
-    used: number;
-    remaining: number | null;
-    pro: boolean;
-  } | null>(null);
+  // From the profile: whether there is a Stripe customer to manage, and when a cancelled plan ends
+  const [billing, setBilling] = useState<{ hasCustomer: boolean; cancelAt: string | null; proUntil: string | null; planName: string }>({ hasCustomer: false, cancelAt: null, proUntil: null, planName: PLANS.free.name });
+  const [isAccountMenuOpen, setIsAccountMenuOpen] = useState(false);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+  const [quota, setQuota] = useState<QuotaInfo | null>(null);
   const [isQuotaExceeded, setIsQuotaExceeded] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
   const [isUpgrading, setIsUpgrading] = useState(false);
+  // Catalog plan offered by the upgrade buttons: Pro billed monthly or annually
+  const [upgradePlan, setUpgradePlan] = useState<PlanId>('pro');
+  // Which limit the last 429 hit
+  const [quotaPeriod, setQuotaPeriod] = useState<'daily' | 'monthly'>('daily');
   const [upgradeError, setUpgradeError] = useState<string | null>(null);
+  const [isSavedRepliesOpen, setIsSavedRepliesOpen] = useState(false);
+  const [savedRepliesVersion, setSavedRepliesVersion] = useState(0);
   const supabase = createClientComponentClient();
 
+  // Empty turns are dropped by the API too
+  const threadTurns = thread
+    .filter((turn) => turn.content.trim())
+    .map((turn) => ({ ...turn, content: turn.content.trim() }));
+  const isThreadMode = inputMode === "thread";
+  const isEmailMode = inputMode === "email";
+
+  // Parsed locally for the preview; the API parses the raw email again itself
+  const emailPreview = useMemo(() => {
+    if (!rawEmail.trim()) return { email: null, error: null };
+    try {
+      return { email: parseEmail(rawEmail), error: null };
+    } catch (err: unknown) {
+      return { email: null, error: err instanceof Error ? err.message : "Could not read this email" };
+    }
+  }, [rawEmail]);
+
+  // Placeholder prefill: what the API found in the message, plus the agent's display name
+  // (set on the account page or by the OAuth provider)
+  const placeholderValues = useMemo<PlaceholderValues>(() => ({
+    ...entities,
+    agent_name: user?.user_metadata?.full_name || user?.user_metadata?.name || undefined,
+  }), [entities, user]);
+
+  // The text drafts answer; drives language detection and refinements
+  const latestMessage = isThreadMode
+    ? latestCustomerTurn(threadTurns)
+    : isEmailMode
+      ? emailPreview.email?.body || ""
+      : message.trim();
+  const isInputReady = isThreadMode
+    ? threadTurns[threadTurns.length - 1]?.role === "customer" &&
+      threadTurns.reduce((total, turn) => total + turn.content.length, 0) >= 10
+    : latestMessage.length >= 10;
+
   const handleGenerate = async () => {
-    if (message.length < 10) return;
+    if (!isInputReady) return;
     
     setIsLoading(true);
     setError(null);
+    setDrafts([]);
+    setDraftSources([]);
+    setHistoryId(null);
+    setReplyLanguage(null);
+    setTranslations([]);
+    setEntities({});
+    setOmittedTurns(0);
     
     // Check auth state before making API call
     console.log('Generating reply for user:', user ? user.email : 'anonymous');
@@ -45,12 +204,16 @@ export default function Home() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         credentials: 'include', // This is crucial for sending auth cookies
         body: JSON.stringify({
-          message: message.trim(),
-          tone: tone.charAt(0).toUpperCase() + tone.slice(1), // Convert to proper case
-          language: 'Auto'
+          ...(isThreadMode ? { thread: threadTurns } : isEmailMode ? { email: rawEmail } : { message: message.trim() }),
+          tone,
+          language,
+          translate: showTranslations,
+          placeholders: true,
+          stream: true
         }),
       });
 
@@ -58,7 +221,8 @@ export default function Home() {
         const errorData = await response.json();
         
         // Handle quota exceeded (429)
-        if (response.status === 429 && errorData.error === 'DAILY_LIMIT_REACHED') {
+        if (response.status === 429 && (errorData.error === 'DAILY_LIMIT_REACHED' || errorData.error === 'MONTHLY_LIMIT_REACHED')) {
+          setQuotaPeriod(errorData.error === 'MONTHLY_LIMIT_REACHED' ? 'monthly' : 'daily');
           setIsQuotaExceeded(true);
           setError('QUOTA_EXCEEDED');
           setDrafts([]);
@@ -66,19 +230,37 @@ export default function Home() {
         }
         
         // Handle specific server configuration error
-        if (errorData.code === 'MISSING_API_KEY') {
+        if (errorData.code === 'MISSING_API_KEY' || errorData.code === 'MISSING_CONFIG') {
           throw new Error('MISSING_CONFIG');
         }
         throw new Error(errorData.error || `Request failed with status ${response.status}`);
       }
 
-      const data = await response.json();
+      // Drafts stream in one by one; quota arrives with the final event
+      const data = await readDraftStream(response, (index, text, sources) => {
+        setDrafts((current) => {
+          const next = [...current];
+          next[index] = text;
+          return next;
+        });
+        setDraftSources((current) => {
+          const next = [...current];
+          next[index] = sources || [];
+          return next;
+        });
+      });
       
       if (!data.drafts || !Array.isArray(data.drafts)) {
         throw new Error('Invalid response format');
       }
 
       setDrafts(data.drafts);
+      setDraftSources(data.sources || []);
+      setHistoryId(data.historyId || null);
+      setReplyLanguage(data.language || null);
+      setTranslations(data.translations || []);
+      setEntities(data.entities || {});
+      setOmittedTurns(data.thread?.omitted || 0);
       setError(null);
       setIsQuotaExceeded(false);
       
@@ -100,6 +282,54 @@ export default function Home() {
     }
   };
 
+  // Signed-in users save to their account, anonymous visitors to this browser
+  const handleSaveReply = async (text: string) => {
+    await createSavedRepliesClient(!!user).create({ body: text });
+    setSavedRepliesVersion((version) => version + 1);
+  };
+
+  // Record which draft was used; only applies when history is enabled
+  const handleDraftCopied = (index: number, text: string) => {
+    if (!historyId) return;
+    fetch(`/api/history/${historyId}/copy`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ index, text }),
+    }).catch((error) => console.error('Failed to record copied draft:', error));
+  };
+
+  // Live, offline guess shown in the language picker
+  const detectedLanguageName = latestMessage.length >= 10
+    ? findLanguage(detectLanguage(latestMessage)?.code || '')?.name
+    : undefined;
+
+  const handleInsertSavedReply = (body: string) => {
+    setDrafts((current) => [...current, body]);
+    setDraftSources((current) => [...current, []]);
+    setIsSavedRepliesOpen(false);
+  };
+
+  // Built-in voices plus the user's and workspace's own; falls back to built-ins on error
+  const loadVoices = async () => {
+    try {
+      const response = await fetch('/api/voice-profiles', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to load voices');
+
+      const profiles: VoiceProfile[] = data.profiles;
+      setVoices(profiles);
+      setTone((current) => (profiles.some((voice) => voice.id === current) ? current : 'Friendly'));
+    } catch (error) {
+      console.error('Failed to load voice profiles:', error);
+      setVoices(DEFAULT_VOICE_PROFILES);
+    }
+  };
+
+  useEffect(() => {
+    loadVoices();
+  }, [user?.id]);
+
   const handleRetry = () => {
     handleGenerate();
   };
@@ -156,7 +386,9 @@ export default function Home() {
     try {
       const response = await fetch('/api/create-checkout-session', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
+        body: JSON.stringify({ plan: upgradePlan }),
       });
       
       if (response.status === 401) {
@@ -188,15 +420,41 @@ export default function Home() {
     }
   };
 
+  // Stripe's hosted portal handles cancelling, card changes and invoices
+  const handleManageBilling = async () => {
+    if (isOpeningPortal) return;
+
+    setIsOpeningPortal(true);
+    setUpgradeError(null);
+
+    try {
+      const response = await fetch('/api/billing-portal', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to open billing portal');
+      }
+
+      window.location.href = data.url;
+    } catch (error: unknown) {
+      console.error('Billing portal error:', error);
+      setUpgradeError(error instanceof Error ? error.message : 'Failed to open billing portal');
+      setIsOpeningPortal(false);
+    }
+  };
+
   const renderQuotaDisplay = () => {
     if (!quota) return null;
 
-    const { limit, used, remaining, pro } = quota;
+    const { limit, used, pro, plan } = quota;
 
     if (pro) {
       return (
         <div className="text-center text-sm text-gray-600 mt-2">
-          Pro: Unlimited today
+          {isPlanId(plan) ? PLANS[plan].name : 'Pro'}: Unlimited today
         </div>
       );
     }
@@ -223,7 +481,7 @@ export default function Home() {
             onClick={handleSignInClick}
             className="text-orange-600 hover:text-orange-700 underline"
           >
-            Sign in for 20/day
+            Sign in for {PLANS.free.dailyLimit}/day
           </button>
         </div>
       );
@@ -232,6 +490,17 @@ export default function Home() {
 
   // Check auth state on mount
   useEffect(() => {
+    // Carry today's anonymous usage and locally saved replies into the account
+    const carryOverAnonymousSession = () => {
+      if (!hasAnonymousSession()) return;
+      mergeAnonymousSession()
+        .then(({ imported, carried, quota }) => {
+          if (imported > 0) setSavedRepliesVersion((version) => version + 1);
+          if (carried > 0) setQuota(quota);
+        })
+        .catch((error) => console.error('Failed to carry over anonymous session:', error));
+    };
+
     // Get initial session
     const getInitialSession = async () => {
       try {
@@ -250,6 +519,8 @@ export default function Home() {
         setIsQuotaExceeded(false);
         
         if (session?.user) {
+          // Sessions from OAuth, email links and password resets start on a fresh page load
+          carryOverAnonymousSession();
           await fetchUserProfile(session.user);
         }
       } catch (error) {
@@ -263,7 +534,7 @@ export default function Home() {
         // Fetch user profile
         const { data: profile, error } = await supabase
           .from('profiles')
-          .select('pro')
+          .select(PROFILE_BILLING_COLUMNS)
           .eq('user_id', user.id)
           .single();
       
@@ -284,9 +555,10 @@ export default function Home() {
             setIsPro(false);
           }
         } else {
-          const proStatus = (profile as any)?.pro || false;
+          const { pro: proStatus, billing } = readProfileBilling(profile as ProfileBilling);
           console.log('Profile fetched - Pro status:', proStatus);
           setIsPro(proStatus);
+          setBilling(billing);
         }
       } catch (error) {
         console.error('Error in fetchUserProfile:', error);
@@ -305,6 +577,8 @@ export default function Home() {
         // Close auth panel if user successfully signed in
         if (event === 'SIGNED_IN' && session?.user) {
           setIsAuthPanelOpen(false);
+
+          carryOverAnonymousSession();
         }
         
         // Reset quota state on auth changes
@@ -317,7 +591,7 @@ export default function Home() {
             // Fetch profile for signed-in user
             const { data: profile, error: profileError } = await supabase
               .from('profiles')
-              .select('pro')
+              .select(PROFILE_BILLING_COLUMNS)
               .eq('user_id', session.user.id)
               .single();
             
@@ -353,9 +627,10 @@ export default function Home() {
               });
               setIsPro(false);
             } else if (profile) {
-              const proStatus = (profile as any).pro || false;
+              const { pro: proStatus, billing } = readProfileBilling(profile as ProfileBilling);
               console.log('Auth change - Profile fetched - Pro status:', proStatus);
               setIsPro(proStatus);
+              setBilling(billing);
             } else {
               setIsPro(false);
             }
@@ -365,6 +640,8 @@ export default function Home() {
           }
         } else {
           setIsPro(false);
+          setBilling({ hasCustomer: false, cancelAt: null, proUntil: null, planName: PLANS.free.name });
+          setIsAccountMenuOpen(false);
         }
       }
     );
@@ -393,11 +670,35 @@ export default function Home() {
             
             {/* Right: Auth state + Pro badge + Upgrade + Sign out */}
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setIsSavedRepliesOpen(true)}
+                className="px-3 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                📚 Saved replies
+              </button>
               {isPro && (
-                <span className="bg-gradient-to-r from-orange-500 to-orange-600 text-white text-xs font-semibold px-2 py-1 rounded-full">
-                  Pro
+                <span
+                  className="bg-gradient-to-r from-orange-500 to-orange-600 text-white text-xs font-semibold px-2 py-1 rounded-full"
+                  title={billing.cancelAt ? 'Your subscription was cancelled and stays active until this date' : billing.proUntil ? 'Pro from a promo code' : undefined}
+                >
+                  {billing.cancelAt
+                    ? `${billing.planName} · ends ${new Date(billing.cancelAt).toLocaleDateString()}`
+                    : billing.proUntil
+                      ? `${billing.planName} · until ${new Date(billing.proUntil).toLocaleDateString()}`
+                      : billing.planName}
                 </span>
               )}
+              {!isPro && (
+                <select
+                  value={upgradePlan}
+                  onChange={(e) => setUpgradePlan(e.target.value as PlanId)}
+                  aria-label="Billing interval"
+                  className="px-2 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="pro">Monthly</option>
+                  <option value="pro_annual">Annual</option>
+                </select>
+              )}
               {!isPro && (
                 <button
                   onClick={handleUpgradeClick}
@@ -415,22 +716,48 @@ export default function Home() {
                 </button>
               )}
               {user ? (
-                <div className="flex items-center space-x-3">
-                  <span className="text-sm text-gray-700">Signed in as {user.email}</span>
+                <div className="relative">
                   <button
-                    onClick={handleSignOut}
-                    disabled={isSigningOut}
-                    className="px-3 py-1 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    onClick={() => setIsAccountMenuOpen((open) => !open)}
+                    aria-expanded={isAccountMenuOpen}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
                   >
-                    {isSigningOut ? (
-                      <div className="flex items-center">
-                        <div className="animate-spin rounded-full h-3 w-3 border border-white border-t-transparent mr-1"></div>
-                        Signing out...
-                      </div>
-                    ) : (
-                      'Sign out'
-                    )}
+                    {user.email}
+                    <span className="text-xs text-gray-500">▾</span>
                   </button>
+                  {isAccountMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-100 rounded-xl shadow-lg py-2 z-20">
+                      <p className="px-4 pb-2 mb-1 text-xs text-gray-500 border-b border-gray-100 truncate">Signed in as {user.email}</p>
+                      {[
+                        { href: '/history', label: '🕘 History' },
+                        { href: '/workspace', label: '👥 Team' },
+                        { href: '/company', label: '🏢 Company profile' },
+                        { href: '/integrations', label: '🔌 Integrations' },
+                        { href: '/api-keys', label: '🔑 API keys' },
+                        { href: '/account', label: '⚙️ Account' },
+                      ].map(({ href, label }) => (
+                        <Link key={href} href={href} className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                          {label}
+                        </Link>
+                      ))}
+                      {billing.hasCustomer && (
+                        <button
+                          onClick={handleManageBilling}
+                          disabled={isOpeningPortal}
+                          className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {isOpeningPortal ? 'Opening billing...' : '💳 Manage billing'}
+                        </button>
+                      )}
+                      <button
+                        onClick={handleSignOut}
+                        disabled={isSigningOut}
+                        className="block w-full text-left px-4 py-2 mt-1 text-sm text-gray-700 border-t border-gray-100 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSigningOut ? 'Signing out...' : 'Sign out'}
+                      </button>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <button
@@ -481,45 +808,90 @@ export default function Home() {
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 mb-8">
           {/* Customer Message Input */}
           <div className="mb-8">
-            <label htmlFor="message" className="block text-sm font-semibold text-gray-900 mb-3">
-              Customer Message
-            </label>
-            <div className="relative">
-              <textarea
-                id="message"
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                placeholder="Paste the customer's message here... (e.g., 'I'm having trouble with my order and it's been 3 days since I placed it. Can you help?')"
-                className="w-full h-40 p-4 border-2 border-gray-200 rounded-xl resize-none focus:outline-none focus:ring-4 focus:ring-orange-100 focus:border-orange-500 transition-all duration-200 text-gray-900 placeholder-gray-400"
-                maxLength={2500}
-              />
-              <div className="absolute bottom-3 right-3 text-xs text-gray-400 bg-white px-2 py-1 rounded">
-                {message.length}/2500
+            <div className="flex justify-between items-center mb-3">
+              <label htmlFor="message" className="block text-sm font-semibold text-gray-900">
+                {isThreadMode ? "Conversation Thread" : isEmailMode ? "Customer Email" : "Customer Message"}
+              </label>
+              <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+                <button
+                  onClick={() => setInputMode("message")}
+                  className={`px-3 py-1 ${inputMode === "message" ? "bg-orange-500 text-white" : "text-gray-600 hover:bg-gray-50"}`}
+                >
+                  Single message
+                </button>
+                <button
+                  onClick={() => setInputMode("thread")}
+                  className={`px-3 py-1 ${isThreadMode ? "bg-orange-500 text-white" : "text-gray-600 hover:bg-gray-50"}`}
+                >
+                  Thread
+                </button>
+                <button
+                  onClick={() => setInputMode("email")}
+                  className={`px-3 py-1 ${isEmailMode ? "bg-orange-500 text-white" : "text-gray-600 hover:bg-gray-50"}`}
+                >
+                  Email
+                </button>
               </div>
             </div>
-            <div className="flex justify-between items-center mt-2">
-              <span className={`text-sm ${message.length < 10 ? "text-red-500" : "text-green-600"}`}>
-                {message.length < 10 ? "⚠️ Minimum 10 characters required" : "✅ Ready to generate"}
-              </span>
-            </div>
+            {isThreadMode ? (
+              <ThreadEditor turns={thread} onChange={setThread} />
+            ) : isEmailMode ? (
+              <EmailInput
+                value={rawEmail}
+                onChange={setRawEmail}
+                parsed={emailPreview.email}
+                parseError={emailPreview.error}
+              />
+            ) : (
+              <>
+                <div className="relative">
+                  <textarea
+                    id="message"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Paste the customer's message here... (e.g., 'I'm having trouble with my order and it's been 3 days since I placed it. Can you help?')"
+                    className="w-full h-40 p-4 border-2 border-gray-200 rounded-xl resize-none focus:outline-none focus:ring-4 focus:ring-orange-100 focus:border-orange-500 transition-all duration-200 text-gray-900 placeholder-gray-400"
+                    maxLength={2500}
+                  />
+                  <div className="absolute bottom-3 right-3 text-xs text-gray-400 bg-white px-2 py-1 rounded">
+                    {message.length}/2500
+                  </div>
+                </div>
+                <div className="flex justify-between items-center mt-2">
+                  <span className={`text-sm ${message.length < 10 ? "text-red-500" : "text-green-600"}`}>
+                    {message.length < 10 ? "⚠️ Minimum 10 characters required" : "✅ Ready to generate"}
+                  </span>
+                </div>
+              </>
+            )}
           </div>
 
           {/* Tone Selection */}
           <div className="mb-8">
-            <label className="block text-sm font-semibold text-gray-900 mb-4">Reply Tone</label>
+            <div className="flex justify-between items-center mb-4">
+              <label className="block text-sm font-semibold text-gray-900">Reply Tone</label>
+              {user && (
+                <button
+                  onClick={() => setIsVoicesOpen(true)}
+                  className="text-sm font-medium text-orange-600 hover:text-orange-700"
+                >
+                  Manage brand voices
+                </button>
+              )}
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {[
-                { value: "friendly", label: "Friendly", description: "Warm and approachable" },
-                { value: "professional", label: "Professional", description: "Formal and polished" },
-                { value: "concise", label: "Concise", description: "Brief and direct" }
-              ].map((option) => (
+              {voices.map((voice) => ({
+                value: voice.id,
+                label: voice.name,
+                description: voice.description,
+              })).map((option) => (
                 <label key={option.value} className="relative cursor-pointer">
                   <input
                     type="radio"
                     name="tone"
                     value={option.value}
                     checked={tone === option.value}
-                    onChange={(e) => setTone(e.target.value as Tone)}
+                    onChange={(e) => setTone(e.target.value)}
                     className="sr-only"
                   />
                   <div className={`p-4 rounded-xl border-2 transition-all duration-200 ${
@@ -539,17 +911,53 @@ export default function Home() {
                       </div>
                       <span className="font-medium text-gray-900">{option.label}</span>
                     </div>
-                    <p className="text-sm text-gray-600 ml-7">{option.description}</p>
+                    <p className="text-sm text-gray-600 ml-7 line-clamp-2">{option.description}</p>
                   </div>
                 </label>
               ))}
             </div>
           </div>
 
+          {/* Reply Language */}
+          <div className="mb-8">
+            <label htmlFor="language" className="block text-sm font-semibold text-gray-900 mb-3">Reply Language</label>
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                id="language"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className="px-4 py-2 border-2 border-gray-200 rounded-xl bg-white text-gray-900 focus:outline-none focus:border-orange-500"
+              >
+                <option value={AUTO_LANGUAGE}>
+                  Same as customer{detectedLanguageName ? ` (${detectedLanguageName})` : ''}
+                </option>
+                {SUPPORTED_LANGUAGES.map((option) => (
+                  <option key={option.code} value={option.code}>
+                    {option.name}{option.nativeName !== option.name ? ` · ${option.nativeName}` : ''}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showTranslations}
+                  onChange={(e) => setShowTranslations(e.target.checked)}
+                />
+                Show English translations of non-English drafts
+              </label>
+            </div>
+            {language === AUTO_LANGUAGE && latestMessage.length >= 10 && !detectedLanguageName && (
+              <p className="text-xs text-gray-500 mt-2">Language not recognised yet; replies will mirror the customer.</p>
+            )}
+          </div>
+
+          {/* Knowledge Base - signed-in users only */}
+          {user && <KnowledgeBasePanel />}
+
           {/* Generate Button */}
           <button
             onClick={handleGenerate}
-            disabled={message.length < 10 || isLoading || isQuotaExceeded}
+            disabled={!isInputReady || isLoading || isQuotaExceeded}
             className="w-full bg-gradient-to-r from-orange-500 to-orange-600 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:from-orange-600 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 disabled:transform-none"
           >
             {isLoading ? (
@@ -572,6 +980,7 @@ export default function Home() {
           
           {/* Quota Display */}
           {renderQuotaDisplay()}
+          {user && <UsageMeter refreshKey={quota?.used} />}
           
           {/* Inline Configuration Error */}
           {error === 'MISSING_CONFIG' && (
@@ -592,13 +1001,13 @@ export default function Home() {
                 <div className="flex items-center justify-center mb-2">
                   <span className="text-orange-600 mr-2">⏰</span>
                   <span className="text-sm font-medium text-orange-800">
-                    Daily limit reached
+                    {quotaPeriod === 'monthly' ? 'Monthly limit reached' : 'Daily limit reached'}
                   </span>
                 </div>
                 <p className="text-sm text-orange-700 mb-3">
-                  {user 
-                    ? "You've used all your free generations today. Upgrade for unlimited access."
-                    : "You've used all your anonymous generations today. Sign in for 20/day or upgrade for unlimited."
+                  {user
+                    ? `You've used all your free generations ${quotaPeriod === 'monthly' ? 'this month' : 'today'}. Upgrade for unlimited access.`
+                    : `You've used all your anonymous generations today. Sign in for ${PLANS.free.dailyLimit}/day or upgrade for unlimited.`
                   }
                 </p>
                 <div className="flex justify-center space-x-3">
@@ -671,10 +1080,50 @@ export default function Home() {
             <div className="text-center">
               <h2 className="text-2xl font-bold text-gray-900 mb-2">Generated Replies</h2>
               <p className="text-gray-600">Choose the best reply and copy it to your clipboard</p>
+              {omittedTurns > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {omittedTurns} older turn{omittedTurns === 1 ? "" : "s"} left out to fit the 2,500-character limit
+                </p>
+              )}
+              {replyLanguage && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Detected {findLanguage(replyLanguage.detected || '')?.name || 'unknown language'}
+                  {' · '}replying in {findLanguage(replyLanguage.used || '')?.name || "the customer's language"}
+                </p>
+              )}
             </div>
             <div className="grid gap-6">
               {drafts.map((draft, index) => (
-                <ReplyCard key={index} text={draft} index={index} />
+                <ReplyCard
+                  key={index}
+                  text={draft}
+                  index={index}
+                  sources={draftSources[index]}
+                  message={latestMessage}
+                  thread={isThreadMode ? threadTurns : undefined}
+                  email={isEmailMode && emailPreview.email ? formatEmail(emailPreview.email) : undefined}
+                  tone={tone}
+                  language={replyLanguage?.used || language}
+                  translation={translations[index]}
+                  voices={voices}
+                  placeholderValues={placeholderValues}
+                  onQuotaUpdate={setQuota}
+                  onQuotaExceeded={() => setIsQuotaExceeded(true)}
+                  onSave={handleSaveReply}
+                  onCopy={(text) => handleDraftCopied(index, text)}
+                />
+              ))}
+              {isLoading && Array.from({ length: Math.max(0, 3 - drafts.length) }).map((_, offset) => (
+                <div
+                  key={`pending-${drafts.length + offset}`}
+                  className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 animate-pulse"
+                >
+                  <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+                  <div className="space-y-2">
+                    <div className="h-3 bg-gray-100 rounded"></div>
+                    <div className="h-3 bg-gray-100 rounded w-5/6"></div>
+                  </div>
+                </div>
               ))}
             </div>
           </div>
@@ -787,11 +1236,31 @@ export default function Home() {
             <p className="text-sm text-gray-600 max-w-2xl mx-auto">
               We don't store your messages. They're sent to our AI provider to generate replies, then immediately discarded. 
               Your data never leaves our secure processing pipeline.
+              {user && (
+                <> Generation history is off unless you turn it on in <Link href="/history" className="text-orange-600 hover:text-orange-700 underline">History</Link>.</>
+              )}
             </p>
           </div>
         </footer>
       </div>
 
+      {/* Saved Replies */}
+      <SavedRepliesSidebar
+        isOpen={isSavedRepliesOpen}
+        onClose={() => setIsSavedRepliesOpen(false)}
+        signedIn={!!user}
+        refreshKey={savedRepliesVersion}
+        onInsert={handleInsertSavedReply}
+      />
+
+      {/* Brand Voices */}
+      <VoiceProfilesPanel
+        isOpen={isVoicesOpen}
+        onClose={() => setIsVoicesOpen(false)}
+        profiles={voices}
+        onChange={loadVoices}
+      />
+
       {/* Auth Panel */}
       <AuthPanel
         isOpen={isAuthPanelOpen}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createClientComponentClient } from '@/lib/supabase';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Password reset in two steps: request an email link, then (signed in by the link via
+// /auth/callback) choose a new password
+export default function ResetPasswordPage() {
+  const supabase = createClientComponentClient();
+  const [hasSession, setHasSession] = useState<boolean | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [emailSent, setEmailSent] = useState(false);
+  const [passwordUpdated, setPasswordUpdated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      setHasSession(Boolean(user));
+      if (user?.email) setEmail(user.email);
+    };
+
+    loadSession();
+  }, [supabase]);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: `${window.location.origin}/auth/callback?next=/reset-password`,
+      });
+      if (error) throw error;
+      setEmailSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the reset email');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      setPasswordUpdated(true);
+      setPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+  const buttonClass = 'w-full bg-orange-500 text-white py-3 px-4 rounded-lg font-medium hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white flex items-center justify-center">
+      <div className="max-w-md w-full mx-4">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">
+            {hasSession ? 'Choose a new password' : 'Reset your password'}
+          </h1>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 my-4">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          {hasSession === null ? (
+            <div className="flex items-center justify-center text-gray-600 text-sm py-6">
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-orange-600 border-t-transparent mr-2"></div>
+              Loading...
+            </div>
+          ) : hasSession ? (
+            passwordUpdated ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 my-4 text-center">
+                <p className="text-green-800 font-medium">Your password has been updated ✓</p>
+              </div>
+            ) : (
+              <form onSubmit={handleUpdate} className="space-y-4 mt-6">
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                    New password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Confirm new password
+                  </label>
+                  <input
+                    type="password"
+                    id="confirmPassword"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <button type="submit" disabled={isSubmitting} className={buttonClass}>
+                  {isSubmitting ? 'Saving...' : 'Update password'}
+                </button>
+              </form>
+            )
+          ) : emailSent ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 my-4 text-center">
+              <p className="text-green-800 text-sm">
+                If an account exists for {email.trim()}, a reset link is on its way. Open it on this device to choose a new password.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleRequest} className="space-y-4 mt-6">
+              <p className="text-gray-600 text-sm">
+                Enter your account email and we&apos;ll send you a link to choose a new password.
+              </p>
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Enter your email"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <button type="submit" disabled={isSubmitting} className={buttonClass}>
+                {isSubmitting ? 'Sending...' : 'Send reset link'}
+              </button>
+            </form>
+          )}
+
+          <div className="pt-4 mt-6 border-t border-gray-200 text-center">
+            <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+              ← Back to Home
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
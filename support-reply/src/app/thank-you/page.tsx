@@ -1,36 +1,128 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { createClientComponentClient } from '@/lib/supabase';
+import { isPromoProCurrent } from '@/lib/billing';
+
+// Pro is granted by the Stripe webhook; poll the profile until it lands
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 60000;
+
+// Response of POST /api/redeem
+interface Redemption {
+  grantType: 'pro_days' | 'generations';
+  grantValue: number;
+  proUntil: string | null;
+  bonusGenerations: number | null;
+}
 
 export default function ThankYouPage() {
-  const [isActivating, setIsActivating] = useState(false);
+  const [isActivating, setIsActivating] = useState(true);
   const [isActivated, setIsActivated] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [redemption, setRedemption] = useState<Redemption | null>(null);
+  const [redeemError, setRedeemError] = useState<string | null>(null);
+  const supabase = createClientComponentClient();
+
+  useEffect(() => {
+    let cancelled = false;
+    const startedAt = Date.now();
+
+    const checkProStatus = async () => {
+      if (cancelled) return;
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+          setError('Sign in with the account you used at checkout to see your Pro status.');
+          setIsActivating(false);
+          return;
+        }
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('pro, pro_until')
+          .eq('user_id', user.id)
+          .single();
+
+        // Team upgrades land on the workspace instead of the profile
+        const { data: membership } = await supabase
+          .from('workspace_members')
+          .select('workspaces (pro)')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (cancelled) return;
+
+        const workspacePro = (membership as { workspaces?: { pro?: boolean } | null } | null)?.workspaces?.pro;
+        const ownProfile = profile as { pro?: boolean; pro_until?: string | null } | null;
+        if (ownProfile?.pro || isPromoProCurrent(ownProfile?.pro_until) || workspacePro) {
+          setIsActivated(true);
+          setIsActivating(false);
+          return;
+        }
+
+        if (Date.now() - startedAt >= POLL_TIMEOUT_MS) {
+          setError('Payment confirmation is taking longer than usual. Pro will activate automatically once it arrives.');
+          setIsActivating(false);
+          return;
+        }
+
+        setTimeout(checkProStatus, POLL_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error checking Pro status:', error);
+        if (!cancelled) {
+          setError('Could not check your Pro status. Please refresh the page.');
+          setIsActivating(false);
+        }
+      }
+    };
+
+    checkProStatus();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || isRedeeming) return;
+
+    setIsRedeeming(true);
+    setRedeemError(null);
+    setRedemption(null);
 
-  const handleActivatePro = async () => {
-    if (isActivating) return;
-    
-    setIsActivating(true);
-    setError(null);
-    
     try {
-      const response = await fetch('/api/debug/set-pro', {
+      const response = await fetch('/api/redeem', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
+        body: JSON.stringify({ code }),
       });
-      
+      const data = await response.json();
+
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to activate Pro');
+        setRedeemError(data.message || 'Failed to redeem code');
+        return;
       }
-      
-      setIsActivated(true);
-    } catch (error: any) {
-      console.error('Activation error:', error);
-      setError(error.message || 'Failed to activate Pro');
+
+      setRedemption(data as Redemption);
+      setCode('');
+      if (data.grantType === 'pro_days') {
+        setIsActivated(true);
+        setIsActivating(false);
+        setError(null);
+      }
+    } catch (error) {
+      console.error('Error redeeming code:', error);
+      setRedeemError('Failed to redeem code. Please try again.');
     } finally {
-      setIsActivating(false);
+      setIsRedeeming(false);
     }
   };
 
@@ -52,7 +144,7 @@ export default function ThankYouPage() {
 
           <div className="mb-6">
             <p className="text-gray-700 mb-4">
-              Activate Pro to finish.
+              Your Pro plan activates as soon as Stripe confirms the payment.
             </p>
             
             {error && (
@@ -65,23 +157,46 @@ export default function ThankYouPage() {
               <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
                 <p className="text-green-800 font-medium">Pro activated ✓</p>
               </div>
-            ) : (
+            ) : isActivating ? (
+              <div className="flex items-center justify-center text-gray-600 text-sm">
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-orange-600 border-t-transparent mr-2"></div>
+                Confirming your payment...
+              </div>
+            ) : null}
+          </div>
+
+          <form onSubmit={handleRedeem} className="pt-4 mb-4 border-t border-gray-200 text-left">
+            <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-2">
+              Have a promo code?
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="promo-code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX"
+                autoComplete="off"
+                maxLength={60}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg uppercase focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
               <button
-                onClick={handleActivatePro}
-                disabled={isActivating}
-                className="w-full bg-orange-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                type="submit"
+                disabled={!code.trim() || isRedeeming}
+                className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-lg hover:bg-orange-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               >
-                {isActivating ? (
-                  <div className="flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
-                    Activating...
-                  </div>
-                ) : (
-                  'Activate Pro'
-                )}
+                {isRedeeming ? 'Redeeming...' : 'Redeem'}
               </button>
+            </div>
+            {redeemError && <p className="mt-2 text-sm text-red-700">{redeemError}</p>}
+            {redemption && (
+              <p className="mt-2 text-sm text-green-700">
+                {redemption.grantType === 'pro_days'
+                  ? `Pro unlocked until ${new Date(redemption.proUntil!).toLocaleDateString()}.`
+                  : `${redemption.grantValue} extra generations added (${redemption.bonusGenerations} available). They're used once you reach your limit.`}
+              </p>
             )}
-          </div>
+          </form>
 
           <div className="pt-4 border-t border-gray-200">
             <Link
@@ -0,0 +1,95 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+
+function JoinWorkspace() {
+  const token = useSearchParams().get('token');
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinedName, setJoinedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(token ? null : 'This invite link is missing its token.');
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/workspaces/invites/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (response.status === 401) {
+        setError('Sign in with the invited email address, then open this link again.');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to accept invite');
+      }
+
+      setJoinedName(data.workspace.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invite');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">Join a team workspace</h1>
+
+      {joinedName ? (
+        <>
+          <p className="text-gray-600 mb-6">You are now a member of {joinedName}.</p>
+          <Link
+            href="/"
+            className="inline-block px-6 py-3 bg-orange-500 text-white font-medium rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            Start generating replies
+          </Link>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-6">
+            Accept the invite to share your team&apos;s plan and quota.
+          </p>
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          <button
+            onClick={handleJoin}
+            disabled={!token || isJoining}
+            className="px-6 py-3 bg-orange-500 text-white font-medium rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+          >
+            {isJoining ? 'Joining...' : 'Accept invite'}
+          </button>
+          <p className="mt-4">
+            <Link href="/" className="text-sm text-orange-600 hover:text-orange-700">
+              ← Back to Home
+            </Link>
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function JoinWorkspacePage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white flex items-center justify-center">
+      <div className="max-w-md w-full mx-4">
+        {/* useSearchParams needs a suspense boundary for static rendering */}
+        <Suspense fallback={null}>
+          <JoinWorkspace />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
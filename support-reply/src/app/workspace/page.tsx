@@ -0,0 +1,402 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createClientComponentClient } from '@/lib/supabase';
+import type { Workspace, WorkspaceInvite, WorkspaceMember, WorkspaceRole } from '@/lib/workspaces';
+import { resolvePlan } from '@/lib/plans';
+import type { PlanId } from '@/lib/plans';
+
+interface WorkspaceState {
+  workspace: Workspace | null;
+  role?: WorkspaceRole;
+  members?: WorkspaceMember[];
+  invites?: WorkspaceInvite[];
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function WorkspacePage() {
+  const [state, setState] = useState<WorkspaceState | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('agent');
+  const [inviteLink, setInviteLink] = useState<{ url: string; emailSent: boolean } | null>(null);
+  const [seats, setSeats] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [upgradePlan, setUpgradePlan] = useState<PlanId>('team');
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/workspaces', { credentials: 'include' });
+      if (response.status === 401) {
+        setError('Sign in to manage your team.');
+        return;
+      }
+      const data = await readJson<WorkspaceState>(response);
+      setState(data);
+      if (data.workspace) setSeats(data.workspace.seats);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workspace');
+    }
+  };
+
+  useEffect(() => {
+    const loadUser = async () => {
+      const { data: { user } } = await createClientComponentClient().auth.getUser();
+      setUserId(user?.id || null);
+    };
+
+    load();
+    loadUser();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await readJson(await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name }),
+      }));
+      setName('');
+    });
+  };
+
+  const updateWorkspace = (update: { pooledQuota?: boolean; seats?: number }) =>
+    run(async () => {
+      await readJson(await fetch('/api/workspaces', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(update),
+      }));
+    });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await readJson<{ inviteUrl: string; emailSent: boolean }>(await fetch('/api/workspaces/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      }));
+      setInviteLink({ url: data.inviteUrl, emailSent: data.emailSent });
+      setInviteEmail('');
+    });
+  };
+
+  const revokeInvite = (id: string) =>
+    run(async () => {
+      await readJson(await fetch(`/api/workspaces/invites/${id}`, { method: 'DELETE', credentials: 'include' }));
+    });
+
+  const changeRole = (memberId: string, role: WorkspaceRole) =>
+    run(async () => {
+      await readJson(await fetch(`/api/workspaces/members/${memberId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ role }),
+      }));
+    });
+
+  const removeMember = (memberId: string) => {
+    const leaving = memberId === userId;
+    if (!confirm(leaving ? 'Leave this workspace?' : 'Remove this member from the workspace?')) return;
+
+    run(async () => {
+      await readJson(await fetch(`/api/workspaces/members/${memberId}`, { method: 'DELETE', credentials: 'include' }));
+    });
+  };
+
+  const handleUpgrade = async () => {
+    setIsUpgrading(true);
+    try {
+      const data = await readJson<{ url: string }>(await fetch('/api/create-checkout-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ plan: upgradePlan, seats }),
+      }));
+      window.location.href = data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start upgrade');
+      setIsUpgrading(false);
+    }
+  };
+
+  // Cancel, change the card or download invoices in Stripe's billing portal
+  const handleManageBilling = async () => {
+    setIsUpgrading(true);
+    try {
+      const data = await readJson<{ url: string }>(await fetch('/api/billing-portal', { method: 'POST', credentials: 'include' }));
+      window.location.href = data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open billing portal');
+      setIsUpgrading(false);
+    }
+  };
+
+  const workspace = state?.workspace;
+  const canManage = state?.role === 'owner' || state?.role === 'admin';
+  const isOwner = state?.role === 'owner';
+  const memberCount = state?.members?.length || 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-white">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Team Workspace</h1>
+          <Link href="/" className="text-orange-600 hover:text-orange-700 text-sm font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {state && !workspace && (
+          <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h2 className="font-semibold text-gray-900 mb-1">Create a workspace</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Share one plan with your support team. Have an invite? Open the link from your email instead.
+            </p>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Acme Support"
+                maxLength={80}
+                className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="px-4 py-2 bg-orange-500 text-white text-sm rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+              >
+                Create
+              </button>
+            </div>
+          </form>
+        )}
+
+        {workspace && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">{workspace.name}</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {workspace.pro
+                      ? `${resolvePlan(true, workspace.plan, true).name} · ${memberCount} of ${workspace.seats} seats used`
+                      : `Free · ${memberCount} ${memberCount === 1 ? 'member' : 'members'}`}
+                    {workspace.subscription_status && workspace.subscription_status !== 'active' && ` · ${workspace.subscription_status}`}
+                    {workspace.pro && workspace.cancel_at && ` · ends ${new Date(workspace.cancel_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full capitalize">{state.role}</span>
+              </div>
+
+              {canManage && (
+                <div className="flex items-start justify-between gap-4 mt-4 pt-4 border-t border-gray-100">
+                  <div>
+                    <h3 className="font-medium text-gray-900 text-sm">Pooled quota</h3>
+                    <p className="text-sm text-gray-600">
+                      Share one daily allowance across the team instead of a separate allowance per member.
+                    </p>
+                  </div>
+                  <label className="flex items-center cursor-pointer shrink-0">
+                    <input
+                      type="checkbox"
+                      checked={workspace.pooled_quota}
+                      onChange={(e) => updateWorkspace({ pooledQuota: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 rounded-full peer-checked:bg-orange-500 relative transition-colors after:content-[''] after:absolute after:top-0.5 after:left-0.5 after:w-5 after:h-5 after:bg-white after:rounded-full after:transition-transform peer-checked:after:translate-x-5"></div>
+                  </label>
+                </div>
+              )}
+
+              {canManage && (
+                <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-gray-100 text-sm">
+                  <label className="text-gray-700 flex items-center gap-2">
+                    Seats
+                    <input
+                      type="number"
+                      min={Math.max(1, memberCount)}
+                      max={500}
+                      value={seats}
+                      onChange={(e) => setSeats(Number(e.target.value))}
+                      className="w-20 px-2 py-1 border border-gray-200 rounded-lg"
+                    />
+                  </label>
+                  {workspace.pro ? (
+                    isOwner && (
+                      <>
+                        <button
+                          onClick={() => updateWorkspace({ seats })}
+                          disabled={seats === workspace.seats}
+                          className="px-4 py-2 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 disabled:opacity-50 transition-colors"
+                        >
+                          Update seats
+                        </button>
+                        <button
+                          onClick={handleManageBilling}
+                          disabled={isUpgrading}
+                          className="px-4 py-2 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 disabled:opacity-50 transition-colors"
+                        >
+                          Manage billing
+                        </button>
+                      </>
+                    )
+                  ) : (
+                    <>
+                      <select
+                        value={upgradePlan}
+                        onChange={(e) => setUpgradePlan(e.target.value as PlanId)}
+                        aria-label="Billing interval"
+                        className="px-2 py-2 border border-gray-200 rounded-lg text-gray-700"
+                      >
+                        <option value="team">Monthly</option>
+                        <option value="team_annual">Annual</option>
+                      </select>
+                      <button
+                        onClick={handleUpgrade}
+                        disabled={isUpgrading}
+                        className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-lg hover:from-orange-600 hover:to-orange-700 disabled:opacity-50 transition-colors"
+                      >
+                        {isUpgrading ? 'Upgrading...' : '✨ Upgrade to Team'}
+                      </button>
+                    </>
+                  )}
+                  <span className="text-xs text-gray-500">Billed per seat. Seats cover members and pending invites.</span>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">Members</h3>
+              <ul className="divide-y divide-gray-100">
+                {state.members?.map((member) => (
+                  <li key={member.user_id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                    <span className="text-gray-900">
+                      {member.email || member.user_id}
+                      {member.user_id === userId && <span className="text-gray-500"> (you)</span>}
+                    </span>
+                    <div className="flex items-center gap-3">
+                      {isOwner && member.role !== 'owner' ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => changeRole(member.user_id, e.target.value as WorkspaceRole)}
+                          className="px-2 py-1 border border-gray-200 rounded-lg bg-white"
+                        >
+                          <option value="admin">Admin</option>
+                          <option value="agent">Agent</option>
+                        </select>
+                      ) : (
+                        <span className="text-gray-600 capitalize">{member.role}</span>
+                      )}
+                      {member.role !== 'owner' && (member.user_id === userId || isOwner || (canManage && member.role === 'agent')) && (
+                        <button onClick={() => removeMember(member.user_id)} className="text-xs text-gray-500 hover:text-red-600">
+                          {member.user_id === userId ? 'Leave' : 'Remove'}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {canManage && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <h3 className="font-semibold text-gray-900 mb-4">Invite teammates</h3>
+                <form onSubmit={handleInvite} className="flex flex-wrap gap-3">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="teammate@example.com"
+                    className="flex-1 min-w-[200px] px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+                  >
+                    <option value="agent">Agent</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={!inviteEmail.trim()}
+                    className="px-4 py-2 bg-orange-500 text-white text-sm rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+                  >
+                    Send invite
+                  </button>
+                </form>
+
+                {inviteLink && (
+                  <div className="mt-4 bg-orange-50 border border-orange-200 rounded-lg p-3 text-sm">
+                    <p className="text-gray-700 mb-2">
+                      {inviteLink.emailSent ? 'Invite email sent. You can also share this link:' : 'Share this link with your teammate:'}
+                    </p>
+                    <div className="flex gap-2">
+                      <input readOnly value={inviteLink.url} className="flex-1 px-2 py-1 border border-gray-200 rounded bg-white text-xs" />
+                      <button
+                        onClick={() => navigator.clipboard.writeText(inviteLink.url)}
+                        className="px-3 py-1 text-xs font-medium text-orange-600 hover:text-orange-700"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {(state.invites?.length || 0) > 0 && (
+                  <ul className="mt-4 divide-y divide-gray-100">
+                    {state.invites?.map((invite) => (
+                      <li key={invite.id} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-gray-700">
+                          {invite.email} · <span className="capitalize">{invite.role}</span>
+                          <span className="text-xs text-gray-500"> · expires {new Date(invite.expires_at).toLocaleDateString()}</span>
+                        </span>
+                        <button onClick={() => revokeInvite(invite.id)} className="text-xs text-gray-500 hover:text-red-600">
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
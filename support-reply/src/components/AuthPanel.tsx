@@ -1,6 +1,8 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
+import type { Provider } from "@supabase/supabase-js";
 import { createClientComponentClient } from "@/lib/supabase";
 
 interface AuthPanelProps {
@@ -9,7 +11,18 @@ interface AuthPanelProps {
   onAuthSuccess: () => void;
 }
 
-type AuthMode = 'signin' | 'signup';
+// 'magic' signs in with an emailed link instead of a password
+type AuthMode = 'signin' | 'signup' | 'magic';
+
+const OAUTH_PROVIDERS: { id: Provider; label: string }[] = [
+  { id: "google", label: "Google" },
+  { id: "github", label: "GitHub" },
+];
+
+// Email links and OAuth come back through /auth/callback, which sets the session server-side
+function getCallbackUrl(): string {
+  return `${window.location.origin}/auth/callback?next=${encodeURIComponent(window.location.pathname)}`;
+}
 
 export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelProps) {
   const [mode, setMode] = useState<AuthMode>('signin');
@@ -18,6 +31,7 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState("");
+  const [isSuccess, setIsSuccess] = useState(false);
   
   // Initialize Supabase client with error handling
   let supabase: ReturnType<typeof createClientComponentClient> | null = null;
@@ -28,19 +42,32 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
     console.error('Failed to initialize Supabase client:', error);
   }
 
+  const showMessage = (text: string, success: boolean = false) => {
+    setMessage(text);
+    setIsSuccess(success);
+  };
+
   const validateForm = () => {
+    if (mode === 'magic') {
+      if (!email) {
+        showMessage("Please enter your email.");
+        return false;
+      }
+      return true;
+    }
+
     if (!email || !password) {
-      setMessage("Please fill in all fields.");
+      showMessage("Please fill in all fields.");
       return false;
     }
     
     if (mode === 'signup' && password !== confirmPassword) {
-      setMessage("Passwords do not match.");
+      showMessage("Passwords do not match.");
       return false;
     }
     
     if (password.length < 6) {
-      setMessage("Password must be at least 6 characters long.");
+      showMessage("Password must be at least 6 characters long.");
       return false;
     }
     
@@ -59,7 +86,8 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
       
       const { data, error } = await supabase.auth.signUp({
         email: email.trim(),
-        password: password
+        password: password,
+        options: { emailRedirectTo: getCallbackUrl() }
       });
       
       // Handle sign up response
@@ -68,16 +96,16 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
         throw error;
       }
       
-      if (data.user) {
-        setMessage("Account created successfully! You are now signed in.");
+      if (data.session) {
+        showMessage("Account created successfully! You are now signed in.", true);
         // Don't close immediately - let the auth state change listener handle the UI update
         // The modal will close when the parent component detects the auth state change
       } else {
-        setMessage("Account created! Please check your email to confirm your account.");
+        showMessage("Account created! Please check your email to confirm your account.", true);
       }
     } catch (error: any) {
       console.error('Sign up error:', error);
-      setMessage(error.message || 'Failed to create account. Please try again.');
+      showMessage(error.message || 'Failed to create account. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -105,26 +133,78 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
       }
       
       if (data.user) {
-        setMessage("Signed in successfully!");
+        showMessage("Signed in successfully!", true);
         // Don't close immediately - let the auth state change listener handle the UI update
         // The modal will close when the parent component detects the auth state change
       }
     } catch (error: any) {
       console.error('Sign in error:', error);
-      setMessage(error.message || 'Failed to sign in. Please check your credentials.');
+      showMessage(error.message || 'Failed to sign in. Please check your credentials.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm() || !supabase) return;
+
+    setIsLoading(true);
+    setMessage("");
+
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: getCallbackUrl() }
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      showMessage("Check your email for a sign-in link. Open it in this browser to continue.", true);
+    } catch (error: unknown) {
+      console.error('Magic link error:', error);
+      showMessage(error instanceof Error ? error.message : 'Failed to send the sign-in link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Leaves the page for the provider, which returns through /auth/callback
+  const handleOAuth = async (provider: Provider) => {
+    if (!supabase) return;
+
+    setIsLoading(true);
+    setMessage("");
+
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: getCallbackUrl() }
+    });
+
+    if (error) {
+      console.error('OAuth error:', error);
+      showMessage(error.message || 'Failed to start sign-in. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     if (mode === 'signup') {
       handleSignUp(e);
+    } else if (mode === 'magic') {
+      handleMagicLink(e);
     } else {
       handleSignIn(e);
     }
   };
 
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setMessage("");
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -132,7 +212,7 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
       <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md mx-4">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold text-gray-900">
-            {mode === 'signin' ? 'Sign In' : 'Sign Up'}
+            {mode === 'signup' ? 'Sign Up' : 'Sign In'}
           </h2>
           <button
             onClick={onClose}
@@ -147,9 +227,9 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
           <div className="flex bg-gray-100 rounded-lg p-1">
             <button
               type="button"
-              onClick={() => setMode('signin')}
+              onClick={() => switchMode('signin')}
               className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
-                mode === 'signin'
+                mode !== 'signup'
                   ? 'bg-white text-gray-900 shadow-sm'
                   : 'text-gray-600 hover:text-gray-900'
               }`}
@@ -158,7 +238,7 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
             </button>
             <button
               type="button"
-              onClick={() => setMode('signup')}
+              onClick={() => switchMode('signup')}
               className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
                 mode === 'signup'
                   ? 'bg-white text-gray-900 shadow-sm'
@@ -169,6 +249,27 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
             </button>
           </div>
 
+          {/* OAuth */}
+          <div className="space-y-2">
+            {OAUTH_PROVIDERS.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => handleOAuth(id)}
+                disabled={isLoading}
+                className="w-full py-2.5 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Continue with {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 text-xs text-gray-400">
+            <div className="flex-1 border-t border-gray-200" />
+            or
+            <div className="flex-1 border-t border-gray-200" />
+          </div>
+
           {/* Auth Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
@@ -186,10 +287,18 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
               />
             </div>
 
+            {mode !== 'magic' && (
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-                Password
-              </label>
+              <div className="flex justify-between items-center mb-1">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                {mode === 'signin' && (
+                  <Link href="/reset-password" onClick={onClose} className="text-xs text-orange-600 hover:text-orange-700">
+                    Forgot password?
+                  </Link>
+                )}
+              </div>
               <input
                 type="password"
                 id="password"
@@ -200,6 +309,7 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
                 required
               />
             </div>
+            )}
 
             {mode === 'signup' && (
               <div>
@@ -224,16 +334,26 @@ export default function AuthPanel({ isOpen, onClose, onAuthSuccess }: AuthPanelP
               className="w-full bg-orange-500 text-white py-3 px-4 rounded-lg font-medium hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {isLoading 
-                ? (mode === 'signin' ? "Signing in..." : "Creating account...") 
-                : (mode === 'signin' ? "Sign In" : "Sign Up")
+                ? (mode === 'signup' ? "Creating account..." : mode === 'magic' ? "Sending link..." : "Signing in...")
+                : (mode === 'signup' ? "Sign Up" : mode === 'magic' ? "Email me a sign-in link" : "Sign In")
               }
             </button>
+
+            {mode !== 'signup' && (
+              <button
+                type="button"
+                onClick={() => switchMode(mode === 'magic' ? 'signin' : 'magic')}
+                className="w-full text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                {mode === 'magic' ? "Sign in with a password instead" : "Email me a sign-in link instead"}
+              </button>
+            )}
           </form>
 
           {/* Message */}
           {message && (
             <div className={`p-3 rounded-lg text-sm ${
-              message.includes("successfully") || message.includes("created")
+              isSuccess
                 ? "bg-green-50 text-green-700 border border-green-200" 
                 : "bg-red-50 text-red-700 border border-red-200"
             }`}>
@@ -0,0 +1,103 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { MAX_EMAIL_LENGTH } from "@/lib/email";
+import type { ParsedEmail, RemovedSection } from "@/lib/email";
+
+interface EmailInputProps {
+  // Raw RFC 822 message, pasted or read from an .eml file
+  value: string;
+  onChange: (value: string) => void;
+  // Parse result of the current value; shown as the preview of what will be sent
+  parsed: ParsedEmail | null;
+  parseError: string | null;
+}
+
+const REMOVED_LABELS: Record<RemovedSection, string> = {
+  quoted: "quoted history",
+  signature: "signature",
+  footer: "legal footer",
+};
+
+export default function EmailInput({ value, onChange, parsed, parseError }: EmailInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_EMAIL_LENGTH) {
+      setFileError("File is too large");
+    } else {
+      setFileError(null);
+      onChange(await file.text());
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        id="message"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Paste the full email including headers (From:, Subject:, ...), or upload an .eml file"
+        className="w-full h-40 p-4 border-2 border-gray-200 rounded-xl resize-none font-mono text-xs focus:outline-none focus:ring-4 focus:ring-orange-100 focus:border-orange-500 transition-all duration-200 text-gray-900 placeholder-gray-400"
+      />
+      <div className="flex items-center gap-3 text-sm">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 hover:text-orange-700 transition-colors"
+        >
+          Upload .eml
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".eml,message/rfc822"
+          onChange={handleFile}
+          className="hidden"
+        />
+        {value && (
+          <button onClick={() => onChange("")} className="text-gray-500 hover:text-gray-900">
+            Clear
+          </button>
+        )}
+        {fileError && <span className="text-red-600">{fileError}</span>}
+      </div>
+
+      {value.trim() && parseError && (
+        <p className="text-sm text-red-500">⚠️ {parseError}</p>
+      )}
+
+      {parsed && (
+        <div className="border border-gray-200 rounded-xl p-4 bg-gray-50 text-sm">
+          <div className="flex justify-between items-start gap-3 mb-2">
+            <div>
+              <p className="text-gray-900">
+                <span className="text-gray-500">From: </span>
+                {parsed.customerName || "Unknown name"}
+                {parsed.customerEmail && <span className="text-gray-500"> &lt;{parsed.customerEmail}&gt;</span>}
+              </p>
+              <p className="text-gray-900">
+                <span className="text-gray-500">Subject: </span>
+                {parsed.subject || "No subject"}
+              </p>
+            </div>
+            <span className="text-xs text-gray-500 shrink-0">
+              {parsed.forwarded ? "Forwarded · " : ""}
+              {parsed.format === "html" ? "from HTML" : "plain text"}
+            </span>
+          </div>
+          <p className="text-gray-800 whitespace-pre-line border-l-2 border-orange-200 pl-3">{parsed.body}</p>
+          {parsed.removed.length > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Removed: {parsed.removed.map((section) => REMOVED_LABELS[section]).join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+interface KnowledgeDocument {
+  id: string;
+  title: string;
+  chunk_count: number;
+  created_at: string;
+}
+
+export default function KnowledgeBasePanel() {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDocuments = async () => {
+    try {
+      const response = await fetch('/api/knowledge', { credentials: 'include' });
+      if (!response.ok) return;
+      const data = await response.json();
+      setDocuments(data.documents || []);
+    } catch (err) {
+      console.error('Failed to load knowledge base:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadDocuments();
+  }, []);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/knowledge', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Upload failed');
+      }
+
+      setDocuments((current) => [data.document, ...current]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/knowledge/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (response.ok) {
+        setDocuments((current) => current.filter((document) => document.id !== id));
+      }
+    } catch (err) {
+      console.error('Failed to delete document:', err);
+    }
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <label className="block text-sm font-semibold text-gray-900">Knowledge Base</label>
+          <p className="text-xs text-gray-500">Upload FAQs or policies (.md, .txt, .pdf) so drafts cite real answers.</p>
+        </div>
+        <label className={`px-3 py-2 text-sm rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors ${isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+          {isUploading ? 'Uploading...' : '📄 Upload'}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".md,.markdown,.txt,.pdf"
+            onChange={handleUpload}
+            disabled={isUploading}
+            className="sr-only"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-2">{error}</p>
+      )}
+
+      {documents.length > 0 ? (
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {documents.map((document) => (
+            <li key={document.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="text-gray-800 truncate">{document.title}</span>
+              <div className="flex items-center space-x-3 flex-shrink-0">
+                <span className="text-xs text-gray-400">{document.chunk_count} passages</span>
+                <button
+                  onClick={() => handleDelete(document.id)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label={`Remove ${document.title}`}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400">No documents yet.</p>
+      )}
+    </div>
+  );
+}
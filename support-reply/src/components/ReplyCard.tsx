@@ -1,18 +1,186 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { DEFAULT_VOICE_PROFILES } from "@/lib/voice-profiles/format";
+import type { VoiceProfile } from "@/lib/voice-profiles/format";
+import type { ThreadTurn } from "@/lib/thread";
+import {
+  fillPlaceholders,
+  findMissingPlaceholders,
+  findPlaceholders,
+  formatPlaceholder,
+  placeholderLabel,
+  PlaceholderValues,
+} from "@/lib/placeholders";
+
+export interface DraftSource {
+  documentId: string;
+  title: string;
+  chunkIndex: number;
+  snippet: string;
+}
+
+export interface QuotaInfo {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  pro: boolean;
+  // Catalog plan ID
+  plan: string;
+}
+
+type RefineOperation = "shorten" | "expand" | "tone" | "clarify" | "custom";
 
 interface ReplyCardProps {
   text: string;
   index: number;
+  sources?: DraftSource[];
+  // Generation context sent with refine requests
+  message: string;
+  // Sent instead of the message when the drafts answer a thread
+  thread?: ThreadTurn[];
+  // Raw email sent instead of the message when the drafts answer an ingested email
+  email?: string;
+  // Voice profile ID
+  tone: string;
+  // ISO code or "auto"
+  language?: string;
+  // English translation of the generated text, for the agent only
+  translation?: string;
+  // Voices offered by "Change tone"
+  voices?: Pick<VoiceProfile, "id" | "name">[];
+  // Prefill for the draft's {{placeholders}}: details found in the message and the agent's name
+  placeholderValues?: PlaceholderValues;
+  onQuotaUpdate?: (quota: QuotaInfo) => void;
+  onQuotaExceeded?: () => void;
+  // Adds the current version to the saved replies library
+  onSave?: (text: string) => Promise<void>;
+  onCopy?: (text: string) => void;
 }
 
-export default function ReplyCard({ text, index }: ReplyCardProps) {
+export default function ReplyCard({
+  text,
+  index,
+  sources,
+  message,
+  thread,
+  email,
+  tone,
+  language = "auto",
+  translation,
+  voices = DEFAULT_VOICE_PROFILES,
+  placeholderValues,
+  onQuotaUpdate,
+  onQuotaExceeded,
+  onSave,
+  onCopy,
+}: ReplyCardProps) {
   const [copied, setCopied] = useState(false);
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  // Every version of this draft; refinements append, undo/redo move the position
+  const [versions, setVersions] = useState<string[]>([text]);
+  const [position, setPosition] = useState(0);
+  const [targetTone, setTargetTone] = useState(tone);
+  const [instructions, setInstructions] = useState("");
+  const [refining, setRefining] = useState<RefineOperation | null>(null);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({ ...placeholderValues });
+
+  // A new generation (or streamed update) replaces the card's history
+  useEffect(() => {
+    setVersions([text]);
+    setPosition(0);
+    setRefineError(null);
+  }, [text]);
+
+  useEffect(() => {
+    setTargetTone(tone);
+  }, [tone]);
+
+  // New prefill values only fill fields the agent hasn't typed in
+  useEffect(() => {
+    setValues((entered) => ({
+      ...placeholderValues,
+      ...Object.fromEntries(Object.entries(entered).filter(([, value]) => value.trim())),
+    }));
+  }, [placeholderValues]);
+
+  const current = versions[position] ?? text;
+  const placeholders = findPlaceholders(current);
+  const missingPlaceholders = findMissingPlaceholders(current, values);
+  // What gets copied; refinements and saved replies keep the placeholders
+  const filled = fillPlaceholders(current, values);
+
+  // Each version is saved separately
+  useEffect(() => {
+    setSaveState("idle");
+  }, [current]);
+
+  const handleRefine = async (operation: RefineOperation) => {
+    setRefining(operation);
+    setRefineError(null);
+
+    try {
+      const response = await fetch('/api/refine', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          draft: current,
+          ...(thread ? { thread } : email ? { email } : { message }),
+          operation,
+          tone: operation === 'tone' ? targetTone : tone,
+          language,
+          instructions: operation === 'custom' ? instructions.trim() : undefined,
+          placeholders: true,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 429 && (data.error === 'DAILY_LIMIT_REACHED' || data.error === 'MONTHLY_LIMIT_REACHED')) {
+          onQuotaExceeded?.();
+          throw new Error(data.message || 'Daily limit reached');
+        }
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+
+      // Refining from an undone version discards the redo branch
+      setVersions([...versions.slice(0, position + 1), data.draft]);
+      setPosition(position + 1);
+      if (operation === 'custom') {
+        setInstructions("");
+      }
+      if (data.quota) {
+        onQuotaUpdate?.(data.quota);
+      }
+    } catch (err: unknown) {
+      console.error('Refine error:', err);
+      setRefineError(err instanceof Error ? err.message : 'Failed to refine draft');
+    } finally {
+      setRefining(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setSaveState("saving");
+    try {
+      await onSave(current);
+      setSaveState("saved");
+    } catch (err) {
+      console.error('Failed to save reply: ', err);
+      setSaveState("error");
+    }
+  };
 
   const handleCopy = async () => {
+    if (missingPlaceholders.length > 0) return;
+
     try {
-      await navigator.clipboard.writeText(text);
+      await navigator.clipboard.writeText(filled);
+      onCopy?.(filled);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -29,10 +197,20 @@ export default function ReplyCard({ text, index }: ReplyCardProps) {
           </div>
           <span className="font-semibold text-gray-900">Option {index + 1}</span>
         </div>
-        <div className="relative">
+        <div className="relative flex items-center space-x-2">
+          {onSave && (
+            <button
+              onClick={handleSave}
+              disabled={saveState === "saving" || saveState === "saved"}
+              className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg font-medium hover:border-orange-300 hover:text-orange-700 transition-colors duration-200 disabled:opacity-75"
+            >
+              {saveState === "saving" ? "Saving..." : saveState === "saved" ? "Saved ✓" : saveState === "error" ? "Retry save" : "Save"}
+            </button>
+          )}
           <button
             onClick={handleCopy}
-            disabled={copied}
+            disabled={copied || missingPlaceholders.length > 0}
+            title={missingPlaceholders.length > 0 ? "Fill in the placeholders first" : undefined}
             className="bg-orange-500 text-white px-4 py-2 rounded-lg font-medium hover:bg-orange-600 transition-colors duration-200 flex items-center space-x-2 disabled:opacity-75"
           >
             <span>📋</span>
@@ -45,9 +223,145 @@ export default function ReplyCard({ text, index }: ReplyCardProps) {
           )}
         </div>
       </div>
-      <div className="bg-gray-50 rounded-lg p-4">
-        <p className="text-gray-800 leading-relaxed">{text}</p>
+      <div className={`bg-gray-50 rounded-lg p-4 ${refining ? "opacity-60" : ""}`}>
+        <p className="text-gray-800 leading-relaxed whitespace-pre-line">{filled}</p>
+      </div>
+      {placeholders.length > 0 && (
+        <div className="mt-3">
+          <div className="grid gap-2 sm:grid-cols-3 text-sm">
+            {placeholders.map((name) => (
+              <label key={name} className="block">
+                <span className="block text-xs font-medium text-gray-600 mb-1">{placeholderLabel(name)}</span>
+                <input
+                  type="text"
+                  value={values[name] || ""}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                  maxLength={100}
+                  placeholder={formatPlaceholder(name)}
+                  className={`w-full px-2 py-1.5 border rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 ${
+                    missingPlaceholders.includes(name) ? "border-orange-300 bg-orange-50" : "border-gray-200"
+                  }`}
+                />
+              </label>
+            ))}
+          </div>
+          {missingPlaceholders.length > 0 && (
+            <p className="mt-1 text-xs text-orange-700">
+              Fill in {missingPlaceholders.map((name) => placeholderLabel(name).toLowerCase()).join(", ")} to copy this reply.
+            </p>
+          )}
+        </div>
+      )}
+      {/* The translation only matches the generated version, not refinements */}
+      {translation && position === 0 && (
+        <details className="mt-2 text-sm">
+          <summary className="cursor-pointer text-gray-600 hover:text-gray-900">English translation</summary>
+          <p className="mt-2 border-l-2 border-gray-200 pl-3 text-gray-600 whitespace-pre-line">{translation}</p>
+        </details>
+      )}
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={() => handleRefine('shorten')}
+          disabled={refining !== null}
+          className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 hover:text-orange-700 disabled:opacity-50 transition-colors"
+        >
+          {refining === 'shorten' ? 'Shortening...' : 'Shorten'}
+        </button>
+        <button
+          onClick={() => handleRefine('expand')}
+          disabled={refining !== null}
+          className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 hover:text-orange-700 disabled:opacity-50 transition-colors"
+        >
+          {refining === 'expand' ? 'Expanding...' : 'Expand'}
+        </button>
+        <div className="flex items-center">
+          <select
+            value={targetTone}
+            onChange={(e) => setTargetTone(e.target.value)}
+            disabled={refining !== null}
+            aria-label="Target tone"
+            className="px-2 py-1.5 border border-gray-200 border-r-0 rounded-l-lg text-gray-700 bg-white disabled:opacity-50"
+          >
+            {voices.map((voice) => (
+              <option key={voice.id} value={voice.id}>{voice.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => handleRefine('tone')}
+            disabled={refining !== null}
+            className="px-3 py-1.5 border border-gray-200 rounded-r-lg text-gray-700 hover:border-orange-300 hover:text-orange-700 disabled:opacity-50 transition-colors"
+          >
+            {refining === 'tone' ? 'Rewriting...' : 'Change tone'}
+          </button>
+        </div>
+        <button
+          onClick={() => handleRefine('clarify')}
+          disabled={refining !== null}
+          className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 hover:text-orange-700 disabled:opacity-50 transition-colors"
+        >
+          {refining === 'clarify' ? 'Adding...' : 'Add clarifying question'}
+        </button>
+        <div className="flex items-center ml-auto space-x-1">
+          <button
+            onClick={() => setPosition(position - 1)}
+            disabled={position === 0 || refining !== null}
+            title="Undo"
+            className="px-2 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={() => setPosition(position + 1)}
+            disabled={position >= versions.length - 1 || refining !== null}
+            title="Redo"
+            className="px-2 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+          >
+            Redo ↷
+          </button>
+        </div>
       </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (instructions.trim()) handleRefine('custom');
+        }}
+        className="mt-2 flex gap-2 text-sm"
+      >
+        <input
+          type="text"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          maxLength={300}
+          disabled={refining !== null}
+          placeholder="Custom instructions, e.g. mention the 30-day refund window"
+          className="flex-1 px-3 py-1.5 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={refining !== null || !instructions.trim()}
+          className="px-3 py-1.5 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50 transition-colors"
+        >
+          {refining === 'custom' ? 'Applying...' : 'Apply'}
+        </button>
+      </form>
+      {refineError && (
+        <p className="mt-2 text-sm text-red-600">{refineError}</p>
+      )}
+      {sources && sources.length > 0 && (
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer text-gray-600 hover:text-gray-900">
+            Sources ({sources.length})
+          </summary>
+          <ul className="mt-2 space-y-2">
+            {sources.map((source) => (
+              <li key={`${source.documentId}-${source.chunkIndex}`} className="border-l-2 border-orange-200 pl-3">
+                <span className="block text-xs font-medium text-gray-500 mb-1">{source.title}</span>
+                <span className="text-gray-700 whitespace-pre-line">{source.snippet}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
     </div>
   );
 }
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createSavedRepliesClient } from "@/lib/saved-replies/client";
+import type { SavedReply, SavedReplyFormat } from "@/lib/saved-replies/format";
+
+interface SavedRepliesSidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  signedIn: boolean;
+  // Bumped by the page when a reply is saved elsewhere so the list reloads
+  refreshKey: number;
+  onInsert: (body: string) => void;
+}
+
+interface EditorState {
+  id: string | null;
+  title: string;
+  body: string;
+  tags: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function SavedRepliesSidebar({ isOpen, onClose, signedIn, refreshKey, onInsert }: SavedRepliesSidebarProps) {
+  const [replies, setReplies] = useState<SavedReply[]>([]);
+  const [query, setQuery] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const client = useMemo(() => createSavedRepliesClient(signedIn), [signedIn]);
+
+  const loadReplies = async () => {
+    setIsLoading(true);
+    try {
+      setReplies(await client.list({ query, tag: activeTag || undefined }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved replies');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timeout = setTimeout(loadReplies, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, client, query, activeTag, refreshKey]);
+
+  const tags = useMemo(() => {
+    const all = new Set(replies.flatMap((reply) => reply.tags));
+    if (activeTag) all.add(activeTag);
+    return [...all].sort();
+  }, [replies, activeTag]);
+
+  const handleSubmitEditor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editor) return;
+
+    const input = { title: editor.title, body: editor.body, tags: editor.tags.split(',') };
+    try {
+      if (editor.id) {
+        await client.update(editor.id, input);
+      } else {
+        await client.create(input);
+      }
+      setEditor(null);
+      await loadReplies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save reply');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await client.remove(id);
+      setReplies((current) => current.filter((reply) => reply.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete reply');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { imported, skipped } = await client.importFile(file);
+      setNotice(`Imported ${imported} ${imported === 1 ? 'reply' : 'replies'}${skipped ? `, skipped ${skipped} invalid` : ''}`);
+      setError(null);
+      await loadReplies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleExport = async (format: SavedReplyFormat) => {
+    try {
+      const blob = await client.exportAll(format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `saved-replies.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose}></div>
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Saved replies</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <span className="text-xl">×</span>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-gray-100">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search saved replies..."
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                    activeTag === tag ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              onClick={() => setEditor({ id: null, title: "", body: "", tags: "" })}
+              className="px-3 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+            >
+              + New
+            </button>
+            <label className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 cursor-pointer transition-colors">
+              Import
+              <input ref={fileInputRef} type="file" accept=".csv,.json" onChange={handleImport} className="hidden" />
+            </label>
+            <button
+              onClick={() => handleExport('csv')}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 transition-colors"
+            >
+              Export JSON
+            </button>
+          </div>
+          {!signedIn && (
+            <p className="text-xs text-gray-500">Stored in this browser. Sign in to keep them in your account.</p>
+          )}
+          {notice && <p className="text-xs text-green-600">{notice}</p>}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {editor && (
+            <form onSubmit={handleSubmitEditor} className="border border-orange-200 rounded-lg p-3 space-y-2">
+              <input
+                type="text"
+                value={editor.title}
+                onChange={(e) => setEditor({ ...editor, title: e.target.value })}
+                placeholder="Title (optional)"
+                maxLength={120}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+              />
+              <textarea
+                value={editor.body}
+                onChange={(e) => setEditor({ ...editor, body: e.target.value })}
+                placeholder="Reply text"
+                rows={5}
+                maxLength={4000}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-sm resize-none"
+              />
+              <input
+                type="text"
+                value={editor.tags}
+                onChange={(e) => setEditor({ ...editor, tags: e.target.value })}
+                placeholder="Tags, comma separated"
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+              />
+              <div className="flex justify-end gap-2 text-sm">
+                <button type="button" onClick={() => setEditor(null)} className="px-3 py-1.5 text-gray-600 hover:text-gray-900">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!editor.body.trim()}
+                  className="px-3 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          )}
+
+          {replies.length === 0 && !editor && (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {isLoading ? 'Loading...' : query || activeTag ? 'No saved replies match.' : 'No saved replies yet. Use "Save" on a draft to add one.'}
+            </p>
+          )}
+
+          {replies.map((reply) => (
+            <div key={reply.id} className="border border-gray-100 rounded-lg p-3 hover:border-orange-200 transition-colors">
+              <div className="flex justify-between items-start gap-2 mb-1">
+                <span className="font-medium text-sm text-gray-900">{reply.title}</span>
+                <div className="flex gap-2 text-xs shrink-0">
+                  <button
+                    onClick={() => setEditor({ id: reply.id, title: reply.title, body: reply.body, tags: reply.tags.join(', ') })}
+                    className="text-gray-500 hover:text-gray-900"
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(reply.id)} className="text-gray-500 hover:text-red-600">
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-gray-600 line-clamp-3 whitespace-pre-line">{reply.body}</p>
+              <div className="flex justify-between items-center mt-2">
+                <div className="flex flex-wrap gap-1">
+                  {reply.tags.map((tag) => (
+                    <span key={tag} className="text-xs text-gray-500">#{tag}</span>
+                  ))}
+                </div>
+                <button
+                  onClick={() => onInsert(reply.body)}
+                  className="text-xs font-medium text-orange-600 hover:text-orange-700"
+                >
+                  Insert
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_MESSAGE_LENGTH } from "@/lib/prompts";
+import { MAX_THREAD_TURNS, splitEmailChain, THREAD_ROLES } from "@/lib/thread";
+import type { ThreadRole, ThreadTurn } from "@/lib/thread";
+
+interface ThreadEditorProps {
+  // Oldest first
+  turns: ThreadTurn[];
+  onChange: (turns: ThreadTurn[]) => void;
+}
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(timestamp?: string): string {
+  if (!timestamp) return "";
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().substring(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+export default function ThreadEditor({ turns, onChange }: ThreadEditorProps) {
+  const [pasted, setPasted] = useState("");
+  const [isPasteOpen, setIsPasteOpen] = useState(turns.length === 0);
+
+  const totalLength = turns.reduce((total, turn) => total + turn.content.trim().length, 0);
+  const lastTurn = turns[turns.length - 1];
+
+  const updateTurn = (index: number, changes: Partial<ThreadTurn>) => {
+    onChange(turns.map((turn, position) => (position === index ? { ...turn, ...changes } : turn)));
+  };
+
+  const addTurn = () => {
+    // Alternate roles by default; a new thread starts with the customer
+    const role: ThreadRole = lastTurn?.role === "customer" ? "agent" : "customer";
+    onChange([...turns, { role, content: "" }]);
+  };
+
+  const handleSplit = () => {
+    const split = splitEmailChain(pasted);
+    if (split.length === 0) return;
+    onChange(split.slice(-MAX_THREAD_TURNS));
+    setPasted("");
+    setIsPasteOpen(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {isPasteOpen ? (
+        <div className="border border-orange-200 rounded-xl p-3 space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste an email chain (newest message first, with its quoted replies) to split it into turns"
+            className="w-full h-32 p-3 border border-gray-200 rounded-lg resize-none text-sm text-gray-900 focus:outline-none focus:border-orange-500"
+          />
+          <div className="flex justify-end gap-2 text-sm">
+            {turns.length > 0 && (
+              <button onClick={() => setIsPasteOpen(false)} className="px-3 py-1.5 text-gray-600 hover:text-gray-900">
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSplit}
+              disabled={!pasted.trim()}
+              className="px-3 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+            >
+              Split into turns
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setIsPasteOpen(true)} className="text-sm text-orange-600 hover:text-orange-700">
+          Paste an email chain…
+        </button>
+      )}
+
+      {turns.map((turn, index) => (
+        <div
+          key={index}
+          className={`border rounded-xl p-3 ${turn.role === "customer" ? "border-gray-200 bg-white" : "border-orange-100 bg-orange-50"}`}
+        >
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+            <select
+              value={turn.role}
+              onChange={(e) => updateTurn(index, { role: e.target.value as ThreadRole })}
+              aria-label="Author"
+              className="px-2 py-1 border border-gray-200 rounded-lg bg-white text-gray-700 capitalize"
+            >
+              {THREAD_ROLES.map((role) => (
+                <option key={role} value={role}>{role}</option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              value={toLocalInput(turn.timestamp)}
+              onChange={(e) => updateTurn(index, { timestamp: fromLocalInput(e.target.value) })}
+              aria-label="Sent at"
+              className="px-2 py-1 border border-gray-200 rounded-lg text-gray-700"
+            />
+            <button
+              onClick={() => onChange(turns.filter((_, position) => position !== index))}
+              className="ml-auto text-gray-400 hover:text-red-600"
+            >
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={turn.content}
+            onChange={(e) => updateTurn(index, { content: e.target.value })}
+            placeholder={turn.role === "customer" ? "What the customer wrote" : "What the agent replied"}
+            rows={3}
+            className="w-full p-2 border border-gray-200 rounded-lg resize-y text-sm text-gray-900 focus:outline-none focus:border-orange-500"
+          />
+        </div>
+      ))}
+
+      <div className="flex justify-between items-center text-sm">
+        <button
+          onClick={addTurn}
+          disabled={turns.length >= MAX_THREAD_TURNS}
+          className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:border-orange-300 hover:text-orange-700 disabled:opacity-50 transition-colors"
+        >
+          + Add turn
+        </button>
+        <span className="text-xs text-gray-500">
+          {totalLength}/{MAX_MESSAGE_LENGTH}
+          {totalLength > MAX_MESSAGE_LENGTH && " · oldest turns will be trimmed"}
+        </span>
+      </div>
+      {lastTurn && lastTurn.role !== "customer" && (
+        <p className="text-sm text-red-500">⚠️ The thread must end with a customer turn</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Response of GET /api/usage
+export interface MonthlyUsage {
+  plan: string;
+  month: string;
+  used: number | null;
+  monthlyLimit: number | null;
+  included: number | null;
+  overage: number;
+  projected: number | null;
+  projectedOverage: number;
+}
+
+interface UsageMeterProps {
+  // Changes whenever usage may have changed (e.g. the quota after a generation) to reload
+  refreshKey?: unknown;
+}
+
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+
+// Monthly usage against the plan's allowance, with the overage projected at the current pace
+export default function UsageMeter({ refreshKey }: UsageMeterProps) {
+  const [usage, setUsage] = useState<MonthlyUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/usage", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: MonthlyUsage | null) => {
+        if (!cancelled) setUsage(data);
+      })
+      .catch(() => {
+        if (!cancelled) setUsage(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!usage || usage.used === null) return null;
+
+  // Overage billing measures against the included allowance, other plans against their monthly limit
+  const allowance = usage.included ?? usage.monthlyLimit;
+  if (allowance === null) return null;
+
+  const percent = Math.min(100, (usage.used / allowance) * 100);
+  const monthName = new Date(`${usage.month}T00:00:00Z`).toLocaleDateString(undefined, { month: "long", timeZone: "UTC" });
+
+  return (
+    <div className="mt-3 text-xs text-gray-600">
+      <div className="flex items-center justify-between mb-1">
+        <span>
+          {monthName}: {formatCount(usage.used)} of {formatCount(allowance)} {usage.included !== null ? "included" : "this month"}
+        </span>
+        {usage.projected !== null && (
+          <span className="text-gray-500">Projected {formatCount(usage.projected)}</span>
+        )}
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-orange-500" : "bg-green-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {usage.included !== null && (usage.overage > 0 || usage.projectedOverage > 0) && (
+        <p className="mt-1 text-orange-700">
+          {usage.overage > 0 && `${formatCount(usage.overage)} over the allowance so far. `}
+          {usage.projectedOverage > 0 && `About ${formatCount(usage.projectedOverage)} extra generations at this pace, billed with your next invoice.`}
+        </p>
+      )}
+    </div>
+  );
+}
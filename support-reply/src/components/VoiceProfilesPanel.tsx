@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import {
+  EMOJI_POLICIES,
+  FORMALITY_LEVELS,
+  MAX_EXAMPLES,
+  VoiceProfile,
+} from "@/lib/voice-profiles/format";
+import type { EmojiPolicy, Formality } from "@/lib/voice-profiles/format";
+
+interface VoiceProfilesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: VoiceProfile[];
+  // Reload the picker after a change
+  onChange: () => void;
+}
+
+interface EditorState {
+  id: string | null;
+  name: string;
+  description: string;
+  // One example per blank-line separated block
+  examples: string;
+  formality: Formality;
+  emoji_policy: EmojiPolicy;
+  sign_off: string;
+  // One phrase per line
+  banned_phrases: string;
+  shared: boolean;
+}
+
+const EMPTY_EDITOR: EditorState = {
+  id: null,
+  name: "",
+  description: "",
+  examples: "",
+  formality: "neutral",
+  emoji_policy: "none",
+  sign_off: "",
+  banned_phrases: "",
+  shared: false,
+};
+
+const EMOJI_LABELS: Record<EmojiPolicy, string> = {
+  none: "No emoji",
+  sparing: "At most one",
+  allowed: "Allowed",
+};
+
+function toEditor(profile: VoiceProfile): EditorState {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    examples: profile.examples.join("\n\n"),
+    formality: profile.formality,
+    emoji_policy: profile.emoji_policy,
+    sign_off: profile.sign_off || "",
+    banned_phrases: profile.banned_phrases.join("\n"),
+    shared: profile.workspace_id !== null,
+  };
+}
+
+export default function VoiceProfilesPanel({ isOpen, onClose, profiles, onChange }: VoiceProfilesPanelProps) {
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const customProfiles = profiles.filter((profile) => !profile.builtin);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editor) return;
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name: editor.name,
+        description: editor.description,
+        examples: editor.examples.split(/\n\s*\n/),
+        formality: editor.formality,
+        emoji_policy: editor.emoji_policy,
+        sign_off: editor.sign_off,
+        banned_phrases: editor.banned_phrases.split("\n"),
+        ...(editor.id ? {} : { shared: editor.shared }),
+      };
+
+      const response = await fetch(editor.id ? `/api/voice-profiles/${editor.id}` : "/api/voice-profiles", {
+        method: editor.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save voice");
+      }
+
+      setEditor(null);
+      setError(null);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save voice");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this voice?")) return;
+
+    const response = await fetch(`/api/voice-profiles/${id}`, { method: "DELETE", credentials: "include" });
+    if (response.ok) {
+      onChange();
+    } else {
+      setError("Failed to delete voice");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose}></div>
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Brand voices</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <span className="text-xl">×</span>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-100 space-y-2">
+          <button
+            onClick={() => setEditor(EMPTY_EDITOR)}
+            className="px-3 py-1.5 bg-orange-500 text-white text-sm rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            + New voice
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {editor && (
+            <form onSubmit={handleSubmit} className="border border-orange-200 rounded-lg p-3 space-y-2 text-sm">
+              <input
+                type="text"
+                value={editor.name}
+                onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                placeholder="Name, e.g. Acme Support"
+                maxLength={40}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg"
+              />
+              <textarea
+                value={editor.description}
+                onChange={(e) => setEditor({ ...editor, description: e.target.value })}
+                placeholder="Describe the voice: personality, vocabulary, what to avoid"
+                rows={3}
+                maxLength={500}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg resize-none"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-gray-600">
+                  Formality
+                  <select
+                    value={editor.formality}
+                    onChange={(e) => setEditor({ ...editor, formality: e.target.value as Formality })}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-lg bg-white text-sm capitalize"
+                  >
+                    {FORMALITY_LEVELS.map((level) => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600">
+                  Emoji
+                  <select
+                    value={editor.emoji_policy}
+                    onChange={(e) => setEditor({ ...editor, emoji_policy: e.target.value as EmojiPolicy })}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-lg bg-white text-sm"
+                  >
+                    {EMOJI_POLICIES.map((policy) => (
+                      <option key={policy} value={policy}>{EMOJI_LABELS[policy]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <input
+                type="text"
+                value={editor.sign_off}
+                onChange={(e) => setEditor({ ...editor, sign_off: e.target.value })}
+                placeholder="Sign-off (optional), e.g. Cheers, the Acme team"
+                maxLength={120}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg"
+              />
+              <textarea
+                value={editor.banned_phrases}
+                onChange={(e) => setEditor({ ...editor, banned_phrases: e.target.value })}
+                placeholder="Banned phrases, one per line"
+                rows={3}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg resize-none"
+              />
+              <textarea
+                value={editor.examples}
+                onChange={(e) => setEditor({ ...editor, examples: e.target.value })}
+                placeholder={`Example replies in this voice, separated by a blank line (up to ${MAX_EXAMPLES})`}
+                rows={5}
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg resize-none"
+              />
+              {!editor.id && (
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={editor.shared}
+                    onChange={(e) => setEditor({ ...editor, shared: e.target.checked })}
+                  />
+                  Share with my workspace (owners and admins)
+                </label>
+              )}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setEditor(null)} className="px-3 py-1.5 text-gray-600 hover:text-gray-900">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!editor.name.trim() || isSaving}
+                  className="px-3 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+                >
+                  {isSaving ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {customProfiles.length === 0 && !editor && (
+            <p className="text-sm text-gray-500 text-center py-8">
+              No custom voices yet. Friendly, Professional and Concise are always available.
+            </p>
+          )}
+
+          {customProfiles.map((profile) => (
+            <div key={profile.id} className="border border-gray-100 rounded-lg p-3 hover:border-orange-200 transition-colors">
+              <div className="flex justify-between items-start gap-2 mb-1">
+                <span className="font-medium text-sm text-gray-900">
+                  {profile.name}
+                  {profile.workspace_id && <span className="ml-2 text-xs text-gray-500">Team</span>}
+                </span>
+                <div className="flex gap-2 text-xs shrink-0">
+                  <button onClick={() => setEditor(toEditor(profile))} className="text-gray-500 hover:text-gray-900">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(profile.id)} className="text-gray-500 hover:text-red-600">
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-gray-600 line-clamp-2">{profile.description || "No description"}</p>
+              <p className="text-xs text-gray-500 mt-1 capitalize">
+                {profile.formality} · {EMOJI_LABELS[profile.emoji_policy]}
+                {profile.examples.length > 0 && ` · ${profile.examples.length} examples`}
+              </p>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { createHash } from 'crypto';
+import type Stripe from 'stripe';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+
+// Everything stored about a user, for the JSON export and account deletion. Both run
+// with the service role, so every query is scoped to the user explicitly.
+
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+// Tables exported per user, with explicit columns so secrets and search vectors stay out
+const EXPORTED_TABLES: { key: string; table: string; columns: string; orderBy: string }[] = [
+  { key: 'quotaHistory', table: 'daily_quota', columns: 'day, count', orderBy: 'day' },
+  { key: 'usageReports', table: 'usage_reports', columns: 'month, reported, reported_at', orderBy: 'month' },
+  { key: 'savedReplies', table: 'saved_replies', columns: 'id, title, body, tags, created_at, updated_at', orderBy: 'created_at' },
+  {
+    key: 'generationHistory',
+    table: 'generation_history',
+    columns: 'id, message, tone, language, drafts, copied_index, copied_text, copied_at, created_at, expires_at',
+    orderBy: 'created_at',
+  },
+  { key: 'knowledgeDocuments', table: 'kb_documents', columns: 'id, title, mime_type, size_bytes, chunk_count, created_at', orderBy: 'created_at' },
+  { key: 'knowledgeChunks', table: 'kb_chunks', columns: 'document_id, chunk_index, content', orderBy: 'id' },
+  {
+    key: 'voiceProfiles',
+    table: 'voice_profiles',
+    columns: 'id, name, description, examples, formality, emoji_policy, sign_off, banned_phrases, created_at, updated_at',
+    orderBy: 'created_at',
+  },
+  {
+    key: 'companyProfile',
+    table: 'company_profiles',
+    columns: 'company_name, product_name, support_hours, return_policy, escalation_email, links, other_facts, updated_at',
+    orderBy: 'created_at',
+  },
+  // Webhook secrets and outbound credentials are left out of the file
+  {
+    key: 'helpdeskIntegrations',
+    table: 'helpdesk_integrations',
+    columns: 'id, name, provider, tone, language, outbound_url, enabled, last_delivery_at, created_at, updated_at',
+    orderBy: 'created_at',
+  },
+  { key: 'apiKeys', table: 'api_keys', columns: 'id, name, prefix, last_used_at, revoked_at, created_at', orderBy: 'created_at' },
+  { key: 'promoRedemptions', table: 'promo_redemptions', columns: 'code_id, redeemed_at', orderBy: 'redeemed_at' },
+  { key: 'workspaceMemberships', table: 'workspace_members', columns: 'workspace_id, role, created_at, workspaces (name)', orderBy: 'created_at' },
+];
+
+export interface AccountExport {
+  version: number;
+  exportedAt: string;
+  user: {
+    id: string;
+    email: string | null;
+    createdAt: string;
+    lastSignInAt: string | null;
+    providers: string[];
+  };
+  profile: Record<string, unknown> | null;
+  [table: string]: unknown;
+}
+
+export async function exportAccountData(admin: SupabaseClient, user: User): Promise<AccountExport> {
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .select('*')
+    .eq('user_id', user.id)
+    .maybeSingle<Record<string, unknown>>();
+  if (profileError) {
+    throw new Error(`Failed to export profile: ${profileError.message}`);
+  }
+
+  const data: AccountExport = {
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: {
+      id: user.id,
+      email: user.email ?? null,
+      createdAt: user.created_at,
+      lastSignInAt: user.last_sign_in_at ?? null,
+      providers: (user.identities || []).map((identity) => identity.provider),
+    },
+    profile,
+  };
+
+  for (const { key, table, columns, orderBy } of EXPORTED_TABLES) {
+    const { data: rows, error } = await admin
+      .from(table)
+      .select(columns)
+      .eq('user_id', user.id)
+      .order(orderBy);
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+    data[key] = rows || [];
+  }
+
+  return data;
+}
+
+export type AccountDeletionErrorCode = 'WORKSPACE_HAS_MEMBERS' | 'CONFIG_ERROR';
+
+export class AccountDeletionError extends Error {
+  constructor(public code: AccountDeletionErrorCode, message: string) {
+    super(message);
+    this.name = 'AccountDeletionError';
+  }
+}
+
+const DELETION_ERROR_STATUS: Record<AccountDeletionErrorCode, number> = {
+  WORKSPACE_HAS_MEMBERS: 409,
+  CONFIG_ERROR: 500,
+};
+
+export function accountDeletionErrorStatus(error: AccountDeletionError): number {
+  return DELETION_ERROR_STATUS[error.code];
+}
+
+export interface AccountDeletionResult {
+  auditId: string;
+  canceledSubscriptions: string[];
+  deletedWorkspaceId: string | null;
+}
+
+interface DeletionTarget {
+  stripeCustomerId: string | null;
+  subscriptionIds: string[];
+  workspaceId: string | null;
+}
+
+function hashEmail(email: string | undefined): string | null {
+  return email ? createHash('sha256').update(email.trim().toLowerCase()).digest('hex') : null;
+}
+
+// Subscriptions billed to the user: their own, and their workspace's when they own it
+// and are its only member (otherwise deletion is refused until the team is handed over)
+async function findDeletionTarget(admin: SupabaseClient, userId: string): Promise<DeletionTarget> {
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .select('stripe_customer_id, stripe_subscription_id')
+    .eq('user_id', userId)
+    .maybeSingle<{ stripe_customer_id: string | null; stripe_subscription_id: string | null }>();
+  if (profileError) {
+    throw new Error(`Failed to read profile billing: ${profileError.message}`);
+  }
+
+  const { data: workspace, error: workspaceError } = await admin
+    .from('workspaces')
+    .select('id, stripe_subscription_id, workspace_members (user_id)')
+    .eq('owner_id', userId)
+    .maybeSingle<{ id: string; stripe_subscription_id: string | null; workspace_members: { user_id: string }[] }>();
+  if (workspaceError) {
+    throw new Error(`Failed to read owned workspace: ${workspaceError.message}`);
+  }
+
+  if (workspace && workspace.workspace_members.some((member) => member.user_id !== userId)) {
+    throw new AccountDeletionError(
+      'WORKSPACE_HAS_MEMBERS',
+      'You own a team workspace with other members. Remove them first, then delete your account.'
+    );
+  }
+
+  const subscriptionIds = [profile?.stripe_subscription_id, workspace?.stripe_subscription_id]
+    .filter((id): id is string => Boolean(id));
+
+  return {
+    stripeCustomerId: profile?.stripe_customer_id || null,
+    subscriptionIds: [...new Set(subscriptionIds)],
+    workspaceId: workspace?.id || null,
+  };
+}
+
+// Cancel immediately, invoicing usage reported so far; already cancelled or missing
+// subscriptions are skipped so a retried deletion goes through
+async function cancelSubscriptions(stripe: Stripe, subscriptionIds: string[]): Promise<string[]> {
+  const canceled: string[] = [];
+
+  for (const id of subscriptionIds) {
+    let subscription: Stripe.Subscription;
+    try {
+      subscription = await stripe.subscriptions.retrieve(id);
+    } catch (error: unknown) {
+      if (error instanceof Error && (error as { code?: string }).code === 'resource_missing') continue;
+      throw error;
+    }
+
+    if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') continue;
+
+    await stripe.subscriptions.cancel(id, { invoice_now: true, prorate: false });
+    canceled.push(id);
+  }
+
+  return canceled;
+}
+
+async function updateAudit(admin: SupabaseClient, auditId: string, update: Record<string, unknown>) {
+  const { error } = await admin.from('account_deletions').update(update).eq('id', auditId);
+  if (error) {
+    console.error(`Failed to update account deletion audit ${auditId}: ${error.message}`);
+  }
+}
+
+// Cancel the user's Stripe subscriptions, then delete their rows and the auth user.
+// Each step is recorded in account_deletions; a failure leaves the audit row marked
+// failed with the error, and the deletion can be retried.
+export async function deleteAccount(admin: SupabaseClient, stripe: Stripe | null, user: User): Promise<AccountDeletionResult> {
+  const target = await findDeletionTarget(admin, user.id);
+  if (target.subscriptionIds.length > 0 && !stripe) {
+    throw new AccountDeletionError('CONFIG_ERROR', 'Billing is not configured, so the subscription cannot be cancelled');
+  }
+
+  const { data: audit, error: auditError } = await admin
+    .from('account_deletions')
+    .insert({
+      user_id: user.id,
+      email_hash: hashEmail(user.email),
+      stripe_customer_id: target.stripeCustomerId,
+    })
+    .select('id')
+    .single<{ id: string }>();
+  if (auditError || !audit) {
+    throw new Error(`Failed to record account deletion: ${auditError?.message}`);
+  }
+
+  try {
+    const canceledSubscriptions = stripe ? await cancelSubscriptions(stripe, target.subscriptionIds) : [];
+    await updateAudit(admin, audit.id, { canceled_subscriptions: canceledSubscriptions });
+
+    const { data: deletedWorkspaceId, error: deleteError } = await admin.rpc('delete_account_data', { p_user_id: user.id });
+    if (deleteError) {
+      throw new Error(`Failed to delete account data: ${deleteError.message}`);
+    }
+
+    const { error: authError } = await admin.auth.admin.deleteUser(user.id);
+    if (authError) {
+      throw new Error(`Failed to delete auth user: ${authError.message}`);
+    }
+
+    await updateAudit(admin, audit.id, {
+      status: 'completed',
+      deleted_workspace_id: deletedWorkspaceId ?? null,
+      completed_at: new Date().toISOString(),
+    });
+
+    return { auditId: audit.id, canceledSubscriptions, deletedWorkspaceId: (deletedWorkspaceId as string | null) ?? null };
+
+  } catch (error: unknown) {
+    await updateAudit(admin, audit.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
@@ -0,0 +1,233 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { getOrCreateAnonSession } from '@/lib/anon-session';
+import type { RequestCaller } from '@/lib/api-keys';
+import { isEntitlementCurrent, isPromoProCurrent } from '@/lib/billing';
+import { assertFeature, isPaidPlan, Plan, PlanId, PLANS, resolvePlan } from '@/lib/plans';
+import { refundBonusGenerations, spendBonusGenerations } from '@/lib/promo-codes';
+import {
+  AnonMergeResult,
+  commitReservation,
+  getQuotaDay,
+  getQuotaMonthStart,
+  getQuotaStore,
+  QuotaReservation,
+  QuotaSubject,
+  releaseReservation,
+} from '@/lib/quota';
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { getMembership } from '@/lib/workspaces';
+
+export interface QuotaInfo {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  pro: boolean;
+  plan: PlanId;
+}
+
+export interface QuotaErrorResponse {
+  error: 'DAILY_LIMIT_REACHED' | 'MONTHLY_LIMIT_REACHED';
+  limit: number;
+  remaining: number;
+  pro: boolean;
+  plan: PlanId;
+  message: string;
+}
+
+// Who a request is charged to and the limits that apply, taken from their plan
+export interface QuotaAccount {
+  user: User | null;
+  plan: Plan;
+  isPro: boolean;
+  // Limit shown to the user (null = unlimited)
+  limit: number | null;
+  // Limit actually enforced (Pro users are unlimited up to a safety cap)
+  capacity: number;
+  // Calendar month limit (null = none)
+  monthlyLimit: number | null;
+  subject: QuotaSubject;
+  // Set when the user belongs to a team workspace
+  workspaceId: string | null;
+}
+
+// A reservation that may have been refused by the daily or the monthly limit. Past a
+// limit, a user's bonus generations from promo codes are spent instead (`bonus` records
+// what to refund if the operation fails).
+export interface AccountReservation extends QuotaReservation {
+  exceeded?: 'daily' | 'monthly';
+  bonus?: { userId: string; cost: number };
+}
+
+// Fetch the user's profile, creating it on first use; returns the profile's own plan
+export async function ensureProfile(supabase: SupabaseClient, user: User, requestId: string): Promise<Plan> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('pro, plan, cancel_at, pro_until')
+    .eq('user_id', user.id)
+    .single<{ pro: boolean; plan: string | null; cancel_at: string | null; pro_until: string | null }>();
+  
+  if (profileError && profileError.code === 'PGRST116') {
+    // Profile doesn't exist, create it
+    const { error: insertError } = await supabase
+      .from('profiles')
+      .insert({
+        user_id: user.id,
+        email: user.email,
+        pro: false,
+        created_at: new Date().toISOString()
+      });
+    
+    if (insertError) {
+      console.error(`[${requestId}] Error creating profile:`, insertError);
+    }
+    return PLANS.free;
+  }
+
+  if (!profile) return PLANS.free;
+
+  // A subscription keeps its plan; Pro days from a promo code grant the default Pro plan
+  if (isEntitlementCurrent(profile.pro, profile.cancel_at)) {
+    return resolvePlan(true, profile.plan);
+  }
+  return resolvePlan(isPromoProCurrent(profile.pro_until), null);
+}
+
+function buildAccount(user: User | null, plan: Plan, subject: QuotaSubject, workspaceId: string | null, multiplier: number = 1): QuotaAccount {
+  return {
+    user,
+    plan,
+    isPro: isPaidPlan(plan),
+    limit: plan.dailyLimit === null ? null : plan.dailyLimit * multiplier,
+    capacity: plan.dailyCap * multiplier,
+    monthlyLimit: plan.monthlyLimit === null ? null : plan.monthlyLimit * multiplier,
+    subject,
+    workspaceId,
+  };
+}
+
+// Resolve the signed-in user or API key owner (creating their profile on first use) or the anonymous session
+export async function resolveQuotaAccount({ supabase, user, viaApiKey }: RequestCaller, requestId: string): Promise<QuotaAccount> {
+  console.log(`[${requestId}] Auth check - user: ${user ? user.email : 'anonymous'}${viaApiKey ? ' (API key)' : ''}`);
+
+  if (!user) {
+    // Anonymous user: quota keyed by the signed session cookie
+    const sessionId = await getOrCreateAnonSession();
+    return buildAccount(null, PLANS.anon, { type: 'anon', id: sessionId, day: getQuotaDay() }, null);
+  }
+
+  const account = await resolveUserQuotaAccount(supabase, user, requestId);
+  if (viaApiKey) {
+    assertFeature(account.plan, 'api', 'API access');
+  }
+  return account;
+}
+
+// Limits for a known user; also used for requests made on a user's behalf, such as helpdesk webhooks
+export async function resolveUserQuotaAccount(supabase: SupabaseClient, user: User, requestId: string): Promise<QuotaAccount> {
+  const profilePlan = await ensureProfile(supabase, user, requestId);
+
+  // Workspace members are entitled by the workspace plan, not their own profile
+  const membership = await getMembership(supabase, user.id);
+  if (membership) {
+    const { workspace, memberCount } = membership;
+    const plan = resolvePlan(workspace.pro, workspace.plan, true);
+    console.log(`[${requestId}] Workspace ${workspace.id} - plan: ${plan.id}, pooled: ${workspace.pooled_quota}`);
+
+    if (workspace.pooled_quota) {
+      // One shared allowance sized by seats (paid) or members (free)
+      const multiplier = plan.perSeat ? workspace.seats : memberCount;
+      return buildAccount(user, plan, { type: 'workspace', id: workspace.id, day: getQuotaDay() }, workspace.id, multiplier);
+    }
+
+    return buildAccount(user, plan, { type: 'user', id: user.id, day: getQuotaDay() }, workspace.id);
+  }
+
+  return buildAccount(user, profilePlan, { type: 'user', id: user.id, day: getQuotaDay() }, null);
+}
+
+// Hold quota for one operation; cost is in generations (refinements cost a fraction).
+// The monthly limit is checked first; it isn't atomic with the daily reservation, so
+// concurrent requests may overshoot it by a few operations.
+export async function reserveQuota(account: QuotaAccount, cost: number = 1): Promise<AccountReservation> {
+  const store = getQuotaStore();
+
+  if (account.monthlyLimit !== null) {
+    const monthUsed = await store.getUsageSince(account.subject, getQuotaMonthStart(account.subject.day));
+    if (monthUsed !== null && monthUsed + cost > account.monthlyLimit) {
+      return reserveBonus(account, { allowed: false, used: monthUsed, subject: account.subject, reservationId: null, exceeded: 'monthly' }, cost);
+    }
+  }
+
+  const reservation = await store.reserve(account.subject, account.capacity, cost);
+  return reservation.allowed ? reservation : reserveBonus(account, { ...reservation, exceeded: 'daily' }, cost);
+}
+
+// Fall back to the user's bonus generations once a limit refuses the reservation
+async function reserveBonus(account: QuotaAccount, refused: AccountReservation, cost: number): Promise<AccountReservation> {
+  if (!account.user || !process.env.SUPABASE_SERVICE_ROLE_KEY) return refused;
+
+  const spent = await spendBonusGenerations(createServiceRoleClient(), account.user.id, cost);
+  return spent ? { ...refused, allowed: true, bonus: { userId: account.user.id, cost } } : refused;
+}
+
+// Charge a granted reservation; returns the committed count for the day. Bonus
+// generations were already spent when reserved, so the day's count is unchanged.
+export async function commitQuota(reservation: AccountReservation): Promise<number> {
+  if (reservation.bonus) {
+    return getQuotaStore().get(reservation.subject);
+  }
+  return commitReservation(reservation);
+}
+
+// Free the quota held for a failed or abandoned operation
+export async function releaseQuota(reservation: AccountReservation): Promise<void> {
+  if (reservation.bonus) {
+    await refundBonusGenerations(createServiceRoleClient(), reservation.bonus.userId, reservation.bonus.cost);
+    return;
+  }
+  await releaseReservation(reservation);
+}
+
+// Carry today's usage from an anonymous session over to a signed-in account, so signing
+// up doesn't reset the allowance. Each session merges once, into one user.
+export async function mergeAnonUsage(account: QuotaAccount, sessionId: string): Promise<AnonMergeResult> {
+  if (!account.user) {
+    throw new Error('Anonymous usage can only be merged into a signed-in account');
+  }
+  return getQuotaStore().mergeAnon(sessionId, account.subject, account.user.id);
+}
+
+export function buildQuotaInfo({ limit, isPro, plan }: QuotaAccount, committed: number): QuotaInfo {
+  // Fractional costs can leave float noise in the counter
+  const used = Math.round(committed * 100) / 100;
+
+  // Calculate remaining quota
+  const remaining = limit ? Math.max(0, limit - used) : null;
+
+  return { limit, used, remaining, pro: isPro, plan: plan.id };
+}
+
+export function buildQuotaErrorResponse(
+  { limit, capacity, monthlyLimit, isPro, plan }: QuotaAccount,
+  { exceeded }: AccountReservation
+): QuotaErrorResponse {
+  if (exceeded === 'monthly' && monthlyLimit !== null) {
+    return {
+      error: 'MONTHLY_LIMIT_REACHED',
+      limit: monthlyLimit,
+      remaining: 0,
+      pro: isPro,
+      plan: plan.id,
+      message: 'Monthly limit reached. Upgrade for higher limits.'
+    };
+  }
+
+  return {
+    error: 'DAILY_LIMIT_REACHED',
+    limit: limit ?? capacity,
+    remaining: 0,
+    pro: isPro,
+    plan: plan.id,
+    message: 'Daily limit reached. Sign in or upgrade for higher limits.'
+  };
+}
@@ -0,0 +1,53 @@
+// Browser side of carrying an anonymous visit over to the account on sign-in or
+// sign-up: today's usage (from the anon_session cookie) and the local saved replies
+import type { QuotaInfo } from '@/lib/account';
+import { clearAnonymousReplies, readAnonymousReplies } from '@/lib/saved-replies/client';
+
+export interface AnonymousMerge {
+  carried: number;
+  imported: number;
+  quota: QuotaInfo;
+}
+
+// Set next to the httpOnly anon_session cookie by lib/anon-session
+const ANON_SESSION_MARKER_COOKIE = 'anon_session_active';
+
+// Whether this browser has anything to carry over: an anonymous session or local replies
+export function hasAnonymousSession(): boolean {
+  const marked = document.cookie.split(';').some((cookie) => cookie.trim().startsWith(`${ANON_SESSION_MARKER_COOKIE}=`));
+  return marked || readAnonymousReplies().length > 0;
+}
+
+// Sign-in is seen both by the auth listener and on the next page load (OAuth and
+// email links land on a fresh page), so overlapping calls share one request
+let pendingMerge: Promise<AnonymousMerge> | null = null;
+
+export function mergeAnonymousSession(): Promise<AnonymousMerge> {
+  if (!pendingMerge) {
+    pendingMerge = requestMerge().finally(() => {
+      pendingMerge = null;
+    });
+  }
+  return pendingMerge;
+}
+
+// The local copy is cleared only after the server accepted it, so a failed request can retry
+async function requestMerge(): Promise<AnonymousMerge> {
+  const replies = readAnonymousReplies();
+
+  const response = await fetch('/api/anon-session/merge', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ replies }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+  }
+
+  if (replies.length > 0) {
+    clearAnonymousReplies();
+  }
+  return { carried: data.carried, imported: data.imported, quota: data.quota };
+}
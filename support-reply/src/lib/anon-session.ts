@@ -0,0 +1,62 @@
+import { cookies } from 'next/headers';
+import { SignJWT, jwtVerify } from 'jose';
+
+// Get JWT secret for signing cookies
+function getJWTSecret(): Uint8Array {
+  const secret = process.env.JWT_SECRET || 'fallback-secret-key-for-development';
+  return new TextEncoder().encode(secret);
+}
+
+const ANON_SESSION_COOKIE = 'anon_session';
+// Readable twin of the httpOnly cookie, so the page only asks for a merge when there is
+// something to merge (see anon-merge)
+const ANON_SESSION_MARKER_COOKIE = 'anon_session_active';
+
+// Session ID from a valid anonymous session cookie, without creating one
+export async function readAnonSession(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const anonCookie = cookieStore.get(ANON_SESSION_COOKIE);
+
+  if (anonCookie?.value) {
+    try {
+      const { payload } = await jwtVerify(anonCookie.value, getJWTSecret());
+      return typeof payload.sessionId === 'string' ? payload.sessionId : null;
+    } catch {
+      // Invalid or expired cookie
+    }
+  }
+  return null;
+}
+
+// Create or get anonymous session cookie
+export async function getOrCreateAnonSession(): Promise<string> {
+  const existing = await readAnonSession();
+  if (existing) return existing;
+
+  const cookieStore = await cookies();
+
+  // Create new anonymous session
+  const sessionId = crypto.randomUUID();
+  const token = await new SignJWT({ sessionId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setExpirationTime('30d')
+    .sign(getJWTSecret());
+  
+  const cookieOptions = {
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: 30 * 24 * 60 * 60, // 30 days
+    path: '/'
+  };
+  cookieStore.set(ANON_SESSION_COOKIE, token, { ...cookieOptions, httpOnly: true });
+  cookieStore.set(ANON_SESSION_MARKER_COOKIE, '1', cookieOptions);
+  
+  return sessionId;
+}
+
+// Drop the cookie once the session has been merged into an account
+export async function clearAnonSession(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(ANON_SESSION_COOKIE);
+  cookieStore.delete(ANON_SESSION_MARKER_COOKIE);
+}
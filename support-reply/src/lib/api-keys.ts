@@ -0,0 +1,190 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { createApiRouteClient, createServiceRoleClient } from '@/lib/supabase-server';
+
+// Keys look like sr_live_<43 base64url characters>
+export const API_KEY_PREFIX = 'sr_live_';
+export const MAX_ACTIVE_API_KEYS = 10;
+
+const MAX_NAME_LENGTH = 60;
+// Characters of the key kept in plain text for display
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+const API_KEY_COLUMNS = 'id, name, prefix, last_used_at, revoked_at, created_at';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export class ApiKeyValidationError extends Error {}
+
+// A Bearer key that is malformed, unknown or revoked
+export class ApiKeyAuthError extends Error {
+  constructor() {
+    super('Invalid or revoked API key');
+  }
+}
+
+export function normalizeApiKeyName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new ApiKeyValidationError(`Name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Newest first, revoked keys included so users can see what stopped working
+export async function listApiKeys(supabase: SupabaseClient, userId: string): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .returns<ApiKey[]>();
+
+  if (error) {
+    throw new Error(`Failed to list API keys: ${error.message}`);
+  }
+  return data || [];
+}
+
+// Returns the key once; only its hash is stored
+export async function createApiKey(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const { count, error: countError } = await supabase
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (countError) {
+    throw new Error(`Failed to count API keys: ${countError.message}`);
+  }
+  if ((count || 0) >= MAX_ACTIVE_API_KEYS) {
+    throw new ApiKeyValidationError(`You can have at most ${MAX_ACTIVE_API_KEYS} active API keys; revoke one first`);
+  }
+
+  const key = generateApiKey();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({ user_id: userId, name, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), key_hash: hashApiKey(key) })
+    .select(API_KEY_COLUMNS)
+    .single<ApiKey>();
+
+  if (error) {
+    throw new Error(`Failed to create API key: ${error.message}`);
+  }
+  return { apiKey: data, key };
+}
+
+// Returns false when the key does not exist, belongs to someone else or is already revoked
+export async function revokeApiKey(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(id)) return false;
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`);
+  }
+  return (data?.length || 0) > 0;
+}
+
+// Look up the owner of an active key; throws ApiKeyAuthError for anything else
+export async function authenticateApiKey(supabase: SupabaseClient, key: string): Promise<User> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    throw new ApiKeyAuthError();
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, user_id')
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle<{ id: string; user_id: string }>();
+
+  if (error) {
+    throw new Error(`Failed to read API key: ${error.message}`);
+  }
+  if (!data) {
+    throw new ApiKeyAuthError();
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(data.user_id);
+  if (userError || !user) {
+    throw new ApiKeyAuthError();
+  }
+
+  // Best effort: a failed timestamp update shouldn't fail the request
+  const { error: touchError } = await supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id);
+  if (touchError) {
+    console.error(`Failed to update API key ${data.id} last use: ${touchError.message}`);
+  }
+
+  return user;
+}
+
+// Who is calling an API route: the owner of a Bearer API key, or the Supabase session from cookies
+export interface RequestCaller {
+  // Service-role client for API keys, so every query must be scoped to the user explicitly;
+  // the cookie-bound RLS client otherwise
+  supabase: SupabaseClient;
+  // null for signed-out (anonymous) callers
+  user: User | null;
+  viaApiKey: boolean;
+}
+
+export function readBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+  return header.match(/^Bearer\s+(\S+)\s*$/i)?.[1] ?? '';
+}
+
+// For server-to-server endpoints guarded by a shared secret (schedulers, admin tools)
+export function hasBearerSecret(request: Request, secret: string): boolean {
+  const token = readBearerToken(request);
+  if (!token) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// A request that sends Authorization is judged by its key alone and never falls back to cookies
+export async function resolveRequestCaller(request: Request): Promise<RequestCaller> {
+  const token = readBearerToken(request);
+  if (token !== null) {
+    const supabase = createServiceRoleClient();
+    return { supabase, user: await authenticateApiKey(supabase, token), viaApiKey: true };
+  }
+
+  const supabase = createApiRouteClient(request);
+  const { data: { user } } = await supabase.auth.getUser();
+  return { supabase, user, viaApiKey: false };
+}
@@ -0,0 +1,13 @@
+// Plan entitlement helpers shared by the server and the browser (no Stripe SDK here)
+
+// A subscription cancelled at period end keeps Pro until `cancelAt`. Stripe then sends
+// customer.subscription.deleted, but checking the date too means a late or lost webhook
+// can't extend access.
+export function isEntitlementCurrent(pro: boolean, cancelAt: string | null | undefined, now: number = Date.now()): boolean {
+  return pro && !(cancelAt && Date.parse(cancelAt) <= now);
+}
+
+// Pro granted by a promo code lasts until `proUntil`, independent of any subscription
+export function isPromoProCurrent(proUntil: string | null | undefined, now: number = Date.now()): boolean {
+  return Boolean(proUntil && Date.parse(proUntil) > now);
+}
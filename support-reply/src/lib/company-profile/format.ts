@@ -0,0 +1,126 @@
+// Company context profile: the facts drafts may state about the company, shared by the
+// API, the prompt builder and the browser (for the system prompt preview)
+
+export const MAX_NAME_LENGTH = 80;
+export const MAX_SUPPORT_HOURS_LENGTH = 200;
+export const MAX_POLICY_LENGTH = 1000;
+export const MAX_EMAIL_LENGTH = 254;
+export const MAX_LINKS = 10;
+export const MAX_LINK_LABEL_LENGTH = 60;
+export const MAX_LINK_URL_LENGTH = 500;
+
+export interface CompanyLink {
+  label: string;
+  url: string;
+}
+
+export interface CompanyProfileInput {
+  company_name: string;
+  product_name: string;
+  support_hours: string;
+  return_policy: string;
+  escalation_email: string;
+  links: CompanyLink[];
+  // Anything else agents may tell customers (shipping times, warranty, pricing pages)
+  other_facts: string;
+}
+
+export interface CompanyProfile extends CompanyProfileInput {
+  // Set for the profile shared by a team workspace
+  workspace_id: string | null;
+  updated_at: string;
+}
+
+export const EMPTY_COMPANY_PROFILE: CompanyProfileInput = {
+  company_name: '',
+  product_name: '',
+  support_hours: '',
+  return_policy: '',
+  escalation_email: '',
+  links: [],
+  other_facts: '',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class CompanyProfileValidationError extends Error {}
+
+// A profile with no facts leaves the prompt brand-agnostic
+export function isCompanyProfileEmpty(profile: CompanyProfileInput): boolean {
+  return !profile.company_name && !profile.product_name && !profile.support_hours && !profile.return_policy &&
+    !profile.escalation_email && profile.links.length === 0 && !profile.other_facts;
+}
+
+function normalizeText(raw: unknown, field: string, maxLength: number): string {
+  if (raw === undefined || raw === null) return '';
+  if (typeof raw !== 'string') {
+    throw new CompanyProfileValidationError(`${field} must be a string`);
+  }
+
+  const text = raw.trim().replace(/<[^>]*>/g, '');
+  if (text.length > maxLength) {
+    throw new CompanyProfileValidationError(`${field} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+function normalizeEmail(raw: unknown): string {
+  const email = normalizeText(raw, 'Escalation email', MAX_EMAIL_LENGTH);
+  if (email && !EMAIL_PATTERN.test(email)) {
+    throw new CompanyProfileValidationError('Escalation email must be a valid email address');
+  }
+  return email;
+}
+
+function normalizeLinks(raw: unknown): CompanyLink[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    throw new CompanyProfileValidationError('Links must be a list of { label, url }');
+  }
+
+  const links = raw
+    .map((item) => {
+      const data = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      return {
+        label: normalizeText(data.label, 'Link label', MAX_LINK_LABEL_LENGTH),
+        url: normalizeText(data.url, 'Link URL', MAX_LINK_URL_LENGTH),
+      };
+    })
+    .filter((link) => link.label || link.url);
+
+  if (links.length > MAX_LINKS) {
+    throw new CompanyProfileValidationError(`At most ${MAX_LINKS} links are allowed`);
+  }
+
+  for (const link of links) {
+    let url: URL;
+    try {
+      url = new URL(link.url);
+    } catch {
+      throw new CompanyProfileValidationError(`"${link.url || link.label}" is not a valid URL`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new CompanyProfileValidationError('Links must use http or https');
+    }
+    if (!link.label) {
+      link.label = url.hostname;
+    }
+  }
+
+  return links;
+}
+
+// Validate a full profile; every field is optional and empty fields are left out of the prompt
+export function normalizeCompanyProfile(raw: unknown): CompanyProfileInput {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  return {
+    company_name: normalizeText(data.company_name, 'Company name', MAX_NAME_LENGTH),
+    product_name: normalizeText(data.product_name, 'Product name', MAX_NAME_LENGTH),
+    support_hours: normalizeText(data.support_hours, 'Support hours', MAX_SUPPORT_HOURS_LENGTH),
+    return_policy: normalizeText(data.return_policy, 'Return policy', MAX_POLICY_LENGTH),
+    escalation_email: normalizeEmail(data.escalation_email),
+    links: normalizeLinks(data.links),
+    other_facts: normalizeText(data.other_facts, 'Other facts', MAX_POLICY_LENGTH),
+  };
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CompanyProfile, CompanyProfileInput } from './format';
+
+const COMPANY_PROFILE_COLUMNS =
+  'company_name, product_name, support_hours, return_policy, escalation_email, links, other_facts, workspace_id, updated_at';
+
+// A personal profile is owned by a user; a workspace profile is shared by every member
+export type CompanyProfileOwner = { userId: string } | { workspaceId: string };
+
+// The profile in effect for a user: their workspace's when it has one, otherwise their own.
+// The filter is explicit so service-role callers (API keys, helpdesk webhooks) get the same rows.
+export async function getCompanyProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string | null
+): Promise<CompanyProfile | null> {
+  const { data, error } = await supabase
+    .from('company_profiles')
+    .select(COMPANY_PROFILE_COLUMNS)
+    .or(workspaceId ? `user_id.eq.${userId},workspace_id.eq.${workspaceId}` : `user_id.eq.${userId}`)
+    .returns<CompanyProfile[]>();
+
+  if (error) {
+    throw new Error(`Failed to read company profile: ${error.message}`);
+  }
+
+  const rows = data || [];
+  return rows.find((row) => row.workspace_id !== null) || rows[0] || null;
+}
+
+export async function saveCompanyProfile(
+  supabase: SupabaseClient,
+  owner: CompanyProfileOwner,
+  profile: CompanyProfileInput
+): Promise<CompanyProfile> {
+  const ownerColumn = 'userId' in owner ? { user_id: owner.userId } : { workspace_id: owner.workspaceId };
+
+  const { data, error } = await supabase
+    .from('company_profiles')
+    .upsert(
+      { ...ownerColumn, ...profile, updated_at: new Date().toISOString() },
+      { onConflict: 'userId' in owner ? 'user_id' : 'workspace_id' }
+    )
+    .select(COMPANY_PROFILE_COLUMNS)
+    .single<CompanyProfile>();
+
+  if (error || !data) {
+    throw new Error(`Failed to save company profile: ${error?.message}`);
+  }
+
+  return data;
+}
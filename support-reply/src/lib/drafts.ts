@@ -0,0 +1,125 @@
+// Parsing of model output into reply drafts, shared by the JSON and streaming paths
+
+export const DRAFT_COUNT = 3;
+
+const FALLBACK_DRAFT = `Thank you for your message. I'm here to help and will get back to you shortly.`;
+
+// Fallback JSON parsing
+function parseFallbackResponse(text: string, count: number): string[] {
+  // Try to extract JSON first
+  const jsonMatch = text.match(/\{[\s\S]*"drafts"[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (parsed.drafts && Array.isArray(parsed.drafts)) {
+        return parsed.drafts.slice(0, count).map((draft: unknown) => String(draft).trim()).filter(Boolean);
+      }
+    } catch {
+      // Fall through to text splitting
+    }
+  }
+
+  // Fallback: split by double newlines
+  const blocks = text.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+  return blocks.slice(0, count);
+}
+
+// Parse the full model output, padding with a safe draft so callers always get `count` drafts
+export function parseDrafts(content: string, count: number = DRAFT_COUNT): { drafts: string[]; usedFallback: boolean } {
+  let drafts: string[];
+  let usedFallback = false;
+
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed.drafts && Array.isArray(parsed.drafts)) {
+      drafts = parsed.drafts.slice(0, count).map((draft: unknown) => String(draft).trim()).filter(Boolean);
+    } else {
+      throw new Error('Invalid JSON structure');
+    }
+  } catch {
+    usedFallback = true;
+    drafts = parseFallbackResponse(content, count);
+  }
+
+  // Ensure we have the requested number of drafts
+  while (drafts.length < count) {
+    drafts.push(FALLBACK_DRAFT);
+  }
+
+  return { drafts: drafts.slice(0, count), usedFallback };
+}
+
+// Return the drafts whose JSON strings are already closed in a partially streamed
+// {"drafts": [...]} payload. Unfinished trailing strings are ignored.
+export function extractCompletedDrafts(partial: string, count: number = DRAFT_COUNT): string[] {
+  const keyIndex = partial.indexOf('"drafts"');
+  if (keyIndex === -1) return [];
+
+  const arrayStart = partial.indexOf('[', keyIndex);
+  if (arrayStart === -1) return [];
+
+  const drafts: string[] = [];
+  let index = arrayStart + 1;
+
+  while (index < partial.length && drafts.length < count) {
+    const char = partial[index];
+
+    if (char === ']') break;
+    if (char !== '"') {
+      index++;
+      continue;
+    }
+
+    // Scan to the closing quote, skipping escaped characters
+    let end = index + 1;
+    while (end < partial.length && partial[end] !== '"') {
+      end += partial[end] === '\\' ? 2 : 1;
+    }
+    if (end >= partial.length) break;
+
+    try {
+      const draft = String(JSON.parse(partial.slice(index, end + 1))).trim();
+      if (draft) {
+        drafts.push(draft);
+      }
+    } catch {
+      // Malformed string; the final parse will fall back
+    }
+    index = end + 1;
+  }
+
+  return drafts;
+}
+
+// Parse a single revised draft ({"draft": "..."}); falls back to the raw text
+// when the model ignores the JSON format
+export function parseRefinedDraft(content: string): { draft: string; usedFallback: boolean } {
+  const jsonMatch = content.match(/\{[\s\S]*"draft"[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      const draft = typeof parsed.draft === 'string' ? parsed.draft.trim() : '';
+      if (draft) {
+        return { draft, usedFallback: false };
+      }
+    } catch {
+      // Fall through to raw text
+    }
+  }
+
+  return { draft: content.trim(), usedFallback: true };
+}
+
+// Parse {"translations": [...]}; null unless there is exactly one translation per draft
+export function parseTranslations(content: string, count: number): string[] | null {
+  const jsonMatch = content.match(/\{[\s\S]*"translations"[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed.translations) || parsed.translations.length !== count) return null;
+    return parsed.translations.map((translation: unknown) => String(translation).trim());
+  } catch {
+    return null;
+  }
+}
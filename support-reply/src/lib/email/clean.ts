@@ -0,0 +1,92 @@
+// Reduce an email body to what the customer actually wrote this time
+
+export type RemovedSection = 'quoted' | 'signature' | 'footer';
+
+// Lines that start the quoted history of earlier messages
+const QUOTE_HEADERS = [
+  /^On .+wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+// Outlook quotes start with a From: line followed by Sent:/Date: a line or two later
+const OUTLOOK_FROM = /^From:\s+\S/;
+const OUTLOOK_DATE = /^(Sent|Date):\s+\S/i;
+
+// RFC 3676 signature delimiter, plus the common variant without the trailing space
+const SIGNATURE_DELIMITER = /^--\s?$/;
+
+const DEVICE_SIGNATURE = /^(Sent from my .+|Get Outlook for .+|Sent from (Mail|Yahoo Mail|Outlook) for .+)$/i;
+
+const SIGN_OFF = /^(best|kind|warm|many thanks and)?\s*(regards|wishes)[,!.]?$|^(many )?thanks[,!.]?$|^thank you[,!.]?$|^cheers[,!.]?$|^(yours )?sincerely[,!.]?$/i;
+
+// A sign-off only starts a signature when what follows looks like contact details
+const MAX_SIGNATURE_LINES = 6;
+const MAX_SIGNATURE_LINE_LENGTH = 80;
+
+const FOOTER_PATTERNS = [
+  /confidential[\s\S]*(intended|recipient|privileged)/i,
+  /^(disclaimer|legal notice)\b/i,
+  /this (e-?mail|message)( and any attachments?)? (is|are|may|contains?)/i,
+  /unsubscribe/i,
+  /consider the environment before printing/i,
+];
+
+function isQuoteStart(lines: string[], index: number): boolean {
+  const line = lines[index].trim();
+  if (QUOTE_HEADERS.some((pattern) => pattern.test(line))) return true;
+
+  return OUTLOOK_FROM.test(line) && lines.slice(index + 1, index + 3).some((next) => OUTLOOK_DATE.test(next.trim()));
+}
+
+// Strip quoted history, signatures and legal footers; reports which sections were removed
+export function cleanEmailBody(text: string): { body: string; removed: RemovedSection[] } {
+  const removed = new Set<RemovedSection>();
+  let lines = text
+    .replace(/\r\n?/g, '\n')
+    // Mail clients wrap long "On ... wrote:" lines
+    .replace(/^(On [^\n]+)\n([^\n]*wrote:)$/gm, '$1 $2')
+    .split('\n');
+
+  const quoteStart = lines.findIndex((_, index) => isQuoteStart(lines, index));
+  if (quoteStart !== -1) {
+    lines = lines.slice(0, quoteStart);
+    removed.add('quoted');
+  }
+  if (lines.some((line) => line.startsWith('>'))) {
+    lines = lines.filter((line) => !line.startsWith('>'));
+    removed.add('quoted');
+  }
+
+  const delimiter = lines.findIndex((line) => SIGNATURE_DELIMITER.test(line));
+  if (delimiter !== -1) {
+    lines = lines.slice(0, delimiter);
+    removed.add('signature');
+  }
+  if (lines.some((line) => DEVICE_SIGNATURE.test(line.trim()))) {
+    lines = lines.filter((line) => !DEVICE_SIGNATURE.test(line.trim()));
+    removed.add('signature');
+  }
+
+  // Footers are trailing paragraphs; earlier paragraphs are the customer's own words
+  const paragraphs = lines.join('\n').trim().split(/\n\s*\n/);
+  while (paragraphs.length > 1 && FOOTER_PATTERNS.some((pattern) => pattern.test(paragraphs[paragraphs.length - 1]))) {
+    paragraphs.pop();
+    removed.add('footer');
+  }
+
+  lines = paragraphs.join('\n\n').split('\n');
+  for (let index = Math.max(0, lines.length - MAX_SIGNATURE_LINES - 1); index < lines.length; index++) {
+    if (!SIGN_OFF.test(lines[index].trim())) continue;
+
+    const rest = lines.slice(index + 1).filter((line) => line.trim());
+    if (index > 0 && rest.length > 1 && rest.every((line) => line.length <= MAX_SIGNATURE_LINE_LENGTH)) {
+      // Keep the sign-off and the name under it; drop titles, phone numbers and addresses
+      lines = lines.slice(0, index + 1).concat(rest[0]);
+      removed.add('signature');
+    }
+    break;
+  }
+
+  return { body: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(), removed: [...removed] };
+}
@@ -0,0 +1,3 @@
+export * from './clean';
+export * from './mime';
+export * from './parse';
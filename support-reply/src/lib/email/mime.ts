@@ -0,0 +1,213 @@
+// Minimal RFC 822 / MIME reader: headers, multipart bodies and transfer encodings.
+// Runs in the browser (preview) and on the server, so it only uses web-standard APIs.
+
+export type MimeHeaders = Record<string, string>;
+
+export interface MimeText {
+  headers: MimeHeaders;
+  // Decoded text/plain body, when the message has one
+  plain: string | null;
+  // Decoded text/html body, when the message has one
+  html: string | null;
+  // A forwarded message attached as message/rfc822
+  attached: MimeText | null;
+}
+
+// Guards against pathological nesting in hostile input
+const MAX_MIME_DEPTH = 8;
+
+const HEADER_LINE = /^([!-9;-~]+):[ \t]*(.*)$/;
+
+function splitHeadersAndBody(raw: string): { headerText: string; body: string } {
+  const text = raw.replace(/\r\n?/g, '\n');
+  // A part may omit its headers entirely
+  if (text.startsWith('\n')) return { headerText: '', body: text.slice(1) };
+
+  const end = text.indexOf('\n\n');
+  return end === -1 ? { headerText: text, body: '' } : { headerText: text.slice(0, end), body: text.slice(end + 2) };
+}
+
+// Header names are lower-cased; the first occurrence wins (Received and friends repeat)
+export function parseHeaders(headerText: string): MimeHeaders {
+  const headers: MimeHeaders = {};
+
+  for (const line of headerText.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const match = line.match(HEADER_LINE);
+    if (!match) continue;
+
+    const name = match[1].toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = match[2].trim();
+    }
+  }
+  return headers;
+}
+
+// True when the text opens with a header block, i.e. looks like a raw message rather than a pasted body
+export function hasMessageHeaders(raw: string): boolean {
+  const headers = parseHeaders(splitHeadersAndBody(raw.trimStart()).headerText);
+  return 'from' in headers || 'subject' in headers || 'content-type' in headers;
+}
+
+// "text/plain; charset=utf-8" -> { type: 'text/plain', params: { charset: 'utf-8' } }
+function parseHeaderValue(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value || '').split(';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const match = param.match(/^\s*([\w-]+)\*?=\s*"?([^"]*)"?\s*$/);
+    if (match) {
+      params[match[1].toLowerCase()] = match[2];
+    }
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// Pasted messages may already contain decoded non-ASCII characters; keep them as UTF-8
+function quotedPrintableBytes(text: string, underscoreIsSpace = false): Uint8Array {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  const input = text.replace(/=[ \t]*\n/g, '');
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    const hex = input.slice(index + 1, index + 3);
+
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else if (char === '_' && underscoreIsSpace) {
+      bytes.push(0x20);
+    } else {
+      bytes.push(...encoder.encode(char));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function base64Bytes(text: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(text.replace(/[^A-Za-z0-9+/=]/g, '')), (char) => char.charCodeAt(0));
+  } catch {
+    return new Uint8Array();
+  }
+}
+
+// RFC 2047 encoded words in headers: =?utf-8?Q?Caf=C3=A9?= / =?utf-8?B?Q2Fmw6k=?=
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) =>
+      decodeBytes(encoding.toUpperCase() === 'B' ? base64Bytes(text) : quotedPrintableBytes(text, true), charset)
+    );
+}
+
+function decodeBody(body: string, headers: MimeHeaders, charset?: string): string {
+  const encoding = (headers['content-transfer-encoding'] || '').toLowerCase();
+
+  if (encoding === 'quoted-printable') {
+    return decodeBytes(quotedPrintableBytes(body), charset);
+  }
+  if (encoding === 'base64') {
+    return decodeBytes(base64Bytes(body), charset);
+  }
+  return body;
+}
+
+function readPart(raw: string, depth: number): MimeText {
+  const { headerText, body } = splitHeadersAndBody(raw);
+  const headers = parseHeaders(headerText);
+  const result: MimeText = { headers, plain: null, html: null, attached: null };
+  if (depth > MAX_MIME_DEPTH) return result;
+
+  const { type, params } = parseHeaderValue(headers['content-type']);
+  const disposition = parseHeaderValue(headers['content-disposition']).type;
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    // The first section is the preamble; anything after the closing delimiter is ignored
+    const sections: string[][] = [[]];
+    for (const line of body.split('\n')) {
+      const trimmed = line.trimEnd();
+      if (trimmed === `${delimiter}--`) break;
+      if (trimmed === delimiter) {
+        sections.push([]);
+      } else {
+        sections[sections.length - 1].push(line);
+      }
+    }
+
+    for (const section of sections.slice(1)) {
+      const part = readPart(section.join('\n'), depth + 1);
+      result.plain = result.plain ?? part.plain;
+      result.html = result.html ?? part.html;
+      result.attached = result.attached ?? part.attached;
+    }
+    return result;
+  }
+
+  if (type === 'message/rfc822') {
+    result.attached = readPart(decodeBody(body, headers), depth + 1);
+    return result;
+  }
+
+  if (disposition === 'attachment') return result;
+
+  if (type === 'text/html') {
+    result.html = decodeBody(body, headers, params.charset);
+  } else if (type === '' || type === 'text/plain') {
+    result.plain = decodeBody(body, headers, params.charset);
+  }
+  return result;
+}
+
+// Parse a raw message into its headers and best text bodies
+export function parseMimeMessage(raw: string): MimeText {
+  return readPart(raw.trimStart(), 0);
+}
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Plain-text rendering of an HTML body; quoted replies in <blockquote> are dropped
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// "Jane Doe" <jane@example.com> -> { name: 'Jane Doe', address: 'jane@example.com' }
+export function parseAddress(value: string | undefined): { name: string | null; address: string | null } {
+  if (!value) return { name: null, address: null };
+
+  const decoded = decodeEncodedWords(value);
+  const angle = decoded.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+  if (angle) {
+    return { name: angle[1].trim() || null, address: angle[2].trim() };
+  }
+
+  const address = decoded.match(/[^\s<>"]+@[^\s<>"]+/)?.[0] || null;
+  // Legacy form: jane@example.com (Jane Doe)
+  const comment = decoded.match(/\(([^)]+)\)/)?.[1]?.trim() || null;
+  return { name: comment, address };
+}
@@ -0,0 +1,125 @@
+import { cleanEmailBody } from './clean';
+import type { RemovedSection } from './clean';
+import { decodeEncodedWords, hasMessageHeaders, htmlToText, parseAddress, parseHeaders, parseMimeMessage } from './mime';
+import type { MimeText } from './mime';
+
+// Raw messages are bounded before parsing; attachments make real .eml files large
+export const MAX_EMAIL_LENGTH = 1_000_000;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_SUBJECT_LENGTH = 200;
+
+export interface ParsedEmail {
+  customerName: string | null;
+  customerEmail: string | null;
+  subject: string | null;
+  // ISO 8601, from the Date header
+  date: string | null;
+  // What the customer wrote, without quotes, signatures or footers
+  body: string;
+  // Which body the text came from
+  format: 'plain' | 'html';
+  removed: RemovedSection[];
+  // The customer's message was forwarded to support by someone else
+  forwarded: boolean;
+}
+
+export class EmailValidationError extends Error {}
+
+// Inline forwards ("---------- Forwarded message ---------" then From/Date/Subject lines)
+const FORWARD_MARKER = /^-{2,}\s*Forwarded message\s*-{2,}$|^Begin forwarded message:$/im;
+const FORWARD_SUBJECT = /^\s*(fwd?|fw)\s*:/i;
+
+// Header values end up in the prompt; keep them short and on one line
+function cleanHeaderText(value: string | null | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEncodedWords(value).replace(/[\p{Cc}<>]/gu, ' ').replace(/\s+/g, ' ').trim();
+  return text ? text.substring(0, maxLength) : null;
+}
+
+function stripSubjectPrefixes(subject: string | null): string | null {
+  return subject ? subject.replace(/^(\s*(re|fwd?|fw|aw|sv|tr)\s*:\s*)+/i, '') || null : null;
+}
+
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  // Inline forwards use Gmail's "Mon, Oct 12, 2026 at 10:00 AM"
+  const time = new Date(value.replace(/\s+at\s+/i, ' ')).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function bodyText(message: MimeText): { text: string; format: 'plain' | 'html' } | null {
+  if (message.plain?.trim()) return { text: message.plain, format: 'plain' };
+  if (message.html?.trim()) return { text: htmlToText(message.html), format: 'html' };
+  return null;
+}
+
+// Parse a pasted or uploaded RFC 822 message. Text without headers is treated as a bare body.
+export function parseEmail(raw: string): ParsedEmail {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    throw new EmailValidationError('Email is required and must be a string');
+  }
+  if (raw.length > MAX_EMAIL_LENGTH) {
+    throw new EmailValidationError(`Email must be at most ${MAX_EMAIL_LENGTH / 1_000_000} MB`);
+  }
+
+  let message: MimeText = hasMessageHeaders(raw)
+    ? parseMimeMessage(raw)
+    : { headers: {}, plain: raw, html: null, attached: null };
+  let forwarded = false;
+
+  // Forwarded as an attachment: the attached message is the customer's
+  if (message.attached && bodyText(message.attached)) {
+    message = message.attached;
+    forwarded = true;
+  }
+
+  const source = bodyText(message);
+  if (!source) {
+    throw new EmailValidationError('Email has no readable text body');
+  }
+
+  let headers = message.headers;
+  let text = source.text.replace(/\r\n?/g, '\n');
+
+  // Forwarded inline: skip the forwarder's note and read the embedded header block
+  const marker = text.match(FORWARD_MARKER);
+  if (marker?.index !== undefined && (forwarded || FORWARD_SUBJECT.test(headers.subject || '') || text.slice(0, marker.index).trim().length < 200)) {
+    const inner = text.slice(marker.index + marker[0].length).replace(/^\s*\n/, '');
+    const end = inner.indexOf('\n\n');
+    headers = parseHeaders(end === -1 ? inner : inner.slice(0, end));
+    text = end === -1 ? '' : inner.slice(end + 2);
+    forwarded = true;
+  }
+
+  const { body, removed } = cleanEmailBody(text);
+  if (!body) {
+    throw new EmailValidationError('Email has no text left after removing quotes and signatures');
+  }
+
+  const from = parseAddress(headers.from);
+
+  return {
+    customerName: cleanHeaderText(from.name, MAX_NAME_LENGTH),
+    customerEmail: from.address,
+    subject: stripSubjectPrefixes(cleanHeaderText(headers.subject, MAX_SUBJECT_LENGTH)),
+    date: toIsoDate(headers.date),
+    body,
+    format: source.format,
+    removed,
+    forwarded,
+  };
+}
+
+// Minimal message carrying only the parsed fields; refinements send this instead of the original upload
+export function formatEmail(email: ParsedEmail): string {
+  const headers = [
+    email.customerEmail || email.customerName
+      ? `From: ${email.customerName ? `"${email.customerName.replace(/"/g, '')}" ` : ''}<${email.customerEmail || 'unknown'}>`
+      : null,
+    email.subject ? `Subject: ${email.subject}` : null,
+    'Content-Type: text/plain; charset=utf-8',
+  ].filter(Boolean);
+
+  return `${headers.join('\n')}\n\n${email.body}`;
+}
@@ -0,0 +1,252 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DRAFT_COUNT, parseDrafts } from '@/lib/drafts';
+import { KnowledgePassage, retrievePassages } from '@/lib/knowledge';
+import type { CompletionRequest, CompletionResult, LLMProvider, TokenUsage } from '@/lib/llm';
+import { createSystemPrompt, Language, PromptContext, sanitizeMessage } from '@/lib/prompts';
+import { AUTO_LANGUAGE, findLanguage, isAutoLanguage, resolveReplyLanguage, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { parseEmail } from '@/lib/email';
+import { formatThread, latestCustomerTurn, sanitizeThread, truncateThread } from '@/lib/thread';
+import { findDefaultVoice, MAX_TONE_LENGTH, resolveVoiceProfile, TONE_ERROR } from '@/lib/voice-profiles';
+import type { VoiceProfile } from '@/lib/voice-profiles/format';
+import { CompanyProfile, getCompanyProfile } from '@/lib/company-profile';
+import { hasFeature } from '@/lib/plans';
+import { AccountReservation, commitQuota, QuotaAccount, releaseQuota, reserveQuota } from '@/lib/account';
+
+// Draft generation pipeline shared by /api/generate, /api/refine and the helpdesk webhook:
+// input validation, voice and language, knowledge and company grounding, quota charging
+// and draft parsing. Routes keep their own fields and responses.
+
+// Draft generation settings
+export const GENERATION_TEMPERATURE = 0.5;
+export const GENERATION_MAX_TOKENS = 400;
+export const GENERATION_TIMEOUT_MS = 15000;
+
+// Knowledge base passages injected into the prompt
+export const KNOWLEDGE_PASSAGE_LIMIT = 4;
+
+const FALLBACK_VOICE = 'Friendly';
+
+export class GenerationValidationError extends Error {}
+
+// Turns sent to the model after truncation, and how many older turns were dropped
+export interface ThreadInfo {
+  turns: number;
+  omitted: number;
+}
+
+// The customer input every generate or refine request carries
+export interface GenerationInput {
+  // Text sent to the model: the message, the thread transcript or the cleaned email body
+  message: string;
+  // Latest customer text; language detection and knowledge retrieval key off it
+  latestMessage: string;
+  // Present when the request carried a thread instead of a single message
+  thread?: ThreadInfo;
+  context: PromptContext;
+  // Built-in voice name or voice profile ID, resolved once the caller is known
+  tone: string;
+  // 'auto' or a supported ISO code
+  language: string;
+}
+
+// The account a generation is charged to and the client its data is read with.
+// Service-role clients (API keys, helpdesk webhooks) bypass RLS, so lookups are scoped
+// to the account's workspace explicitly.
+export interface GenerationCaller {
+  supabase: SupabaseClient;
+  account: QuotaAccount;
+  serviceRole: boolean;
+  requestId: string;
+}
+
+export interface GenerationSettings {
+  voice: VoiceProfile;
+  // Reply language (null when left to the model) and the customer's detected language
+  language: Language;
+  detected: Language;
+}
+
+// What drafts may draw on beyond the message; either part is left out when it can't be loaded
+export interface GenerationGrounding {
+  passages: KnowledgePassage[];
+  company: CompanyProfile | null;
+}
+
+// A quota-charged operation: its result and the day's committed count, or the refused reservation
+export type ChargedOperation<T> =
+  | { allowed: true; result: T; used: number }
+  | { allowed: false; reservation: AccountReservation };
+
+// Validate and sanitize the customer input of a request body: a single message, a raw
+// RFC 822 email, or an ordered thread of customer/agent turns cut to the latest turns
+export function readGenerationInput(data: Record<string, unknown>): GenerationInput {
+  let message: string;
+  let latestMessage: string;
+  let thread: ThreadInfo | undefined;
+  let context: PromptContext = {};
+  try {
+    if (data.email !== undefined) {
+      const email = parseEmail(data.email as string);
+      message = sanitizeMessage(email.body);
+      latestMessage = message;
+      context = { customerName: email.customerName, subject: email.subject };
+    } else if (data.thread !== undefined) {
+      const { turns, omitted } = truncateThread(sanitizeThread(data.thread));
+      message = formatThread(turns, omitted);
+      latestMessage = latestCustomerTurn(turns);
+      thread = { turns: turns.length, omitted };
+      context = { thread: true };
+    } else {
+      message = sanitizeMessage(data.message);
+      latestMessage = message;
+    }
+  } catch (error: unknown) {
+    throw new GenerationValidationError(error instanceof Error ? error.message : String(error));
+  }
+  if (data.placeholders === true) {
+    context = { ...context, placeholders: true };
+  }
+
+  const tone = data.tone;
+  if (!tone || typeof tone !== 'string' || tone.length > MAX_TONE_LENGTH) {
+    throw new GenerationValidationError(TONE_ERROR);
+  }
+
+  // 'auto' or a supported ISO code; never passed through as free text
+  const language = data.language || AUTO_LANGUAGE;
+  if (typeof language !== 'string' || (!isAutoLanguage(language) && !findLanguage(language))) {
+    throw new GenerationValidationError(`Language must be ${AUTO_LANGUAGE} or one of: ${SUPPORTED_LANGUAGES.map(({ code }) => code).join(', ')}`);
+  }
+
+  return { message, latestMessage, thread, context, tone, language };
+}
+
+// Resolve the voice a request's tone names and the reply language. Without fallbackVoice an
+// unknown tone is a validation error; helpdesk deliveries fall back to Friendly so a
+// deleted voice profile doesn't stop drafts.
+export async function resolveGenerationSettings(
+  { supabase, account, serviceRole, requestId }: GenerationCaller,
+  { tone, language, latestMessage }: { tone: string; language: string; latestMessage: string },
+  { fallbackVoice = false }: { fallbackVoice?: boolean } = {}
+): Promise<GenerationSettings> {
+  let voice = await resolveVoiceProfile(supabase, account.user?.id || null, tone, serviceRole ? account.workspaceId : undefined);
+  if (!voice) {
+    if (!fallbackVoice) {
+      throw new GenerationValidationError(TONE_ERROR);
+    }
+    console.warn(`[${requestId}] Voice ${tone} unavailable, using ${FALLBACK_VOICE}`);
+    voice = findDefaultVoice(FALLBACK_VOICE)!;
+  }
+
+  const { detected, used } = resolveReplyLanguage(language, latestMessage);
+  return { voice, language: used, detected };
+}
+
+// Knowledge base passages for the latest customer text and the company facts drafts may
+// state. Anonymous callers get neither; a failed lookup is logged and generation proceeds.
+export async function loadGrounding(
+  { supabase, account, requestId }: GenerationCaller,
+  latestMessage: string
+): Promise<GenerationGrounding> {
+  const grounding: GenerationGrounding = { passages: [], company: null };
+  const { user, plan, workspaceId } = account;
+  if (!user) return grounding;
+
+  if (hasFeature(plan, 'knowledge_base')) {
+    try {
+      grounding.passages = await retrievePassages(supabase, user.id, latestMessage, KNOWLEDGE_PASSAGE_LIMIT);
+      console.log(`[${requestId}] Knowledge base - ${grounding.passages.length} passages retrieved`);
+    } catch (error: unknown) {
+      console.error(`[${requestId}] Knowledge retrieval failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  try {
+    grounding.company = await getCompanyProfile(supabase, user.id, workspaceId);
+  } catch (error: unknown) {
+    console.error(`[${requestId}] Company profile unavailable:`, error instanceof Error ? error.message : error);
+  }
+
+  return grounding;
+}
+
+// Reserve quota for one operation. Streaming callers settle the reservation themselves;
+// everything else goes through runCharged.
+export async function holdQuota({ account, requestId }: GenerationCaller, cost: number = 1): Promise<AccountReservation> {
+  const reservation = await reserveQuota(account, cost);
+  console.log(`[${requestId}] ${account.subject.type} quota (${account.plan.id}) - used: ${reservation.used}/${account.capacity}, allowed: ${reservation.allowed}`);
+  return reservation;
+}
+
+// Hold quota for an operation, run it and charge the slot once it succeeds. A failed
+// operation releases the slot, so it never consumes quota.
+export async function runCharged<T>(
+  caller: GenerationCaller,
+  run: () => Promise<T>,
+  cost: number = 1
+): Promise<ChargedOperation<T>> {
+  const reservation = await holdQuota(caller, cost);
+  if (!reservation.allowed) {
+    return { allowed: false, reservation };
+  }
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error: unknown) {
+    await releaseQuota(reservation).catch((releaseError) => {
+      console.error(`[${caller.requestId}] Failed to release quota reservation:`, releaseError);
+    });
+    throw error;
+  }
+
+  return { allowed: true, result, used: await commitQuota(reservation) };
+}
+
+export function logTokenUsage(requestId: string, source: string, usage: TokenUsage | null | undefined) {
+  if (usage) {
+    console.log(`[${requestId}] ${source} usage - prompt: ${usage.promptTokens}, completion: ${usage.completionTokens}, total: ${usage.totalTokens}`);
+  }
+}
+
+export function logCompletionUsage(requestId: string, completion: CompletionResult) {
+  logTokenUsage(requestId, `${completion.provider}/${completion.model}`, completion.usage);
+}
+
+// Parse a finished completion into drafts, falling back to splitting plain text
+export function readDrafts(requestId: string, content: string, count: number): string[] {
+  const { drafts, usedFallback } = parseDrafts(content, count);
+  if (usedFallback) {
+    console.warn(`[${requestId}] JSON parse failed, using fallback parsing`);
+  }
+  return drafts;
+}
+
+export async function completeDrafts(
+  requestId: string,
+  provider: LLMProvider,
+  request: CompletionRequest,
+  count: number
+): Promise<string[]> {
+  const completion = await provider.complete(request);
+  logCompletionUsage(requestId, completion);
+  return readDrafts(requestId, completion.content, count);
+}
+
+export function createGenerationRequest(
+  { voice, language }: GenerationSettings,
+  { passages, company }: GenerationGrounding,
+  message: string,
+  context: PromptContext = {},
+  draftCount: number = DRAFT_COUNT
+): CompletionRequest {
+  return {
+    messages: [
+      { role: 'system', content: createSystemPrompt(voice, language, passages, { ...context, company }, draftCount) },
+      { role: 'user', content: message }
+    ],
+    temperature: GENERATION_TEMPERATURE,
+    maxTokens: GENERATION_MAX_TOKENS,
+    timeoutMs: GENERATION_TIMEOUT_MS,
+  };
+}
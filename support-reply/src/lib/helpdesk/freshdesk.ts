@@ -0,0 +1,42 @@
+import { htmlToText } from '@/lib/email';
+import { joinUrl, readString, readTicketId } from './shared';
+import { HelpdeskAdapter, HelpdeskPayloadError } from './types';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Freshdesk automation webhooks are unsigned; they authenticate with the shared secret
+// header. Placeholders render ticket text as HTML.
+export function createFreshdeskAdapter(): HelpdeskAdapter {
+  return {
+    provider: 'freshdesk',
+    verifySignature() {
+      return null;
+    },
+    parseTicket(payload) {
+      const root = (payload ?? {}) as Record<string, unknown>;
+      const ticket = (root.freshdesk_webhook ?? root) as Record<string, unknown>;
+      const html = readString(ticket.ticket_latest_public_comment) || readString(ticket.ticket_description);
+      const message = html ? htmlToText(html) : '';
+      if (!message) {
+        throw new HelpdeskPayloadError('Ticket must have ticket_latest_public_comment or ticket_description');
+      }
+
+      return {
+        id: readTicketId(ticket.ticket_id),
+        subject: readString(ticket.ticket_subject),
+        requesterName: readString(ticket.ticket_contact_name),
+        thread: null,
+        message,
+      };
+    },
+    buildNoteRequest(config, ticketId, note) {
+      return {
+        url: joinUrl(config.url, `/api/v2/tickets/${ticketId}/notes`),
+        method: 'POST',
+        body: { body: escapeHtml(note).replace(/\n/g, '<br>'), private: true },
+      };
+    },
+  };
+}
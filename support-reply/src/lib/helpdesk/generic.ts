@@ -0,0 +1,45 @@
+import { latestCustomerTurn, sanitizeThread } from '@/lib/thread';
+import { asRecord, hmacSha256, isFreshTimestamp, joinUrl, readString, readTicketId, safeEqual } from './shared';
+import { HelpdeskAdapter, HelpdeskPayloadError } from './types';
+
+// Documented format for helpdesks we have no dedicated adapter for:
+//   X-Timestamp: <unix seconds>
+//   X-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//   { "ticket": { "id", "subject"?, "customer_name"?, "message" | "thread": [{ role, content, timestamp? }] } }
+export function createGenericAdapter(): HelpdeskAdapter {
+  return {
+    provider: 'generic',
+    verifySignature(headers, rawBody, secret) {
+      const signature = headers['x-signature'];
+      if (!signature) return null;
+
+      const timestamp = headers['x-timestamp'] || '';
+      if (!isFreshTimestamp(Number(timestamp) * 1000)) return false;
+
+      return safeEqual(signature, `sha256=${hmacSha256(secret, `${timestamp}.${rawBody}`, 'hex')}`);
+    },
+    parseTicket(payload) {
+      const ticket = asRecord((payload as Record<string, unknown> | null)?.ticket, 'ticket');
+      const thread = ticket.thread !== undefined ? sanitizeThread(ticket.thread) : null;
+      const message = thread ? latestCustomerTurn(thread) : readString(ticket.message);
+      if (!message) {
+        throw new HelpdeskPayloadError('Ticket must have a message or a thread');
+      }
+
+      return {
+        id: readTicketId(ticket.id),
+        subject: readString(ticket.subject),
+        requesterName: readString(ticket.customer_name),
+        thread,
+        message,
+      };
+    },
+    buildNoteRequest(config, ticketId, note) {
+      return {
+        url: joinUrl(config.url, `/tickets/${ticketId}/notes`),
+        method: 'POST',
+        body: { body: note, private: true },
+      };
+    },
+  };
+}
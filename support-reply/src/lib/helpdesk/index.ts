@@ -0,0 +1,59 @@
+import { createFreshdeskAdapter } from './freshdesk';
+import { createGenericAdapter } from './generic';
+import { createZendeskAdapter } from './zendesk';
+import { sendOutbound } from './outbound';
+import { HelpdeskAdapter, HelpdeskProvider, OutboundConfig } from './types';
+
+export * from './types';
+export * from './shared';
+export * from './store';
+export * from './outbound';
+
+const OUTBOUND_TIMEOUT_MS = 10000;
+
+export function getHelpdeskAdapter(provider: HelpdeskProvider): HelpdeskAdapter {
+  switch (provider) {
+    case 'generic':
+      return createGenericAdapter();
+    case 'zendesk':
+      return createZendeskAdapter();
+    case 'freshdesk':
+      return createFreshdeskAdapter();
+  }
+}
+
+// Where a helpdesk sends tickets for this integration
+export function buildWebhookUrl(baseUrl: string, integrationId: string): string {
+  return `${baseUrl}/api/integrations/helpdesk?integration=${integrationId}`;
+}
+
+// Internal note body listing every draft
+export function formatDraftNote(drafts: string[], voiceName: string): string {
+  const options = drafts.map((draft, index) => `Option ${index + 1}:\n${draft}`).join('\n\n');
+  return `Suggested replies (${voiceName} voice) - review before sending:\n\n${options}`;
+}
+
+// Post the drafts back to the helpdesk as an internal note; throws on a non-2xx response
+// or when the outbound host no longer resolves to a public address
+export async function postInternalNote(
+  adapter: HelpdeskAdapter,
+  config: OutboundConfig,
+  ticketId: string,
+  note: string
+): Promise<void> {
+  const { url, method, body } = adapter.buildNoteRequest(config, ticketId, note);
+
+  const status = await sendOutbound(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.authorization ? { Authorization: config.authorization } : {}),
+    },
+    body: JSON.stringify(body),
+    timeoutMs: OUTBOUND_TIMEOUT_MS,
+  });
+
+  if (status < 200 || status >= 300) {
+    throw new Error(`Helpdesk responded ${status} to ${method} ${url}`);
+  }
+}
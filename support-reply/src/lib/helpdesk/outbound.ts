@@ -0,0 +1,136 @@
+import { lookup, LookupAddress, LookupAllOptions } from 'dns';
+import { lookup as lookupAll } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+
+// Outbound helpdesk calls go to user-supplied hosts. Outside development they may only
+// reach public addresses: checked when the URL is saved and again on every connection,
+// so a DNS change can't point an integration at internal services.
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are matched by the IPv4 ranges above
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class OutboundAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboundAddressError';
+  }
+}
+
+export interface OutboundCall {
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+}
+
+// Local mocks (scripts/mock-helpdesk.mjs) are reachable in development only
+export function allowsPrivateOutbound(): boolean {
+  return process.env.NODE_ENV === 'development';
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function assertPublicAddresses(hostname: string, addresses: string[]) {
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new OutboundAddressError(`${hostname} does not resolve to a public address`);
+  }
+}
+
+// URL hostnames keep the brackets around IPv6 literals
+function bareHostname(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (allowsPrivateOutbound()) return;
+
+  const host = bareHostname(hostname);
+  if (isIP(host)) {
+    assertPublicAddresses(host, [host]);
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookupAll(host, { all: true, verbatim: true });
+  } catch {
+    throw new OutboundAddressError(`${host} could not be resolved`);
+  }
+  assertPublicAddresses(host, addresses.map(({ address }) => address));
+}
+
+// DNS lookup for outbound sockets that refuses private addresses, so the address checked is
+// the address connected to
+function publicLookup(
+  hostname: string,
+  options: LookupAllOptions | { all?: false },
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+) {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    try {
+      assertPublicAddresses(hostname, addresses.map(({ address }) => address));
+    } catch (guardError: unknown) {
+      return callback(guardError as Error, []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Send a request to a saved outbound URL and return the response status. Redirects are not
+// followed, since their targets were never checked.
+export async function sendOutbound(url: string, { method, headers, body, timeoutMs }: OutboundCall): Promise<number> {
+  const target = new URL(url);
+  await assertPublicHost(target.hostname);
+
+  const client = target.protocol === 'http:' ? http : https;
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method,
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        signal: AbortSignal.timeout(timeoutMs),
+        ...(allowsPrivateOutbound() ? {} : { lookup: publicLookup }),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { HelpdeskPayloadError, WebhookHeaders } from './types';
+
+// Signed requests older (or newer) than this are rejected as replays
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export function hmacSha256(secret: string, data: string, encoding: 'hex' | 'base64'): string {
+  return createHmac('sha256', secret).update(data, 'utf8').digest(encoding);
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function isFreshTimestamp(time: number, now: number = Date.now()): boolean {
+  return Number.isFinite(time) && Math.abs(now - time) <= SIGNATURE_TOLERANCE_MS;
+}
+
+// Helpdesks without request signing send the secret as a custom header instead
+export function verifySharedSecret(headers: WebhookHeaders, secret: string): boolean {
+  const bearer = headers['authorization']?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const provided = bearer || headers['x-webhook-secret'];
+  return provided ? safeEqual(provided.trim(), secret) : false;
+}
+
+// Ticket IDs end up in outbound URLs
+export function readTicketId(value: unknown): string {
+  const id = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (!/^[\w-]{1,64}$/.test(id)) {
+    throw new HelpdeskPayloadError('Ticket ID is missing or invalid');
+  }
+  return id;
+}
+
+export function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export function asRecord(value: unknown, name: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new HelpdeskPayloadError(`Payload must contain a "${name}" object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+export function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, '')}${path}`;
+}
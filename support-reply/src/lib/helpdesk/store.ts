@@ -0,0 +1,273 @@
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AUTO_LANGUAGE, findLanguage, isAutoLanguage, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { MAX_TONE_LENGTH, TONE_ERROR } from '@/lib/voice-profiles/format';
+import { allowsPrivateOutbound, assertPublicHost, OutboundAddressError } from './outbound';
+import { HELPDESK_PROVIDERS, HelpdeskProvider } from './types';
+
+// Every function here expects the service-role client: the table has no RLS policies,
+// so callers scope queries to the owner themselves
+
+// What the owner sees; secrets are never returned after creation
+export interface HelpdeskIntegration {
+  id: string;
+  name: string;
+  provider: HelpdeskProvider;
+  tone: string;
+  language: string;
+  outbound_url: string | null;
+  // Whether an Authorization header is stored for outbound calls
+  has_outbound_auth: boolean;
+  enabled: boolean;
+  last_delivery_at: string | null;
+  created_at: string;
+}
+
+// Full row, read only by the webhook
+export interface HelpdeskIntegrationSecrets extends HelpdeskIntegration {
+  user_id: string;
+  webhook_secret: string;
+  outbound_auth: string | null;
+}
+
+export interface HelpdeskIntegrationInput {
+  name: string;
+  provider: HelpdeskProvider;
+  tone: string;
+  language: string;
+  outbound_url: string | null;
+  outbound_auth: string | null;
+  enabled: boolean;
+}
+
+const INTEGRATION_COLUMNS = 'id, name, provider, tone, language, outbound_url, outbound_auth, enabled, last_delivery_at, created_at';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_AUTH_LENGTH = 500;
+
+export class HelpdeskValidationError extends Error {}
+
+type IntegrationRow = Omit<HelpdeskIntegration, 'has_outbound_auth'> & { outbound_auth: string | null };
+
+function toIntegration({ outbound_auth, ...row }: IntegrationRow): HelpdeskIntegration {
+  return { ...row, has_outbound_auth: Boolean(outbound_auth) };
+}
+
+// Outbound calls go to a user-supplied URL: HTTPS to a public host, plain HTTP just for a
+// local mock in development
+async function normalizeOutboundUrl(value: unknown): Promise<string | null> {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new HelpdeskValidationError('Outbound URL must be a string');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new HelpdeskValidationError('Outbound URL is not a valid URL');
+  }
+
+  const isLocal = ['localhost', '127.0.0.1'].includes(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocal && allowsPrivateOutbound())) {
+    throw new HelpdeskValidationError('Outbound URL must use https');
+  }
+  if (url.username || url.password) {
+    throw new HelpdeskValidationError('Put credentials in the authorization field, not the URL');
+  }
+
+  try {
+    await assertPublicHost(url.hostname);
+  } catch (error: unknown) {
+    if (error instanceof OutboundAddressError) {
+      throw new HelpdeskValidationError(`Outbound URL must point to a public host: ${error.message}`);
+    }
+    throw error;
+  }
+  return url.toString().replace(/\/+$/, '');
+}
+
+// Validate a create (all fields) or update (only the fields present) request body
+export async function normalizeIntegrationInput(
+  data: Record<string, unknown>,
+  partial: boolean
+): Promise<Partial<HelpdeskIntegrationInput>> {
+  const input: Partial<HelpdeskIntegrationInput> = {};
+
+  if (!partial || data.name !== undefined) {
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new HelpdeskValidationError(`Name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+    input.name = name;
+  }
+
+  if (!partial || data.provider !== undefined) {
+    if (!HELPDESK_PROVIDERS.includes(data.provider as HelpdeskProvider)) {
+      throw new HelpdeskValidationError(`Provider must be one of: ${HELPDESK_PROVIDERS.join(', ')}`);
+    }
+    input.provider = data.provider as HelpdeskProvider;
+  }
+
+  if (!partial || data.tone !== undefined) {
+    const tone = data.tone ?? 'Friendly';
+    if (typeof tone !== 'string' || !tone || tone.length > MAX_TONE_LENGTH) {
+      throw new HelpdeskValidationError(TONE_ERROR);
+    }
+    input.tone = tone;
+  }
+
+  if (!partial || data.language !== undefined) {
+    const language = data.language || AUTO_LANGUAGE;
+    if (typeof language !== 'string' || (!isAutoLanguage(language) && !findLanguage(language))) {
+      throw new HelpdeskValidationError(`Language must be ${AUTO_LANGUAGE} or one of: ${SUPPORTED_LANGUAGES.map(({ code }) => code).join(', ')}`);
+    }
+    input.language = isAutoLanguage(language) ? AUTO_LANGUAGE : findLanguage(language)!.code;
+  }
+
+  if (!partial || data.outbound_url !== undefined) {
+    input.outbound_url = await normalizeOutboundUrl(data.outbound_url);
+  }
+
+  if (!partial || data.outbound_auth !== undefined) {
+    const auth = data.outbound_auth;
+    if (auth !== null && auth !== undefined && (typeof auth !== 'string' || auth.length > MAX_AUTH_LENGTH)) {
+      throw new HelpdeskValidationError(`Authorization must be a string of at most ${MAX_AUTH_LENGTH} characters`);
+    }
+    input.outbound_auth = typeof auth === 'string' && auth.trim() ? auth.trim() : null;
+  }
+
+  if (!partial || data.enabled !== undefined) {
+    if (data.enabled !== undefined && typeof data.enabled !== 'boolean') {
+      throw new HelpdeskValidationError('Enabled must be a boolean');
+    }
+    input.enabled = data.enabled !== false;
+  }
+
+  return input;
+}
+
+export function generateWebhookSecret(): string {
+  return `whs_${randomBytes(24).toString('hex')}`;
+}
+
+export function hashDeliveryBody(rawBody: string): string {
+  return createHash('sha256').update(rawBody).digest('hex');
+}
+
+export async function listIntegrations(supabase: SupabaseClient, userId: string): Promise<HelpdeskIntegration[]> {
+  const { data, error } = await supabase
+    .from('helpdesk_integrations')
+    .select(INTEGRATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .returns<IntegrationRow[]>();
+
+  if (error) {
+    throw new Error(`Failed to list integrations: ${error.message}`);
+  }
+  return (data || []).map(toIntegration);
+}
+
+// Returns the webhook secret once; it cannot be read back later, only rotated
+export async function createIntegration(
+  supabase: SupabaseClient,
+  userId: string,
+  input: HelpdeskIntegrationInput
+): Promise<{ integration: HelpdeskIntegration; secret: string }> {
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabase
+    .from('helpdesk_integrations')
+    .insert({ ...input, user_id: userId, webhook_secret: secret })
+    .select(INTEGRATION_COLUMNS)
+    .single<IntegrationRow>();
+
+  if (error) {
+    throw new Error(`Failed to create integration: ${error.message}`);
+  }
+  return { integration: toIntegration(data), secret };
+}
+
+// Returns null when the integration does not exist or belongs to someone else
+export async function updateIntegration(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  changes: Partial<HelpdeskIntegrationInput> & { webhook_secret?: string }
+): Promise<HelpdeskIntegration | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const { data, error } = await supabase
+    .from('helpdesk_integrations')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(INTEGRATION_COLUMNS)
+    .maybeSingle<IntegrationRow>();
+
+  if (error) {
+    throw new Error(`Failed to update integration: ${error.message}`);
+  }
+  return data ? toIntegration(data) : null;
+}
+
+export async function deleteIntegration(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(id)) return false;
+
+  const { data, error } = await supabase
+    .from('helpdesk_integrations')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete integration: ${error.message}`);
+  }
+  return (data?.length || 0) > 0;
+}
+
+export async function getIntegrationSecrets(supabase: SupabaseClient, id: string): Promise<HelpdeskIntegrationSecrets | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const { data, error } = await supabase
+    .from('helpdesk_integrations')
+    .select(`${INTEGRATION_COLUMNS}, user_id, webhook_secret`)
+    .eq('id', id)
+    .maybeSingle<IntegrationRow & { user_id: string; webhook_secret: string }>();
+
+  if (error) {
+    throw new Error(`Failed to read integration: ${error.message}`);
+  }
+  return data ? { ...toIntegration(data), user_id: data.user_id, webhook_secret: data.webhook_secret, outbound_auth: data.outbound_auth } : null;
+}
+
+// Claim a delivery so helpdesk retries are processed once; false when already claimed
+export async function claimDelivery(
+  supabase: SupabaseClient,
+  integrationId: string,
+  bodyHash: string,
+  ticketId: string
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('helpdesk_deliveries')
+    .insert({ integration_id: integrationId, body_hash: bodyHash, ticket_id: ticketId });
+
+  if (error) {
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to record delivery: ${error.message}`);
+  }
+
+  await supabase
+    .from('helpdesk_integrations')
+    .update({ last_delivery_at: new Date().toISOString() })
+    .eq('id', integrationId);
+  return true;
+}
+
+// Release a claim so the helpdesk's retry gets another chance
+export async function releaseDelivery(supabase: SupabaseClient, integrationId: string, bodyHash: string): Promise<void> {
+  await supabase.from('helpdesk_deliveries').delete().eq('integration_id', integrationId).eq('body_hash', bodyHash);
+}
@@ -0,0 +1,46 @@
+// Shared contract for helpdesk webhook adapters behind /api/integrations/helpdesk
+import type { ThreadTurn } from '@/lib/thread';
+
+export type HelpdeskProvider = 'generic' | 'zendesk' | 'freshdesk';
+
+export const HELPDESK_PROVIDERS: HelpdeskProvider[] = ['generic', 'zendesk', 'freshdesk'];
+
+// A ticket as read from a webhook payload, in the shape /api/generate understands
+export interface HelpdeskTicket {
+  id: string;
+  subject: string | null;
+  requesterName: string | null;
+  // Earlier turns when the payload carries them (oldest first), otherwise null
+  thread: ThreadTurn[] | null;
+  // Latest customer text
+  message: string;
+}
+
+// Lower-cased request headers
+export type WebhookHeaders = Record<string, string>;
+
+export interface OutboundConfig {
+  // Helpdesk base URL, e.g. https://acme.zendesk.com
+  url: string;
+  // Authorization header value, e.g. "Basic ..." or "Bearer ..."
+  authorization: string | null;
+}
+
+export interface OutboundRequest {
+  url: string;
+  method: 'POST' | 'PUT';
+  body: unknown;
+}
+
+export interface HelpdeskAdapter {
+  provider: HelpdeskProvider;
+  // Verify the provider's own signature scheme; null when the request carries none,
+  // in which case the shared secret header is checked instead
+  verifySignature(headers: WebhookHeaders, rawBody: string, secret: string): boolean | null;
+  // Read the ticket out of the provider's webhook payload; throws HelpdeskPayloadError
+  parseTicket(payload: unknown): HelpdeskTicket;
+  // Request adding `note` to the ticket as an internal (agent-only) note
+  buildNoteRequest(config: OutboundConfig, ticketId: string, note: string): OutboundRequest;
+}
+
+export class HelpdeskPayloadError extends Error {}
@@ -0,0 +1,63 @@
+import type { ThreadTurn } from '@/lib/thread';
+import { asRecord, hmacSha256, isFreshTimestamp, joinUrl, readString, readTicketId, safeEqual } from './shared';
+import { HelpdeskAdapter, HelpdeskPayloadError } from './types';
+
+// Comment authors Zendesk counts as staff
+const AGENT_ROLES = ['agent', 'admin'];
+
+function readComments(value: unknown): ThreadTurn[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): ThreadTurn[] => {
+    const comment = (item ?? {}) as Record<string, unknown>;
+    const content = readString(comment.body) || readString(comment.value);
+    if (!content) return [];
+
+    const role = comment.author_is_agent === true || AGENT_ROLES.includes(String(comment.author_role)) ? 'agent' : 'customer';
+    return [{ role, content, timestamp: readString(comment.created_at) || undefined }];
+  });
+}
+
+// Zendesk webhooks sign base64(HMAC-SHA256(timestamp + body)). The trigger body is
+// configured in Zendesk; see the README for the JSON this adapter reads.
+export function createZendeskAdapter(): HelpdeskAdapter {
+  return {
+    provider: 'zendesk',
+    verifySignature(headers, rawBody, secret) {
+      const signature = headers['x-zendesk-webhook-signature'];
+      if (!signature) return null;
+
+      const timestamp = headers['x-zendesk-webhook-signature-timestamp'] || '';
+      if (!isFreshTimestamp(new Date(timestamp).getTime())) return false;
+
+      return safeEqual(signature, hmacSha256(secret, `${timestamp}${rawBody}`, 'base64'));
+    },
+    parseTicket(payload) {
+      const ticket = asRecord((payload as Record<string, unknown> | null)?.ticket, 'ticket');
+      const requester = (ticket.requester ?? {}) as Record<string, unknown>;
+      const comments = readComments(ticket.comments);
+      const message = readString(ticket.latest_comment)
+        || [...comments].reverse().find((turn) => turn.role === 'customer')?.content
+        || readString(ticket.description);
+      if (!message) {
+        throw new HelpdeskPayloadError('Ticket must have latest_comment, comments or a description');
+      }
+
+      return {
+        id: readTicketId(ticket.id),
+        subject: readString(ticket.subject) || readString(ticket.title),
+        requesterName: readString(requester.name) || readString(ticket.requester_name),
+        // Drafts answer the customer, so the thread must end on a customer turn
+        thread: comments.length > 1 && comments[comments.length - 1].role === 'customer' ? comments : null,
+        message,
+      };
+    },
+    buildNoteRequest(config, ticketId, note) {
+      return {
+        url: joinUrl(config.url, `/api/v2/tickets/${ticketId}.json`),
+        method: 'PUT',
+        body: { ticket: { comment: { body: note, public: false } } },
+      };
+    },
+  };
+}
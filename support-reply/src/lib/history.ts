@@ -0,0 +1,211 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Opt-in generation history; nothing is written unless the user enabled it
+
+export const RETENTION_DAY_OPTIONS = [1, 7, 30, 90, 365];
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const HISTORY_COLUMNS = 'id, message, tone, language, drafts, copied_index, copied_text, copied_at, created_at, expires_at';
+const DEFAULT_PAGE_SIZE = 50;
+
+export interface HistorySettings {
+  enabled: boolean;
+  retentionDays: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  message: string;
+  tone: string;
+  language: string;
+  drafts: string[];
+  copied_index: number | null;
+  copied_text: string | null;
+  copied_at: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface HistoryFilters {
+  // Full-text query over the customer message
+  query?: string;
+  tone?: string;
+  language?: string;
+  // ISO timestamp lower bound on created_at
+  since?: string;
+  copiedOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+function expiresAt(retentionDays: number): string {
+  return new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function isValidRetentionDays(value: unknown): value is number {
+  return typeof value === 'number' && RETENTION_DAY_OPTIONS.includes(value);
+}
+
+// Missing profile or columns read as the default: history off
+export async function getHistorySettings(supabase: SupabaseClient, userId: string): Promise<HistorySettings> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('history_enabled, history_retention_days')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read history settings: ${error.message}`);
+  }
+
+  return {
+    enabled: data?.history_enabled === true,
+    retentionDays: data?.history_retention_days || DEFAULT_RETENTION_DAYS,
+  };
+}
+
+// Changing the retention window re-dates existing rows so it applies retroactively
+export async function updateHistorySettings(
+  supabase: SupabaseClient,
+  userId: string,
+  update: Partial<HistorySettings>
+): Promise<HistorySettings> {
+  const columns: Record<string, unknown> = {};
+  if (update.enabled !== undefined) columns.history_enabled = update.enabled;
+  if (update.retentionDays !== undefined) columns.history_retention_days = update.retentionDays;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(columns)
+    .eq('user_id', userId)
+    .select('history_enabled, history_retention_days')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update history settings: ${error?.message}`);
+  }
+
+  if (update.retentionDays !== undefined) {
+    const { error: retentionError } = await supabase
+      .rpc('apply_history_retention', { p_user_id: userId, p_retention_days: update.retentionDays });
+
+    if (retentionError) {
+      throw new Error(`Failed to apply retention window: ${retentionError.message}`);
+    }
+  }
+
+  return { enabled: data.history_enabled, retentionDays: data.history_retention_days };
+}
+
+export async function purgeExpiredHistory(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('generation_history')
+    .delete()
+    .eq('user_id', userId)
+    .lte('expires_at', new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Failed to purge expired history: ${error.message}`);
+  }
+}
+
+export async function saveGeneration(
+  supabase: SupabaseClient,
+  userId: string,
+  entry: { message: string; tone: string; language: string; drafts: string[] },
+  retentionDays: number
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('generation_history')
+    .insert({ user_id: userId, ...entry, expires_at: expiresAt(retentionDays) })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save generation history: ${error?.message}`);
+  }
+
+  // Writes are a natural point to drop this user's expired rows
+  await purgeExpiredHistory(supabase, userId);
+
+  return data.id;
+}
+
+// Returns false when the entry does not exist (or has expired)
+export async function recordCopiedDraft(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  copied: { index: number; text: string }
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('generation_history')
+    .update({ copied_index: copied.index, copied_text: copied.text, copied_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .gt('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to record copied draft: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+export async function listHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  { query, tone, language, since, copiedOnly, limit = DEFAULT_PAGE_SIZE, offset = 0 }: HistoryFilters = {}
+): Promise<HistoryEntry[]> {
+  let request = supabase
+    .from('generation_history')
+    .select(HISTORY_COLUMNS)
+    .eq('user_id', userId)
+    .gt('expires_at', new Date().toISOString());
+
+  if (query?.trim()) request = request.textSearch('search', query.trim(), { type: 'websearch', config: 'english' });
+  if (tone) request = request.eq('tone', tone);
+  if (language) request = request.eq('language', language);
+  if (since) request = request.gte('created_at', since);
+  if (copiedOnly) request = request.not('copied_index', 'is', null);
+
+  const { data, error } = await request
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list history: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function deleteHistoryEntry(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('generation_history')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete history entry: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+export async function deleteAllHistory(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('generation_history')
+    .delete()
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete history: ${error.message}`);
+  }
+
+  return data?.length || 0;
+}
@@ -0,0 +1,73 @@
+// Offline lexical retrieval (Okapi BM25) over knowledge base passages
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'hi', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our',
+  'please', 'so', 'that', 'the', 'their', 'them', 'there', 'this', 'to', 'us', 'was', 'we', 'what',
+  'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+// Light plural folding so "refund" matches "refunds" and "policy" matches "policies"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize('NFKD').match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+export interface ScoredPassage<T> {
+  item: T;
+  score: number;
+}
+
+// Rank passages against a query; only passages sharing at least one term are returned
+export function rankPassages<T>(
+  query: string,
+  items: T[],
+  getText: (item: T) => string,
+  limit: number
+): ScoredPassage<T>[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || items.length === 0) return [];
+
+  const documents = items.map((item) => {
+    const termCounts = new Map<string, number>();
+    const tokens = tokenize(getText(item));
+    for (const token of tokens) {
+      termCounts.set(token, (termCounts.get(token) || 0) + 1);
+    }
+    return { item, termCounts, length: tokens.length };
+  });
+
+  const averageLength = documents.reduce((total, document) => total + document.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, documents.filter((document) => document.termCounts.has(term)).length);
+  }
+
+  return documents
+    .map(({ item, termCounts, length }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = termCounts.get(term) || 0;
+        if (!frequency) continue;
+
+        const containing = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+      }
+      return { item, score };
+    })
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
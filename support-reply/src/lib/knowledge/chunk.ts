@@ -0,0 +1,55 @@
+// Split documents into retrieval-sized passages along headings and paragraphs
+
+const MAX_CHUNK_CHARS = 800;
+const MIN_CHUNK_CHARS = 40;
+
+function splitOversized(block: string): string[] {
+  if (block.length <= MAX_CHUNK_CHARS) return [block];
+
+  // Break long paragraphs on sentence boundaries, hard-cutting anything still too long
+  const sentences = block.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [block];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if ((current + sentence).length > MAX_CHUNK_CHARS && current) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+    while (current.length > MAX_CHUNK_CHARS) {
+      pieces.push(current.slice(0, MAX_CHUNK_CHARS).trim());
+      current = current.slice(MAX_CHUNK_CHARS);
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces;
+}
+
+export function chunkDocument(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').trim();
+  if (!normalized) return [];
+
+  // Each markdown heading starts a new section so answers stay attached to their question
+  const sections = normalized.split(/\n(?=#{1,6} )/);
+  const chunks: string[] = [];
+
+  for (const section of sections) {
+    const heading = section.match(/^#{1,6} (.*)/)?.[1]?.trim();
+    const paragraphs = section.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+    let current = '';
+
+    for (const paragraph of paragraphs.flatMap(splitOversized)) {
+      if (current && (current + '\n\n' + paragraph).length > MAX_CHUNK_CHARS) {
+        chunks.push(current);
+        current = heading && !paragraph.startsWith('#') ? `${heading}\n\n${paragraph}` : paragraph;
+      } else {
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      }
+    }
+    if (current) chunks.push(current);
+  }
+
+  return chunks.filter((chunk) => chunk.length >= MIN_CHUNK_CHARS);
+}
@@ -0,0 +1,34 @@
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf';
+
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = ['.md', '.markdown', '.txt'];
+const PDF_EXTENSIONS = ['.pdf'];
+
+export const SUPPORTED_EXTENSIONS = [...TEXT_EXTENSIONS, ...PDF_EXTENSIONS];
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+export function isSupportedFile(fileName: string): boolean {
+  return SUPPORTED_EXTENSIONS.includes(getExtension(fileName));
+}
+
+// Pull plain text out of an uploaded FAQ / policy document
+export async function extractDocumentText(fileName: string, data: ArrayBuffer): Promise<string> {
+  const extension = getExtension(fileName);
+
+  if (PDF_EXTENSIONS.includes(extension)) {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { text } = await extractPdfText(pdf, { mergePages: true });
+    return text;
+  }
+
+  if (TEXT_EXTENSIONS.includes(extension)) {
+    return new TextDecoder('utf-8').decode(data);
+  }
+
+  throw new Error(`Unsupported file type. Upload one of: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+}
@@ -0,0 +1,4 @@
+export * from './bm25';
+export * from './chunk';
+export * from './extract';
+export * from './store';
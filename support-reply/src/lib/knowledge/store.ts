@@ -0,0 +1,152 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { rankPassages } from './bm25';
+import { chunkDocument } from './chunk';
+
+// Upper bound on passages scored per request, keeping retrieval in-process and fast
+const MAX_INDEXED_CHUNKS = 2000;
+const SNIPPET_CHARS = 280;
+const MAX_SOURCES_PER_DRAFT = 2;
+const MIN_ATTRIBUTION_SCORE = 1;
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  mime_type: string;
+  size_bytes: number;
+  chunk_count: number;
+  created_at: string;
+}
+
+export interface KnowledgePassage {
+  documentId: string;
+  title: string;
+  chunkIndex: number;
+  content: string;
+}
+
+export interface KnowledgeSnippet {
+  documentId: string;
+  title: string;
+  chunkIndex: number;
+  snippet: string;
+}
+
+interface ChunkRow {
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  kb_documents: { title: string } | null;
+}
+
+export async function listDocuments(supabase: SupabaseClient, userId: string): Promise<KnowledgeDocument[]> {
+  const { data, error } = await supabase
+    .from('kb_documents')
+    .select('id, title, mime_type, size_bytes, chunk_count, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list documents: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Chunk and store a document; chunks are written after the document row and rolled back on failure
+export async function saveDocument(
+  supabase: SupabaseClient,
+  userId: string,
+  document: { title: string; mimeType: string; sizeBytes: number; text: string }
+): Promise<KnowledgeDocument> {
+  const chunks = chunkDocument(document.text);
+  if (chunks.length === 0) {
+    throw new Error('Document contains no readable text');
+  }
+
+  const { data: saved, error: documentError } = await supabase
+    .from('kb_documents')
+    .insert({
+      user_id: userId,
+      title: document.title,
+      mime_type: document.mimeType,
+      size_bytes: document.sizeBytes,
+      chunk_count: chunks.length,
+    })
+    .select('id, title, mime_type, size_bytes, chunk_count, created_at')
+    .single();
+
+  if (documentError || !saved) {
+    throw new Error(`Failed to save document: ${documentError?.message}`);
+  }
+
+  const { error: chunkError } = await supabase
+    .from('kb_chunks')
+    .insert(chunks.map((content, chunkIndex) => ({
+      document_id: saved.id,
+      user_id: userId,
+      chunk_index: chunkIndex,
+      content,
+    })));
+
+  if (chunkError) {
+    await supabase.from('kb_documents').delete().eq('id', saved.id);
+    throw new Error(`Failed to index document: ${chunkError.message}`);
+  }
+
+  return saved;
+}
+
+export async function deleteDocument(supabase: SupabaseClient, userId: string, documentId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('kb_documents')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', documentId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete document: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// Top BM25 passages from the user's knowledge base for a customer message
+export async function retrievePassages(
+  supabase: SupabaseClient,
+  userId: string,
+  query: string,
+  limit: number
+): Promise<KnowledgePassage[]> {
+  const { data, error } = await supabase
+    .from('kb_chunks')
+    .select('document_id, chunk_index, content, kb_documents(title)')
+    .eq('user_id', userId)
+    .limit(MAX_INDEXED_CHUNKS)
+    .returns<ChunkRow[]>();
+
+  if (error) {
+    throw new Error(`Failed to load knowledge base: ${error.message}`);
+  }
+
+  return rankPassages(query, data || [], (row) => row.content, limit).map(({ item }) => ({
+    documentId: item.document_id,
+    title: item.kb_documents?.title || 'Untitled',
+    chunkIndex: item.chunk_index,
+    content: item.content,
+  }));
+}
+
+// For each draft, the retrieved passages it draws on, judged by lexical overlap
+export function attributeSources(drafts: string[], passages: KnowledgePassage[]): KnowledgeSnippet[][] {
+  return drafts.map((draft) =>
+    rankPassages(draft, passages, (passage) => passage.content, MAX_SOURCES_PER_DRAFT)
+      .filter(({ score }) => score >= MIN_ATTRIBUTION_SCORE)
+      .map(({ item }) => ({
+      documentId: item.documentId,
+      title: item.title,
+      chunkIndex: item.chunkIndex,
+      snippet: item.content.length > SNIPPET_CHARS ? `${item.content.slice(0, SNIPPET_CHARS).trimEnd()}…` : item.content,
+    }))
+  );
+}
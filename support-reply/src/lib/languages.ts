@@ -0,0 +1,112 @@
+// Supported reply languages and offline detection of a customer message's language.
+// Shared by the API and the browser; only names from this registry reach the prompt.
+
+export interface SupportedLanguage {
+  // ISO 639-1 code
+  code: string;
+  // English name, used in prompts
+  name: string;
+  nativeName: string;
+}
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'sv', name: 'Swedish', nativeName: 'Svenska' },
+  { code: 'da', name: 'Danish', nativeName: 'Dansk' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+];
+
+// Requested language meaning "reply in the customer's language"
+export const AUTO_LANGUAGE = 'auto';
+
+export interface LanguageDetection {
+  code: string;
+  // Share of the evidence pointing at this language, 0-1
+  confidence: number;
+}
+
+// Accepts an ISO code or an English name ("fr", "French"); older clients send names
+export function findLanguage(value: string): SupportedLanguage | undefined {
+  const key = value.trim().toLowerCase();
+  return SUPPORTED_LANGUAGES.find((language) => language.code === key || language.name.toLowerCase() === key);
+}
+
+export function isAutoLanguage(value: string): boolean {
+  return value.trim().toLowerCase() === AUTO_LANGUAGE;
+}
+
+// Languages with their own script are recognised by character ranges
+const SCRIPT_PATTERNS: [string, RegExp][] = [
+  ['ja', /[぀-ヿ]/g],
+  ['ko', /[가-힯ᄀ-ᇿ]/g],
+  ['zh', /[一-鿿]/g],
+  ['ru', /[Ѐ-ӿ]/g],
+  ['ar', /[؀-ۿ]/g],
+];
+
+// Latin-script languages are scored by frequent function words
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'your', 'my', 'have', 'has', 'with', 'this', 'that', 'was', 'please', 'not', 'can', 'what', 'would', 'will', 'from', 'been', 'of', 'to', 'it', 'hi', 'thanks'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'je', 'vous', 'mon', 'ma', 'mes', 'pas', 'une', 'des', 'du', 'pour', 'avec', 'que', 'qui', 'sur', 'merci', 'bonjour', 'commande', 'ce', 'ai', 'toujours', 'reçu'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'que', 'mi', 'por', 'para', 'con', 'una', 'pedido', 'hola', 'gracias', 'está', 'estoy', 'pero', 'como', 'del', 'se', 'lo', 'todavía', 'recibido'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'mein', 'meine', 'sie', 'ein', 'eine', 'mit', 'für', 'auf', 'bitte', 'danke', 'bestellung', 'noch', 'habe', 'wurde', 'den', 'dem', 'zu', 'hallo'],
+  it: ['il', 'lo', 'gli', 'e', 'è', 'non', 'che', 'di', 'mio', 'mia', 'per', 'una', 'sono', 'ho', 'ordine', 'grazie', 'ciao', 'ancora', 'della', 'del', 'ricevuto'],
+  pt: ['o', 'os', 'e', 'é', 'não', 'que', 'meu', 'minha', 'para', 'com', 'uma', 'pedido', 'obrigado', 'obrigada', 'olá', 'ainda', 'foi', 'do', 'da', 'está', 'recebi'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'ik', 'niet', 'mijn', 'van', 'voor', 'met', 'op', 'nog', 'bestelling', 'bedankt', 'hallo', 'dat', 'zijn', 'heb', 'wel', 'ontvangen'],
+  sv: ['och', 'är', 'jag', 'inte', 'min', 'mitt', 'ett', 'för', 'med', 'på', 'har', 'det', 'att', 'beställning', 'tack', 'hej', 'som', 'av', 'fått'],
+  da: ['og', 'er', 'jeg', 'ikke', 'min', 'mit', 'et', 'for', 'med', 'på', 'har', 'det', 'at', 'bestilling', 'tak', 'hej', 'som', 'af', 'modtaget'],
+  pl: ['w', 'nie', 'jest', 'się', 'na', 'moje', 'moja', 'mój', 'to', 'z', 'że', 'do', 'zamówienie', 'dziękuję', 'dzień', 'dobry', 'jak', 'czy', 'jeszcze', 'otrzymałem'],
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([code, words]) => [code, new Set(words)] as const);
+
+// Minimum function-word hits before trusting a Latin-script guess
+const MIN_WORD_HITS = 2;
+
+// Guess the language of a message without any external service; null when unsure
+export function detectLanguage(text: string): LanguageDetection | null {
+  const letters = text.match(/\p{L}/gu)?.length || 0;
+  if (letters === 0) return null;
+
+  for (const [code, pattern] of SCRIPT_PATTERNS) {
+    const matches = text.match(pattern)?.length || 0;
+    // Japanese mixes kana with Han characters, so any kana decides it
+    if (matches > 0 && (code === 'ja' || matches / letters > 0.3)) {
+      return { code, confidence: Math.min(1, matches / letters + (code === 'ja' ? 0.5 : 0)) };
+    }
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = STOPWORD_SETS
+    .map(([code, stopwords]) => ({ code, hits: words.filter((word) => stopwords.has(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  const total = scores.reduce((sum, score) => sum + score.hits, 0);
+  if (best.hits < MIN_WORD_HITS || best.hits === second.hits) return null;
+
+  return { code: best.code, confidence: Math.round((best.hits / total) * 100) / 100 };
+}
+
+// The language replies should be written in: an explicit choice wins, otherwise the detected one
+export function resolveReplyLanguage(
+  requested: string,
+  message: string
+): { detected: SupportedLanguage | null; used: SupportedLanguage | null } {
+  const detection = detectLanguage(message);
+  const detected = detection ? findLanguage(detection.code) || null : null;
+  const used = isAutoLanguage(requested) ? detected : findLanguage(requested) || null;
+
+  return { detected, used };
+}
@@ -0,0 +1,118 @@
+import {
+  CompletionChunk,
+  CompletionRequest,
+  CompletionResult,
+  LLMError,
+  LLMProvider,
+  fetchWithTimeout,
+  readEventStream,
+} from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface MessagesResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+}
+
+// Anthropic Messages API client; system prompts travel outside the message list
+export function createAnthropicProvider({ apiKey, model }: { apiKey: string; model: string }): LLMProvider {
+  const request = async ({ messages, temperature, maxTokens, timeoutMs, model: requestedModel, signal }: CompletionRequest, stream: boolean) => {
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const conversation = messages
+      .filter((message) => message.role !== 'system')
+      .map(({ role, content }) => ({ role, content }));
+
+    const response = await fetchWithTimeout(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: requestedModel || model,
+        system: system || undefined,
+        messages: conversation,
+        temperature,
+        max_tokens: maxTokens,
+        stream,
+      }),
+    }, timeoutMs, signal);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError('UPSTREAM_ERROR', `anthropic API error: ${response.status} - ${errorText}`, response.status);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete(completionRequest: CompletionRequest): Promise<CompletionResult> {
+      const response = await request(completionRequest, false);
+      const data: MessagesResponse = await response.json();
+      const content = (data.content || [])
+        .filter((block) => block.type === 'text' && block.text)
+        .map((block) => block.text)
+        .join('');
+
+      if (!content) {
+        throw new LLMError('EMPTY_RESPONSE', 'No content in anthropic response');
+      }
+
+      return {
+        content,
+        model: data.model || completionRequest.model || model,
+        provider: 'anthropic',
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.input_tokens,
+              completionTokens: data.usage.output_tokens,
+              totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+            }
+          : null,
+      };
+    },
+    async *stream(completionRequest: CompletionRequest): AsyncIterable<CompletionChunk> {
+      const response = await request(completionRequest, true);
+      let promptTokens = 0;
+      let completionTokens = 0;
+
+      for await (const data of readEventStream(response, completionRequest.timeoutMs)) {
+        const event: MessagesStreamEvent = JSON.parse(data);
+
+        if (event.type === 'message_start') {
+          promptTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          yield { delta: event.delta.text };
+        } else if (event.type === 'message_delta') {
+          completionTokens = event.usage?.output_tokens || completionTokens;
+        } else if (event.type === 'message_stop') {
+          yield {
+            delta: '',
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            },
+          };
+        }
+      }
+    },
+  };
+}
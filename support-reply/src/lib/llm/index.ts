@@ -0,0 +1,60 @@
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import { LLMError, LLMProvider, ProviderName } from './types';
+
+export * from './types';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
+const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+const PROVIDERS: ProviderName[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+
+// Resolve the configured backend from LLM_PROVIDER (defaults to OpenAI)
+export function getLLMProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'openai') as ProviderName;
+
+  if (!PROVIDERS.includes(name)) {
+    throw new LLMError('MISSING_CONFIG', `LLM_PROVIDER must be one of: ${PROVIDERS.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new LLMError('MISSING_API_KEY', 'Please set OPENAI_API_KEY in your .env.local file');
+      }
+      return createOpenAIProvider({
+        name,
+        baseUrl: 'https://api.openai.com/v1',
+        model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        apiKey,
+      });
+    }
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new LLMError('MISSING_API_KEY', 'Please set ANTHROPIC_API_KEY in your .env.local file');
+      }
+      return createAnthropicProvider({
+        apiKey,
+        model: process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL,
+      });
+    }
+    case 'openai-compatible': {
+      const model = process.env.LLM_MODEL;
+      if (!model) {
+        throw new LLMError('MISSING_CONFIG', 'Please set LLM_MODEL in your .env.local file');
+      }
+      return createOpenAIProvider({
+        name,
+        baseUrl: process.env.LLM_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL,
+        model,
+        apiKey: process.env.LLM_API_KEY,
+      });
+    }
+    case 'mock':
+      return createMockProvider();
+  }
+}
@@ -0,0 +1,76 @@
+import { CompletionChunk, CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+const STREAM_CHUNK_SIZE = 24;
+
+// Rough token estimate used for mock usage reporting
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Refine requests ask for {"draft": ...}; revise the current draft without a model
+function mockRefinement(systemPrompt: string, userContent: string): string {
+  const draft = userContent.split('CURRENT DRAFT:\n')[1]?.trim() || '';
+
+  if (systemPrompt.includes('noticeably shorter')) {
+    return draft.match(/^[^.!?]*[.!?]/)?.[0] || draft;
+  }
+  return `${draft} Please let me know if there is anything else I can help with.`;
+}
+
+// Translation requests send {"drafts": [...]}; echo them back marked as translated
+function mockTranslations(userContent: string): string[] {
+  try {
+    const { drafts } = JSON.parse(userContent);
+    return Array.isArray(drafts) ? drafts.map((draft) => `[English] ${draft}`) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Deterministic offline provider: same input always yields the same drafts
+export function createMockProvider(): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'mock',
+    model: 'mock',
+    async complete({ messages }: CompletionRequest): Promise<CompletionResult> {
+      const customerMessage = [...messages].reverse().find((message) => message.role === 'user')?.content || '';
+      const systemPrompt = messages.find((message) => message.role === 'system')?.content || '';
+      const excerpt = customerMessage.replace(/\s+/g, ' ').trim().slice(0, 60);
+
+      const drafts = [
+        `Thank you for reaching out about "${excerpt}". I'm sorry for the trouble and I'm looking into this for you now. Could you share your order or account number so I can check the details?`,
+        `Hi there, thanks for your message. I understand how frustrating this is. I've noted your request and will follow up as soon as I have an update. Is there anything else I should know in the meantime?`,
+        `Thanks for contacting us. I've received your message and I'm here to help. To resolve this quickly, could you confirm the email address associated with your account?`,
+      ];
+
+      const content = systemPrompt.includes('{"translations":')
+        ? JSON.stringify({ translations: mockTranslations(customerMessage) })
+        : systemPrompt.includes('{"draft":')
+          ? JSON.stringify({ draft: mockRefinement(systemPrompt, customerMessage) })
+          : JSON.stringify({ drafts });
+      const promptTokens = messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+      const completionTokens = estimateTokens(content);
+
+      return {
+        content,
+        model: 'mock',
+        provider: 'mock',
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+      const { content, usage } = await provider.complete(request);
+
+      for (let offset = 0; offset < content.length; offset += STREAM_CHUNK_SIZE) {
+        yield { delta: content.slice(offset, offset + STREAM_CHUNK_SIZE) };
+      }
+      yield { delta: '', usage: usage || undefined };
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,109 @@
+import {
+  CompletionChunk,
+  CompletionRequest,
+  CompletionResult,
+  LLMError,
+  LLMProvider,
+  ProviderName,
+  TokenUsage,
+  fetchWithTimeout,
+  readEventStream,
+} from './types';
+
+interface OpenAIProviderOptions {
+  name: ProviderName;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: OpenAIUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: OpenAIUsage | null;
+}
+
+function toTokenUsage(usage: OpenAIUsage): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+// Chat Completions client, shared by OpenAI and OpenAI-compatible servers (Ollama, vLLM)
+export function createOpenAIProvider({ name, baseUrl, model, apiKey }: OpenAIProviderOptions): LLMProvider {
+  const request = async ({ messages, temperature, maxTokens, timeoutMs, model: requestedModel, signal }: CompletionRequest, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetchWithTimeout(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: requestedModel || model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    }, timeoutMs, signal);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError('UPSTREAM_ERROR', `${name} API error: ${response.status} - ${errorText}`, response.status);
+    }
+
+    return response;
+  };
+
+  return {
+    name,
+    model,
+    async complete(completionRequest: CompletionRequest): Promise<CompletionResult> {
+      const response = await request(completionRequest, false);
+      const data: ChatCompletionResponse = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new LLMError('EMPTY_RESPONSE', `No content in ${name} response`);
+      }
+
+      return {
+        content,
+        model: data.model || completionRequest.model || model,
+        provider: name,
+        usage: data.usage ? toTokenUsage(data.usage) : null,
+      };
+    },
+    async *stream(completionRequest: CompletionRequest): AsyncIterable<CompletionChunk> {
+      const response = await request(completionRequest, true);
+
+      for await (const data of readEventStream(response, completionRequest.timeoutMs)) {
+        if (data === '[DONE]') break;
+
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content || '';
+
+        if (chunk.usage) {
+          yield { delta, usage: toTokenUsage(chunk.usage) };
+        } else if (delta) {
+          yield { delta };
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,116 @@
+// Shared contract for every LLM backend behind /api/generate
+
+export type ProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  // Overrides the provider's configured model; callers check it against the plan first
+  model?: string;
+  // Cancels the upstream call early, e.g. when a streaming client disconnects
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: ProviderName;
+  usage: TokenUsage | null;
+}
+
+// Incremental output from a streaming completion; usage arrives with the last chunk when reported
+export interface CompletionChunk {
+  delta: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+}
+
+export type LLMErrorCode = 'MISSING_API_KEY' | 'MISSING_CONFIG' | 'TIMEOUT' | 'UPSTREAM_ERROR' | 'EMPTY_RESPONSE';
+
+export class LLMError extends Error {
+  code: LLMErrorCode;
+  status?: number;
+
+  constructor(code: LLMErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Map abort/timeout errors onto LLMError so callers see a single timeout shape
+export function normalizeTimeoutError(error: unknown, timeoutMs: number): unknown {
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return new LLMError('TIMEOUT', `Provider did not respond within ${timeoutMs}ms`);
+  }
+  return error;
+}
+
+// Run a provider HTTP call with a hard timeout; the signal also bounds reading a streamed body.
+// A caller's signal aborts it early, and that abort is not reported as a timeout.
+export async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: signal ? AbortSignal.any([timeout, signal]) : timeout });
+  } catch (error: unknown) {
+    if (signal?.aborted) throw error;
+    throw normalizeTimeoutError(error, timeoutMs);
+  }
+}
+
+// Yield the data payload of each server-sent event in a provider response body
+export async function* readEventStream(response: Response, timeoutMs: number): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new LLMError('EMPTY_RESPONSE', 'Provider returned no response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (data) {
+          yield data;
+        }
+      }
+    }
+  } catch (error: unknown) {
+    throw normalizeTimeoutError(error, timeoutMs);
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,254 @@
+import { API_KEY_PREFIX } from '@/lib/api-keys';
+import { SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { PLANS } from '@/lib/plans';
+import { MAX_MESSAGE_LENGTH, MAX_REFINE_INSTRUCTIONS_LENGTH, REFINE_OPERATIONS } from '@/lib/prompts';
+import { MAX_THREAD_TURNS, THREAD_ROLES } from '@/lib/thread';
+
+// OpenAPI 3.1 description of the versioned public API, served at /api/v1/openapi.json.
+// Keep in step with the request validation in /api/generate and /api/refine.
+export const API_VERSION = '1.0.0';
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const customerInput = {
+  message: { type: 'string', minLength: 10, maxLength: MAX_MESSAGE_LENGTH, description: 'Customer message. Send exactly one of message, thread or email.' },
+  thread: {
+    type: 'array',
+    maxItems: MAX_THREAD_TURNS,
+    items: { $ref: '#/components/schemas/ThreadTurn' },
+    description: 'Conversation, oldest first, ending with a customer turn.',
+  },
+  email: { type: 'string', maxLength: 1_000_000, description: 'Raw RFC 822 message; quoted history and signatures are removed.' },
+  tone: { type: 'string', description: 'Built-in voice name (Friendly, Professional, Concise) or a voice profile ID from /voices.' },
+  language: {
+    type: 'string',
+    default: 'auto',
+    enum: ['auto', ...SUPPORTED_LANGUAGES.map(({ code }) => code)],
+    description: 'Reply language; auto mirrors the customer.',
+  },
+};
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Support Reply API',
+      version: API_VERSION,
+      description: 'Generate and refine customer support reply drafts. Usage is charged to the API key owner\'s daily quota.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/generate': {
+        post: {
+          operationId: 'generateDrafts',
+          summary: 'Generate reply drafts',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/GenerateRequest' } } },
+          },
+          responses: {
+            200: {
+              description: 'Drafts, or a text/event-stream of draft, done and error events when stream is true',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/GenerateResponse' } },
+                'text/event-stream': { schema: { type: 'string' } },
+              },
+            },
+            400: errorResponse('Invalid input'),
+            401: errorResponse('Missing, invalid or revoked API key'),
+            403: errorResponse('The model or feature is not included in the key owner\'s plan'),
+            408: errorResponse('The model timed out'),
+            429: {
+              description: 'Daily or monthly quota used up',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/QuotaError' } } },
+            },
+            500: errorResponse('Generation failed'),
+          },
+        },
+      },
+      '/refine': {
+        post: {
+          operationId: 'refineDraft',
+          summary: 'Revise one draft',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/RefineRequest' } } },
+          },
+          responses: {
+            200: {
+              description: 'The revised draft',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/RefineResponse' } } },
+            },
+            400: errorResponse('Invalid input'),
+            401: errorResponse('Missing, invalid or revoked API key'),
+            403: errorResponse('The model or feature is not included in the key owner\'s plan'),
+            408: errorResponse('The model timed out'),
+            429: {
+              description: 'Daily or monthly quota used up',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/QuotaError' } } },
+            },
+            500: errorResponse('Refinement failed'),
+          },
+        },
+      },
+      '/voices': {
+        get: {
+          operationId: 'listVoices',
+          summary: 'List the voices usable as tone',
+          responses: {
+            200: {
+              description: 'Built-in voices and the key owner\'s own and workspace voices',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['voices'],
+                    properties: { voices: { type: 'array', items: { $ref: '#/components/schemas/Voice' } } },
+                  },
+                },
+              },
+            },
+            401: errorResponse('Missing, invalid or revoked API key'),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `API key created on the API keys page, starting with ${API_KEY_PREFIX}`,
+        },
+      },
+      schemas: {
+        ThreadTurn: {
+          type: 'object',
+          required: ['role', 'content'],
+          properties: {
+            role: { type: 'string', enum: THREAD_ROLES },
+            content: { type: 'string' },
+            timestamp: { type: 'string', format: 'date-time' },
+          },
+        },
+        GenerateRequest: {
+          type: 'object',
+          required: ['tone'],
+          properties: {
+            ...customerInput,
+            translate: { type: 'boolean', default: false, description: 'Also return English translations of non-English drafts.' },
+            model: { type: 'string', maxLength: 100, description: 'Model to use instead of the server default; must be served by the configured provider and allowed by the plan.' },
+            stream: { type: 'boolean', default: false, description: 'Stream drafts as server-sent events.' },
+            placeholders: {
+              type: 'boolean',
+              default: false,
+              description: 'Write {{customer_name}}, {{order_id}} and {{agent_name}} placeholders into the drafts instead of guessing those details.',
+            },
+          },
+        },
+        GenerateResponse: {
+          type: 'object',
+          required: ['drafts', 'quota', 'language'],
+          properties: {
+            drafts: { type: 'array', items: { type: 'string' } },
+            quota: { $ref: '#/components/schemas/Quota' },
+            language: {
+              type: 'object',
+              properties: {
+                detected: { type: ['string', 'null'] },
+                used: { type: ['string', 'null'] },
+              },
+            },
+            thread: {
+              type: 'object',
+              properties: { turns: { type: 'integer' }, omitted: { type: 'integer' } },
+            },
+            translations: { type: 'array', items: { type: 'string' } },
+            sources: {
+              type: 'array',
+              description: 'Knowledge base passages each draft draws on',
+              items: { type: 'array', items: { $ref: '#/components/schemas/Source' } },
+            },
+            historyId: { type: 'string' },
+            entities: {
+              type: 'object',
+              description: 'Values found in the message for the placeholders, present when placeholders were requested',
+              properties: { customer_name: { type: 'string' }, order_id: { type: 'string' } },
+            },
+          },
+        },
+        RefineRequest: {
+          type: 'object',
+          required: ['draft', 'operation', 'tone'],
+          properties: {
+            draft: { type: 'string' },
+            operation: { type: 'string', enum: REFINE_OPERATIONS },
+            instructions: { type: 'string', maxLength: MAX_REFINE_INSTRUCTIONS_LENGTH, description: 'Required for the custom operation.' },
+            placeholders: { type: 'boolean', default: false, description: 'Keep and use {{placeholder}} variables as in generation.' },
+            ...customerInput,
+          },
+        },
+        RefineResponse: {
+          type: 'object',
+          required: ['draft', 'quota'],
+          properties: {
+            draft: { type: 'string' },
+            quota: { $ref: '#/components/schemas/Quota' },
+          },
+        },
+        Voice: {
+          type: 'object',
+          required: ['id', 'name', 'builtin'],
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            builtin: { type: 'boolean' },
+            workspace_id: { type: ['string', 'null'] },
+          },
+        },
+        Source: {
+          type: 'object',
+          properties: {
+            documentId: { type: 'string' },
+            title: { type: 'string' },
+            chunkIndex: { type: 'integer' },
+            snippet: { type: 'string' },
+          },
+        },
+        Quota: {
+          type: 'object',
+          required: ['limit', 'used', 'remaining', 'pro', 'plan'],
+          properties: {
+            limit: { type: ['number', 'null'], description: 'Daily limit; null when unlimited' },
+            used: { type: 'number' },
+            remaining: { type: ['number', 'null'] },
+            pro: { type: 'boolean' },
+            plan: { type: 'string', enum: Object.keys(PLANS) },
+          },
+        },
+        QuotaError: {
+          type: 'object',
+          required: ['error', 'limit', 'remaining', 'pro', 'plan', 'message'],
+          properties: {
+            error: { type: 'string', enum: ['DAILY_LIMIT_REACHED', 'MONTHLY_LIMIT_REACHED'] },
+            limit: { type: 'number' },
+            remaining: { type: 'number' },
+            pro: { type: 'boolean' },
+            plan: { type: 'string', enum: Object.keys(PLANS) },
+            message: { type: 'string' },
+          },
+        },
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: { error: { type: 'string' } },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,98 @@
+// Typed placeholders drafts use for details the agent fills in before copying, e.g.
+// "Hi {{customer_name}}, order {{order_id}} ships today". Shared by the prompt builder,
+// the generate route (prefill values) and the reply cards.
+
+export type PlaceholderKey = 'customer_name' | 'order_id' | 'agent_name';
+
+export type PlaceholderValues = Partial<Record<PlaceholderKey, string>>;
+
+export const PLACEHOLDERS: { key: PlaceholderKey; label: string; description: string }[] = [
+  { key: 'customer_name', label: 'Customer name', description: "the customer's first name" },
+  { key: 'order_id', label: 'Order ID', description: "the customer's order number" },
+  { key: 'agent_name', label: 'Agent name', description: 'the name of the support agent signing the reply' },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi;
+
+export function formatPlaceholder(name: string): string {
+  return `{{${name}}}`;
+}
+
+// Placeholder names in the order they first appear, including any the model made up
+export function findPlaceholders(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1].toLowerCase()))];
+}
+
+// Every placeholder in a draft is required: a draft can't go out with braces in it
+export function findMissingPlaceholders(text: string, values: Record<string, string | undefined>): string[] {
+  return findPlaceholders(text).filter((name) => !values[name]?.trim());
+}
+
+// Replace placeholders that have a value; the rest are left in place
+export function fillPlaceholders(text: string, values: Record<string, string | undefined>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name.toLowerCase()]?.trim() || placeholder);
+}
+
+export function placeholderLabel(name: string): string {
+  return PLACEHOLDERS.find((placeholder) => placeholder.key === name)?.label
+    || name.replace(/_/g, ' ').replace(/^\w/, (letter) => letter.toUpperCase());
+}
+
+// Order references such as "order #A-10293", "order number: 552981" or a bare "#552981";
+// the reference must contain a digit so "order is late" doesn't match
+const ORDER_PATTERNS = [
+  /\border\s*(?:number|no\.?|id|ref(?:erence)?)?\s*(?:is\s*)?[:#]?\s*#?([A-Z0-9][A-Z0-9-]{3,29})\b/gi,
+  /#([0-9][A-Z0-9-]{3,29})\b/gi,
+];
+
+const NAME = "[A-Z\\u00C0-\\u00DE][a-zA-Z\\u00C0-\\u00FF'-]+";
+const INTRODUCTION_PATTERN = new RegExp(`\\bmy name is\\s+(${NAME})`, 'i');
+const SIGN_OFF_PATTERN = /^(?:thanks|thank you|many thanks|regards|kind regards|best regards|best|cheers|sincerely)\b[\s,.!-]*(.*)$/i;
+const SIGNATURE_PATTERN = new RegExp(`^(${NAME})(?:\\s+${NAME}){0,2}$`);
+
+function findOrderId(text: string): string | undefined {
+  for (const pattern of ORDER_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (/\d/.test(match[1])) return match[1];
+    }
+  }
+  return undefined;
+}
+
+// The customer's first name from an introduction ("my name is Ana") or a sign-off
+// ("Thanks,\nAna Lopez"); a capitalised word is required so sentences don't match
+function findCustomerName(text: string): string | undefined {
+  const introduction = text.match(INTRODUCTION_PATTERN)?.[1];
+  if (introduction && /^[A-ZÀ-Þ]/.test(introduction)) return introduction;
+
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const signOff = lines[i].match(SIGN_OFF_PATTERN);
+    if (!signOff) continue;
+
+    // "Thanks, Ana" or the name on the next line
+    const name = [signOff[1], lines[i + 1]]
+      .map((candidate) => candidate?.match(SIGNATURE_PATTERN)?.[1])
+      .find(Boolean);
+    if (name) return name;
+  }
+  return undefined;
+}
+
+// Prefill values for a generation: the order ID anywhere in the conversation, the name
+// from the email's From header or the latest customer text
+export function extractEntities({ message, latestMessage, customerName }: {
+  message: string;
+  latestMessage: string;
+  customerName?: string | null;
+}): PlaceholderValues {
+  const entities: PlaceholderValues = {};
+
+  const name = customerName?.trim().split(/\s+/)[0] || findCustomerName(latestMessage);
+  if (name) entities.customer_name = name;
+
+  const orderId = findOrderId(message);
+  if (orderId) entities.order_id = orderId;
+
+  return entities;
+}
@@ -0,0 +1,158 @@
+// Plan catalog: what each plan costs in Stripe and what it allows. Safe to import
+// on the client; price IDs are read from the environment on the server only.
+import type { ProviderName } from '@/lib/llm/types';
+
+export type PlanId = 'anon' | 'free' | 'pro' | 'pro_annual' | 'team' | 'team_annual';
+
+export type PlanFeature = 'translation' | 'knowledge_base' | 'history' | 'api';
+
+export type BillingInterval = 'month' | 'year';
+
+// Usage-based billing: generations included each calendar month (UTC), with the rest
+// reported to a Stripe meter. Only offered while the metered price is configured.
+export interface OverageBilling {
+  included: number;
+  // Environment variable holding the metered Stripe price ID
+  priceEnv: string;
+}
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  // Null for plans without a subscription
+  interval: BillingInterval | null;
+  // Environment variables holding the Stripe price ID, first set wins
+  priceEnv: string[];
+  // Team plans are billed per seat and their pooled limits scale with seats
+  perSeat: boolean;
+  // Daily limit shown to the user (null = unlimited)
+  dailyLimit: number | null;
+  // Daily limit actually enforced; unlimited plans stop at a safety cap
+  dailyCap: number;
+  // Calendar month (UTC) limit; null = none
+  monthlyLimit: number | null;
+  // Drafts returned per generation
+  maxDrafts: number;
+  features: PlanFeature[];
+  // Models callers may request; the server's configured model is always allowed
+  models: string[];
+  overage: OverageBilling | null;
+}
+
+const ALL_FEATURES: PlanFeature[] = ['translation', 'knowledge_base', 'history', 'api'];
+
+// Requestable models and the provider serving each one
+const MODEL_PROVIDERS: Record<string, ProviderName> = {
+  'gpt-4o-mini': 'openai',
+  'gpt-4o': 'openai',
+  'claude-3-5-haiku-latest': 'anthropic',
+  'claude-3-5-sonnet-latest': 'anthropic',
+};
+
+const PAID_MODELS = Object.keys(MODEL_PROVIDERS);
+
+const PRO_LIMITS = {
+  dailyLimit: null,
+  dailyCap: 1000,
+  monthlyLimit: null,
+  maxDrafts: 3,
+  features: ALL_FEATURES,
+  models: PAID_MODELS,
+  overage: null,
+};
+
+const PRO_OVERAGE: OverageBilling = { included: 2000, priceEnv: 'STRIPE_OVERAGE_PRICE_ID' };
+
+export const PLANS: Record<PlanId, Plan> = {
+  anon: {
+    id: 'anon',
+    name: 'Anonymous',
+    interval: null,
+    priceEnv: [],
+    perSeat: false,
+    dailyLimit: 5,
+    dailyCap: 5,
+    monthlyLimit: null,
+    maxDrafts: 3,
+    features: ['translation'],
+    models: [],
+    overage: null,
+  },
+  free: {
+    id: 'free',
+    name: 'Free',
+    interval: null,
+    priceEnv: [],
+    perSeat: false,
+    dailyLimit: 20,
+    dailyCap: 20,
+    monthlyLimit: null,
+    maxDrafts: 3,
+    features: ALL_FEATURES,
+    models: [],
+    overage: null,
+  },
+  pro: { id: 'pro', name: 'Pro', interval: 'month', priceEnv: ['STRIPE_PRICE_ID'], perSeat: false, ...PRO_LIMITS, overage: PRO_OVERAGE },
+  pro_annual: { id: 'pro_annual', name: 'Pro (annual)', interval: 'year', priceEnv: ['STRIPE_PRO_ANNUAL_PRICE_ID'], perSeat: false, ...PRO_LIMITS, overage: PRO_OVERAGE },
+  // Teams subscribed before the catalog existed were billed with STRIPE_PRICE_ID per seat
+  team: { id: 'team', name: 'Team', interval: 'month', priceEnv: ['STRIPE_TEAM_PRICE_ID', 'STRIPE_PRICE_ID'], perSeat: true, ...PRO_LIMITS },
+  team_annual: { id: 'team_annual', name: 'Team (annual)', interval: 'year', priceEnv: ['STRIPE_TEAM_ANNUAL_PRICE_ID'], perSeat: true, ...PRO_LIMITS },
+};
+
+export class PlanRestrictionError extends Error {}
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANS, value);
+}
+
+// Plans a customer can subscribe to
+export function isPaidPlan(plan: Plan): boolean {
+  return plan.interval !== null;
+}
+
+export function getPlanPriceId(plan: Plan): string | null {
+  for (const name of plan.priceEnv) {
+    if (process.env[name]) return process.env[name]!;
+  }
+  return null;
+}
+
+// Metered price for the plan's overage, null when the plan has none or it isn't configured
+export function getOveragePriceId(plan: Plan): string | null {
+  return plan.overage ? process.env[plan.overage.priceEnv] || null : null;
+}
+
+// Plan for a Stripe price; perSeat disambiguates a price shared by Pro and Team
+export function findPlanByPriceId(priceId: string | null | undefined, perSeat: boolean): Plan | null {
+  if (!priceId) return null;
+  return Object.values(PLANS).find((plan) => plan.perSeat === perSeat && getPlanPriceId(plan) === priceId) || null;
+}
+
+// Effective plan of an entitled subscriber; falls back to the default paid plan when
+// the stored plan is missing or unknown (subscriptions created before the catalog)
+export function resolvePlan(pro: boolean, planId: string | null | undefined, perSeat: boolean = false): Plan {
+  if (!pro) return PLANS.free;
+  if (isPlanId(planId) && isPaidPlan(PLANS[planId]) && PLANS[planId].perSeat === perSeat) {
+    return PLANS[planId];
+  }
+  return perSeat ? PLANS.team : PLANS.pro;
+}
+
+export function hasFeature(plan: Plan, feature: PlanFeature): boolean {
+  return plan.features.includes(feature);
+}
+
+export function assertFeature(plan: Plan, feature: PlanFeature, label: string) {
+  if (!hasFeature(plan, feature)) {
+    throw new PlanRestrictionError(`${label} is not included in the ${plan.name} plan`);
+  }
+}
+
+// Whether the configured provider can run a requested model; its own model always can
+export function isModelServed(model: string, provider: { name: ProviderName; model: string }): boolean {
+  return model === provider.model || MODEL_PROVIDERS[model] === provider.name;
+}
+
+export function isModelAllowed(plan: Plan, model: string, defaultModel: string): boolean {
+  return model === defaultModel || plan.models.includes(model);
+}
@@ -0,0 +1,252 @@
+import { createHash, randomInt } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Codes look like ABCD-EFGH-JKMN, without characters that are easy to misread (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+
+// Characters of the code kept in plain text for display
+const DISPLAY_PREFIX_LENGTH = 4;
+
+export const MAX_BATCH_SIZE = 500;
+const MAX_BATCH_LABEL_LENGTH = 60;
+const MAX_GRANT_DAYS = 366;
+const MAX_GRANT_GENERATIONS = 100000;
+// Custom codes (e.g. PRO-DEMO-2025) after normalization
+const MIN_CODE_LENGTH = 6;
+const MAX_CODE_LENGTH = 40;
+
+// Failed redemption attempts allowed per user within the window
+export const MAX_FAILED_REDEMPTIONS = 5;
+export const REDEMPTION_WINDOW_SECONDS = 15 * 60;
+
+export type PromoGrantType = 'pro_days' | 'generations';
+
+export type RedemptionStatus = 'REDEEMED' | 'RATE_LIMITED' | 'INVALID_CODE' | 'EXPIRED' | 'EXHAUSTED' | 'ALREADY_REDEEMED';
+
+export interface PromoCodeBatchInput {
+  batch: string;
+  grantType: PromoGrantType;
+  grantValue: number;
+  count: number;
+  expiresAt: string | null;
+  maxRedemptions: number | null;
+  // Mint one memorable code instead of random ones
+  code: string | null;
+}
+
+export interface PromoCode {
+  id: string;
+  prefix: string;
+  batch: string;
+  grant_type: PromoGrantType;
+  grant_value: number;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  redemption_count: number;
+  created_at: string;
+}
+
+export interface PromoCodeBatch {
+  batch: string;
+  grantType: PromoGrantType;
+  grantValue: number;
+  codes: number;
+  redemptions: number;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface RedemptionResult {
+  status: RedemptionStatus;
+  grantType: PromoGrantType | null;
+  grantValue: number | null;
+  proUntil: string | null;
+  bonusGenerations: number | null;
+}
+
+export class PromoCodeValidationError extends Error {}
+
+const PROMO_CODE_COLUMNS = 'id, prefix, batch, grant_type, grant_value, expires_at, max_redemptions, redemption_count, created_at';
+
+// Case, spaces and dashes don't matter when typing a code
+export function normalizePromoCode(value: unknown): string {
+  const code = typeof value === 'string' ? value.toUpperCase().replace(/[^A-Z0-9]/g, '') : '';
+  if (code.length < MIN_CODE_LENGTH || code.length > MAX_CODE_LENGTH) {
+    throw new PromoCodeValidationError('Enter a valid code');
+  }
+  return code;
+}
+
+export function hashPromoCode(normalized: string): string {
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export function generatePromoCode(): string {
+  const groups: string[] = [];
+  for (let group = 0; group < CODE_GROUPS; group++) {
+    let chars = '';
+    for (let i = 0; i < CODE_GROUP_LENGTH; i++) {
+      chars += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    groups.push(chars);
+  }
+  return groups.join('-');
+}
+
+function readPositiveInteger(value: unknown, label: string, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new PromoCodeValidationError(`${label} must be a whole number from 1 to ${max}`);
+  }
+  return value;
+}
+
+export function parsePromoCodeBatch(body: unknown): PromoCodeBatchInput {
+  if (!body || typeof body !== 'object') {
+    throw new PromoCodeValidationError('Invalid JSON body');
+  }
+  const input = body as Record<string, unknown>;
+
+  const batch = typeof input.batch === 'string' ? input.batch.trim() : '';
+  if (!batch || batch.length > MAX_BATCH_LABEL_LENGTH) {
+    throw new PromoCodeValidationError(`Batch must be 1-${MAX_BATCH_LABEL_LENGTH} characters`);
+  }
+
+  if (input.grantType !== 'pro_days' && input.grantType !== 'generations') {
+    throw new PromoCodeValidationError('Grant type must be pro_days or generations');
+  }
+  const grantValue = input.grantType === 'pro_days'
+    ? readPositiveInteger(input.grantValue, 'Pro days', MAX_GRANT_DAYS)
+    : readPositiveInteger(input.grantValue, 'Generations', MAX_GRANT_GENERATIONS);
+
+  let expiresAt: string | null = null;
+  if (input.expiresAt !== undefined && input.expiresAt !== null) {
+    const time = typeof input.expiresAt === 'string' ? Date.parse(input.expiresAt) : NaN;
+    if (Number.isNaN(time) || time <= Date.now()) {
+      throw new PromoCodeValidationError('Expiry must be a future ISO date');
+    }
+    expiresAt = new Date(time).toISOString();
+  }
+
+  const maxRedemptions = input.maxRedemptions === undefined || input.maxRedemptions === null
+    ? null
+    : readPositiveInteger(input.maxRedemptions, 'Max redemptions', 1000000);
+
+  const code = input.code === undefined || input.code === null ? null : normalizePromoCode(input.code);
+  const count = code ? 1 : readPositiveInteger(input.count ?? 1, 'Count', MAX_BATCH_SIZE);
+  if (code && input.count !== undefined && input.count !== 1) {
+    throw new PromoCodeValidationError('A custom code is minted on its own');
+  }
+
+  return { batch, grantType: input.grantType, grantValue, count, expiresAt, maxRedemptions, code };
+}
+
+// Returns the codes once; only their hashes are stored. Needs the service role client.
+export async function mintPromoCodes(supabase: SupabaseClient, input: PromoCodeBatchInput): Promise<string[]> {
+  const codes = input.code ? [input.code] : Array.from({ length: input.count }, generatePromoCode);
+
+  const { error } = await supabase.from('promo_codes').insert(
+    codes.map((code) => {
+      const normalized = normalizePromoCode(code);
+      return {
+        code_hash: hashPromoCode(normalized),
+        prefix: normalized.slice(0, DISPLAY_PREFIX_LENGTH),
+        batch: input.batch,
+        grant_type: input.grantType,
+        grant_value: input.grantValue,
+        expires_at: input.expiresAt,
+        max_redemptions: input.maxRedemptions,
+      };
+    })
+  );
+
+  if (error) {
+    // Unique violation on code_hash: the custom code exists (random collisions are negligible)
+    if (error.code === '23505') {
+      throw new PromoCodeValidationError('That code already exists');
+    }
+    throw new Error(`Failed to mint promo codes: ${error.message}`);
+  }
+  return codes;
+}
+
+// Batches with their redemption totals, newest first
+export async function listPromoCodeBatches(supabase: SupabaseClient): Promise<PromoCodeBatch[]> {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select(PROMO_CODE_COLUMNS)
+    .order('created_at', { ascending: false })
+    .returns<PromoCode[]>();
+
+  if (error) {
+    throw new Error(`Failed to list promo codes: ${error.message}`);
+  }
+
+  const batches = new Map<string, PromoCodeBatch>();
+  for (const code of data || []) {
+    const batch = batches.get(code.batch);
+    if (batch) {
+      batch.codes++;
+      batch.redemptions += code.redemption_count;
+      batch.createdAt = code.created_at;
+    } else {
+      batches.set(code.batch, {
+        batch: code.batch,
+        grantType: code.grant_type,
+        grantValue: code.grant_value,
+        codes: 1,
+        redemptions: code.redemption_count,
+        expiresAt: code.expires_at,
+        createdAt: code.created_at,
+      });
+    }
+  }
+  return [...batches.values()];
+}
+
+// Rate limiting, validation and the grant happen in one transaction (redeem_promo_code)
+export async function redeemPromoCode(supabase: SupabaseClient, userId: string, code: string): Promise<RedemptionResult> {
+  const { data, error } = await supabase
+    .rpc('redeem_promo_code', {
+      p_user_id: userId,
+      p_code_hash: hashPromoCode(code),
+      p_max_failed_attempts: MAX_FAILED_REDEMPTIONS,
+      p_window_seconds: REDEMPTION_WINDOW_SECONDS,
+    })
+    .single<{
+      status: RedemptionStatus;
+      grant_type: PromoGrantType | null;
+      grant_value: number | null;
+      pro_until: string | null;
+      bonus_generations: number | string | null;
+    }>();
+
+  if (error || !data) {
+    throw new Error(`Failed to redeem promo code: ${error?.message || 'no result'}`);
+  }
+
+  return {
+    status: data.status,
+    grantType: data.grant_type,
+    grantValue: data.grant_value,
+    proUntil: data.pro_until,
+    bonusGenerations: data.bonus_generations === null ? null : Number(data.bonus_generations),
+  };
+}
+
+// Spend bonus generations from a redeemed code; false when the balance is too low
+export async function spendBonusGenerations(supabase: SupabaseClient, userId: string, amount: number): Promise<boolean> {
+  const { data, error } = await supabase.rpc('adjust_bonus_generations', { p_user_id: userId, p_amount: amount });
+  if (error) {
+    throw new Error(`Failed to spend bonus generations: ${error.message}`);
+  }
+  return data === true;
+}
+
+export async function refundBonusGenerations(supabase: SupabaseClient, userId: string, amount: number): Promise<void> {
+  const { error } = await supabase.rpc('adjust_bonus_generations', { p_user_id: userId, p_amount: -amount });
+  if (error) {
+    throw new Error(`Failed to refund bonus generations: ${error.message}`);
+  }
+}
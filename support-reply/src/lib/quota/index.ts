@@ -0,0 +1,73 @@
+import { createServiceRoleClient } from '@/lib/supabase-server';
+import { createMemoryQuotaStore } from './memory';
+import { createRedisQuotaStore } from './redis';
+import { createSupabaseQuotaStore } from './supabase';
+import { QuotaReservation, QuotaStore, QuotaStoreOptions } from './types';
+
+export * from './types';
+
+// Counters outlive their day so late requests near midnight UTC still see them
+const DEFAULT_TTL_SECONDS = 2 * 24 * 60 * 60;
+// Comfortably longer than the generation timeout, short enough that a crashed request frees its slot quickly
+const DEFAULT_RESERVATION_TTL_SECONDS = 120;
+
+let quotaStore: QuotaStore | null = null;
+
+// QUOTA_STORE, or Supabase when unset. The per-instance memory store is only a default in
+// development: in production it would reset signed-in users' counts on every deploy and
+// not share them between instances, so a missing service role key fails loudly instead.
+function resolveBackend(): string {
+  if (process.env.QUOTA_STORE) return process.env.QUOTA_STORE;
+  if (process.env.SUPABASE_SERVICE_ROLE_KEY) return 'supabase';
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Set SUPABASE_SERVICE_ROLE_KEY (or QUOTA_STORE=redis) so quota counters are durable');
+  }
+
+  console.warn('No SUPABASE_SERVICE_ROLE_KEY: using the in-memory quota store, which resets on restart');
+  return 'memory';
+}
+
+// Resolve the backend; see resolveBackend for the default
+export function getQuotaStore(): QuotaStore {
+  if (quotaStore) return quotaStore;
+
+  const options: QuotaStoreOptions = {
+    ttlSeconds: Number(process.env.QUOTA_TTL_SECONDS) || DEFAULT_TTL_SECONDS,
+    reservationTtlSeconds: Number(process.env.QUOTA_RESERVATION_TTL_SECONDS) || DEFAULT_RESERVATION_TTL_SECONDS,
+  };
+  switch (resolveBackend()) {
+    case 'supabase':
+      quotaStore = createSupabaseQuotaStore(createServiceRoleClient(), options);
+      break;
+    case 'redis': {
+      const url = process.env.REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL;
+      const token = process.env.REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error('Missing REDIS_REST_URL / REDIS_REST_TOKEN for the redis quota store');
+      }
+      quotaStore = createRedisQuotaStore({ url, token }, options);
+      break;
+    }
+    case 'memory':
+      quotaStore = createMemoryQuotaStore(options);
+      break;
+    default:
+      throw new Error('QUOTA_STORE must be one of: memory, supabase, redis');
+  }
+
+  return quotaStore;
+}
+
+// Charge a successful generation; returns the committed count for the day
+export async function commitReservation({ subject, reservationId }: QuotaReservation): Promise<number> {
+  if (!reservationId) {
+    throw new Error('Cannot commit a quota reservation that was not granted');
+  }
+  return getQuotaStore().commit(subject, reservationId);
+}
+
+// Free the slot held for a failed or abandoned generation
+export async function releaseReservation({ subject, reservationId }: QuotaReservation): Promise<void> {
+  if (!reservationId) return;
+  await getQuotaStore().release(subject, reservationId);
+}
@@ -0,0 +1,139 @@
+import {
+  ANON_MERGE_TTL_SECONDS,
+  AnonMergeResult,
+  getQuotaKey,
+  getQuotaMonthKey,
+  getQuotaMonthStart,
+  QUOTA_MONTH_TTL_SECONDS,
+  QuotaReservation,
+  QuotaStore,
+  QuotaStoreOptions,
+  QuotaSubject,
+} from './types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface PendingReservation {
+  cost: number;
+  expiresAt: number;
+}
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+  reservations: Map<string, PendingReservation>;
+}
+
+// Per-instance counters for local dev; not shared between serverless instances
+export function createMemoryQuotaStore({ ttlSeconds, reservationTtlSeconds }: QuotaStoreOptions): QuotaStore {
+  const counters = new Map<string, Counter>();
+  // Calendar-month totals, for monthly plan limits
+  const months = new Map<string, { count: number; expiresAt: number }>();
+  // Merged anonymous session -> user it was merged into
+  const merges = new Map<string, { userId: string; expiresAt: number }>();
+  let lastSweep = Date.now();
+
+  // Drop expired counters so the map stays bounded
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) counters.delete(key);
+    }
+    for (const [key, month] of months) {
+      if (month.expiresAt <= now) months.delete(key);
+    }
+    for (const [sessionId, merge] of merges) {
+      if (merge.expiresAt <= now) merges.delete(sessionId);
+    }
+  };
+
+  const read = (subject: QuotaSubject, now: number): Counter | null => {
+    const counter = counters.get(getQuotaKey(subject));
+    if (!counter || counter.expiresAt <= now) return null;
+
+    for (const [id, { expiresAt }] of counter.reservations) {
+      if (expiresAt <= now) counter.reservations.delete(id);
+    }
+    return counter;
+  };
+
+  const addToMonth = (subject: QuotaSubject, amount: number, now: number) => {
+    const key = getQuotaMonthKey(subject);
+    const month = months.get(key);
+    if (month && month.expiresAt > now) {
+      month.count += amount;
+    } else {
+      months.set(key, { count: amount, expiresAt: now + QUOTA_MONTH_TTL_SECONDS * 1000 });
+    }
+  };
+
+  return {
+    name: 'memory',
+    async get(subject: QuotaSubject): Promise<number> {
+      return read(subject, Date.now())?.count || 0;
+    },
+    async reserve(subject: QuotaSubject, limit: number, cost: number = 1): Promise<QuotaReservation> {
+      const now = Date.now();
+      sweep(now);
+
+      const counter = read(subject, now) || { count: 0, expiresAt: now + ttlSeconds * 1000, reservations: new Map() };
+      let used = counter.count;
+      for (const reservation of counter.reservations.values()) {
+        used += reservation.cost;
+      }
+
+      if (used + cost > limit) {
+        return { allowed: false, used, subject, reservationId: null };
+      }
+
+      const reservationId = crypto.randomUUID();
+      counter.reservations.set(reservationId, { cost, expiresAt: now + reservationTtlSeconds * 1000 });
+      counters.set(getQuotaKey(subject), counter);
+
+      return { allowed: true, used: used + cost, subject, reservationId };
+    },
+    async commit(subject: QuotaSubject, reservationId: string): Promise<number> {
+      const now = Date.now();
+      const counter = read(subject, now);
+      if (!counter) return 0;
+
+      const reservation = counter.reservations.get(reservationId);
+      if (reservation) {
+        counter.reservations.delete(reservationId);
+        counter.count += reservation.cost;
+        addToMonth(subject, reservation.cost, now);
+      }
+      return counter.count;
+    },
+    async release(subject: QuotaSubject, reservationId: string): Promise<void> {
+      read(subject, Date.now())?.reservations.delete(reservationId);
+    },
+    // Daily counters expire after the TTL; only the month total outlives them
+    async getUsageSince(subject: QuotaSubject, fromDay: string): Promise<number | null> {
+      if (fromDay !== getQuotaMonthStart(subject.day)) return null;
+
+      const month = months.get(getQuotaMonthKey(subject));
+      return month && month.expiresAt > Date.now() ? month.count : 0;
+    },
+    async mergeAnon(sessionId: string, into: QuotaSubject, userId: string): Promise<AnonMergeResult> {
+      const now = Date.now();
+      sweep(now);
+
+      const merge = merges.get(sessionId);
+      if (merge && merge.expiresAt > now) {
+        return { status: merge.userId === userId ? 'ALREADY_MERGED' : 'CLAIMED', carried: 0 };
+      }
+      merges.set(sessionId, { userId, expiresAt: now + ANON_MERGE_TTL_SECONDS * 1000 });
+
+      const carried = read({ type: 'anon', id: sessionId, day: into.day }, now)?.count || 0;
+      if (carried > 0) {
+        const counter = read(into, now) || { count: 0, expiresAt: now + ttlSeconds * 1000, reservations: new Map() };
+        counter.count += carried;
+        counters.set(getQuotaKey(into), counter);
+        addToMonth(into, carried, now);
+      }
+      return { status: 'MERGED', carried };
+    },
+  };
+}
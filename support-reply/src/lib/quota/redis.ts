@@ -0,0 +1,147 @@
+import {
+  ANON_MERGE_TTL_SECONDS,
+  AnonMergeResult,
+  AnonMergeStatus,
+  getQuotaKey,
+  getQuotaMonthKey,
+  getQuotaMonthStart,
+  QUOTA_MONTH_TTL_SECONDS,
+  QuotaReservation,
+  QuotaStore,
+  QuotaStoreOptions,
+  QuotaSubject,
+} from './types';
+
+const REDIS_TIMEOUT_MS = 3000;
+
+// Each subject/day has a counter key (committed) and a sorted set of pending
+// reservations scored by expiry; commits also add to the subject's month key. Members are "<uuid>:<cost>" so fractional costs
+// survive until commit. Scripts run atomically on the Redis server and return
+// numbers as strings because Lua floats are truncated in Redis replies.
+const RESERVE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+local used = tonumber(redis.call('GET', KEYS[1]) or '0')
+for _, member in ipairs(redis.call('ZRANGE', KEYS[2], 0, -1)) do
+  used = used + tonumber(string.match(member, ':([^:]+)$'))
+end
+local cost = tonumber(ARGV[6])
+if used + cost > tonumber(ARGV[2]) then
+  return {0, tostring(used)}
+end
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[4])
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+return {1, tostring(used + cost)}
+`;
+
+const COMMIT_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+if redis.call('ZREM', KEYS[2], ARGV[2]) == 1 then
+  local cost = string.match(ARGV[2], ':([^:]+)$')
+  local existed = redis.call('EXISTS', KEYS[1])
+  local committed = redis.call('INCRBYFLOAT', KEYS[1], cost)
+  if existed == 0 then
+    redis.call('EXPIRE', KEYS[1], ARGV[3])
+  end
+  redis.call('INCRBYFLOAT', KEYS[3], cost)
+  redis.call('EXPIRE', KEYS[3], ARGV[4])
+  return committed
+end
+return redis.call('GET', KEYS[1]) or '0'
+`;
+
+// KEYS: merge marker, anonymous counter, target counter, target month. The marker
+// records which user the session was merged into.
+const MERGE_ANON_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'NX', 'EX', ARGV[3]) == false then
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return {'ALREADY_MERGED', '0'}
+  end
+  return {'CLAIMED', '0'}
+end
+local carried = redis.call('GET', KEYS[2]) or '0'
+if tonumber(carried) > 0 then
+  local existed = redis.call('EXISTS', KEYS[3])
+  redis.call('INCRBYFLOAT', KEYS[3], carried)
+  if existed == 0 then
+    redis.call('EXPIRE', KEYS[3], ARGV[2])
+  end
+  redis.call('INCRBYFLOAT', KEYS[4], carried)
+  redis.call('EXPIRE', KEYS[4], ARGV[4])
+end
+return {'MERGED', carried}
+`;
+
+// Redis-compatible store over the Upstash-style REST protocol (one command per POST)
+export function createRedisQuotaStore(
+  { url, token }: { url: string; token: string },
+  { ttlSeconds, reservationTtlSeconds }: QuotaStoreOptions
+): QuotaStore {
+  const command = async <T>(args: (string | number)[]): Promise<T> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args.map(String)),
+      signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+    });
+
+    const data = await response.json();
+    if (!response.ok || data.error) {
+      throw new Error(`Redis command ${args[0]} failed: ${data.error || response.status}`);
+    }
+
+    return data.result as T;
+  };
+
+  const keys = (subject: QuotaSubject) => {
+    const counterKey = getQuotaKey(subject);
+    return [counterKey, `${counterKey}:reservations`];
+  };
+
+  return {
+    name: 'redis',
+    async get(subject: QuotaSubject): Promise<number> {
+      const value = await command<string | null>(['GET', getQuotaKey(subject)]);
+      return Number(value) || 0;
+    },
+    async reserve(subject: QuotaSubject, limit: number, cost: number = 1): Promise<QuotaReservation> {
+      const now = Date.now();
+      const reservationId = `${crypto.randomUUID()}:${cost}`;
+      const [allowed, used] = await command<[number, string]>([
+        'EVAL', RESERVE_SCRIPT, 2, ...keys(subject),
+        now, limit, now + reservationTtlSeconds * 1000, reservationId, ttlSeconds, cost,
+      ]);
+
+      return allowed === 1
+        ? { allowed: true, used: Number(used), subject, reservationId }
+        : { allowed: false, used: Number(used), subject, reservationId: null };
+    },
+    async commit(subject: QuotaSubject, reservationId: string): Promise<number> {
+      const committed = await command<string>([
+        'EVAL', COMMIT_SCRIPT, 3, ...keys(subject), getQuotaMonthKey(subject),
+        Date.now(), reservationId, ttlSeconds, QUOTA_MONTH_TTL_SECONDS,
+      ]);
+      return Number(committed);
+    },
+    async release(subject: QuotaSubject, reservationId: string): Promise<void> {
+      await command<number>(['ZREM', keys(subject)[1], reservationId]);
+    },
+    // Daily keys expire after the TTL; only the month key outlives them
+    async getUsageSince(subject: QuotaSubject, fromDay: string): Promise<number | null> {
+      if (fromDay !== getQuotaMonthStart(subject.day)) return null;
+
+      const value = await command<string | null>(['GET', getQuotaMonthKey(subject)]);
+      return Number(value) || 0;
+    },
+    async mergeAnon(sessionId: string, into: QuotaSubject, userId: string): Promise<AnonMergeResult> {
+      const [status, carried] = await command<[AnonMergeStatus, string]>([
+        'EVAL', MERGE_ANON_SCRIPT, 4,
+        `quota:anon-merge:${sessionId}`, getQuotaKey({ type: 'anon', id: sessionId, day: into.day }), getQuotaKey(into), getQuotaMonthKey(into),
+        userId, ttlSeconds, ANON_MERGE_TTL_SECONDS, QUOTA_MONTH_TTL_SECONDS,
+      ]);
+      return { status, carried: Number(carried) || 0 };
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AnonMergeResult, AnonMergeStatus, QuotaReservation, QuotaStore, QuotaStoreOptions, QuotaSubject } from './types';
+
+interface ReservationRow {
+  allowed: boolean;
+  // numeric columns may arrive as strings
+  used: number | string;
+  reservation_id: string | null;
+}
+
+// Counters in Postgres: signed-in users in daily_quota (kept as usage history),
+// pooled workspaces in workspace_quota, anonymous sessions in anon_quota (expired
+// after the TTL). Every transition goes through the quota_reservation function,
+// which locks the counter row.
+export function createSupabaseQuotaStore(
+  supabase: SupabaseClient,
+  { ttlSeconds, reservationTtlSeconds }: QuotaStoreOptions
+): QuotaStore {
+  const call = async (
+    action: 'reserve' | 'commit' | 'release',
+    { type, id, day }: QuotaSubject,
+    params: { limit?: number; cost?: number; reservationId?: string }
+  ): Promise<ReservationRow> => {
+    const { data, error } = await supabase
+      .rpc('quota_reservation', {
+        p_action: action,
+        p_subject_type: type,
+        p_subject_id: id,
+        p_day: day,
+        p_limit: params.limit ?? null,
+        p_cost: params.cost ?? null,
+        p_reservation_id: params.reservationId ?? null,
+        p_reservation_ttl_seconds: reservationTtlSeconds,
+        p_counter_ttl_seconds: ttlSeconds,
+      })
+      .single<ReservationRow>();
+
+    if (error || !data) {
+      throw new Error(`Failed to ${action} quota: ${error?.message}`);
+    }
+
+    return data;
+  };
+
+  return {
+    name: 'supabase',
+    async get({ type, id, day }: QuotaSubject): Promise<number> {
+      const query = type === 'user'
+        ? supabase.from('daily_quota').select('count').eq('user_id', id).eq('day', day)
+        : type === 'workspace'
+          ? supabase.from('workspace_quota').select('count').eq('workspace_id', id).eq('day', day)
+          : supabase.from('anon_quota').select('count').eq('session_id', id).eq('day', day);
+
+      const { data, error } = await query.maybeSingle();
+      if (error) {
+        throw new Error(`Failed to read quota: ${error.message}`);
+      }
+
+      return Number(data?.count) || 0;
+    },
+    async reserve(subject: QuotaSubject, limit: number, cost: number = 1): Promise<QuotaReservation> {
+      const row = await call('reserve', subject, { limit, cost });
+      return { allowed: row.allowed, used: Number(row.used), subject, reservationId: row.reservation_id };
+    },
+    async commit(subject: QuotaSubject, reservationId: string): Promise<number> {
+      const row = await call('commit', subject, { reservationId });
+      return Number(row.used);
+    },
+    async release(subject: QuotaSubject, reservationId: string): Promise<void> {
+      await call('release', subject, { reservationId });
+    },
+    async getUsageSince({ type, id, day }: QuotaSubject, fromDay: string): Promise<number | null> {
+      // Anonymous counters are deleted once they expire
+      if (type === 'anon') return null;
+
+      const query = type === 'user'
+        ? supabase.from('daily_quota').select('count').eq('user_id', id)
+        : supabase.from('workspace_quota').select('count').eq('workspace_id', id);
+
+      const { data, error } = await query.gte('day', fromDay).lte('day', day);
+      if (error) {
+        throw new Error(`Failed to read quota history: ${error.message}`);
+      }
+
+      return (data || []).reduce((total, row) => total + (Number(row.count) || 0), 0);
+    },
+    async mergeAnon(sessionId: string, { type, id, day }: QuotaSubject, userId: string): Promise<AnonMergeResult> {
+      const { data, error } = await supabase
+        .rpc('merge_anon_quota', {
+          p_session_id: sessionId,
+          p_user_id: userId,
+          p_subject_type: type,
+          p_subject_id: id,
+          p_day: day,
+        })
+        .single<{ status: AnonMergeStatus; carried: number | string }>();
+
+      if (error || !data) {
+        throw new Error(`Failed to merge anonymous quota: ${error?.message}`);
+      }
+
+      return { status: data.status, carried: Number(data.carried) || 0 };
+    },
+  };
+}
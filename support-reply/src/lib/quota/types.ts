@@ -0,0 +1,85 @@
+// Storage contract for daily generation counters
+
+// 'workspace' counts a team's pooled usage
+export type QuotaSubjectType = 'anon' | 'user' | 'workspace';
+
+export interface QuotaSubject {
+  type: QuotaSubjectType;
+  id: string;
+  day: string; // YYYY-MM-DD
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  used: number;
+}
+
+// A held slot: counts against the limit until committed, released or expired
+export interface QuotaReservation extends QuotaResult {
+  subject: QuotaSubject;
+  reservationId: string | null;
+}
+
+// Outcome of carrying an anonymous session over to an account: CLAIMED means the
+// session was already merged into a different user
+export type AnonMergeStatus = 'MERGED' | 'ALREADY_MERGED' | 'CLAIMED';
+
+// Merge markers are kept as long as an anon_session cookie stays valid (30 days)
+export const ANON_MERGE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface AnonMergeResult {
+  status: AnonMergeStatus;
+  // Usage added to the account (0 unless MERGED)
+  carried: number;
+}
+
+// Usage is charged in two phases so failed generations never consume quota:
+// reserve() holds a slot before calling the model, commit() charges it once drafts
+// are returned and release() frees it on failure. Unsettled reservations expire.
+export interface QuotaStore {
+  name: 'memory' | 'supabase' | 'redis';
+  // Committed count for the subject's day (0 when no counter exists)
+  get(subject: QuotaSubject): Promise<number>;
+  // Atomically hold `cost` units if committed + pending + cost stays within limit.
+  // A generation costs 1; cheaper operations (e.g. refinements) reserve a fraction.
+  reserve(subject: QuotaSubject, limit: number, cost?: number): Promise<QuotaReservation>;
+  // Charge a held slot; returns the committed count (unchanged if the reservation expired)
+  commit(subject: QuotaSubject, reservationId: string): Promise<number>;
+  release(subject: QuotaSubject, reservationId: string): Promise<void>;
+  // Committed total from fromDay through the subject's day, or null when the store
+  // can't answer for that range. The memory and redis stores keep one counter per
+  // calendar month, so they only answer when fromDay is the start of the subject's month.
+  getUsageSince(subject: QuotaSubject, fromDay: string): Promise<number | null>;
+  // Add an anonymous session's committed usage for into.day to a user or workspace
+  // counter. A session merges once, into one user (userId); its own counter is kept so
+  // the old cookie doesn't regain an anonymous allowance.
+  mergeAnon(sessionId: string, into: QuotaSubject, userId: string): Promise<AnonMergeResult>;
+}
+
+export interface QuotaStoreOptions {
+  // How long counters live after their day starts
+  ttlSeconds: number;
+  // How long an unsettled reservation holds its slot
+  reservationTtlSeconds: number;
+}
+
+export function getQuotaKey({ type, id, day }: QuotaSubject): string {
+  return `quota:${type}:${id}:${day}`;
+}
+
+// Calendar-month total next to the daily counters, for stores without usage history
+export function getQuotaMonthKey({ type, id, day }: QuotaSubject): string {
+  return `quota:${type}:${id}:month:${day.slice(0, 7)}`;
+}
+
+// Month totals outlive the month so the previous one can still be billed
+export const QUOTA_MONTH_TTL_SECONDS = 62 * 24 * 60 * 60;
+
+export function getQuotaDay(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0]; // YYYY-MM-DD
+}
+
+// First day of the calendar month containing day
+export function getQuotaMonthStart(day: string): string {
+  return `${day.slice(0, 7)}-01`;
+}
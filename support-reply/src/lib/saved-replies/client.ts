@@ -0,0 +1,164 @@
+// Browser access to the saved replies library: the API for signed-in users,
+// localStorage for anonymous visitors (moved into the account on sign-in, see anon-merge)
+import {
+  normalizeSavedReply,
+  normalizeSavedReplyUpdate,
+  parseSavedReplies,
+  detectFormat,
+  SavedReply,
+  SavedReplyFormat,
+  SavedReplyInput,
+  serializeSavedReplies,
+} from './format';
+import type { SavedReplyFilters } from './store';
+
+const LOCAL_STORAGE_KEY = 'supportgen.savedReplies';
+
+export interface SavedRepliesClient {
+  list(filters?: SavedReplyFilters): Promise<SavedReply[]>;
+  create(input: Partial<SavedReplyInput>): Promise<SavedReply>;
+  update(id: string, update: Partial<SavedReplyInput>): Promise<SavedReply>;
+  remove(id: string): Promise<void>;
+  importFile(file: File): Promise<{ imported: number; skipped: number }>;
+  exportAll(format: SavedReplyFormat): Promise<Blob>;
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+function createApiClient(): SavedRepliesClient {
+  return {
+    async list({ query, tag }: SavedReplyFilters = {}) {
+      const params = new URLSearchParams();
+      if (query) params.set('q', query);
+      if (tag) params.set('tag', tag);
+
+      const response = await fetch(`/api/saved-replies?${params}`, { credentials: 'include' });
+      return (await readJson<{ replies: SavedReply[] }>(response)).replies;
+    },
+    async create(input) {
+      const response = await fetch('/api/saved-replies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(input),
+      });
+      return (await readJson<{ reply: SavedReply }>(response)).reply;
+    },
+    async update(id, update) {
+      const response = await fetch(`/api/saved-replies/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(update),
+      });
+      return (await readJson<{ reply: SavedReply }>(response)).reply;
+    },
+    async remove(id) {
+      const response = await fetch(`/api/saved-replies/${id}`, { method: 'DELETE', credentials: 'include' });
+      await readJson(response);
+    },
+    async importFile(file) {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/saved-replies/import', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      return readJson<{ imported: number; skipped: number }>(response);
+    },
+    async exportAll(format) {
+      const response = await fetch(`/api/saved-replies/export?format=${format}`, { credentials: 'include' });
+      if (!response.ok) {
+        await readJson(response);
+      }
+      return response.blob();
+    },
+  };
+}
+
+function readLocalReplies(): SavedReply[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalReplies(replies: SavedReply[]) {
+  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(replies));
+}
+
+function toLocalReply(input: SavedReplyInput): SavedReply {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), ...input, created_at: now, updated_at: now };
+}
+
+// Plain substring matching stands in for Postgres full-text search
+function matchesFilters(reply: SavedReply, { query, tag }: SavedReplyFilters): boolean {
+  if (tag && !reply.tags.includes(tag.toLowerCase())) return false;
+  if (!query?.trim()) return true;
+
+  const haystack = `${reply.title}\n${reply.body}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => haystack.includes(word));
+}
+
+function createLocalClient(): SavedRepliesClient {
+  return {
+    async list(filters = {}) {
+      return readLocalReplies()
+        .filter((reply) => matchesFilters(reply, filters))
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    },
+    async create(input) {
+      const reply = toLocalReply(normalizeSavedReply(input));
+      writeLocalReplies([reply, ...readLocalReplies()]);
+      return reply;
+    },
+    async update(id, update) {
+      const replies = readLocalReplies();
+      const existing = replies.find((reply) => reply.id === id);
+      if (!existing) {
+        throw new Error('Saved reply not found');
+      }
+
+      const updated = { ...existing, ...normalizeSavedReplyUpdate(update), updated_at: new Date().toISOString() };
+      writeLocalReplies(replies.map((reply) => (reply.id === id ? updated : reply)));
+      return updated;
+    },
+    async remove(id) {
+      writeLocalReplies(readLocalReplies().filter((reply) => reply.id !== id));
+    },
+    async importFile(file) {
+      const text = await file.text();
+      const { replies, skipped } = parseSavedReplies(text, detectFormat(file.name, text));
+      writeLocalReplies([...replies.map(toLocalReply), ...readLocalReplies()]);
+      return { imported: replies.length, skipped };
+    },
+    async exportAll(format) {
+      const content = serializeSavedReplies(readLocalReplies(), format);
+      return new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    },
+  };
+}
+
+export function createSavedRepliesClient(signedIn: boolean): SavedRepliesClient {
+  return signedIn ? createApiClient() : createLocalClient();
+}
+
+// Replies saved while anonymous, sent along when the session is merged into an account
+export function readAnonymousReplies(): Pick<SavedReply, 'title' | 'body' | 'tags'>[] {
+  return readLocalReplies().map(({ title, body, tags }) => ({ title, body, tags }));
+}
+
+export function clearAnonymousReplies() {
+  localStorage.removeItem(LOCAL_STORAGE_KEY);
+}
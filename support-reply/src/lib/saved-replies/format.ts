@@ -0,0 +1,211 @@
+// Validation and CSV/JSON serialization for saved replies, shared by the API and the browser
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_BODY_LENGTH = 4000;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_IMPORT_REPLIES = 500;
+
+const CSV_COLUMNS = ['title', 'body', 'tags'] as const;
+// Tags share one CSV cell
+const CSV_TAG_SEPARATOR = ';';
+
+export interface SavedReply {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedReplyInput {
+  title: string;
+  body: string;
+  tags: string[];
+}
+
+export type SavedReplyFormat = 'csv' | 'json';
+
+export class SavedReplyValidationError extends Error {}
+
+export function normalizeTags(raw: unknown): string[] {
+  const values = Array.isArray(raw)
+    ? raw
+    : typeof raw === 'string' ? raw.split(/[;,]/) : [];
+
+  const tags = values
+    .filter((value): value is string => typeof value === 'string')
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+// Derive a title from the first line of the reply
+export function titleFromBody(body: string): string {
+  const firstLine = body.trim().split('\n')[0].trim();
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+function normalizeText(raw: unknown, field: string, maxLength: number): string {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    throw new SavedReplyValidationError(`${field} is required`);
+  }
+  const text = raw.trim().replace(/<[^>]*>/g, '');
+  if (text.length > maxLength) {
+    throw new SavedReplyValidationError(`${field} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+// Validate a full reply; a missing title is derived from the body
+export function normalizeSavedReply(raw: unknown): SavedReplyInput {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const body = normalizeText(data.body, 'Body', MAX_BODY_LENGTH);
+  const title = typeof data.title === 'string' && data.title.trim()
+    ? normalizeText(data.title, 'Title', MAX_TITLE_LENGTH)
+    : titleFromBody(body);
+
+  return { title, body, tags: normalizeTags(data.tags) };
+}
+
+// Validate only the fields present in an update
+export function normalizeSavedReplyUpdate(raw: unknown): Partial<SavedReplyInput> {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const update: Partial<SavedReplyInput> = {};
+
+  if (data.title !== undefined) update.title = normalizeText(data.title, 'Title', MAX_TITLE_LENGTH);
+  if (data.body !== undefined) update.body = normalizeText(data.body, 'Body', MAX_BODY_LENGTH);
+  if (data.tags !== undefined) update.tags = normalizeTags(data.tags);
+
+  if (Object.keys(update).length === 0) {
+    throw new SavedReplyValidationError('Nothing to update');
+  }
+  return update;
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(replies: SavedReplyInput[]): string {
+  const rows = replies.map((reply) => [
+    reply.title,
+    reply.body,
+    reply.tags.join(CSV_TAG_SEPARATOR),
+  ].map(escapeCsvCell).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// RFC 4180 parser: quoted cells may contain commas, doubled quotes and newlines
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function fromCsv(text: string): unknown[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('body')) {
+    throw new SavedReplyValidationError('CSV must have a "body" column');
+  }
+
+  return rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+}
+
+function fromJson(text: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SavedReplyValidationError('File is not valid JSON');
+  }
+
+  // Accept a bare array or an export envelope ({ "replies": [...] })
+  const replies = Array.isArray(parsed) ? parsed : (parsed as { replies?: unknown })?.replies;
+  if (!Array.isArray(replies)) {
+    throw new SavedReplyValidationError('JSON must be an array of replies or { "replies": [...] }');
+  }
+  return replies;
+}
+
+export function detectFormat(fileName: string, text: string): SavedReplyFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+// Validate a batch of imported rows; rows that fail validation are counted, not fatal
+export function normalizeSavedReplies(rows: unknown[]): { replies: SavedReplyInput[]; skipped: number } {
+  if (rows.length > MAX_IMPORT_REPLIES) {
+    throw new SavedReplyValidationError(`Import at most ${MAX_IMPORT_REPLIES} replies at a time`);
+  }
+
+  const replies: SavedReplyInput[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    try {
+      replies.push(normalizeSavedReply(row));
+    } catch {
+      skipped++;
+    }
+  }
+
+  return { replies, skipped };
+}
+
+// Parse and validate an import file
+export function parseSavedReplies(text: string, format: SavedReplyFormat): { replies: SavedReplyInput[]; skipped: number } {
+  return normalizeSavedReplies(format === 'json' ? fromJson(text) : fromCsv(text));
+}
+
+export function serializeSavedReplies(replies: SavedReplyInput[], format: SavedReplyFormat): string {
+  if (format === 'csv') {
+    return toCsv(replies);
+  }
+
+  const exported = replies.map(({ title, body, tags }) => ({ title, body, tags }));
+  return JSON.stringify({ replies: exported }, null, 2);
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SavedReply, SavedReplyInput } from './format';
+
+const SAVED_REPLY_COLUMNS = 'id, title, body, tags, created_at, updated_at';
+const DEFAULT_LIST_LIMIT = 200;
+
+export interface SavedReplyFilters {
+  // Full-text query over title and body
+  query?: string;
+  tag?: string;
+  limit?: number;
+}
+
+export async function listSavedReplies(
+  supabase: SupabaseClient,
+  userId: string,
+  { query, tag, limit = DEFAULT_LIST_LIMIT }: SavedReplyFilters = {}
+): Promise<SavedReply[]> {
+  let request = supabase
+    .from('saved_replies')
+    .select(SAVED_REPLY_COLUMNS)
+    .eq('user_id', userId);
+
+  if (query?.trim()) {
+    request = request.textSearch('search', query.trim(), { type: 'websearch', config: 'english' });
+  }
+  if (tag?.trim()) {
+    request = request.contains('tags', [tag.trim().toLowerCase()]);
+  }
+
+  const { data, error } = await request
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list saved replies: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function createSavedReply(
+  supabase: SupabaseClient,
+  userId: string,
+  reply: SavedReplyInput
+): Promise<SavedReply> {
+  const { data, error } = await supabase
+    .from('saved_replies')
+    .insert({ user_id: userId, ...reply })
+    .select(SAVED_REPLY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save reply: ${error?.message}`);
+  }
+
+  return data;
+}
+
+// Returns null when the reply does not exist or belongs to someone else
+export async function updateSavedReply(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  update: Partial<SavedReplyInput>
+): Promise<SavedReply | null> {
+  const { data, error } = await supabase
+    .from('saved_replies')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(SAVED_REPLY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update saved reply: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function deleteSavedReply(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('saved_replies')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete saved reply: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// Insert many replies in one statement (imports and anonymous library migration)
+export async function importSavedReplies(
+  supabase: SupabaseClient,
+  userId: string,
+  replies: SavedReplyInput[]
+): Promise<number> {
+  if (replies.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('saved_replies')
+    .insert(replies.map((reply) => ({ user_id: userId, ...reply })))
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to import saved replies: ${error.message}`);
+  }
+
+  return data?.length || 0;
+}
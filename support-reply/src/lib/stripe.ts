@@ -0,0 +1,58 @@
+import Stripe from 'stripe';
+
+// Pinned to the version bundled with the installed stripe package
+export const STRIPE_API_VERSION = '2025-08-27.basil';
+
+// Server-side Stripe client (returns null when the secret key is not configured).
+// STRIPE_API_BASE points it at a local mock such as scripts/mock-stripe.mjs.
+export const createStripeClient = (): Stripe | null => {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+
+  if (!secretKey) {
+    return null;
+  }
+
+  const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null;
+
+  return new Stripe(secretKey, {
+    apiVersion: STRIPE_API_VERSION,
+    ...(apiBase ? {
+      host: apiBase.hostname,
+      port: apiBase.port || (apiBase.protocol === 'http:' ? 80 : 443),
+      protocol: apiBase.protocol === 'http:' ? 'http' : 'https',
+    } : {}),
+  });
+};
+
+// Subscription statuses that grant Pro access
+const ENTITLED_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing'];
+
+export const isEntitledStatus = (status: Stripe.Subscription.Status): boolean => {
+  return ENTITLED_STATUSES.includes(status);
+};
+
+// Stripe objects reference related objects either by ID or expanded
+export const getStripeId = (ref: string | { id: string } | null | undefined): string | null => {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+};
+
+const toIsoTime = (seconds: number | null | undefined): string | null => {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+};
+
+// End of the billing period the customer has paid for (kept on the items since API 2025-03-31)
+export const getCurrentPeriodEnd = (subscription: Stripe.Subscription): string | null => {
+  return toIsoTime(subscription.items.data[0]?.current_period_end);
+};
+
+// When a cancelled subscription stops granting access; null while it renews
+export const getCancelAt = (subscription: Stripe.Subscription): string | null => {
+  if (subscription.cancel_at) return toIsoTime(subscription.cancel_at);
+  return subscription.cancel_at_period_end ? getCurrentPeriodEnd(subscription) : null;
+};
+
+// Whether any item of the subscription is billed with the given price
+export const hasSubscriptionPrice = (subscription: Stripe.Subscription, priceId: string | null): boolean => {
+  return Boolean(priceId) && subscription.items.data.some((item) => item.price?.id === priceId);
+};
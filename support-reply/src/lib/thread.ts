@@ -0,0 +1,186 @@
+// Multi-turn conversation input: validation, budget-aware truncation and email chain splitting.
+// Shared by the API and the browser, so it must stay free of server-only imports.
+import { MAX_MESSAGE_LENGTH } from '@/lib/prompts';
+
+export type ThreadRole = 'customer' | 'agent';
+
+export const THREAD_ROLES: ThreadRole[] = ['customer', 'agent'];
+
+export interface ThreadTurn {
+  role: ThreadRole;
+  content: string;
+  // ISO 8601, when known
+  timestamp?: string;
+}
+
+export const MAX_THREAD_TURNS = 50;
+
+// Raw size accepted per turn before truncation; keeps request bodies bounded
+const MAX_TURN_INPUT_LENGTH = 20000;
+
+// Smallest tail of an older turn worth keeping when it only partly fits the budget
+const MIN_PARTIAL_TURN_LENGTH = 200;
+
+export class ThreadValidationError extends Error {}
+
+function normalizeTimestamp(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new ThreadValidationError('Thread timestamps must be ISO 8601 strings');
+  }
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new ThreadValidationError(`Thread timestamp "${value}" is not a valid date`);
+  }
+  return new Date(time).toISOString();
+}
+
+// Validate an ordered (oldest first) list of turns and strip HTML, as sanitizeMessage does
+export function sanitizeThread(raw: unknown): ThreadTurn[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ThreadValidationError('Thread must be a non-empty array of turns');
+  }
+  if (raw.length > MAX_THREAD_TURNS) {
+    throw new ThreadValidationError(`Thread must have at most ${MAX_THREAD_TURNS} turns`);
+  }
+
+  const turns: ThreadTurn[] = [];
+  for (const item of raw) {
+    const turn = (item ?? {}) as Record<string, unknown>;
+    if (!THREAD_ROLES.includes(turn.role as ThreadRole)) {
+      throw new ThreadValidationError(`Thread turn role must be one of: ${THREAD_ROLES.join(', ')}`);
+    }
+    if (typeof turn.content !== 'string') {
+      throw new ThreadValidationError('Thread turn content must be a string');
+    }
+
+    const content = turn.content.substring(0, MAX_TURN_INPUT_LENGTH).replace(/<[^>]*>/g, '').trim();
+    if (!content) continue;
+
+    turns.push({ role: turn.role as ThreadRole, content, timestamp: normalizeTimestamp(turn.timestamp) });
+  }
+
+  if (turns.length === 0 || turns[turns.length - 1].role !== 'customer') {
+    throw new ThreadValidationError('Thread must end with a customer turn');
+  }
+  if (turns.reduce((total, turn) => total + turn.content.length, 0) < 10) {
+    throw new ThreadValidationError('Thread must contain at least 10 characters');
+  }
+
+  return turns;
+}
+
+// Keep the most recent turns within the character budget. The latest turn is always kept
+// (cut to the budget if needed); an older turn that only partly fits keeps its ending.
+export function truncateThread(
+  turns: ThreadTurn[],
+  budget: number = MAX_MESSAGE_LENGTH
+): { turns: ThreadTurn[]; omitted: number } {
+  const kept: ThreadTurn[] = [];
+  let remaining = budget;
+
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const turn = turns[index];
+
+    if (turn.content.length <= remaining) {
+      kept.unshift(turn);
+      remaining -= turn.content.length;
+      continue;
+    }
+
+    if (kept.length === 0) {
+      kept.unshift({ ...turn, content: turn.content.substring(0, remaining) });
+    } else if (remaining >= MIN_PARTIAL_TURN_LENGTH) {
+      kept.unshift({ ...turn, content: `…${turn.content.substring(turn.content.length - remaining + 1)}` });
+    }
+    break;
+  }
+
+  return { turns: kept, omitted: turns.length - kept.length };
+}
+
+// The turn drafts answer; language detection and knowledge retrieval key off it
+export function latestCustomerTurn(turns: ThreadTurn[]): string {
+  return [...turns].reverse().find((turn) => turn.role === 'customer')?.content || '';
+}
+
+function formatTimestamp(timestamp: string): string {
+  return `${timestamp.substring(0, 10)} ${timestamp.substring(11, 16)} UTC`;
+}
+
+// Transcript sent to the model, oldest first
+export function formatThread(turns: ThreadTurn[], omitted = 0): string {
+  const header = omitted > 0 ? `(${omitted} earlier message${omitted === 1 ? '' : 's'} omitted)\n\n` : '';
+
+  return header + turns
+    .map((turn) => {
+      const label = turn.role === 'customer' ? 'CUSTOMER' : 'AGENT';
+      return `[${label}${turn.timestamp ? ` · ${formatTimestamp(turn.timestamp)}` : ''}]\n${turn.content}`;
+    })
+    .join('\n\n');
+}
+
+// Lines that start an older message in a pasted email chain
+const REPLY_HEADER = /^On (.+) wrote:$/;
+const ORIGINAL_MESSAGE = /^-{2,}\s*(?:Original|Forwarded) Message\s*-{2,}$/i;
+const OUTLOOK_FROM = /^From:\s+.+$/;
+const OUTLOOK_FIELD = /^(Sent|Date|To|Cc|Subject):\s*(.*)$/i;
+
+// Header dates come followed by the sender ("Mon, Oct 12, 2026 at 10:00 AM Jane <jane@example.com>"),
+// so cut after the time, or the year when there is no time
+function parseHeaderDate(value: string): string | undefined {
+  const dateText = value.match(/^(.*?\d{1,2}:\d{2}(?:\s?[AP]M)?)/i)?.[1] || value.match(/^(.*?\b\d{4})\b/)?.[1] || value;
+  const time = new Date(dateText.replace(/\s+at\s+/i, ' ').replace(/^[A-Za-z]+,\s*/, '')).getTime();
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// Split a pasted email chain (newest first, as mail clients quote it) into turns, oldest first.
+// Roles alternate starting with the customer on the newest message; the editor lets the agent fix them.
+export function splitEmailChain(text: string): ThreadTurn[] {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    // Mail clients wrap long "On ... wrote:" lines
+    .replace(/^(On [^\n]+)\n([^\n]*wrote:)$/gm, '$1 $2')
+    .split('\n')
+    // Flatten every quote level; the reply headers still mark the boundaries
+    .map((line) => line.replace(/^(?:\s*>)+ ?/, ''));
+
+  const segments: { lines: string[]; timestamp?: string }[] = [{ lines: [] }];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const replyHeader = line.match(REPLY_HEADER);
+
+    if (replyHeader) {
+      segments.push({ lines: [], timestamp: parseHeaderDate(replyHeader[1]) });
+    } else if (ORIGINAL_MESSAGE.test(line) || OUTLOOK_FROM.test(line)) {
+      const segment: { lines: string[]; timestamp?: string } = { lines: [] };
+      // Consume the header block (From/Sent/To/Subject) up to the first blank line
+      let next = index + 1;
+      while (next < lines.length && (OUTLOOK_FROM.test(lines[next].trim()) || OUTLOOK_FIELD.test(lines[next].trim()))) {
+        const field = lines[next].trim().match(OUTLOOK_FIELD);
+        if (field && /^(sent|date)$/i.test(field[1])) {
+          segment.timestamp = parseHeaderDate(field[2]);
+        }
+        next++;
+      }
+      index = next - 1;
+      segments.push(segment);
+    } else {
+      segments[segments.length - 1].lines.push(lines[index]);
+    }
+  }
+
+  const newestFirst = segments
+    .map((segment) => ({ content: segment.lines.join('\n').trim(), timestamp: segment.timestamp }))
+    .filter((segment) => segment.content);
+
+  return newestFirst
+    .map((segment, index): ThreadTurn => ({
+      role: index % 2 === 0 ? 'customer' : 'agent',
+      content: segment.content,
+      timestamp: segment.timestamp,
+    }))
+    .reverse();
+}
@@ -0,0 +1,260 @@
+import type Stripe from 'stripe';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { resolvePlan } from '@/lib/plans';
+import { getQuotaDay, getQuotaMonthStart, getQuotaStore } from '@/lib/quota';
+
+// Metered overage for Pro. Generations past the plan's monthly allowance are reported
+// to a Stripe meter by a batch job that reads month totals from the quota store; see
+// reportOverageUsage.
+
+const DEFAULT_METER_EVENT = 'reply_generations';
+
+// Profiles handled per batch of queries
+const REPORT_BATCH_SIZE = 100;
+
+// Usage from the last days of the previous month is still reported this many days in
+// (Stripe accepts meter events up to 35 days old)
+const PREVIOUS_MONTH_GRACE_DAYS = 3;
+
+const REPORT_MAX_NETWORK_RETRIES = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getMeterEventName(): string {
+  return process.env.STRIPE_OVERAGE_METER_EVENT || DEFAULT_METER_EVENT;
+}
+
+// Whole generations over the allowance; fractional refinements are billed once they add up
+export function computeOverage(used: number, included: number): number {
+  return Math.max(0, Math.floor(used - included));
+}
+
+function getMonthEnd(month: string): Date {
+  const start = new Date(`${month}T00:00:00Z`);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+// Month total at the current pace, from usage so far
+export function projectMonthlyUsage(used: number, now: Date = new Date()): number {
+  const month = getQuotaMonthStart(getQuotaDay(now));
+  const start = new Date(`${month}T00:00:00Z`).getTime();
+  const end = getMonthEnd(month).getTime();
+  // Count at least one day so an early-morning burst isn't extrapolated wildly
+  const elapsed = Math.max(now.getTime() - start, DAY_MS);
+  return Math.round((used / elapsed) * (end - start));
+}
+
+interface OverageProfile {
+  user_id: string;
+  stripe_customer_id: string;
+  plan: string | null;
+}
+
+interface UsageReportRow {
+  user_id: string;
+  reported: number | string;
+  pending: number | string | null;
+}
+
+export interface UsageReportSummary {
+  month: string;
+  customers: number;
+  reported: number;
+  unchanged: number;
+  failed: number;
+}
+
+// Same event for the same month total, so Stripe drops a resend after a crash or retry
+function getMeterEventIdentifier(userId: string, month: string, total: number): string {
+  return `overage-${userId}-${month}-${total}`;
+}
+
+async function sendMeterEvent(
+  stripe: Stripe,
+  profile: OverageProfile,
+  month: string,
+  total: number,
+  value: number,
+  now: Date
+) {
+  const identifier = getMeterEventIdentifier(profile.user_id, month, total);
+  // Past months are stamped at their last second so the usage lands in that period
+  const timestamp = Math.floor(Math.min(now.getTime(), getMonthEnd(month).getTime() - 1000) / 1000);
+
+  await stripe.billing.meterEvents.create(
+    {
+      event_name: getMeterEventName(),
+      identifier,
+      timestamp,
+      payload: { stripe_customer_id: profile.stripe_customer_id, value: String(value) },
+    },
+    { idempotencyKey: identifier, maxNetworkRetries: REPORT_MAX_NETWORK_RETRIES }
+  );
+}
+
+async function commitReport(supabase: SupabaseClient, userId: string, month: string, total: number) {
+  const { error } = await supabase
+    .from('usage_reports')
+    .update({ reported: total, pending: null, reported_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('month', month)
+    .eq('pending', total);
+  if (error) {
+    throw new Error(`Failed to record usage report: ${error.message}`);
+  }
+}
+
+// Bring one customer's reported overage up to date. A report is claimed by writing
+// `pending` (only if nothing else changed the row), sent, then committed; an unfinished
+// claim from an earlier run is resent first with its original identifier.
+async function reportCustomer(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  profile: OverageProfile,
+  month: string,
+  used: number,
+  row: UsageReportRow | undefined,
+  now: Date
+): Promise<boolean> {
+  const included = resolvePlan(true, profile.plan).overage?.included;
+  if (included === undefined) return false;
+
+  let reported = Number(row?.reported) || 0;
+  let sent = false;
+  if (row?.pending !== null && row?.pending !== undefined) {
+    const pending = Number(row.pending);
+    await sendMeterEvent(stripe, profile, month, pending, pending - reported, now);
+    await commitReport(supabase, profile.user_id, month, pending);
+    reported = pending;
+    sent = true;
+  }
+
+  const total = computeOverage(used, included);
+  if (total <= reported) return sent;
+
+  const { data: claimed, error } = await supabase
+    .from('usage_reports')
+    .update({ pending: total, stripe_customer_id: profile.stripe_customer_id })
+    .eq('user_id', profile.user_id)
+    .eq('month', month)
+    .eq('reported', reported)
+    .is('pending', null)
+    .select('user_id');
+  if (error) {
+    throw new Error(`Failed to claim usage report: ${error.message}`);
+  }
+  if (!claimed?.length) {
+    // Another run is reporting this customer
+    return sent;
+  }
+
+  await sendMeterEvent(stripe, profile, month, total, total - reported, now);
+  await commitReport(supabase, profile.user_id, month, total);
+  return true;
+}
+
+async function reportMonth(supabase: SupabaseClient, stripe: Stripe, month: string, now: Date): Promise<UsageReportSummary> {
+  const summary: UsageReportSummary = { month, customers: 0, reported: 0, unchanged: 0, failed: 0 };
+  const lastDay = getQuotaDay(new Date(getMonthEnd(month).getTime() - DAY_MS));
+  const store = getQuotaStore();
+
+  for (let from = 0; ; from += REPORT_BATCH_SIZE) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('user_id, stripe_customer_id, plan')
+      .eq('overage_billing', true)
+      .not('stripe_customer_id', 'is', null)
+      .order('user_id')
+      .range(from, from + REPORT_BATCH_SIZE - 1)
+      .returns<OverageProfile[]>();
+    if (profilesError) {
+      throw new Error(`Failed to list metered customers: ${profilesError.message}`);
+    }
+    if (!profiles?.length) break;
+
+    const userIds = profiles.map(({ user_id }) => user_id);
+
+    // Workspace members are on the workspace's plan, which has no overage (as in /api/usage);
+    // they still go through reportCustomer so an unfinished claim is resent
+    const { data: members, error: membersError } = await supabase
+      .from('workspace_members')
+      .select('user_id')
+      .in('user_id', userIds)
+      .returns<{ user_id: string }[]>();
+    if (membersError) {
+      throw new Error(`Failed to read workspace memberships: ${membersError.message}`);
+    }
+    const memberIds = new Set((members || []).map(({ user_id }) => user_id));
+
+    // Every customer gets a ledger row so claims are always conditional updates
+    const { error: seedError } = await supabase
+      .from('usage_reports')
+      .upsert(
+        profiles.map(({ user_id, stripe_customer_id }) => ({ user_id, month, stripe_customer_id })),
+        { onConflict: 'user_id,month', ignoreDuplicates: true }
+      );
+    if (seedError) {
+      throw new Error(`Failed to prepare usage reports: ${seedError.message}`);
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('usage_reports')
+      .select('user_id, reported, pending')
+      .eq('month', month)
+      .in('user_id', userIds)
+      .returns<UsageReportRow[]>();
+    if (rowsError) {
+      throw new Error(`Failed to read usage reports: ${rowsError.message}`);
+    }
+    const ledger = new Map((rows || []).map((row) => [row.user_id, row]));
+
+    for (const profile of profiles) {
+      summary.customers++;
+      try {
+        const used = memberIds.has(profile.user_id)
+          ? 0
+          : await store.getUsageSince({ type: 'user', id: profile.user_id, day: lastDay }, month);
+        if (used === null) {
+          throw new Error(`The ${store.name} quota store has no total for ${month}`);
+        }
+
+        const sent = await reportCustomer(supabase, stripe, profile, month, used, ledger.get(profile.user_id), now);
+        if (sent) {
+          summary.reported++;
+        } else {
+          summary.unchanged++;
+        }
+      } catch (error: unknown) {
+        // The claim stays pending and is resent by the next run
+        summary.failed++;
+        console.error(`Overage report for ${profile.user_id} (${month}) failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (profiles.length < REPORT_BATCH_SIZE) break;
+  }
+
+  return summary;
+}
+
+// Report overage for every metered customer: the current month, plus the previous one
+// during the first days of a month. Safe to run repeatedly and to retry after failures.
+export async function reportOverageUsage(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  now: Date = new Date()
+): Promise<UsageReportSummary[]> {
+  const today = getQuotaDay(now);
+  const month = getQuotaMonthStart(today);
+  const months = [month];
+
+  if (now.getUTCDate() <= PREVIOUS_MONTH_GRACE_DAYS) {
+    months.unshift(getQuotaMonthStart(getQuotaDay(new Date(new Date(`${month}T00:00:00Z`).getTime() - DAY_MS))));
+  }
+
+  const summaries: UsageReportSummary[] = [];
+  for (const reportedMonth of months) {
+    summaries.push(await reportMonth(supabase, stripe, reportedMonth, now));
+  }
+  return summaries;
+}
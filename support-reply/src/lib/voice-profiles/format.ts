@@ -0,0 +1,154 @@
+// Brand voice profiles: types, the built-in voices and validation, shared by the API and the browser
+
+export type Formality = 'casual' | 'neutral' | 'formal';
+export type EmojiPolicy = 'none' | 'sparing' | 'allowed';
+
+export const FORMALITY_LEVELS: Formality[] = ['casual', 'neutral', 'formal'];
+export const EMOJI_POLICIES: EmojiPolicy[] = ['none', 'sparing', 'allowed'];
+
+export const MAX_NAME_LENGTH = 40;
+export const MAX_DESCRIPTION_LENGTH = 500;
+export const MAX_EXAMPLES = 5;
+export const MAX_EXAMPLE_LENGTH = 1000;
+export const MAX_SIGN_OFF_LENGTH = 120;
+export const MAX_BANNED_PHRASES = 20;
+export const MAX_BANNED_PHRASE_LENGTH = 60;
+
+export interface VoiceProfileInput {
+  name: string;
+  description: string;
+  // Sample replies whose style the drafts should match
+  examples: string[];
+  formality: Formality;
+  emoji_policy: EmojiPolicy;
+  sign_off: string | null;
+  banned_phrases: string[];
+}
+
+export interface VoiceProfile extends VoiceProfileInput {
+  // Built-in voices use their name as ID, so API callers sending `tone: "Friendly"` keep working
+  id: string;
+  builtin: boolean;
+  // Set for voices shared by a team workspace
+  workspace_id: string | null;
+}
+
+function builtinVoice(name: string, description: string, formality: Formality): VoiceProfile {
+  return {
+    id: name,
+    name,
+    description,
+    examples: [],
+    formality,
+    emoji_policy: 'none',
+    sign_off: null,
+    banned_phrases: [],
+    builtin: true,
+    workspace_id: null,
+  };
+}
+
+// The original three tones, seeded as default profiles available to everyone
+export const DEFAULT_VOICE_PROFILES: VoiceProfile[] = [
+  builtinVoice('Friendly', 'Warm, upbeat and empathetic, like a helpful colleague.', 'casual'),
+  builtinVoice('Professional', 'Courteous, precise and composed. No slang.', 'formal'),
+  builtinVoice('Concise', 'Short and direct. Get to the resolution in as few words as possible.', 'neutral'),
+];
+
+export function findDefaultVoice(id: string): VoiceProfile | undefined {
+  const key = id.trim().toLowerCase();
+  return DEFAULT_VOICE_PROFILES.find((voice) => voice.id.toLowerCase() === key);
+}
+
+// Longest `tone` a request may name (built-in names and profile IDs are far shorter)
+export const MAX_TONE_LENGTH = 64;
+
+// Shown when a request's `tone` names no voice the caller can use
+export const TONE_ERROR = 'Tone must be Friendly, Professional, Concise or the ID of one of your voice profiles';
+
+export class VoiceProfileValidationError extends Error {}
+
+function normalizeText(raw: unknown, field: string, maxLength: number, required = false): string {
+  if (raw === undefined || raw === null || raw === '') {
+    if (required) throw new VoiceProfileValidationError(`${field} is required`);
+    return '';
+  }
+  if (typeof raw !== 'string') {
+    throw new VoiceProfileValidationError(`${field} must be a string`);
+  }
+
+  const text = raw.trim().replace(/<[^>]*>/g, '');
+  if (required && !text) {
+    throw new VoiceProfileValidationError(`${field} is required`);
+  }
+  if (text.length > maxLength) {
+    throw new VoiceProfileValidationError(`${field} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+function normalizeList(raw: unknown, field: string, maxItems: number, maxLength: number): string[] {
+  const values = Array.isArray(raw)
+    ? raw
+    : typeof raw === 'string' ? raw.split('\n') : [];
+
+  const items = values
+    .map((value) => normalizeText(value, field, maxLength))
+    .filter(Boolean);
+
+  if (items.length > maxItems) {
+    throw new VoiceProfileValidationError(`At most ${maxItems} ${field.toLowerCase()} are allowed`);
+  }
+  return [...new Set(items)];
+}
+
+function normalizeName(raw: unknown): string {
+  const name = normalizeText(raw, 'Name', MAX_NAME_LENGTH, true);
+  if (findDefaultVoice(name)) {
+    throw new VoiceProfileValidationError(`"${name}" is a built-in voice; choose another name`);
+  }
+  return name;
+}
+
+function normalizeChoice<T extends string>(raw: unknown, field: string, options: T[]): T {
+  if (typeof raw !== 'string' || !options.includes(raw as T)) {
+    throw new VoiceProfileValidationError(`${field} must be one of: ${options.join(', ')}`);
+  }
+  return raw as T;
+}
+
+// Validate a full profile; everything but the name has a default
+export function normalizeVoiceProfile(raw: unknown): VoiceProfileInput {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  return {
+    name: normalizeName(data.name),
+    description: normalizeText(data.description, 'Description', MAX_DESCRIPTION_LENGTH),
+    examples: normalizeList(data.examples, 'Examples', MAX_EXAMPLES, MAX_EXAMPLE_LENGTH),
+    formality: data.formality === undefined ? 'neutral' : normalizeChoice(data.formality, 'Formality', FORMALITY_LEVELS),
+    emoji_policy: data.emoji_policy === undefined ? 'none' : normalizeChoice(data.emoji_policy, 'Emoji policy', EMOJI_POLICIES),
+    sign_off: normalizeText(data.sign_off, 'Sign-off', MAX_SIGN_OFF_LENGTH) || null,
+    banned_phrases: normalizeList(data.banned_phrases, 'Banned phrases', MAX_BANNED_PHRASES, MAX_BANNED_PHRASE_LENGTH),
+  };
+}
+
+// Validate only the fields present in an update
+export function normalizeVoiceProfileUpdate(raw: unknown): Partial<VoiceProfileInput> {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const update: Partial<VoiceProfileInput> = {};
+
+  if (data.name !== undefined) update.name = normalizeName(data.name);
+  if (data.description !== undefined) update.description = normalizeText(data.description, 'Description', MAX_DESCRIPTION_LENGTH);
+  if (data.examples !== undefined) update.examples = normalizeList(data.examples, 'Examples', MAX_EXAMPLES, MAX_EXAMPLE_LENGTH);
+  if (data.formality !== undefined) update.formality = normalizeChoice(data.formality, 'Formality', FORMALITY_LEVELS);
+  if (data.emoji_policy !== undefined) update.emoji_policy = normalizeChoice(data.emoji_policy, 'Emoji policy', EMOJI_POLICIES);
+  if (data.sign_off !== undefined) update.sign_off = normalizeText(data.sign_off, 'Sign-off', MAX_SIGN_OFF_LENGTH) || null;
+  if (data.banned_phrases !== undefined) {
+    update.banned_phrases = normalizeList(data.banned_phrases, 'Banned phrases', MAX_BANNED_PHRASES, MAX_BANNED_PHRASE_LENGTH);
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new VoiceProfileValidationError('Nothing to update');
+  }
+  return update;
+}
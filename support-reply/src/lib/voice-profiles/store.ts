@@ -0,0 +1,152 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_VOICE_PROFILES,
+  findDefaultVoice,
+  VoiceProfile,
+  VoiceProfileInput,
+  VoiceProfileValidationError,
+} from './format';
+
+const VOICE_PROFILE_COLUMNS = 'id, name, description, examples, formality, emoji_policy, sign_off, banned_phrases, workspace_id';
+
+type VoiceProfileRow = Omit<VoiceProfile, 'builtin'>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Personal voices are owned by a user; workspace voices are shared by every member
+export type VoiceProfileOwner = { userId: string } | { workspaceId: string };
+
+function toProfile(row: VoiceProfileRow): VoiceProfile {
+  return { ...row, builtin: false };
+}
+
+function ownerColumns(owner: VoiceProfileOwner): Record<string, string> {
+  return 'userId' in owner ? { user_id: owner.userId } : { workspace_id: owner.workspaceId };
+}
+
+// Filter for callers using the service-role client, which RLS doesn't scope: the user's own
+// voices plus their workspace's
+function readableBy(userId: string, workspaceId: string | null): string {
+  return workspaceId ? `user_id.eq.${userId},workspace_id.eq.${workspaceId}` : `user_id.eq.${userId}`;
+}
+
+// Built-in voices first, then the workspace's and the user's own (RLS limits rows to those).
+// Service-role callers pass the user's workspace ID (null when none) to apply the same limit.
+export async function listVoiceProfiles(
+  supabase: SupabaseClient,
+  userId: string | null,
+  workspaceId?: string | null
+): Promise<VoiceProfile[]> {
+  if (!userId) return DEFAULT_VOICE_PROFILES;
+
+  let query = supabase
+    .from('voice_profiles')
+    .select(VOICE_PROFILE_COLUMNS)
+    .order('name', { ascending: true });
+  if (workspaceId !== undefined) {
+    query = query.or(readableBy(userId, workspaceId));
+  }
+
+  const { data, error } = await query.returns<VoiceProfileRow[]>();
+
+  if (error) {
+    throw new Error(`Failed to list voice profiles: ${error.message}`);
+  }
+
+  return [...DEFAULT_VOICE_PROFILES, ...(data || []).map(toProfile)];
+}
+
+// Resolve the `tone` a request names: a built-in voice name or the ID of a profile
+// the user can read. Returns null when there is no such voice. Service-role callers pass
+// the user's workspace ID as in listVoiceProfiles.
+export async function resolveVoiceProfile(
+  supabase: SupabaseClient,
+  userId: string | null,
+  id: string,
+  workspaceId?: string | null
+): Promise<VoiceProfile | null> {
+  const builtin = findDefaultVoice(id);
+  if (builtin) return builtin;
+  if (!userId || !UUID_PATTERN.test(id)) return null;
+
+  let query = supabase
+    .from('voice_profiles')
+    .select(VOICE_PROFILE_COLUMNS)
+    .eq('id', id);
+  if (workspaceId !== undefined) {
+    query = query.or(readableBy(userId, workspaceId));
+  }
+
+  const { data, error } = await query.maybeSingle<VoiceProfileRow>();
+
+  if (error) {
+    throw new Error(`Failed to read voice profile: ${error.message}`);
+  }
+
+  return data ? toProfile(data) : null;
+}
+
+export async function createVoiceProfile(
+  supabase: SupabaseClient,
+  owner: VoiceProfileOwner,
+  profile: VoiceProfileInput
+): Promise<VoiceProfile> {
+  const { data, error } = await supabase
+    .from('voice_profiles')
+    .insert({ ...ownerColumns(owner), ...profile })
+    .select(VOICE_PROFILE_COLUMNS)
+    .single<VoiceProfileRow>();
+
+  if (error?.code === '23505') {
+    throw new VoiceProfileValidationError(`A voice named "${profile.name}" already exists`);
+  }
+  if (error || !data) {
+    throw new Error(`Failed to create voice profile: ${error?.message}`);
+  }
+
+  return toProfile(data);
+}
+
+// Returns null when the profile does not exist or belongs to someone else
+export async function updateVoiceProfile(
+  supabase: SupabaseClient,
+  owner: VoiceProfileOwner,
+  id: string,
+  update: Partial<VoiceProfileInput>
+): Promise<VoiceProfile | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const { data, error } = await supabase
+    .from('voice_profiles')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .match(ownerColumns(owner))
+    .select(VOICE_PROFILE_COLUMNS)
+    .maybeSingle<VoiceProfileRow>();
+
+  if (error?.code === '23505') {
+    throw new VoiceProfileValidationError(`A voice named "${update.name}" already exists`);
+  }
+  if (error) {
+    throw new Error(`Failed to update voice profile: ${error.message}`);
+  }
+
+  return data ? toProfile(data) : null;
+}
+
+export async function deleteVoiceProfile(supabase: SupabaseClient, owner: VoiceProfileOwner, id: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(id)) return false;
+
+  const { data, error } = await supabase
+    .from('voice_profiles')
+    .delete()
+    .eq('id', id)
+    .match(ownerColumns(owner))
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete voice profile: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
@@ -0,0 +1,391 @@
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { isEntitlementCurrent } from '@/lib/billing';
+
+// Team workspaces. Members can read their workspace through RLS; every change
+// goes through the API with the service role client after a role check here.
+
+export type WorkspaceRole = 'owner' | 'admin' | 'agent';
+
+export const INVITE_ROLES: WorkspaceRole[] = ['admin', 'agent'];
+export const MAX_SEATS = 500;
+
+const INVITE_TTL_DAYS = 7;
+const WORKSPACE_COLUMNS = 'id, name, owner_id, pro, seats, pooled_quota, subscription_status, stripe_subscription_id, plan, cancel_at, current_period_end, created_at';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  pro: boolean;
+  seats: number;
+  pooled_quota: boolean;
+  subscription_status: string | null;
+  stripe_subscription_id: string | null;
+  // Catalog plan ID; null for subscriptions from before plans existed
+  plan: string | null;
+  // Set once the subscription is cancelled; Pro lasts until then
+  cancel_at: string | null;
+  current_period_end: string | null;
+  created_at: string;
+}
+
+export interface WorkspaceMembership {
+  workspace: Workspace;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expires_at: string;
+  created_at: string;
+}
+
+export type WorkspaceErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID_INPUT' | 'NO_SEATS';
+
+export class WorkspaceError extends Error {
+  constructor(public code: WorkspaceErrorCode, message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+const ERROR_STATUS: Record<WorkspaceErrorCode, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  INVALID_INPUT: 400,
+  NO_SEATS: 409,
+};
+
+export function workspaceErrorStatus(error: WorkspaceError): number {
+  return ERROR_STATUS[error.code];
+}
+
+export function canManageMembers(role: WorkspaceRole): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+interface MembershipRow {
+  role: WorkspaceRole;
+  workspaces: Workspace | null;
+}
+
+// The user's workspace and role, or null when they are not in one
+export async function getMembership(supabase: SupabaseClient, userId: string): Promise<WorkspaceMembership | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select(`role, workspaces (${WORKSPACE_COLUMNS})`)
+    .eq('user_id', userId)
+    .maybeSingle<MembershipRow>();
+
+  if (error) {
+    throw new Error(`Failed to read workspace membership: ${error.message}`);
+  }
+  if (!data?.workspaces) return null;
+
+  const { count, error: countError } = await supabase
+    .from('workspace_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('workspace_id', data.workspaces.id);
+
+  if (countError) {
+    throw new Error(`Failed to count workspace members: ${countError.message}`);
+  }
+
+  const workspace = { ...data.workspaces, pro: isEntitlementCurrent(data.workspaces.pro, data.workspaces.cancel_at) };
+  return { workspace, role: data.role, memberCount: count || 1 };
+}
+
+// Load the caller's membership and require one of the given roles
+export async function requireMembership(
+  supabase: SupabaseClient,
+  userId: string,
+  roles: WorkspaceRole[] = ['owner', 'admin', 'agent']
+): Promise<WorkspaceMembership> {
+  const membership = await getMembership(supabase, userId);
+  if (!membership) {
+    throw new WorkspaceError('NOT_FOUND', 'You are not in a workspace');
+  }
+  if (!roles.includes(membership.role)) {
+    throw new WorkspaceError('FORBIDDEN', `Only ${roles.join(' or ')} members can do this`);
+  }
+  return membership;
+}
+
+export async function createWorkspace(admin: SupabaseClient, userId: string, name: string): Promise<Workspace> {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > 80) {
+    throw new WorkspaceError('INVALID_INPUT', 'Workspace name must be 1-80 characters');
+  }
+
+  if (await getMembership(admin, userId)) {
+    throw new WorkspaceError('CONFLICT', 'You already belong to a workspace');
+  }
+
+  const { data: workspace, error } = await admin
+    .from('workspaces')
+    .insert({ name: trimmed, owner_id: userId })
+    .select(WORKSPACE_COLUMNS)
+    .single<Workspace>();
+
+  if (error || !workspace) {
+    throw new Error(`Failed to create workspace: ${error?.message}`);
+  }
+
+  const { error: memberError } = await admin
+    .from('workspace_members')
+    .insert({ workspace_id: workspace.id, user_id: userId, role: 'owner' });
+
+  if (memberError) {
+    await admin.from('workspaces').delete().eq('id', workspace.id);
+    if (memberError.code === '23505') {
+      throw new WorkspaceError('CONFLICT', 'You already belong to a workspace');
+    }
+    throw new Error(`Failed to add workspace owner: ${memberError.message}`);
+  }
+
+  return workspace;
+}
+
+export async function updateWorkspace(
+  admin: SupabaseClient,
+  workspaceId: string,
+  update: { name?: string; pooled_quota?: boolean; seats?: number }
+): Promise<Workspace> {
+  const { data, error } = await admin
+    .from('workspaces')
+    .update(update)
+    .eq('id', workspaceId)
+    .select(WORKSPACE_COLUMNS)
+    .single<Workspace>();
+
+  if (error || !data) {
+    throw new Error(`Failed to update workspace: ${error?.message}`);
+  }
+
+  return data;
+}
+
+interface MemberRow {
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+  profiles: { email: string | null } | null;
+}
+
+export async function listMembers(supabase: SupabaseClient, workspaceId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id, role, created_at, profiles (email)')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true })
+    .returns<MemberRow[]>();
+
+  if (error) {
+    throw new Error(`Failed to list workspace members: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    user_id: row.user_id,
+    email: row.profiles?.email || null,
+    role: row.role,
+    created_at: row.created_at,
+  }));
+}
+
+export async function listPendingInvites(supabase: SupabaseClient, workspaceId: string): Promise<WorkspaceInvite[]> {
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('id, email, role, expires_at, created_at')
+    .eq('workspace_id', workspaceId)
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list workspace invites: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Returns the raw token once; only its hash is stored
+export async function createInvite(
+  admin: SupabaseClient,
+  workspaceId: string,
+  invitedBy: string,
+  email: string,
+  role: WorkspaceRole
+): Promise<{ invite: WorkspaceInvite; token: string }> {
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    throw new WorkspaceError('INVALID_INPUT', 'Enter a valid email address');
+  }
+  if (!INVITE_ROLES.includes(role)) {
+    throw new WorkspaceError('INVALID_INPUT', `Role must be one of: ${INVITE_ROLES.join(', ')}`);
+  }
+
+  // Replace any expired invite for the same address
+  await admin
+    .from('workspace_invites')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .ilike('email', normalizedEmail)
+    .is('accepted_at', null)
+    .lte('expires_at', new Date().toISOString());
+
+  const token = randomBytes(24).toString('base64url');
+  const { data, error } = await admin
+    .from('workspace_invites')
+    .insert({
+      workspace_id: workspaceId,
+      email: normalizedEmail,
+      role,
+      token_hash: hashInviteToken(token),
+      invited_by: invitedBy,
+      expires_at: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select('id, email, role, expires_at, created_at')
+    .single<WorkspaceInvite>();
+
+  if (error || !data) {
+    if (error?.code === '23505') {
+      throw new WorkspaceError('CONFLICT', 'This address already has a pending invite');
+    }
+    throw new Error(`Failed to create invite: ${error?.message}`);
+  }
+
+  return { invite: data, token };
+}
+
+export async function revokeInvite(admin: SupabaseClient, workspaceId: string, inviteId: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from('workspace_invites')
+    .delete()
+    .eq('id', inviteId)
+    .eq('workspace_id', workspaceId)
+    .is('accepted_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke invite: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+interface InviteRow {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+// Join the invite's workspace. The signed-in email must match the invited address,
+// and a paid workspace must have a free seat; the seat check and the join run in one
+// transaction (accept_workspace_invite) so concurrent acceptances can't oversell seats.
+export async function acceptInvite(admin: SupabaseClient, user: User, token: string): Promise<WorkspaceMembership> {
+  const { data: invite, error } = await admin
+    .from('workspace_invites')
+    .select('id, workspace_id, email, role, expires_at, accepted_at')
+    .eq('token_hash', hashInviteToken(token))
+    .maybeSingle<InviteRow>();
+
+  if (error) {
+    throw new Error(`Failed to read invite: ${error.message}`);
+  }
+  if (!invite || invite.accepted_at || new Date(invite.expires_at) <= new Date()) {
+    throw new WorkspaceError('NOT_FOUND', 'This invite is invalid or has expired');
+  }
+  if (invite.email !== (user.email || '').toLowerCase()) {
+    throw new WorkspaceError('FORBIDDEN', `This invite was sent to ${invite.email}`);
+  }
+
+  const { data: accepted, error: acceptError } = await admin
+    .rpc('accept_workspace_invite', { p_invite_id: invite.id, p_user_id: user.id })
+    .single<{ status: 'JOINED' | 'INVALID_INVITE' | 'ALREADY_MEMBER' | 'NO_SEATS'; member_count: number | null }>();
+
+  if (acceptError || !accepted) {
+    throw new Error(`Failed to join workspace: ${acceptError?.message || 'no result'}`);
+  }
+  if (accepted.status === 'INVALID_INVITE') {
+    throw new WorkspaceError('NOT_FOUND', 'This invite is invalid or has expired');
+  }
+  if (accepted.status === 'ALREADY_MEMBER') {
+    throw new WorkspaceError('CONFLICT', 'You already belong to a workspace');
+  }
+  if (accepted.status === 'NO_SEATS') {
+    throw new WorkspaceError('NO_SEATS', 'No seats are available. Ask the workspace owner to add seats.');
+  }
+
+  const { data: workspace, error: workspaceError } = await admin
+    .from('workspaces')
+    .select(WORKSPACE_COLUMNS)
+    .eq('id', invite.workspace_id)
+    .single<Workspace>();
+
+  if (workspaceError || !workspace) {
+    throw new Error(`Failed to read workspace: ${workspaceError?.message || 'not found'}`);
+  }
+
+  return { workspace, role: invite.role, memberCount: accepted.member_count || 0 };
+}
+
+export async function changeMemberRole(
+  admin: SupabaseClient,
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<boolean> {
+  if (!INVITE_ROLES.includes(role)) {
+    throw new WorkspaceError('INVALID_INPUT', `Role must be one of: ${INVITE_ROLES.join(', ')}`);
+  }
+
+  // The owner's role is fixed; ownership is not transferable here
+  const { data, error } = await admin
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .neq('role', 'owner')
+    .select('user_id');
+
+  if (error) {
+    throw new Error(`Failed to change member role: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+export async function removeMember(admin: SupabaseClient, workspaceId: string, userId: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .neq('role', 'owner')
+    .select('user_id');
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
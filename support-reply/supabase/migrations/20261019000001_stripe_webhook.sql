@@ -0,0 +1,52 @@
+-- Stripe billing state on profiles, owned by /api/stripe-webhook
+alter table public.profiles
+  add column if not exists stripe_customer_id text,
+  add column if not exists stripe_subscription_id text,
+  add column if not exists subscription_status text;
+
+create unique index if not exists profiles_stripe_customer_id_key
+  on public.profiles (stripe_customer_id)
+  where stripe_customer_id is not null;
+
+-- Processed webhook events, used to ignore Stripe retries and replays
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  received_at timestamptz not null default now()
+);
+
+-- Only the service role touches this table
+alter table public.stripe_events enable row level security;
+
+-- Billing columns may only be changed by the service role, never by a signed-in user
+create or replace function public.protect_profile_billing_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if coalesce(new.pro, false)
+      or new.stripe_customer_id is not null
+      or new.stripe_subscription_id is not null
+      or new.subscription_status is not null then
+      raise exception 'billing columns are managed by the server';
+    end if;
+  elsif new.pro is distinct from old.pro
+    or new.stripe_customer_id is distinct from old.stripe_customer_id
+    or new.stripe_subscription_id is distinct from old.stripe_subscription_id
+    or new.subscription_status is distinct from old.subscription_status then
+    raise exception 'billing columns are managed by the server';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_billing_columns on public.profiles;
+create trigger profiles_protect_billing_columns
+  before insert or update on public.profiles
+  for each row execute function public.protect_profile_billing_columns();
@@ -0,0 +1,31 @@
+-- Account-scoped knowledge base used to ground drafts in real policies
+create table if not exists public.kb_documents (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  mime_type text not null,
+  size_bytes integer not null,
+  chunk_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.kb_chunks (
+  id bigserial primary key,
+  document_id uuid not null references public.kb_documents (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  chunk_index integer not null,
+  content text not null,
+  unique (document_id, chunk_index)
+);
+
+create index if not exists kb_documents_user_id_idx on public.kb_documents (user_id);
+create index if not exists kb_chunks_user_id_idx on public.kb_chunks (user_id);
+
+alter table public.kb_documents enable row level security;
+alter table public.kb_chunks enable row level security;
+
+create policy "Users manage their own documents" on public.kb_documents
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own chunks" on public.kb_chunks
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
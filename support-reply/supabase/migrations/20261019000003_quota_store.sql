@@ -0,0 +1,73 @@
+-- Durable anonymous quota counters, expired after the configured TTL
+create table if not exists public.anon_quota (
+  session_id text not null,
+  day date not null,
+  count integer not null default 0,
+  expires_at timestamptz not null,
+  primary key (session_id, day)
+);
+
+create index if not exists anon_quota_expires_at_idx on public.anon_quota (expires_at);
+
+-- Only the service role touches this table
+alter table public.anon_quota enable row level security;
+
+-- Atomic check-and-increment used by the Supabase quota store.
+-- The conditional upsert never lets concurrent requests push a counter past p_limit.
+create or replace function public.increment_quota(
+  p_subject_type text,
+  p_subject_id text,
+  p_day date,
+  p_limit integer,
+  p_ttl_seconds integer
+)
+returns table (allowed boolean, used integer)
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  if p_subject_type = 'user' then
+    insert into public.daily_quota as q (user_id, day, count)
+    values (p_subject_id::uuid, p_day, 1)
+    on conflict (user_id, day) do update
+      set count = q.count + 1
+      where q.count < p_limit
+    returning q.count into v_count;
+
+    if v_count is null then
+      select q.count into v_count
+      from public.daily_quota q
+      where q.user_id = p_subject_id::uuid and q.day = p_day;
+      return query select false, coalesce(v_count, 0);
+      return;
+    end if;
+  elsif p_subject_type = 'anon' then
+    insert into public.anon_quota as q (session_id, day, count, expires_at)
+    values (p_subject_id, p_day, 1, now() + make_interval(secs => p_ttl_seconds))
+    on conflict (session_id, day) do update
+      set count = q.count + 1
+      where q.count < p_limit
+    returning q.count into v_count;
+
+    -- Opportunistic cleanup keeps the table bounded without a scheduler
+    if random() < 0.01 then
+      delete from public.anon_quota where expires_at < now();
+    end if;
+
+    if v_count is null then
+      select q.count into v_count
+      from public.anon_quota q
+      where q.session_id = p_subject_id and q.day = p_day;
+      return query select false, coalesce(v_count, 0);
+      return;
+    end if;
+  else
+    raise exception 'unknown quota subject type %', p_subject_type;
+  end if;
+
+  return query select true, v_count;
+end;
+$$;
+
+revoke all on function public.increment_quota(text, text, date, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,117 @@
+-- Two-phase quota accounting: a generation reserves a slot before calling the model
+-- and only commits it once drafts are returned. Unsettled reservations expire.
+create table if not exists public.quota_reservations (
+  id uuid primary key default gen_random_uuid(),
+  subject_type text not null check (subject_type in ('user', 'anon')),
+  subject_id text not null,
+  day date not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quota_reservations_subject_idx
+  on public.quota_reservations (subject_type, subject_id, day);
+
+-- Only the service role touches this table
+alter table public.quota_reservations enable row level security;
+
+-- Superseded by quota_reservation
+drop function if exists public.increment_quota(text, text, date, integer, integer);
+
+-- Single entry point for reserve / commit / release. Every call locks the subject's
+-- counter row first, so concurrent requests for the same user and day serialize and
+-- committed + pending can never exceed p_limit.
+create or replace function public.quota_reservation(
+  p_action text,
+  p_subject_type text,
+  p_subject_id text,
+  p_day date,
+  p_limit integer,
+  p_reservation_id uuid,
+  p_reservation_ttl_seconds integer,
+  p_counter_ttl_seconds integer
+)
+returns table (allowed boolean, used integer, reservation_id uuid)
+language plpgsql
+as $$
+declare
+  v_committed integer;
+  v_pending integer;
+  v_id uuid;
+begin
+  if p_subject_type = 'user' then
+    insert into public.daily_quota (user_id, day, count)
+    values (p_subject_id::uuid, p_day, 0)
+    on conflict (user_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.daily_quota q
+    where q.user_id = p_subject_id::uuid and q.day = p_day
+    for update;
+  elsif p_subject_type = 'anon' then
+    insert into public.anon_quota (session_id, day, count, expires_at)
+    values (p_subject_id, p_day, 0, now() + make_interval(secs => p_counter_ttl_seconds))
+    on conflict (session_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.anon_quota q
+    where q.session_id = p_subject_id and q.day = p_day
+    for update;
+
+    -- Opportunistic cleanup keeps the table bounded without a scheduler
+    if random() < 0.01 then
+      delete from public.anon_quota where expires_at < now();
+    end if;
+  else
+    raise exception 'unknown quota subject type %', p_subject_type;
+  end if;
+
+  -- Expired reservations no longer hold a slot
+  delete from public.quota_reservations r
+  where r.subject_type = p_subject_type
+    and r.subject_id = p_subject_id
+    and r.day = p_day
+    and r.expires_at < now();
+
+  if p_action = 'reserve' then
+    select count(*) into v_pending
+    from public.quota_reservations r
+    where r.subject_type = p_subject_type and r.subject_id = p_subject_id and r.day = p_day;
+
+    if v_committed + v_pending >= p_limit then
+      return query select false, v_committed + v_pending, null::uuid;
+      return;
+    end if;
+
+    insert into public.quota_reservations (subject_type, subject_id, day, expires_at)
+    values (p_subject_type, p_subject_id, p_day, now() + make_interval(secs => p_reservation_ttl_seconds))
+    returning id into v_id;
+
+    return query select true, v_committed + v_pending + 1, v_id;
+  elsif p_action in ('commit', 'release') then
+    delete from public.quota_reservations r
+    where r.id = p_reservation_id
+      and r.subject_type = p_subject_type
+      and r.subject_id = p_subject_id
+    returning r.id into v_id;
+
+    if p_action = 'commit' and v_id is not null then
+      if p_subject_type = 'user' then
+        update public.daily_quota q set count = q.count + 1
+        where q.user_id = p_subject_id::uuid and q.day = p_day;
+      else
+        update public.anon_quota q set count = q.count + 1
+        where q.session_id = p_subject_id and q.day = p_day;
+      end if;
+      v_committed := v_committed + 1;
+    end if;
+
+    return query select v_id is not null, v_committed, v_id;
+  else
+    raise exception 'unknown quota action %', p_action;
+  end if;
+end;
+$$;
+
+revoke all on function public.quota_reservation(text, text, text, date, integer, uuid, integer, integer)
+  from public, anon, authenticated;
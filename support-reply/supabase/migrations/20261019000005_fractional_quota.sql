@@ -0,0 +1,109 @@
+-- Fractional quota costs: refinements are charged a fraction of a generation,
+-- so counters and reservations carry numeric amounts instead of whole slots.
+alter table public.daily_quota alter column count type numeric using count::numeric;
+alter table public.anon_quota alter column count type numeric using count::numeric;
+
+alter table public.quota_reservations
+  add column if not exists cost numeric not null default 1 check (cost > 0);
+
+drop function if exists public.quota_reservation(text, text, text, date, integer, uuid, integer, integer);
+
+-- Same contract as before plus p_cost (defaults to one generation). Every call
+-- locks the subject's counter row first, so committed + pending can never exceed p_limit.
+create or replace function public.quota_reservation(
+  p_action text,
+  p_subject_type text,
+  p_subject_id text,
+  p_day date,
+  p_limit integer,
+  p_reservation_id uuid,
+  p_reservation_ttl_seconds integer,
+  p_counter_ttl_seconds integer,
+  p_cost numeric default 1
+)
+returns table (allowed boolean, used numeric, reservation_id uuid)
+language plpgsql
+as $$
+declare
+  v_committed numeric;
+  v_pending numeric;
+  v_cost numeric := coalesce(p_cost, 1);
+  v_id uuid;
+  v_reserved numeric;
+begin
+  if p_subject_type = 'user' then
+    insert into public.daily_quota (user_id, day, count)
+    values (p_subject_id::uuid, p_day, 0)
+    on conflict (user_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.daily_quota q
+    where q.user_id = p_subject_id::uuid and q.day = p_day
+    for update;
+  elsif p_subject_type = 'anon' then
+    insert into public.anon_quota (session_id, day, count, expires_at)
+    values (p_subject_id, p_day, 0, now() + make_interval(secs => p_counter_ttl_seconds))
+    on conflict (session_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.anon_quota q
+    where q.session_id = p_subject_id and q.day = p_day
+    for update;
+
+    -- Opportunistic cleanup keeps the table bounded without a scheduler
+    if random() < 0.01 then
+      delete from public.anon_quota where expires_at < now();
+    end if;
+  else
+    raise exception 'unknown quota subject type %', p_subject_type;
+  end if;
+
+  -- Expired reservations no longer hold a slot
+  delete from public.quota_reservations r
+  where r.subject_type = p_subject_type
+    and r.subject_id = p_subject_id
+    and r.day = p_day
+    and r.expires_at < now();
+
+  if p_action = 'reserve' then
+    select coalesce(sum(r.cost), 0) into v_pending
+    from public.quota_reservations r
+    where r.subject_type = p_subject_type and r.subject_id = p_subject_id and r.day = p_day;
+
+    if v_committed + v_pending + v_cost > p_limit then
+      return query select false, v_committed + v_pending, null::uuid;
+      return;
+    end if;
+
+    insert into public.quota_reservations (subject_type, subject_id, day, expires_at, cost)
+    values (p_subject_type, p_subject_id, p_day, now() + make_interval(secs => p_reservation_ttl_seconds), v_cost)
+    returning id into v_id;
+
+    return query select true, v_committed + v_pending + v_cost, v_id;
+  elsif p_action in ('commit', 'release') then
+    delete from public.quota_reservations r
+    where r.id = p_reservation_id
+      and r.subject_type = p_subject_type
+      and r.subject_id = p_subject_id
+    returning r.id, r.cost into v_id, v_reserved;
+
+    if p_action = 'commit' and v_id is not null then
+      if p_subject_type = 'user' then
+        update public.daily_quota q set count = q.count + v_reserved
+        where q.user_id = p_subject_id::uuid and q.day = p_day;
+      else
+        update public.anon_quota q set count = q.count + v_reserved
+        where q.session_id = p_subject_id and q.day = p_day;
+      end if;
+      v_committed := v_committed + v_reserved;
+    end if;
+
+    return query select v_id is not null, v_committed, v_id;
+  else
+    raise exception 'unknown quota action %', p_action;
+  end if;
+end;
+$$;
+
+revoke all on function public.quota_reservation(text, text, text, date, integer, uuid, integer, integer, numeric)
+  from public, anon, authenticated;
@@ -0,0 +1,22 @@
+-- Per-user library of saved replies (macros) with tags and full-text search
+create table if not exists public.saved_replies (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  title text not null check (char_length(title) between 1 and 120),
+  body text not null check (char_length(body) between 1 and 4000),
+  tags text[] not null default '{}',
+  search tsvector generated always as (
+    setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', body), 'B')
+  ) stored,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_replies_user_id_idx on public.saved_replies (user_id, updated_at desc);
+create index if not exists saved_replies_search_idx on public.saved_replies using gin (search);
+create index if not exists saved_replies_tags_idx on public.saved_replies using gin (tags);
+
+alter table public.saved_replies enable row level security;
+
+create policy "Users manage their own saved replies" on public.saved_replies
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
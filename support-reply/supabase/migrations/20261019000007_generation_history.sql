@@ -0,0 +1,79 @@
+-- Opt-in generation history. Nothing is stored unless the user turns it on.
+alter table public.profiles
+  add column if not exists history_enabled boolean not null default false,
+  add column if not exists history_retention_days integer not null default 30
+    check (history_retention_days between 1 and 365);
+
+create table if not exists public.generation_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  message text not null,
+  tone text not null,
+  language text not null,
+  drafts jsonb not null,
+  copied_index integer,
+  copied_text text,
+  copied_at timestamptz,
+  search tsvector generated always as (to_tsvector('english', message)) stored,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists generation_history_user_id_idx on public.generation_history (user_id, created_at desc);
+create index if not exists generation_history_expires_at_idx on public.generation_history (expires_at);
+create index if not exists generation_history_search_idx on public.generation_history using gin (search);
+
+alter table public.generation_history enable row level security;
+
+create policy "Users read their own history" on public.generation_history
+  for select using (auth.uid() = user_id);
+
+create policy "Users write their own history" on public.generation_history
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users update their own history" on public.generation_history
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users delete their own history" on public.generation_history
+  for delete using (auth.uid() = user_id);
+
+-- Re-date the caller's rows when their retention window changes, then drop what expired
+create or replace function public.apply_history_retention(p_retention_days integer)
+returns void
+language sql
+security invoker
+as $$
+  update public.generation_history
+  set expires_at = created_at + make_interval(days => p_retention_days)
+  where user_id = auth.uid();
+
+  delete from public.generation_history
+  where user_id = auth.uid() and expires_at <= now();
+$$;
+
+create or replace function public.purge_expired_generation_history()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with purged as (
+    delete from public.generation_history where expires_at <= now() returning 1
+  )
+  select count(*)::integer from purged;
+$$;
+
+revoke all on function public.purge_expired_generation_history() from public, anon, authenticated;
+
+-- Purge hourly where pg_cron is available; the app also purges a user's expired rows on write
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'purge-expired-generation-history',
+      '0 * * * *',
+      'select public.purge_expired_generation_history()'
+    );
+  end if;
+end;
+$$;
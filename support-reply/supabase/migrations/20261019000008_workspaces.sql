@@ -0,0 +1,197 @@
+-- Team workspaces: members share one subscription (billed per seat) and can
+-- optionally draw generations from a pooled daily quota.
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 1 and 80),
+  owner_id uuid not null references public.profiles (user_id),
+  pro boolean not null default false,
+  seats integer not null default 1 check (seats >= 1),
+  pooled_quota boolean not null default false,
+  stripe_customer_id text,
+  stripe_subscription_id text,
+  subscription_status text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists workspaces_stripe_customer_id_key
+  on public.workspaces (stripe_customer_id)
+  where stripe_customer_id is not null;
+
+-- A user belongs to at most one workspace, which keeps entitlement unambiguous
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null unique references public.profiles (user_id) on delete cascade,
+  role text not null check (role in ('owner', 'admin', 'agent')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create table if not exists public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('admin', 'agent')),
+  -- SHA-256 of the token in the invite link; the raw token is never stored
+  token_hash text not null unique,
+  invited_by uuid not null references public.profiles (user_id) on delete cascade,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists workspace_invites_pending_email_key
+  on public.workspace_invites (workspace_id, lower(email))
+  where accepted_at is null;
+
+-- Pooled daily counters, used when workspaces.pooled_quota is on
+create table if not exists public.workspace_quota (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  day date not null,
+  count numeric not null default 0,
+  primary key (workspace_id, day)
+);
+
+-- Membership checks for RLS without recursive policies
+create or replace function public.is_workspace_member(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.workspace_members
+    where workspace_id = p_workspace_id and user_id = auth.uid()
+  );
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+alter table public.workspace_quota enable row level security;
+
+-- Members can read their workspace; every change goes through the API with the service role
+create policy "Members read their workspace" on public.workspaces
+  for select using (public.is_workspace_member(id));
+
+create policy "Members read their teammates" on public.workspace_members
+  for select using (public.is_workspace_member(workspace_id));
+
+create policy "Members read pending invites" on public.workspace_invites
+  for select using (public.is_workspace_member(workspace_id));
+
+alter table public.quota_reservations drop constraint if exists quota_reservations_subject_type_check;
+alter table public.quota_reservations
+  add constraint quota_reservations_subject_type_check
+  check (subject_type in ('user', 'anon', 'workspace'));
+
+-- Adds the 'workspace' subject for pooled quotas; otherwise unchanged
+create or replace function public.quota_reservation(
+  p_action text,
+  p_subject_type text,
+  p_subject_id text,
+  p_day date,
+  p_limit integer,
+  p_reservation_id uuid,
+  p_reservation_ttl_seconds integer,
+  p_counter_ttl_seconds integer,
+  p_cost numeric default 1
+)
+returns table (allowed boolean, used numeric, reservation_id uuid)
+language plpgsql
+as $$
+declare
+  v_committed numeric;
+  v_pending numeric;
+  v_cost numeric := coalesce(p_cost, 1);
+  v_id uuid;
+  v_reserved numeric;
+begin
+  if p_subject_type = 'user' then
+    insert into public.daily_quota (user_id, day, count)
+    values (p_subject_id::uuid, p_day, 0)
+    on conflict (user_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.daily_quota q
+    where q.user_id = p_subject_id::uuid and q.day = p_day
+    for update;
+  elsif p_subject_type = 'workspace' then
+    insert into public.workspace_quota (workspace_id, day, count)
+    values (p_subject_id::uuid, p_day, 0)
+    on conflict (workspace_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.workspace_quota q
+    where q.workspace_id = p_subject_id::uuid and q.day = p_day
+    for update;
+  elsif p_subject_type = 'anon' then
+    insert into public.anon_quota (session_id, day, count, expires_at)
+    values (p_subject_id, p_day, 0, now() + make_interval(secs => p_counter_ttl_seconds))
+    on conflict (session_id, day) do nothing;
+
+    select q.count into v_committed
+    from public.anon_quota q
+    where q.session_id = p_subject_id and q.day = p_day
+    for update;
+
+    -- Opportunistic cleanup keeps the table bounded without a scheduler
+    if random() < 0.01 then
+      delete from public.anon_quota where expires_at < now();
+    end if;
+  else
+    raise exception 'unknown quota subject type %', p_subject_type;
+  end if;
+
+  -- Expired reservations no longer hold a slot
+  delete from public.quota_reservations r
+  where r.subject_type = p_subject_type
+    and r.subject_id = p_subject_id
+    and r.day = p_day
+    and r.expires_at < now();
+
+  if p_action = 'reserve' then
+    select coalesce(sum(r.cost), 0) into v_pending
+    from public.quota_reservations r
+    where r.subject_type = p_subject_type and r.subject_id = p_subject_id and r.day = p_day;
+
+    if v_committed + v_pending + v_cost > p_limit then
+      return query select false, v_committed + v_pending, null::uuid;
+      return;
+    end if;
+
+    insert into public.quota_reservations (subject_type, subject_id, day, expires_at, cost)
+    values (p_subject_type, p_subject_id, p_day, now() + make_interval(secs => p_reservation_ttl_seconds), v_cost)
+    returning id into v_id;
+
+    return query select true, v_committed + v_pending + v_cost, v_id;
+  elsif p_action in ('commit', 'release') then
+    delete from public.quota_reservations r
+    where r.id = p_reservation_id
+      and r.subject_type = p_subject_type
+      and r.subject_id = p_subject_id
+    returning r.id, r.cost into v_id, v_reserved;
+
+    if p_action = 'commit' and v_id is not null then
+      if p_subject_type = 'user' then
+        update public.daily_quota q set count = q.count + v_reserved
+        where q.user_id = p_subject_id::uuid and q.day = p_day;
+      elsif p_subject_type = 'workspace' then
+        update public.workspace_quota q set count = q.count + v_reserved
+        where q.workspace_id = p_subject_id::uuid and q.day = p_day;
+      else
+        update public.anon_quota q set count = q.count + v_reserved
+        where q.session_id = p_subject_id and q.day = p_day;
+      end if;
+      v_committed := v_committed + v_reserved;
+    end if;
+
+    return query select v_id is not null, v_committed, v_id;
+  else
+    raise exception 'unknown quota action %', p_action;
+  end if;
+end;
+$$;
+
+revoke all on function public.quota_reservation(text, text, text, date, integer, uuid, integer, integer, numeric)
+  from public, anon, authenticated;
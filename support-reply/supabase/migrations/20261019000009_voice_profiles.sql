@@ -0,0 +1,32 @@
+-- Named brand voice profiles owned by a user or shared by a workspace.
+-- The built-in Friendly / Professional / Concise voices live in code (src/lib/voice-profiles/format.ts)
+-- and are not seeded here; this table holds custom voices only.
+create table if not exists public.voice_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles (user_id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  description text not null default '' check (char_length(description) <= 500),
+  examples text[] not null default '{}',
+  formality text not null default 'neutral' check (formality in ('casual', 'neutral', 'formal')),
+  emoji_policy text not null default 'none' check (emoji_policy in ('none', 'sparing', 'allowed')),
+  sign_off text check (char_length(sign_off) <= 120),
+  banned_phrases text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (num_nonnulls(user_id, workspace_id) = 1)
+);
+
+create unique index if not exists voice_profiles_user_name_idx
+  on public.voice_profiles (user_id, lower(name)) where user_id is not null;
+create unique index if not exists voice_profiles_workspace_name_idx
+  on public.voice_profiles (workspace_id, lower(name)) where workspace_id is not null;
+
+alter table public.voice_profiles enable row level security;
+
+create policy "Users manage their own voice profiles" on public.voice_profiles
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Workspace voices are edited through the API (owner/admin check) with the service role
+create policy "Members read workspace voice profiles" on public.voice_profiles
+  for select using (workspace_id is not null and public.is_workspace_member(workspace_id));
@@ -0,0 +1,38 @@
+-- Inbound helpdesk webhooks (/api/integrations/helpdesk). Each integration belongs to the user
+-- whose voice and quota its tickets use, and optionally posts drafts back as internal notes.
+create table if not exists public.helpdesk_integrations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  provider text not null check (provider in ('generic', 'zendesk', 'freshdesk')),
+  -- Shared secret, also the HMAC key; needed in plain text to verify signatures
+  webhook_secret text not null,
+  -- Built-in voice name or voice profile ID, and 'auto' or an ISO language code
+  tone text not null default 'Friendly',
+  language text not null default 'auto',
+  -- Helpdesk base URL and Authorization header for posting notes; no URL means drafts are only returned
+  outbound_url text,
+  outbound_auth text,
+  enabled boolean not null default true,
+  last_delivery_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists helpdesk_integrations_user_idx on public.helpdesk_integrations (user_id);
+
+-- Secrets never leave the server: only the service role touches this table,
+-- and /api/integrations scopes every query to the signed-in owner
+alter table public.helpdesk_integrations enable row level security;
+
+-- Processed deliveries, used to ignore helpdesk retries and replays
+create table if not exists public.helpdesk_deliveries (
+  integration_id uuid not null references public.helpdesk_integrations (id) on delete cascade,
+  -- SHA-256 of the raw request body
+  body_hash text not null,
+  ticket_id text not null,
+  received_at timestamptz not null default now(),
+  primary key (integration_id, body_hash)
+);
+
+alter table public.helpdesk_deliveries enable row level security;
@@ -0,0 +1,22 @@
+-- Per-user API keys for the public REST API (Authorization: Bearer <key>).
+-- Only a SHA-256 hash of each key is stored; the key itself is shown once on creation.
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  -- First characters of the key, so users can tell their keys apart
+  prefix text not null,
+  key_hash text not null unique,
+  last_used_at timestamptz,
+  -- Revoked keys are kept for the audit trail but never authenticate again
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists api_keys_user_idx on public.api_keys (user_id, created_at);
+
+alter table public.api_keys enable row level security;
+
+-- Users can list their own keys; creating, revoking and authenticating go through the service role
+create policy "Users read their own API keys" on public.api_keys
+  for select using (auth.uid() = user_id);
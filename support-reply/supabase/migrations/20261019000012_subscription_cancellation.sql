@@ -0,0 +1,41 @@
+-- Cancellation state synced from Stripe subscriptions. A subscription cancelled in the billing
+-- portal stays Pro until cancel_at; customer.subscription.deleted then clears `pro`.
+alter table public.profiles
+  add column if not exists cancel_at timestamptz,
+  add column if not exists current_period_end timestamptz;
+
+alter table public.workspaces
+  add column if not exists cancel_at timestamptz,
+  add column if not exists current_period_end timestamptz;
+
+-- Same guard as before, covering the new billing columns
+create or replace function public.protect_profile_billing_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if coalesce(new.pro, false)
+      or new.stripe_customer_id is not null
+      or new.stripe_subscription_id is not null
+      or new.subscription_status is not null
+      or new.cancel_at is not null
+      or new.current_period_end is not null then
+      raise exception 'billing columns are managed by the server';
+    end if;
+  elsif new.pro is distinct from old.pro
+    or new.stripe_customer_id is distinct from old.stripe_customer_id
+    or new.stripe_subscription_id is distinct from old.stripe_subscription_id
+    or new.subscription_status is distinct from old.subscription_status
+    or new.cancel_at is distinct from old.cancel_at
+    or new.current_period_end is distinct from old.current_period_end then
+    raise exception 'billing columns are managed by the server';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,58 @@
+-- Metered overage for Pro. overage_billing is set when the subscription carries the
+-- metered price; usage_reports records how much overage has been sent to Stripe per
+-- user and calendar month. `pending` is written before each report and cleared after,
+-- so a run that dies mid-report resends the same meter event instead of a new one.
+alter table public.profiles
+  add column if not exists overage_billing boolean not null default false;
+
+create table if not exists public.usage_reports (
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  month date not null,
+  stripe_customer_id text not null,
+  reported numeric not null default 0,
+  pending numeric,
+  reported_at timestamptz,
+  primary key (user_id, month)
+);
+
+alter table public.usage_reports enable row level security;
+
+-- Users can see what was reported for them; only the reporting job writes
+create policy "Users read their usage reports" on public.usage_reports
+  for select using (auth.uid() = user_id);
+
+-- Same guard as before, covering overage_billing
+create or replace function public.protect_profile_billing_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if coalesce(new.pro, false)
+      or new.stripe_customer_id is not null
+      or new.stripe_subscription_id is not null
+      or new.subscription_status is not null
+      or new.cancel_at is not null
+      or new.current_period_end is not null
+      or new.plan is not null
+      or coalesce(new.overage_billing, false) then
+      raise exception 'billing columns are managed by the server';
+    end if;
+  elsif new.pro is distinct from old.pro
+    or new.stripe_customer_id is distinct from old.stripe_customer_id
+    or new.stripe_subscription_id is distinct from old.stripe_subscription_id
+    or new.subscription_status is distinct from old.subscription_status
+    or new.cancel_at is distinct from old.cancel_at
+    or new.current_period_end is distinct from old.current_period_end
+    or new.plan is distinct from old.plan
+    or new.overage_billing is distinct from old.overage_billing then
+    raise exception 'billing columns are managed by the server';
+  end if;
+
+  return new;
+end;
+$$;
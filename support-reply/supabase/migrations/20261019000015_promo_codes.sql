@@ -0,0 +1,187 @@
+-- Redeemable promo and unlock codes. Only a SHA-256 hash of each normalized code is
+-- stored; codes are shown once when minted. A code grants Pro for a number of days
+-- (profiles.pro_until) or extra generations (profiles.bonus_generations), spent once the
+-- daily limit is reached.
+alter table public.profiles
+  add column if not exists pro_until timestamptz,
+  add column if not exists bonus_generations numeric not null default 0 check (bonus_generations >= 0);
+
+create table if not exists public.promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  code_hash text not null unique,
+  -- First characters of the code, for admins telling codes apart
+  prefix text not null,
+  batch text not null check (char_length(batch) between 1 and 60),
+  grant_type text not null check (grant_type in ('pro_days', 'generations')),
+  grant_value integer not null check (grant_value > 0),
+  expires_at timestamptz,
+  -- Null for unlimited redemptions (each user still redeems a code once)
+  max_redemptions integer check (max_redemptions > 0),
+  redemption_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists promo_codes_batch_idx on public.promo_codes (batch, created_at);
+
+create table if not exists public.promo_redemptions (
+  code_id uuid not null references public.promo_codes (id) on delete cascade,
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  redeemed_at timestamptz not null default now(),
+  primary key (code_id, user_id)
+);
+
+-- Every attempt, successful or not, for rate limiting
+create table if not exists public.promo_redemption_attempts (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  succeeded boolean not null,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists promo_redemption_attempts_user_idx on public.promo_redemption_attempts (user_id, attempted_at);
+
+-- Only the service role touches codes and attempts; users can see their redemptions
+alter table public.promo_codes enable row level security;
+alter table public.promo_redemptions enable row level security;
+alter table public.promo_redemption_attempts enable row level security;
+
+create policy "Users read their redemptions" on public.promo_redemptions
+  for select using (auth.uid() = user_id);
+
+-- Redeem a code atomically: rate limit failed attempts, lock the code, check expiry,
+-- the redemption cap and per-user single use, then apply the grant. Returns a status
+-- (REDEEMED, RATE_LIMITED, INVALID_CODE, EXPIRED, EXHAUSTED, ALREADY_REDEEMED) and, on
+-- success, the grant and the user's new pro_until / bonus balance.
+create or replace function public.redeem_promo_code(
+  p_user_id uuid,
+  p_code_hash text,
+  p_max_failed_attempts integer,
+  p_window_seconds integer
+)
+returns table (
+  status text,
+  grant_type text,
+  grant_value integer,
+  pro_until timestamptz,
+  bonus_generations numeric
+)
+language plpgsql
+as $$
+declare
+  v_code public.promo_codes%rowtype;
+  v_failed integer;
+  v_status text;
+begin
+  select count(*) into v_failed
+  from public.promo_redemption_attempts a
+  where a.user_id = p_user_id
+    and not a.succeeded
+    and a.attempted_at > now() - make_interval(secs => p_window_seconds);
+
+  if v_failed >= p_max_failed_attempts then
+    return query select 'RATE_LIMITED'::text, null::text, null::integer, null::timestamptz, null::numeric;
+    return;
+  end if;
+
+  select * into v_code from public.promo_codes c where c.code_hash = p_code_hash for update;
+
+  if not found then
+    v_status := 'INVALID_CODE';
+  elsif v_code.expires_at is not null and v_code.expires_at <= now() then
+    v_status := 'EXPIRED';
+  elsif exists (select 1 from public.promo_redemptions r where r.code_id = v_code.id and r.user_id = p_user_id) then
+    v_status := 'ALREADY_REDEEMED';
+  elsif v_code.max_redemptions is not null and v_code.redemption_count >= v_code.max_redemptions then
+    v_status := 'EXHAUSTED';
+  else
+    v_status := 'REDEEMED';
+  end if;
+
+  insert into public.promo_redemption_attempts (user_id, succeeded) values (p_user_id, v_status = 'REDEEMED');
+
+  if v_status <> 'REDEEMED' then
+    return query select v_status, null::text, null::integer, null::timestamptz, null::numeric;
+    return;
+  end if;
+
+  insert into public.promo_redemptions (code_id, user_id) values (v_code.id, p_user_id);
+  update public.promo_codes c set redemption_count = c.redemption_count + 1 where c.id = v_code.id;
+
+  -- Pro days stack on top of an unexpired grant
+  if v_code.grant_type = 'pro_days' then
+    update public.profiles p
+      set pro_until = greatest(coalesce(p.pro_until, now()), now()) + make_interval(days => v_code.grant_value)
+      where p.user_id = p_user_id;
+  else
+    update public.profiles p
+      set bonus_generations = p.bonus_generations + v_code.grant_value
+      where p.user_id = p_user_id;
+  end if;
+
+  return query
+    select 'REDEEMED'::text, v_code.grant_type, v_code.grant_value, p.pro_until, p.bonus_generations
+    from public.profiles p
+    where p.user_id = p_user_id;
+end;
+$$;
+
+-- Spend (positive p_amount) or refund (negative) bonus generations; returns whether the
+-- balance covered the spend
+create or replace function public.adjust_bonus_generations(p_user_id uuid, p_amount numeric)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_updated integer;
+begin
+  update public.profiles p
+    set bonus_generations = p.bonus_generations - p_amount
+    where p.user_id = p_user_id
+      and p.bonus_generations >= p_amount;
+  get diagnostics v_updated = row_count;
+  return v_updated > 0;
+end;
+$$;
+
+revoke all on function public.redeem_promo_code(uuid, text, integer, integer) from public, anon, authenticated;
+revoke all on function public.adjust_bonus_generations(uuid, numeric) from public, anon, authenticated;
+
+-- Same guard as before, covering the promo grants
+create or replace function public.protect_profile_billing_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if coalesce(new.pro, false)
+      or new.stripe_customer_id is not null
+      or new.stripe_subscription_id is not null
+      or new.subscription_status is not null
+      or new.cancel_at is not null
+      or new.current_period_end is not null
+      or new.plan is not null
+      or coalesce(new.overage_billing, false)
+      or new.pro_until is not null
+      or coalesce(new.bonus_generations, 0) <> 0 then
+      raise exception 'billing columns are managed by the server';
+    end if;
+  elsif new.pro is distinct from old.pro
+    or new.stripe_customer_id is distinct from old.stripe_customer_id
+    or new.stripe_subscription_id is distinct from old.stripe_subscription_id
+    or new.subscription_status is distinct from old.subscription_status
+    or new.cancel_at is distinct from old.cancel_at
+    or new.current_period_end is distinct from old.current_period_end
+    or new.plan is distinct from old.plan
+    or new.overage_billing is distinct from old.overage_billing
+    or new.pro_until is distinct from old.pro_until
+    or new.bonus_generations is distinct from old.bonus_generations then
+    raise exception 'billing columns are managed by the server';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,67 @@
+-- Anonymous sessions carried over into an account on sign-in. A session merges into
+-- one account exactly once, so replaying an anon_session cookie (the same one again,
+-- or someone else's) never carries usage twice or into a second account.
+create table if not exists public.anon_session_merges (
+  session_id text primary key,
+  user_id uuid not null references public.profiles (user_id) on delete cascade,
+  carried numeric not null default 0,
+  merged_at timestamptz not null default now()
+);
+
+-- Only the service role touches this table
+alter table public.anon_session_merges enable row level security;
+
+-- Link the session to the user and add its committed usage for p_day to the user's
+-- (or pooled workspace's) counter. The anonymous counter is left as it is, so the old
+-- cookie can't be used for a fresh anonymous allowance either. Returns MERGED,
+-- ALREADY_MERGED (same user, nothing carried again) or CLAIMED (another user).
+create or replace function public.merge_anon_quota(
+  p_session_id text,
+  p_user_id uuid,
+  p_subject_type text,
+  p_subject_id text,
+  p_day date
+)
+returns table (status text, carried numeric)
+language plpgsql
+as $$
+declare
+  v_owner uuid;
+  v_carried numeric;
+begin
+  insert into public.anon_session_merges (session_id, user_id)
+  values (p_session_id, p_user_id)
+  on conflict (session_id) do nothing;
+
+  if not found then
+    select m.user_id into v_owner from public.anon_session_merges m where m.session_id = p_session_id;
+    return query select case when v_owner = p_user_id then 'ALREADY_MERGED' else 'CLAIMED' end, 0::numeric;
+    return;
+  end if;
+
+  select coalesce(q.count, 0) into v_carried
+  from public.anon_quota q
+  where q.session_id = p_session_id and q.day = p_day;
+  v_carried := coalesce(v_carried, 0);
+
+  if v_carried > 0 then
+    if p_subject_type = 'user' then
+      insert into public.daily_quota as q (user_id, day, count)
+      values (p_subject_id::uuid, p_day, v_carried)
+      on conflict (user_id, day) do update set count = q.count + excluded.count;
+    elsif p_subject_type = 'workspace' then
+      insert into public.workspace_quota as q (workspace_id, day, count)
+      values (p_subject_id::uuid, p_day, v_carried)
+      on conflict (workspace_id, day) do update set count = q.count + excluded.count;
+    else
+      raise exception 'cannot merge into quota subject type %', p_subject_type;
+    end if;
+  end if;
+
+  update public.anon_session_merges m set carried = v_carried where m.session_id = p_session_id;
+
+  return query select 'MERGED'::text, v_carried;
+end;
+$$;
+
+revoke all on function public.merge_anon_quota(text, uuid, text, text, date) from public, anon, authenticated;
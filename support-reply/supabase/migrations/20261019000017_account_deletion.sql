@@ -0,0 +1,58 @@
+-- Audit trail for account deletion. Rows outlive the account (no foreign key) and keep
+-- only a hash of the email, so support can answer "was this account deleted?" without
+-- retaining personal data.
+create table if not exists public.account_deletions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  email_hash text,
+  stripe_customer_id text,
+  canceled_subscriptions text[] not null default '{}',
+  deleted_workspace_id uuid,
+  status text not null default 'pending' check (status in ('pending', 'completed', 'failed')),
+  error text,
+  requested_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists account_deletions_user_idx on public.account_deletions (user_id, requested_at);
+
+-- Only the service role touches this table
+alter table public.account_deletions enable row level security;
+
+-- Remove everything stored for a user in one transaction. A workspace the user owns is
+-- deleted with them, but only when nobody else is a member. Rows referencing the
+-- profile (saved replies, history, voices, integrations, API keys, usage reports,
+-- promo redemptions, memberships, invites) cascade from it; the auth user is deleted
+-- separately through the Auth admin API.
+create or replace function public.delete_account_data(p_user_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_workspace_id uuid;
+begin
+  select w.id into v_workspace_id from public.workspaces w where w.owner_id = p_user_id for update;
+
+  if v_workspace_id is not null then
+    if exists (
+      select 1 from public.workspace_members m
+      where m.workspace_id = v_workspace_id and m.user_id <> p_user_id
+    ) then
+      raise exception 'workspace % still has other members', v_workspace_id using errcode = 'P0001';
+    end if;
+
+    delete from public.quota_reservations r
+      where r.subject_type = 'workspace' and r.subject_id = v_workspace_id::text;
+    delete from public.workspaces w where w.id = v_workspace_id;
+  end if;
+
+  delete from public.quota_reservations r where r.subject_type = 'user' and r.subject_id = p_user_id::text;
+  delete from public.daily_quota q where q.user_id = p_user_id;
+  delete from public.kb_documents d where d.user_id = p_user_id;
+  delete from public.profiles p where p.user_id = p_user_id;
+
+  return v_workspace_id;
+end;
+$$;
+
+revoke all on function public.delete_account_data(uuid) from public, anon, authenticated;
@@ -0,0 +1,28 @@
+-- Company facts drafts may state (product name, support hours, return policy, escalation
+-- contact, links), owned by a user or shared by a workspace. A workspace's profile applies
+-- to every member.
+create table if not exists public.company_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid unique references public.profiles (user_id) on delete cascade,
+  workspace_id uuid unique references public.workspaces (id) on delete cascade,
+  company_name text not null default '' check (char_length(company_name) <= 80),
+  product_name text not null default '' check (char_length(product_name) <= 80),
+  support_hours text not null default '' check (char_length(support_hours) <= 200),
+  return_policy text not null default '' check (char_length(return_policy) <= 1000),
+  escalation_email text not null default '' check (char_length(escalation_email) <= 254),
+  -- [{ "label": "Help center", "url": "https://..." }]
+  links jsonb not null default '[]' check (jsonb_typeof(links) = 'array'),
+  other_facts text not null default '' check (char_length(other_facts) <= 1000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (num_nonnulls(user_id, workspace_id) = 1)
+);
+
+alter table public.company_profiles enable row level security;
+
+create policy "Users manage their own company profile" on public.company_profiles
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- The workspace profile is edited through the API (owner/admin check) with the service role
+create policy "Members read their workspace company profile" on public.company_profiles
+  for select using (workspace_id is not null and public.is_workspace_member(workspace_id));
@@ -0,0 +1,202 @@
+-- Deleting an account and signing up again with the same email must not reset the
+-- month's quota or make single-use promo codes redeemable again. Deletion keeps this
+-- month's daily counts and the promo redemptions under the same email hash as
+-- account_deletions; a new profile for that email takes the counts back, and
+-- redemption checks the hash as well as the user.
+
+-- Same hash as account_deletions.email_hash (src/lib/account-data.ts)
+create or replace function public.account_email_hash(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select encode(sha256(convert_to(lower(trim(u.email)), 'UTF8')), 'hex')
+  from auth.users u
+  where u.id = p_user_id and u.email is not null;
+$$;
+
+revoke all on function public.account_email_hash(uuid) from public, anon, authenticated;
+
+create table if not exists public.deleted_account_usage (
+  email_hash text not null,
+  day date not null,
+  count numeric not null default 0,
+  primary key (email_hash, day)
+);
+
+create table if not exists public.deleted_promo_redemptions (
+  email_hash text not null,
+  code_id uuid not null references public.promo_codes (id) on delete cascade,
+  redeemed_at timestamptz not null,
+  primary key (code_id, email_hash)
+);
+
+-- Only the service role touches these tables
+alter table public.deleted_account_usage enable row level security;
+alter table public.deleted_promo_redemptions enable row level security;
+
+-- As before, plus keeping this month's usage and the promo redemptions by email hash
+create or replace function public.delete_account_data(p_user_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_workspace_id uuid;
+  v_email_hash text := public.account_email_hash(p_user_id);
+  v_month date := date_trunc('month', now() at time zone 'utc')::date;
+begin
+  select w.id into v_workspace_id from public.workspaces w where w.owner_id = p_user_id for update;
+
+  if v_workspace_id is not null then
+    if exists (
+      select 1 from public.workspace_members m
+      where m.workspace_id = v_workspace_id and m.user_id <> p_user_id
+    ) then
+      raise exception 'workspace % still has other members', v_workspace_id using errcode = 'P0001';
+    end if;
+
+    delete from public.quota_reservations r
+      where r.subject_type = 'workspace' and r.subject_id = v_workspace_id::text;
+    delete from public.workspaces w where w.id = v_workspace_id;
+  end if;
+
+  if v_email_hash is not null then
+    delete from public.deleted_account_usage d where d.day < v_month;
+
+    insert into public.deleted_account_usage as d (email_hash, day, count)
+      select v_email_hash, q.day, q.count
+      from public.daily_quota q
+      where q.user_id = p_user_id and q.day >= v_month
+    on conflict (email_hash, day) do update set count = d.count + excluded.count;
+
+    insert into public.deleted_promo_redemptions (email_hash, code_id, redeemed_at)
+      select v_email_hash, r.code_id, r.redeemed_at
+      from public.promo_redemptions r
+      where r.user_id = p_user_id
+    on conflict do nothing;
+  end if;
+
+  delete from public.quota_reservations r where r.subject_type = 'user' and r.subject_id = p_user_id::text;
+  delete from public.daily_quota q where q.user_id = p_user_id;
+  delete from public.kb_documents d where d.user_id = p_user_id;
+  delete from public.profiles p where p.user_id = p_user_id;
+
+  return v_workspace_id;
+end;
+$$;
+
+revoke all on function public.delete_account_data(uuid) from public, anon, authenticated;
+
+-- A new profile for a deleted account's email picks up where that account left off.
+-- The carried rows are consumed, so a later deletion carries the combined counts.
+create or replace function public.restore_deleted_account_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email_hash text := public.account_email_hash(new.user_id);
+begin
+  if v_email_hash is null then
+    return new;
+  end if;
+
+  insert into public.daily_quota as q (user_id, day, count)
+    select new.user_id, d.day, d.count
+    from public.deleted_account_usage d
+    where d.email_hash = v_email_hash
+      and d.day >= date_trunc('month', now() at time zone 'utc')::date
+  on conflict (user_id, day) do update set count = q.count + excluded.count;
+
+  delete from public.deleted_account_usage d where d.email_hash = v_email_hash;
+  return new;
+end;
+$$;
+
+drop trigger if exists restore_deleted_account_usage on public.profiles;
+create trigger restore_deleted_account_usage
+  after insert on public.profiles
+  for each row execute function public.restore_deleted_account_usage();
+
+-- As before, with redemptions from a deleted account of the same email counting as the user's
+create or replace function public.redeem_promo_code(
+  p_user_id uuid,
+  p_code_hash text,
+  p_max_failed_attempts integer,
+  p_window_seconds integer
+)
+returns table (
+  status text,
+  grant_type text,
+  grant_value integer,
+  pro_until timestamptz,
+  bonus_generations numeric
+)
+language plpgsql
+as $$
+declare
+  v_code public.promo_codes%rowtype;
+  v_failed integer;
+  v_status text;
+begin
+  select count(*) into v_failed
+  from public.promo_redemption_attempts a
+  where a.user_id = p_user_id
+    and not a.succeeded
+    and a.attempted_at > now() - make_interval(secs => p_window_seconds);
+
+  if v_failed >= p_max_failed_attempts then
+    return query select 'RATE_LIMITED'::text, null::text, null::integer, null::timestamptz, null::numeric;
+    return;
+  end if;
+
+  select * into v_code from public.promo_codes c where c.code_hash = p_code_hash for update;
+
+  if not found then
+    v_status := 'INVALID_CODE';
+  elsif v_code.expires_at is not null and v_code.expires_at <= now() then
+    v_status := 'EXPIRED';
+  elsif exists (select 1 from public.promo_redemptions r where r.code_id = v_code.id and r.user_id = p_user_id)
+    or exists (
+      select 1 from public.deleted_promo_redemptions d
+      where d.code_id = v_code.id and d.email_hash = public.account_email_hash(p_user_id)
+    ) then
+    v_status := 'ALREADY_REDEEMED';
+  elsif v_code.max_redemptions is not null and v_code.redemption_count >= v_code.max_redemptions then
+    v_status := 'EXHAUSTED';
+  else
+    v_status := 'REDEEMED';
+  end if;
+
+  insert into public.promo_redemption_attempts (user_id, succeeded) values (p_user_id, v_status = 'REDEEMED');
+
+  if v_status <> 'REDEEMED' then
+    return query select v_status, null::text, null::integer, null::timestamptz, null::numeric;
+    return;
+  end if;
+
+  insert into public.promo_redemptions (code_id, user_id) values (v_code.id, p_user_id);
+  update public.promo_codes c set redemption_count = c.redemption_count + 1 where c.id = v_code.id;
+
+  -- Pro days stack on top of an unexpired grant
+  if v_code.grant_type = 'pro_days' then
+    update public.profiles p
+      set pro_until = greatest(coalesce(p.pro_until, now()), now()) + make_interval(days => v_code.grant_value)
+      where p.user_id = p_user_id;
+  else
+    update public.profiles p
+      set bonus_generations = p.bonus_generations + v_code.grant_value
+      where p.user_id = p_user_id;
+  end if;
+
+  return query
+    select 'REDEEMED'::text, v_code.grant_type, v_code.grant_value, p.pro_until, p.bonus_generations
+    from public.profiles p
+    where p.user_id = p_user_id;
+end;
+$$;
+
+revoke all on function public.redeem_promo_code(uuid, text, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,55 @@
+-- Accept a workspace invite atomically. The workspace row is locked while seats are
+-- counted, so concurrent acceptances can't fill a paid workspace past its seats, and the
+-- invite row is locked so one invite is accepted once. Returns a status (JOINED,
+-- INVALID_INVITE, ALREADY_MEMBER, NO_SEATS) and the member count after joining.
+create or replace function public.accept_workspace_invite(p_invite_id uuid, p_user_id uuid)
+returns table (status text, member_count integer)
+language plpgsql
+as $$
+declare
+  v_invite public.workspace_invites%rowtype;
+  v_workspace public.workspaces%rowtype;
+  v_count integer;
+begin
+  select * into v_invite from public.workspace_invites i where i.id = p_invite_id for update;
+
+  if not found or v_invite.accepted_at is not null or v_invite.expires_at <= now() then
+    return query select 'INVALID_INVITE'::text, null::integer;
+    return;
+  end if;
+
+  select * into v_workspace from public.workspaces w where w.id = v_invite.workspace_id for update;
+
+  if not found then
+    return query select 'INVALID_INVITE'::text, null::integer;
+    return;
+  end if;
+
+  if exists (select 1 from public.workspace_members m where m.user_id = p_user_id) then
+    return query select 'ALREADY_MEMBER'::text, null::integer;
+    return;
+  end if;
+
+  select count(*) into v_count from public.workspace_members m where m.workspace_id = v_workspace.id;
+
+  if v_workspace.pro and v_count >= v_workspace.seats then
+    return query select 'NO_SEATS'::text, v_count;
+    return;
+  end if;
+
+  begin
+    insert into public.workspace_members (workspace_id, user_id, role)
+    values (v_workspace.id, p_user_id, v_invite.role);
+  exception when unique_violation then
+    -- Joined another workspace concurrently
+    return query select 'ALREADY_MEMBER'::text, null::integer;
+    return;
+  end;
+
+  update public.workspace_invites i set accepted_at = now() where i.id = v_invite.id;
+
+  return query select 'JOINED'::text, v_count + 1;
+end;
+$$;
+
+revoke all on function public.accept_workspace_invite(uuid, uuid) from public, anon, authenticated;
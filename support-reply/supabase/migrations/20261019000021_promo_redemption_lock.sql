@@ -0,0 +1,84 @@
+-- Serialize promo redemptions per user. The failed-attempt count and the new attempt
+-- used to run without a lock, so parallel guesses all saw the same count and slipped
+-- past the rate limit. A transaction-level advisory lock on the user makes the count,
+-- the attempt and the grant one step per user; otherwise unchanged from 20261019000019.
+create or replace function public.redeem_promo_code(
+  p_user_id uuid,
+  p_code_hash text,
+  p_max_failed_attempts integer,
+  p_window_seconds integer
+)
+returns table (
+  status text,
+  grant_type text,
+  grant_value integer,
+  pro_until timestamptz,
+  bonus_generations numeric
+)
+language plpgsql
+as $$
+declare
+  v_code public.promo_codes%rowtype;
+  v_failed integer;
+  v_status text;
+begin
+  perform pg_advisory_xact_lock(hashtext('redeem_promo_code:' || p_user_id::text));
+
+  select count(*) into v_failed
+  from public.promo_redemption_attempts a
+  where a.user_id = p_user_id
+    and not a.succeeded
+    and a.attempted_at > now() - make_interval(secs => p_window_seconds);
+
+  if v_failed >= p_max_failed_attempts then
+    return query select 'RATE_LIMITED'::text, null::text, null::integer, null::timestamptz, null::numeric;
+    return;
+  end if;
+
+  select * into v_code from public.promo_codes c where c.code_hash = p_code_hash for update;
+
+  if not found then
+    v_status := 'INVALID_CODE';
+  elsif v_code.expires_at is not null and v_code.expires_at <= now() then
+    v_status := 'EXPIRED';
+  elsif exists (select 1 from public.promo_redemptions r where r.code_id = v_code.id and r.user_id = p_user_id)
+    or exists (
+      select 1 from public.deleted_promo_redemptions d
+      where d.code_id = v_code.id and d.email_hash = public.account_email_hash(p_user_id)
+    ) then
+    v_status := 'ALREADY_REDEEMED';
+  elsif v_code.max_redemptions is not null and v_code.redemption_count >= v_code.max_redemptions then
+    v_status := 'EXHAUSTED';
+  else
+    v_status := 'REDEEMED';
+  end if;
+
+  insert into public.promo_redemption_attempts (user_id, succeeded) values (p_user_id, v_status = 'REDEEMED');
+
+  if v_status <> 'REDEEMED' then
+    return query select v_status, null::text, null::integer, null::timestamptz, null::numeric;
+    return;
+  end if;
+
+  insert into public.promo_redemptions (code_id, user_id) values (v_code.id, p_user_id);
+  update public.promo_codes c set redemption_count = c.redemption_count + 1 where c.id = v_code.id;
+
+  -- Pro days stack on top of an unexpired grant
+  if v_code.grant_type = 'pro_days' then
+    update public.profiles p
+      set pro_until = greatest(coalesce(p.pro_until, now()), now()) + make_interval(days => v_code.grant_value)
+      where p.user_id = p_user_id;
+  else
+    update public.profiles p
+      set bonus_generations = p.bonus_generations + v_code.grant_value
+      where p.user_id = p_user_id;
+  end if;
+
+  return query
+    select 'REDEEMED'::text, v_code.grant_type, v_code.grant_value, p.pro_until, p.bonus_generations
+    from public.profiles p
+    where p.user_id = p_user_id;
+end;
+$$;
+
+revoke all on function public.redeem_promo_code(uuid, text, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,17 @@
+-- API key callers use the service role, where auth.uid() is null, so the user whose
+-- retention changed is passed in. The function stays security invoker: under a session,
+-- RLS still limits it to the caller's own rows whatever ID is passed.
+drop function if exists public.apply_history_retention(integer);
+
+create or replace function public.apply_history_retention(p_user_id uuid, p_retention_days integer)
+returns void
+language sql
+security invoker
+as $$
+  update public.generation_history
+  set expires_at = created_at + make_interval(days => p_retention_days)
+  where user_id = p_user_id;
+
+  delete from public.generation_history
+  where user_id = p_user_id and expires_at <= now();
+$$;